@@ -65,6 +65,17 @@ const nextConfig = {
           },
         ],
       },
+      // The service worker must be checked for updates, not cached like
+      // other scripts
+      {
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'no-cache',
+          },
+        ],
+      },
       // Preconnect headers
       {
         source: '/:path*',
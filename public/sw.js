@@ -0,0 +1,142 @@
+/**
+ * Service worker for offline playback. Serves /offline-audio/<trackId>
+ * from the downloads in IndexedDB, decrypting only the chunks a request
+ * covers, with Range support so the player can seek. Everything else goes
+ * to the network untouched.
+ *
+ * The database layout is defined in src/lib/offline/offline-db.ts; keep
+ * the two in step.
+ */
+
+const OFFLINE_DB_NAME = 'offline-audio';
+const OFFLINE_AUDIO_PATH = '/offline-audio/';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  // Take over open pages straight away, so they can play downloads
+  // without a reload
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(OFFLINE_AUDIO_PATH)) return;
+
+  const trackId = decodeURIComponent(url.pathname.slice(OFFLINE_AUDIO_PATH.length));
+  event.respondWith(serveDownload(trackId, event.request.headers.get('Range')));
+});
+
+// --- IndexedDB ---
+
+function requestResult(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function openDB() {
+  const request = indexedDB.open(OFFLINE_DB_NAME);
+  // The page creates the database; there's nothing to serve before it has
+  request.onupgradeneeded = () => request.transaction.abort();
+
+  const db = await requestResult(request);
+  // Don't hold up the page upgrading it
+  db.onversionchange = () => db.close();
+  return db;
+}
+
+async function get(db, storeName, key) {
+  return requestResult(db.transaction(storeName).objectStore(storeName).get(key));
+}
+
+// --- Serving ---
+
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec((header || '').trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size) return 'unsatisfiable';
+  return end < start ? null : { start, end };
+}
+
+async function decryptChunk(db, key, download, index) {
+  const chunk = await get(db, 'chunks', [download.trackId, index]);
+  if (!chunk) throw new Error(`Chunk ${index} of ${download.trackId} is missing`);
+
+  const plain = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: chunk.iv,
+      additionalData: new TextEncoder().encode(`${download.trackId}:${index}`),
+    },
+    key,
+    chunk.data
+  );
+  return new Uint8Array(plain);
+}
+
+async function serveDownload(trackId, rangeHeader) {
+  let db;
+  try {
+    db = await openDB();
+  } catch {
+    return new Response('Not downloaded', { status: 404 });
+  }
+
+  const download = await get(db, 'downloads', trackId);
+  if (!download || !download.complete || !download.expiresAt || download.expiresAt.getTime() <= Date.now()) {
+    return new Response('Not downloaded', { status: 404 });
+  }
+
+  const key = await get(db, 'keys', 'audio');
+  const size = download.size;
+  const range = parseRange(rangeHeader, size);
+  if (range === 'unsatisfiable') {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  const start = range ? range.start : 0;
+  const end = range ? range.end : size - 1;
+  let index = Math.floor(start / download.chunkSize);
+  const lastIndex = Math.floor(end / download.chunkSize);
+
+  // One chunk is decrypted per pull, so a seek only costs the chunks it reads
+  const body = new ReadableStream({
+    async pull(controller) {
+      try {
+        const plain = await decryptChunk(db, key, download, index);
+        const chunkStart = index * download.chunkSize;
+        const from = Math.max(0, start - chunkStart);
+        const to = Math.min(plain.byteLength, end - chunkStart + 1);
+        controller.enqueue(plain.subarray(from, to));
+
+        index += 1;
+        if (index > lastIndex) controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  const headers = {
+    'Content-Type': download.contentType,
+    'Content-Length': String(end - start + 1),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'no-store',
+  };
+  if (range) headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+
+  return new Response(body, { status: range ? 206 : 200, headers });
+}
@@ -0,0 +1,664 @@
+#!/usr/bin/env node
+
+/**
+ * Offline audio analysis that produces TrackFeatures for the recommender.
+ *
+ * Usage:
+ *   node scripts/analyze-audio.js [audio-dir] [options]
+ *
+ * Options:
+ *   --catalog <file>    Catalog JSON whose tracks are analyzed (default: src/data/mock-music-database.json)
+ *   --out <file>        Features JSON to write (default: src/data/track-features.json)
+ *   --no-gain           Don't write ReplayGain values back into the catalog
+ *   --dry-run           Analyze and print the report without writing anything
+ *
+ * Each catalog track is matched to the file named by its streamUrl (or
+ * previewUrl) inside audio-dir (default: media/audio). PCM and float WAV
+ * files are decoded; MP3 needs a decoder this repo doesn't ship, so those
+ * tracks are reported as skipped.
+ *
+ * Measured: tempo (onset autocorrelation), loudness (gated RMS, dBFS),
+ * key/mode (chroma vs. Krumhansl-Kessler profiles), time signature,
+ * spectral centroid/flatness and zero-crossing statistics.
+ * Derived from those: danceability, energy, valence, acousticness,
+ * instrumentalness and speechiness, plus mood and context tags.
+ * Liveness has no usable signal here and is written as a fixed prior.
+ *
+ * Loudness normalization: each analyzed track gets a ReplayGain entry in
+ * the catalog (gain towards the player's reference level, and its sample
+ * peak), measured at full rate over the whole file. Albums whose tracks
+ * were all analyzed also get an album gain and peak.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const DEFAULT_AUDIO_DIR = path.join(ROOT, 'media', 'audio');
+const DEFAULT_CATALOG = path.join(ROOT, 'src', 'data', 'mock-music-database.json');
+const DEFAULT_OUT = path.join(ROOT, 'src', 'data', 'track-features.json');
+
+// Bump when the analysis changes so stale feature files can be spotted
+const ANALYZER_VERSION = 1;
+
+const ANALYSIS_SAMPLE_RATE = 11025;
+const MAX_ANALYSIS_SECONDS = 120;
+const FLUX_FFT_SIZE = 1024;
+const FLUX_HOP = 128;
+const CHROMA_FFT_SIZE = 4096;
+const CHROMA_HOP = 2048;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const LIVENESS_PRIOR = 0.1;
+
+// Level the player normalizes every track to, in dB; the player only
+// applies the gains written here (src/lib/audio/loudness.ts)
+const REFERENCE_LOUDNESS = -14;
+const MAX_NORMALIZATION_GAIN = 12;
+
+// Krumhansl-Kessler key profiles, starting at the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+function parseArgs(argv) {
+  const options = {
+    audioDir: DEFAULT_AUDIO_DIR,
+    catalog: DEFAULT_CATALOG,
+    out: DEFAULT_OUT,
+    writeGain: true,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--catalog') options.catalog = path.resolve(argv[++i] || '');
+    else if (arg === '--out') options.out = path.resolve(argv[++i] || '');
+    else if (arg === '--no-gain') options.writeGain = false;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.audioDir = path.resolve(arg);
+  }
+
+  return options;
+}
+
+// --- Decoding -------------------------------------------------------------
+
+function decodeWav(buffer) {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format = null;
+  let data = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let audioFormat = buffer.readUInt16LE(body);
+      if (audioFormat === 0xfffe && chunkSize >= 26) {
+        audioFormat = buffer.readUInt16LE(body + 24); // WAVE_FORMAT_EXTENSIBLE sub-format
+      }
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      data = buffer.subarray(body, Math.min(body + chunkSize, buffer.length));
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format || !data) throw new Error('Missing fmt or data chunk');
+
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  const readers = {
+    '1:8': at => (data.readUInt8(at) - 128) / 128,
+    '1:16': at => data.readInt16LE(at) / 32768,
+    '1:24': at => data.readIntLE(at, 3) / 8388608,
+    '1:32': at => data.readInt32LE(at) / 2147483648,
+    '3:32': at => data.readFloatLE(at),
+    '3:64': at => data.readDoubleLE(at),
+  };
+  const read = readers[`${audioFormat}:${bitsPerSample}`];
+  if (!read) throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+
+  const frameCount = Math.floor(data.length / (bytesPerSample * channels));
+  const mono = new Float32Array(frameCount);
+  let peak = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = read((frame * channels + channel) * bytesPerSample);
+      peak = Math.max(peak, Math.abs(sample));
+      sum += sample;
+    }
+    mono[frame] = sum / channels;
+  }
+
+  return { samples: mono, sampleRate, duration: frameCount / sampleRate, peak };
+}
+
+// Box-filter decimation; good enough for the sub-5 kHz content analyzed here
+function downsample(samples, sampleRate, targetRate, maxSeconds) {
+  const factor = Math.max(1, Math.floor(sampleRate / targetRate));
+  const length = Math.min(Math.floor(samples.length / factor), Math.floor((maxSeconds * sampleRate) / factor));
+  const output = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    output[i] = sum / factor;
+  }
+
+  return { samples: output, sampleRate: sampleRate / factor };
+}
+
+// --- Spectral helpers -----------------------------------------------------
+
+function hannWindow(size) {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  return window;
+}
+
+// In-place iterative radix-2 FFT
+function fft(re, im) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+// Calls onFrame(magnitudes, frameIndex) for each windowed frame
+function forEachSpectrum(samples, size, hop, onFrame) {
+  const window = hannWindow(size);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const magnitudes = new Float64Array(size / 2);
+
+  for (let start = 0, index = 0; start + size <= samples.length; start += hop, index++) {
+    for (let i = 0; i < size; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let bin = 0; bin < size / 2; bin++) {
+      magnitudes[bin] = Math.hypot(re[bin], im[bin]);
+    }
+    onFrame(magnitudes, index);
+  }
+}
+
+// --- Measurements ---------------------------------------------------------
+
+// BS.1770-style gating without K-weighting: 400 ms blocks, -70 dB absolute
+// gate, then a relative gate 10 dB under the mean of the remaining blocks
+function measureLoudness(samples, sampleRate) {
+  const block = Math.floor(0.4 * sampleRate);
+  const hop = Math.floor(0.1 * sampleRate);
+  const powers = [];
+
+  for (let start = 0; start + block <= samples.length; start += hop) {
+    let sum = 0;
+    for (let i = start; i < start + block; i++) sum += samples[i] * samples[i];
+    powers.push(sum / block);
+  }
+
+  const toDb = power => 10 * Math.log10(Math.max(power, 1e-12));
+  const mean = values => values.reduce((a, b) => a + b, 0) / Math.max(values.length, 1);
+
+  const absolute = powers.filter(power => toDb(power) > -70);
+  if (absolute.length === 0) return -70;
+
+  const relativeGate = toDb(mean(absolute)) - 10;
+  const gated = absolute.filter(power => toDb(power) > relativeGate);
+  return toDb(mean(gated));
+}
+
+function measureSpectrum(samples, sampleRate) {
+  const binHz = sampleRate / FLUX_FFT_SIZE;
+  const flux = [];
+  let previous = null;
+  let centroidSum = 0;
+  let flatnessSum = 0;
+  let frames = 0;
+
+  forEachSpectrum(samples, FLUX_FFT_SIZE, FLUX_HOP, magnitudes => {
+    let total = 0;
+    let weighted = 0;
+    let logSum = 0;
+    let novelty = 0;
+
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const magnitude = magnitudes[bin];
+      total += magnitude;
+      weighted += magnitude * bin * binHz;
+      logSum += Math.log(magnitude + 1e-10);
+
+      if (previous) {
+        const rise = Math.log1p(magnitude) - Math.log1p(previous[bin]);
+        if (rise > 0) novelty += rise;
+      }
+    }
+
+    if (total > 1e-6) {
+      const arithmetic = total / (magnitudes.length - 1);
+      centroidSum += weighted / total;
+      flatnessSum += Math.exp(logSum / (magnitudes.length - 1)) / arithmetic;
+      frames++;
+    }
+
+    flux.push(novelty);
+    previous = Float64Array.from(magnitudes);
+  });
+
+  return {
+    flux,
+    framesPerSecond: sampleRate / FLUX_HOP,
+    centroid: frames > 0 ? centroidSum / frames : 0,
+    flatness: frames > 0 ? flatnessSum / frames : 0,
+  };
+}
+
+function autocorrelate(signal, lag) {
+  let sum = 0;
+  for (let i = lag; i < signal.length; i++) sum += signal[i] * signal[i - lag];
+  return sum;
+}
+
+// Onset-envelope autocorrelation, weighted towards ~120 BPM to resolve
+// octave errors; pulse clarity is the winning peak relative to lag 0
+function measureTempo(flux, framesPerSecond) {
+  const mean = flux.reduce((a, b) => a + b, 0) / Math.max(flux.length, 1);
+  const envelope = flux.map(value => Math.max(0, value - mean));
+  const energy = autocorrelate(envelope, 0);
+
+  if (energy < 1e-9) {
+    return { tempo: 120, pulseClarity: 0, timeSignature: 4 };
+  }
+
+  const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+  const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+  const correlations = new Map();
+  const correlationAt = lag => {
+    if (!correlations.has(lag)) correlations.set(lag, autocorrelate(envelope, lag));
+    return correlations.get(lag);
+  };
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSecond) / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.9, 2));
+    const score = correlationAt(lag) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation around the peak for sub-frame tempo precision
+  const left = correlationAt(bestLag - 1);
+  const center = correlationAt(bestLag);
+  const right = correlationAt(bestLag + 1);
+  const curvature = left - 2 * center + right;
+  const shift = curvature !== 0 ? (0.5 * (left - right)) / curvature : 0;
+  const tempo = (60 * framesPerSecond) / (bestLag + Math.max(-0.5, Math.min(0.5, shift)));
+
+  // Bars of three vs. four beats: compare periodicity at 3x and 4x the beat
+  const triple = correlationAt(bestLag * 3);
+  const quadruple = correlationAt(bestLag * 4);
+
+  return {
+    tempo,
+    pulseClarity: Math.max(0, Math.min(1, center / energy)),
+    timeSignature: triple > quadruple * 1.1 ? 3 : 4,
+  };
+}
+
+function measureKey(samples, sampleRate) {
+  const binHz = sampleRate / CHROMA_FFT_SIZE;
+  const chroma = new Array(12).fill(0);
+
+  forEachSpectrum(samples, CHROMA_FFT_SIZE, CHROMA_HOP, magnitudes => {
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const frequency = bin * binHz;
+      if (frequency < 55 || frequency > 2000) continue;
+
+      const midi = 69 + 12 * Math.log2(frequency / 440);
+      const pitchClass = ((Math.round(midi) % 12) + 12) % 12;
+      chroma[pitchClass] += magnitudes[bin] * magnitudes[bin];
+    }
+  });
+
+  const correlation = (profile, tonic) => {
+    const meanChroma = chroma.reduce((a, b) => a + b, 0) / 12;
+    const meanProfile = profile.reduce((a, b) => a + b, 0) / 12;
+    let numerator = 0;
+    let chromaVariance = 0;
+    let profileVariance = 0;
+    for (let pitch = 0; pitch < 12; pitch++) {
+      const x = chroma[pitch] - meanChroma;
+      const y = profile[(pitch - tonic + 12) % 12] - meanProfile;
+      numerator += x * y;
+      chromaVariance += x * x;
+      profileVariance += y * y;
+    }
+    const denominator = Math.sqrt(chromaVariance * profileVariance);
+    return denominator > 0 ? numerator / denominator : 0;
+  };
+
+  let best = { key: 0, mode: 1, score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const major = correlation(MAJOR_PROFILE, tonic);
+    const minor = correlation(MINOR_PROFILE, tonic);
+    if (major > best.score) best = { key: tonic, mode: 1, score: major };
+    if (minor > best.score) best = { key: tonic, mode: 0, score: minor };
+  }
+
+  return { key: best.key, mode: best.mode };
+}
+
+// Speech alternates voiced and unvoiced sounds, so its zero-crossing rate swings widely
+function measureZeroCrossings(samples, sampleRate) {
+  const frame = Math.floor(0.025 * sampleRate);
+  const rates = [];
+
+  for (let start = 0; start + frame <= samples.length; start += frame) {
+    let crossings = 0;
+    for (let i = start + 1; i < start + frame; i++) {
+      if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+    }
+    rates.push(crossings / frame);
+  }
+
+  const mean = rates.reduce((a, b) => a + b, 0) / Math.max(rates.length, 1);
+  const variance = rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0) / Math.max(rates.length, 1);
+  return { mean, deviation: Math.sqrt(variance) };
+}
+
+// --- Derived features -----------------------------------------------------
+
+const clamp01 = value => Math.max(0, Math.min(1, value));
+const scale = (value, min, max) => clamp01((value - min) / (max - min));
+const round = (value, digits = 3) => Number(value.toFixed(digits));
+
+function deriveFeatures(measurements) {
+  const { loudness, tempo, pulseClarity, mode, centroid, flatness, onsetRate, zeroCrossings } = measurements;
+
+  const loudnessLevel = scale(loudness, -30, -5);
+  const brightness = scale(centroid, 300, 3000);
+  const noisiness = scale(flatness, 0.05, 0.5);
+  const tempoFit = Math.exp(-0.5 * Math.pow((tempo - 120) / 30, 2));
+
+  const speechiness = clamp01(scale(zeroCrossings.deviation, 0.02, 0.12) * (1 - pulseClarity * 0.5));
+
+  return {
+    energy: clamp01(0.5 * loudnessLevel + 0.25 * onsetRate + 0.25 * brightness),
+    danceability: clamp01(0.6 * pulseClarity + 0.4 * tempoFit * pulseClarity + 0.2 * onsetRate * pulseClarity),
+    valence: clamp01(0.4 * mode + 0.3 * scale(tempo, 60, 180) + 0.3 * brightness),
+    acousticness: clamp01(1 - (0.6 * brightness + 0.4 * noisiness)),
+    instrumentalness: clamp01(1 - speechiness * 1.5),
+    speechiness,
+    liveness: LIVENESS_PRIOR,
+  };
+}
+
+function deriveTags(features) {
+  const moodTags = [];
+  if (features.valence >= 0.6) moodTags.push('happy', 'uplifting');
+  if (features.valence <= 0.35) moodTags.push('sad', 'melancholic');
+  if (features.energy >= 0.7) moodTags.push('energetic');
+  if (features.energy <= 0.35) moodTags.push('calm');
+
+  const contextTags = [];
+  if (features.energy >= 0.7 && features.tempo >= 115) contextTags.push('workout');
+  if (features.danceability >= 0.7) contextTags.push('party');
+  if (features.energy <= 0.4) contextTags.push('chill');
+  if (features.energy <= 0.25) contextTags.push('sleep');
+  if (features.instrumentalness >= 0.6 && features.energy <= 0.6) contextTags.push('focus', 'study');
+
+  return { moodTags, contextTags };
+}
+
+function analyzeFile(filePath) {
+  const decoded = decodeWav(fs.readFileSync(filePath));
+  const { samples, sampleRate } = downsample(
+    decoded.samples,
+    decoded.sampleRate,
+    ANALYSIS_SAMPLE_RATE,
+    MAX_ANALYSIS_SECONDS
+  );
+
+  const loudness = measureLoudness(samples, sampleRate);
+  const spectrum = measureSpectrum(samples, sampleRate);
+  const rhythm = measureTempo(spectrum.flux, spectrum.framesPerSecond);
+  const tonality = measureKey(samples, sampleRate);
+  const zeroCrossings = measureZeroCrossings(samples, sampleRate);
+
+  // Share of frames with a clear onset, as a rough note-density measure
+  const meanFlux = spectrum.flux.reduce((a, b) => a + b, 0) / Math.max(spectrum.flux.length, 1);
+  const onsets = spectrum.flux.filter(value => value > meanFlux * 2 && value > 1e-3).length;
+  const onsetRate = clamp01((onsets / Math.max(spectrum.flux.length, 1)) * 4);
+
+  const derived = deriveFeatures({
+    loudness,
+    tempo: rhythm.tempo,
+    pulseClarity: rhythm.pulseClarity,
+    mode: tonality.mode,
+    centroid: spectrum.centroid,
+    flatness: spectrum.flatness,
+    onsetRate,
+    zeroCrossings,
+  });
+
+  return {
+    duration: decoded.duration,
+    // Full rate and length for normalization, unlike the analysis excerpt
+    programLoudness: measureLoudness(decoded.samples, decoded.sampleRate),
+    peak: decoded.peak,
+    tempo: rhythm.tempo,
+    timeSignature: rhythm.timeSignature,
+    loudness,
+    key: tonality.key,
+    mode: tonality.mode,
+    ...derived,
+  };
+}
+
+// --- Job ------------------------------------------------------------------
+
+function resolveAudioFile(track, audioDir) {
+  const url = track.streamUrl || track.previewUrl;
+  if (!url) return null;
+  return path.join(audioDir, path.basename(url.split('?')[0]));
+}
+
+const toGain = loudness =>
+  Math.max(-MAX_NORMALIZATION_GAIN, Math.min(MAX_NORMALIZATION_GAIN, REFERENCE_LOUDNESS - loudness));
+
+// Album loudness is the duration-weighted power mean of its tracks
+function buildReplayGain(catalog, measurements) {
+  const gains = {};
+  for (const [trackId, { loudness, peak }] of Object.entries(measurements)) {
+    gains[trackId] = { trackGain: round(toGain(loudness), 2), trackPeak: round(peak, 6) };
+  }
+
+  const albumTracks = new Map();
+  for (const track of catalog.tracks || []) {
+    albumTracks.set(track.album, [...(albumTracks.get(track.album) || []), track.id]);
+  }
+
+  for (const trackIds of albumTracks.values()) {
+    const measured = trackIds.map(trackId => measurements[trackId]);
+    if (measured.some(measurement => !measurement)) continue;
+
+    const totalDuration = measured.reduce((sum, m) => sum + m.duration, 0);
+    const power = measured.reduce((sum, m) => sum + m.duration * Math.pow(10, m.loudness / 10), 0);
+    const albumLoudness = 10 * Math.log10(Math.max(power / Math.max(totalDuration, 1e-9), 1e-12));
+    const albumPeak = Math.max(...measured.map(m => m.peak));
+
+    for (const trackId of trackIds) {
+      gains[trackId].albumGain = round(toGain(albumLoudness), 2);
+      gains[trackId].albumPeak = round(albumPeak, 6);
+    }
+  }
+
+  return gains;
+}
+
+function buildFeatures(catalog, audioDir) {
+  const report = { analyzed: [], skipped: [] };
+  const features = {};
+  const measurements = {};
+
+  for (const track of catalog.tracks || []) {
+    const filePath = resolveAudioFile(track, audioDir);
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      report.skipped.push({ trackId: track.id, reason: 'no audio file' });
+      continue;
+    }
+
+    if (path.extname(filePath).toLowerCase() !== '.wav') {
+      report.skipped.push({ trackId: track.id, reason: `cannot decode ${path.extname(filePath)} files` });
+      continue;
+    }
+
+    try {
+      const analysis = analyzeFile(filePath);
+      const tags = deriveTags(analysis);
+
+      features[track.id] = {
+        trackId: track.id,
+        danceability: round(analysis.danceability),
+        energy: round(analysis.energy),
+        valence: round(analysis.valence),
+        acousticness: round(analysis.acousticness),
+        instrumentalness: round(analysis.instrumentalness),
+        liveness: round(analysis.liveness),
+        speechiness: round(analysis.speechiness),
+        tempo: round(analysis.tempo, 1),
+        loudness: round(analysis.loudness, 1),
+        mode: analysis.mode,
+        key: analysis.key,
+        timeSignature: analysis.timeSignature,
+        duration: round(analysis.duration, 1),
+        genres: track.genres || [],
+        moodTags: tags.moodTags,
+        contextTags: tags.contextTags,
+      };
+      measurements[track.id] = {
+        loudness: analysis.programLoudness,
+        peak: analysis.peak,
+        duration: analysis.duration,
+      };
+      report.analyzed.push(track.id);
+    } catch (error) {
+      report.skipped.push({ trackId: track.id, reason: error.message });
+    }
+  }
+
+  return { features, replayGain: buildReplayGain(catalog, measurements), report };
+}
+
+function printReport(features, replayGain, report, dryRun) {
+  const keyNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+  console.log(`${dryRun ? 'Dry run: would analyze' : 'Analyzed'} ${report.analyzed.length} track(s)`);
+  for (const trackId of report.analyzed) {
+    const f = features[trackId];
+    console.log(
+      `  ${trackId}: ${f.tempo} BPM, ${keyNames[f.key]} ${f.mode ? 'major' : 'minor'}, ` +
+      `${f.loudness} dB, energy ${f.energy}, danceability ${f.danceability}, valence ${f.valence}, ` +
+      `gain ${replayGain[trackId].trackGain} dB`
+    );
+  }
+
+  if (report.skipped.length > 0) {
+    console.log(`Skipped ${report.skipped.length} track(s):`);
+    for (const { trackId, reason } of report.skipped) {
+      console.log(`  ${trackId}: ${reason}`);
+    }
+  }
+}
+
+function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  if (options.help) {
+    console.log('Usage: node scripts/analyze-audio.js [audio-dir] [--catalog <file>] [--out <file>] [--no-gain] [--dry-run]');
+    return;
+  }
+
+  const catalog = JSON.parse(fs.readFileSync(options.catalog, 'utf8'));
+  const { features, replayGain, report } = buildFeatures(catalog, options.audioDir);
+
+  printReport(features, replayGain, report, options.dryRun);
+
+  if (options.dryRun) return;
+
+  const output = {
+    analyzerVersion: ANALYZER_VERSION,
+    generatedAt: new Date().toISOString(),
+    tracks: features,
+  };
+
+  fs.mkdirSync(path.dirname(options.out), { recursive: true });
+  fs.writeFileSync(options.out, JSON.stringify(output, null, 2) + '\n');
+  console.log(`Wrote ${path.relative(ROOT, options.out)}`);
+
+  if (!options.writeGain) return;
+
+  for (const track of catalog.tracks || []) {
+    if (replayGain[track.id]) track.replayGain = replayGain[track.id];
+  }
+  fs.writeFileSync(options.catalog, JSON.stringify(catalog, null, 2) + '\n');
+  console.log(`Wrote ReplayGain for ${Object.keys(replayGain).length} track(s) to ${path.relative(ROOT, options.catalog)}`);
+}
+
+main();
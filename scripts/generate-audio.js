@@ -64,7 +64,7 @@ function writeWAV(samples, sampleRate = 44100) {
 }
 
 // Generate test audio files
-const audioDir = path.join(__dirname, '..', 'public', 'audio');
+const audioDir = path.join(__dirname, '..', 'media', 'audio');
 
 // Create different tones for testing
 const tracks = [
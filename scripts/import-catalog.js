@@ -0,0 +1,477 @@
+#!/usr/bin/env node
+
+/**
+ * Bulk-import tracks, albums and artists into the catalog store.
+ *
+ * Usage:
+ *   node scripts/import-catalog.js <audio-dir> --manifest <manifest.csv|json> [options]
+ *
+ * Options:
+ *   --manifest <file>   CSV or JSON manifest describing each track (required)
+ *   --catalog <file>    Catalog JSON to merge into (default: src/data/mock-music-database.json)
+ *   --audio-out <dir>   Where imported audio is copied (default: media/audio)
+ *   --dry-run           Validate and report without writing anything
+ *
+ * Manifest fields (one row/object per track):
+ *   file, title, artist, album (required)
+ *   trackNumber, genres (";"-separated in CSV), releaseDate, isExplicit, popularity,
+ *   duration (only needed when it cannot be read from the audio file),
+ *   imageUrl, albumType, albumImageUrl, artistBio, artistImageUrl
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { z } = require('zod');
+
+const ROOT = path.join(__dirname, '..');
+const DEFAULT_CATALOG = path.join(ROOT, 'src', 'data', 'mock-music-database.json');
+const DEFAULT_AUDIO_OUT = path.join(ROOT, 'media', 'audio');
+const AUDIO_EXTENSIONS = ['.wav', '.mp3'];
+
+// Schemas mirror the catalog records read by JsonCatalogProvider
+// (Track/Album/Artist in src/types with related entities stored by id)
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const artistSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  bio: z.string().optional(),
+  imageUrl: z.string().optional(),
+  genres: z.array(z.string()),
+  followers: z.number().int().min(0),
+  isVerified: z.boolean(),
+  popularity: z.number().min(0).max(100),
+});
+
+const albumSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  artist: z.string().min(1),
+  releaseDate: isoDate,
+  totalTracks: z.number().int().min(1),
+  imageUrl: z.string().optional(),
+  genres: z.array(z.string()),
+  type: z.enum(['album', 'single', 'compilation']),
+});
+
+const trackSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  artist: z.string().min(1),
+  album: z.string().min(1),
+  duration: z.number().int().positive(),
+  previewUrl: z.string().optional(),
+  streamUrl: z.string().optional(),
+  isExplicit: z.boolean(),
+  popularity: z.number().min(0).max(100),
+  trackNumber: z.number().int().positive().optional(),
+  genres: z.array(z.string()),
+  releaseDate: isoDate,
+  imageUrl: z.string().optional(),
+  // Written by scripts/analyze-audio.js
+  replayGain: z.object({
+    trackGain: z.number(),
+    trackPeak: z.number().min(0),
+    albumGain: z.number().optional(),
+    albumPeak: z.number().min(0).optional(),
+  }).optional(),
+});
+
+const optionalText = z.preprocess(value => (value === '' ? undefined : value), z.string().trim().optional());
+const optionalNumber = z.preprocess(
+  value => (value === '' || value === undefined ? undefined : Number(value)),
+  z.number().optional()
+);
+
+const manifestRowSchema = z.object({
+  file: z.string().trim().min(1, 'file is required'),
+  title: z.string().trim().min(1, 'title is required'),
+  artist: z.string().trim().min(1, 'artist is required'),
+  album: z.string().trim().min(1, 'album is required'),
+  trackNumber: optionalNumber,
+  genres: z.preprocess(
+    value => (typeof value === 'string' ? value.split(';') : value ?? []),
+    z.array(z.string().trim()).transform(genres => genres.filter(Boolean))
+  ),
+  releaseDate: z.preprocess(value => (value === '' ? undefined : value), isoDate.optional()),
+  isExplicit: z.preprocess(
+    value => (typeof value === 'string' ? ['true', '1', 'yes'].includes(value.toLowerCase()) : value ?? false),
+    z.boolean()
+  ),
+  popularity: optionalNumber,
+  duration: optionalNumber,
+  imageUrl: optionalText,
+  albumType: z.preprocess(
+    value => (value === '' ? undefined : value),
+    z.enum(['album', 'single', 'compilation']).optional()
+  ),
+  albumImageUrl: optionalText,
+  artistBio: optionalText,
+  artistImageUrl: optionalText,
+});
+
+function parseArgs(argv) {
+  const options = { catalog: DEFAULT_CATALOG, audioOut: DEFAULT_AUDIO_OUT, dryRun: false };
+  const positional = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--manifest':
+        options.manifest = argv[++i];
+        break;
+      case '--catalog':
+        options.catalog = path.resolve(argv[++i]);
+        break;
+      case '--audio-out':
+        options.audioOut = path.resolve(argv[++i]);
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        positional.push(arg);
+    }
+  }
+
+  options.audioDir = positional[0];
+  return options;
+}
+
+// Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim());
+  return records.map(record =>
+    Object.fromEntries(keys.map((key, index) => [key, record[index] ?? '']))
+  );
+}
+
+function readManifest(manifestPath) {
+  const text = fs.readFileSync(manifestPath, 'utf8');
+  if (manifestPath.toLowerCase().endsWith('.json')) {
+    const data = JSON.parse(text);
+    return Array.isArray(data) ? data : data.tracks || [];
+  }
+  return parseCsv(text);
+}
+
+// Fold case and diacritics so "Beyoncé" and "beyonce" de-duplicate
+function normalizeName(name) {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function nextId(prefix, records) {
+  let max = 0;
+  for (const record of records) {
+    const match = new RegExp(`^${prefix}-(\\d+)$`).exec(record.id);
+    if (match) max = Math.max(max, Number(match[1]));
+  }
+  return () => `${prefix}-${++max}`;
+}
+
+function wavDuration(buffer) {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkId === 'fmt ') {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data' && byteRate > 0) {
+      return chunkSize / byteRate;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+const MP3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+// Estimate MP3 duration from the first MPEG-1 Layer III frame (assumes CBR)
+function mp3Duration(buffer) {
+  let offset = 0;
+  if (buffer.toString('ascii', 0, 3) === 'ID3') {
+    const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+    offset = 10 + size;
+  }
+
+  for (; offset + 4 <= buffer.length; offset++) {
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xfe) !== 0xfa) continue;
+
+    const bitrate = MP3_BITRATES[buffer[offset + 2] >> 4];
+    if (!bitrate) continue;
+
+    return ((buffer.length - offset) * 8) / (bitrate * 1000);
+  }
+  return null;
+}
+
+function readDuration(filePath) {
+  const buffer = fs.readFileSync(filePath);
+  const extension = path.extname(filePath).toLowerCase();
+  const seconds = extension === '.wav' ? wavDuration(buffer) : extension === '.mp3' ? mp3Duration(buffer) : null;
+  return seconds ? Math.round(seconds) : null;
+}
+
+function formatIssues(error) {
+  return error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`).join('; ');
+}
+
+function buildImport(catalog, rows, audioDir) {
+  const report = { errors: [], conflicts: [], artists: [], albums: [], tracks: [], copies: [] };
+
+  const artists = [...catalog.artists];
+  const albums = [...catalog.albums];
+  const tracks = [...catalog.tracks];
+
+  const newArtistId = nextId('artist', artists);
+  const newAlbumId = nextId('album', albums);
+  const newTrackId = nextId('track', tracks);
+
+  const artistByName = new Map(artists.map(artist => [normalizeName(artist.name), artist]));
+  const albumByKey = new Map(albums.map(album => [`${album.artist}::${normalizeName(album.title)}`, album]));
+  const trackKeys = new Set(tracks.map(track => `${track.artist}::${track.album}::${normalizeName(track.title)}`));
+  const usedFiles = new Set();
+
+  rows.forEach((raw, index) => {
+    const line = `entry ${index + 1}`;
+    const parsed = manifestRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      report.errors.push(`${line}: ${formatIssues(parsed.error)}`);
+      return;
+    }
+    const row = parsed.data;
+
+    const sourcePath = path.resolve(audioDir, row.file);
+    const extension = path.extname(row.file).toLowerCase();
+    if (!fs.existsSync(sourcePath)) {
+      report.errors.push(`${line}: audio file not found: ${row.file}`);
+      return;
+    }
+    if (!AUDIO_EXTENSIONS.includes(extension)) {
+      report.errors.push(`${line}: unsupported audio format ${extension} (expected ${AUDIO_EXTENSIONS.join(', ')})`);
+      return;
+    }
+    if (usedFiles.has(sourcePath)) {
+      report.conflicts.push(`${line}: ${row.file} is referenced by more than one entry, skipped`);
+      return;
+    }
+
+    const duration = readDuration(sourcePath) ?? row.duration;
+    if (!duration) {
+      report.errors.push(`${line}: could not determine duration of ${row.file}; add a duration column`);
+      return;
+    }
+    if (row.duration && Math.abs(row.duration - duration) > 2) {
+      report.conflicts.push(`${line}: manifest duration ${row.duration}s differs from audio (${duration}s), using audio`);
+    }
+
+    const releaseDate = new Date(row.releaseDate || Date.now()).toISOString();
+
+    // De-duplicate artists against the catalog and earlier manifest entries
+    let artist = artistByName.get(normalizeName(row.artist));
+    let artistIsNew = false;
+    if (!artist) {
+      artist = {
+        id: newArtistId(),
+        name: row.artist,
+        bio: row.artistBio,
+        imageUrl: row.artistImageUrl,
+        genres: [],
+        followers: 0,
+        isVerified: false,
+        popularity: 0,
+      };
+      artistIsNew = true;
+    } else if (artist.name !== row.artist) {
+      report.conflicts.push(`${line}: artist "${row.artist}" matched existing "${artist.name}" (${artist.id})`);
+    }
+
+    const albumKey = `${artist.id}::${normalizeName(row.album)}`;
+    let album = albumByKey.get(albumKey);
+    let albumIsNew = false;
+    if (!album) {
+      album = {
+        id: newAlbumId(),
+        title: row.album,
+        artist: artist.id,
+        releaseDate,
+        totalTracks: 0,
+        imageUrl: row.albumImageUrl,
+        genres: [],
+        type: row.albumType || 'album',
+      };
+      albumIsNew = true;
+    }
+
+    const trackKey = `${artist.id}::${album.id}::${normalizeName(row.title)}`;
+    if (trackKeys.has(trackKey)) {
+      report.conflicts.push(`${line}: "${row.title}" by ${artist.name} on ${album.title} already exists, skipped`);
+      return;
+    }
+
+    const trackId = newTrackId();
+    const fileName = `${trackId}${extension}`;
+    const track = {
+      id: trackId,
+      title: row.title,
+      artist: artist.id,
+      album: album.id,
+      duration,
+      previewUrl: `/audio/${fileName}`,
+      streamUrl: `/audio/${fileName}`,
+      isExplicit: row.isExplicit,
+      popularity: row.popularity ?? 0,
+      trackNumber: row.trackNumber,
+      genres: row.genres,
+      releaseDate,
+      imageUrl: row.imageUrl || row.albumImageUrl,
+    };
+
+    const checked = trackSchema.safeParse(track);
+    if (!checked.success) {
+      report.errors.push(`${line}: ${formatIssues(checked.error)}`);
+      return;
+    }
+
+    // Only commit shared records once the track itself is valid
+    if (artistIsNew) {
+      artists.push(artist);
+      artistByName.set(normalizeName(artist.name), artist);
+      report.artists.push(artist);
+    }
+    if (albumIsNew) {
+      albums.push(album);
+      albumByKey.set(albumKey, album);
+      report.albums.push(album);
+    }
+
+    artist.genres = [...new Set([...artist.genres, ...row.genres])];
+    album.genres = [...new Set([...album.genres, ...row.genres])];
+
+    tracks.push(checked.data);
+    trackKeys.add(trackKey);
+    usedFiles.add(sourcePath);
+    report.tracks.push(checked.data);
+    report.copies.push({ from: sourcePath, to: fileName });
+  });
+
+  // Keep album track counts in line with the imported tracks
+  for (const album of albums) {
+    const count = tracks.filter(track => track.album === album.id).length;
+    if (count > album.totalTracks) album.totalTracks = count;
+  }
+
+  for (const [schema, records, label] of [[artistSchema, report.artists, 'artist'], [albumSchema, report.albums, 'album']]) {
+    for (const record of records) {
+      const checked = schema.safeParse(record);
+      if (!checked.success) {
+        report.errors.push(`${label} ${record.id}: ${formatIssues(checked.error)}`);
+      }
+    }
+  }
+
+  return { report, catalog: { ...catalog, artists, albums, tracks } };
+}
+
+function printReport(report, dryRun) {
+  console.log(`\n${dryRun ? 'Dry run' : 'Import'} summary`);
+  console.log(`  New artists: ${report.artists.length}`);
+  console.log(`  New albums:  ${report.albums.length}`);
+  console.log(`  New tracks:  ${report.tracks.length}`);
+
+  if (report.conflicts.length > 0) {
+    console.log(`\nConflicts (${report.conflicts.length}):`);
+    report.conflicts.forEach(conflict => console.log(`  - ${conflict}`));
+  }
+
+  if (report.errors.length > 0) {
+    console.log(`\nErrors (${report.errors.length}):`);
+    report.errors.forEach(error => console.log(`  - ${error}`));
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.audioDir || !options.manifest) {
+    console.error('Usage: node scripts/import-catalog.js <audio-dir> --manifest <manifest.csv|json> [--catalog <file>] [--audio-out <dir>] [--dry-run]');
+    process.exit(1);
+  }
+
+  const catalog = JSON.parse(fs.readFileSync(options.catalog, 'utf8'));
+  const rows = readManifest(options.manifest);
+  const { report, catalog: merged } = buildImport(catalog, rows, options.audioDir);
+
+  printReport(report, options.dryRun);
+
+  if (report.errors.length > 0) {
+    console.error('\nImport aborted: fix the errors above and run again.');
+    process.exit(1);
+  }
+
+  if (options.dryRun) {
+    console.log('\nNo changes written (--dry-run).');
+    return;
+  }
+
+  fs.mkdirSync(options.audioOut, { recursive: true });
+  for (const copy of report.copies) {
+    fs.copyFileSync(copy.from, path.join(options.audioOut, copy.to));
+  }
+  fs.writeFileSync(options.catalog, JSON.stringify(merged, null, 2) + '\n');
+
+  console.log(`\nWrote ${report.tracks.length} tracks to ${path.relative(ROOT, options.catalog)}`);
+}
+
+main();
@@ -0,0 +1,217 @@
+#!/usr/bin/env node
+
+/**
+ * Offline transcoding of catalog audio into one rendition per streaming
+ * quality, with a rendition manifest per track.
+ *
+ * Usage:
+ *   node scripts/transcode-audio.js [audio-dir] [options]
+ *
+ * Options:
+ *   --catalog <file>       Catalog JSON whose tracks are transcoded (default: src/data/mock-music-database.json)
+ *   --out <dir>            Where renditions are written (default: <audio-dir>/renditions)
+ *   --quality <list>       Comma-separated qualities to produce (default: low,medium,high,lossless)
+ *   --force                Transcode again even when a rendition is newer than its source
+ *   --dry-run              Report what would be transcoded without writing anything
+ *
+ * Each catalog track is matched to the file named by its streamUrl inside
+ * audio-dir (default: media/audio). Renditions go to <out>/<trackId>/ as
+ * low.mp3, medium.m4a, high.m4a and lossless.flac next to a manifest.json
+ * that the streaming route reads. Lossless renditions are only made from
+ * lossless sources (WAV, FLAC, AIFF). Needs ffmpeg on the PATH.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const ROOT = path.join(__dirname, '..');
+const DEFAULT_AUDIO_DIR = path.join(ROOT, 'media', 'audio');
+const DEFAULT_CATALOG = path.join(ROOT, 'src', 'data', 'mock-music-database.json');
+
+// Bump when the encoder settings change so stale renditions can be spotted
+const MANIFEST_VERSION = 1;
+
+// Keep in sync with QUALITY_SETTINGS in src/lib/subscription/audio-quality-manager.ts
+const RENDITIONS = {
+  low: { bitrate: 96, format: 'mp3', extension: '.mp3', codec: ['-c:a', 'libmp3lame', '-b:a', '96k'] },
+  medium: { bitrate: 160, format: 'aac', extension: '.m4a', codec: ['-c:a', 'aac', '-b:a', '160k'] },
+  high: { bitrate: 320, format: 'aac', extension: '.m4a', codec: ['-c:a', 'aac', '-b:a', '320k'] },
+  lossless: { bitrate: 1411, format: 'flac', extension: '.flac', codec: ['-c:a', 'flac'] },
+};
+
+const SAMPLE_RATE = 44100;
+const LOSSLESS_EXTENSIONS = ['.wav', '.flac', '.aif', '.aiff'];
+const TRACK_ID_PATTERN = /^[\w-]+$/;
+
+function parseArgs(argv) {
+  const options = {
+    audioDir: DEFAULT_AUDIO_DIR,
+    catalog: DEFAULT_CATALOG,
+    out: null,
+    qualities: Object.keys(RENDITIONS),
+    force: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--catalog') options.catalog = path.resolve(argv[++i] || '');
+    else if (arg === '--out') options.out = path.resolve(argv[++i] || '');
+    else if (arg === '--quality') options.qualities = (argv[++i] || '').split(',').map(q => q.trim()).filter(Boolean);
+    else if (arg === '--force') options.force = true;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.audioDir = path.resolve(arg);
+  }
+
+  const unknown = options.qualities.filter(quality => !RENDITIONS[quality]);
+  if (unknown.length > 0 || options.qualities.length === 0) {
+    throw new Error(`Unknown quality ${unknown.join(', ') || '(none given)'}; expected ${Object.keys(RENDITIONS).join(', ')}`);
+  }
+
+  options.out = options.out || path.join(options.audioDir, 'renditions');
+  return options;
+}
+
+function hasFfmpeg() {
+  const result = spawnSync('ffmpeg', ['-version'], { stdio: 'ignore' });
+  return !result.error && result.status === 0;
+}
+
+function resolveSourceFile(track, audioDir) {
+  if (!track.streamUrl) return null;
+  return path.join(audioDir, path.basename(track.streamUrl.split('?')[0]));
+}
+
+function isUpToDate(outputPath, sourcePath) {
+  return fs.existsSync(outputPath) && fs.statSync(outputPath).mtimeMs >= fs.statSync(sourcePath).mtimeMs;
+}
+
+function transcode(sourcePath, outputPath, rendition) {
+  const args = [
+    '-y', '-loglevel', 'error',
+    '-i', sourcePath,
+    '-vn', '-map_metadata', '-1',
+    '-ar', String(SAMPLE_RATE),
+    ...rendition.codec,
+    outputPath,
+  ];
+
+  const result = spawnSync('ffmpeg', args, { encoding: 'utf8' });
+  if (result.error) throw result.error;
+  if (result.status !== 0) {
+    throw new Error((result.stderr || `ffmpeg exited with ${result.status}`).trim());
+  }
+}
+
+// --- Job ------------------------------------------------------------------
+
+function transcodeTrack(track, options) {
+  const sourcePath = resolveSourceFile(track, options.audioDir);
+  if (!sourcePath || !fs.existsSync(sourcePath)) {
+    return { skipped: 'no audio file' };
+  }
+
+  const trackDir = path.join(options.out, track.id);
+  const isLosslessSource = LOSSLESS_EXTENSIONS.includes(path.extname(sourcePath).toLowerCase());
+  const manifestPath = path.join(trackDir, 'manifest.json');
+  // Renditions of qualities left out with --quality stay in the manifest
+  const renditions = fs.existsSync(manifestPath)
+    ? JSON.parse(fs.readFileSync(manifestPath, 'utf8')).renditions || {}
+    : {};
+  const made = [];
+
+  for (const quality of options.qualities) {
+    const rendition = RENDITIONS[quality];
+    // Re-encoding a lossy file losslessly only makes it bigger
+    if (quality === 'lossless' && !isLosslessSource) continue;
+
+    const fileName = `${quality}${rendition.extension}`;
+    const outputPath = path.join(trackDir, fileName);
+
+    if (options.force || !isUpToDate(outputPath, sourcePath)) {
+      if (!options.dryRun) {
+        fs.mkdirSync(trackDir, { recursive: true });
+        transcode(sourcePath, outputPath, rendition);
+      }
+      made.push(quality);
+    }
+
+    renditions[quality] = {
+      file: fileName,
+      bitrate: rendition.bitrate,
+      format: rendition.format,
+      size: fs.existsSync(outputPath) ? fs.statSync(outputPath).size : null,
+    };
+  }
+
+  if (!options.dryRun) {
+    const manifest = {
+      manifestVersion: MANIFEST_VERSION,
+      trackId: track.id,
+      source: path.basename(sourcePath),
+      generatedAt: new Date().toISOString(),
+      renditions,
+    };
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  }
+
+  return { made, renditions: Object.keys(renditions) };
+}
+
+function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  if (options.help) {
+    console.log('Usage: node scripts/transcode-audio.js [audio-dir] [--catalog <file>] [--out <dir>] [--quality <list>] [--force] [--dry-run]');
+    return;
+  }
+
+  if (!options.dryRun && !hasFfmpeg()) {
+    console.error('ffmpeg was not found on the PATH; install it to transcode renditions');
+    process.exit(1);
+  }
+
+  const catalog = JSON.parse(fs.readFileSync(options.catalog, 'utf8'));
+  const skipped = [];
+  let transcoded = 0;
+
+  for (const track of catalog.tracks || []) {
+    if (!TRACK_ID_PATTERN.test(track.id)) {
+      skipped.push({ trackId: track.id, reason: 'unsafe track id' });
+      continue;
+    }
+
+    try {
+      const result = transcodeTrack(track, options);
+      if (result.skipped) {
+        skipped.push({ trackId: track.id, reason: result.skipped });
+        continue;
+      }
+
+      transcoded++;
+      const made = result.made.length > 0 ? `${options.dryRun ? 'would make' : 'made'} ${result.made.join(', ')}` : 'up to date';
+      console.log(`  ${track.id}: ${result.renditions.join(', ')} (${made})`);
+    } catch (error) {
+      skipped.push({ trackId: track.id, reason: error.message });
+    }
+  }
+
+  console.log(`${options.dryRun ? 'Dry run: would transcode' : 'Transcoded'} ${transcoded} track(s) into ${path.relative(ROOT, options.out)}`);
+  if (skipped.length > 0) {
+    console.log(`Skipped ${skipped.length} track(s):`);
+    for (const { trackId, reason } of skipped) {
+      console.log(`  ${trackId}: ${reason}`);
+    }
+  }
+}
+
+main();
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { 
   PlayIcon, 
@@ -24,7 +24,8 @@ import {
 import { AlbumArtwork } from '@/components/common/optimized-image';
 import { GenreTags } from '@/components/common/genre-tags';
 import { usePlayerStore } from '@/stores/player-store';
-import type { Album, Track } from '@/types';
+import { useLibraryStore } from '@/stores/library-store';
+import type { Album, PlaybackContext, Track } from '@/types';
 
 interface AlbumDetails extends Album {
   tracks: Track[];
@@ -41,8 +42,22 @@ interface AlbumDetailClientProps {
  */
 export default function AlbumDetailClient({ album }: AlbumDetailClientProps) {
   const { currentTrack, isPlaying, play, pause, setQueue } = usePlayerStore();
-  const [likedTracks, setLikedTracks] = useState<Set<string>>(new Set());
-  const [isLikedAlbum, setIsLikedAlbum] = useState(false);
+  const {
+    likedTrackIds,
+    savedAlbumIds,
+    checkLikedTracks,
+    checkSavedAlbums,
+    toggleLikedTrack,
+    toggleSavedAlbum,
+  } = useLibraryStore();
+  const isLikedAlbum = !!savedAlbumIds[album.id];
+
+  useEffect(() => {
+    checkSavedAlbums([album.id]);
+    checkLikedTracks(album.tracks.map(track => track.id));
+  }, [album, checkSavedAlbums, checkLikedTracks]);
+
+  const playbackContext: PlaybackContext = { type: 'album', id: album.id, name: album.title };
 
   const isCurrentAlbumPlaying = album.tracks.some(track => 
     currentTrack?.id === track.id && isPlaying
@@ -54,30 +69,22 @@ export default function AlbumDetailClient({ album }: AlbumDetailClientProps) {
     if (isCurrentAlbumPlaying) {
       pause();
     } else {
-      setQueue(album.tracks, 0);
+      setQueue(album.tracks, 0, playbackContext);
       play(album.tracks[0]);
     }
   };
 
   const handlePlayTrack = (track: Track, trackIndex: number) => {
-    setQueue(album.tracks, trackIndex);
+    setQueue(album.tracks, trackIndex, playbackContext);
     play(track);
   };
 
-  const handleLikeTrack = (trackId: string) => {
-    setLikedTracks(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(trackId)) {
-        newSet.delete(trackId);
-      } else {
-        newSet.add(trackId);
-      }
-      return newSet;
-    });
+  const handleLikeTrack = (track: Track) => {
+    toggleLikedTrack(track).catch(() => {});
   };
 
   const handleLikeAlbum = () => {
-    setIsLikedAlbum(!isLikedAlbum);
+    toggleSavedAlbum(album).catch(() => {});
   };
 
   const handleShare = () => {
@@ -240,9 +247,9 @@ export default function AlbumDetailClient({ album }: AlbumDetailClientProps) {
                   track={track}
                   trackIndex={index}
                   totalTracks={album.totalTracks}
-                  isLiked={likedTracks.has(track.id)}
+                  isLiked={!!likedTrackIds[track.id]}
                   onPlay={() => handlePlayTrack(track, index)}
-                  onLike={() => handleLikeTrack(track.id)}
+                  onLike={() => handleLikeTrack(track)}
                 />
               ))}
             </div>
@@ -42,13 +42,6 @@ export async function GET(
       );
     }
     
-    if (error instanceof Error && error.message === 'Artist not found for this album') {
-      return NextResponse.json(
-        { error: 'Artist not found for this album' },
-        { status: 404 }
-      );
-    }
-    
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
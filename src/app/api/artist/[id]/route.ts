@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import mockDatabase from '@/data/mock-music-database.json';
+import { getCatalog } from '@/lib/data/catalog-provider';
 import type { Artist, Album, Track } from '@/types';
 
 interface ArtistDetails extends Artist {
@@ -32,8 +32,8 @@ export async function GET(
       );
     }
 
-    // Find artist in mock database
-    const artist = mockDatabase.artists.find(a => a.id === id);
+    const catalog = getCatalog();
+    const artist = await catalog.getArtist(id);
     
     if (!artist) {
       return NextResponse.json(
@@ -43,42 +43,11 @@ export async function GET(
     }
 
     // Get artist's albums
-    const artistAlbums = mockDatabase.albums
-      .filter(album => album.artist === id)
-      .map(album => ({
-        ...album,
-        artist: artist,
-        releaseDate: new Date(album.releaseDate),
-        type: album.type as "album" | "single" | "compilation",
-      }))
+    const artistAlbums = (await catalog.getAlbumsByArtist(id))
       .sort((a, b) => b.releaseDate.getTime() - a.releaseDate.getTime());
 
     // Get artist's tracks with album information
-    const artistTracks = mockDatabase.tracks
-      .filter(track => track.artist === id)
-      .map(track => {
-        const trackAlbum = mockDatabase.albums.find(album => album.id === track.album);
-        return {
-          ...track,
-          artist: artist,
-          album: trackAlbum ? {
-            ...trackAlbum,
-            artist: artist,
-            releaseDate: new Date(trackAlbum.releaseDate),
-            type: trackAlbum.type as "album" | "single" | "compilation",
-          } : {
-            id: 'unknown',
-            title: 'Unknown Album',
-            artist: artist,
-            releaseDate: new Date(),
-            totalTracks: 1,
-            genres: [],
-            type: 'album' as const,
-          },
-          releaseDate: new Date(track.releaseDate),
-          genres: track.genres || [],
-        };
-      })
+    const artistTracks = (await catalog.getTracksByArtist(id))
       .sort((a, b) => b.popularity - a.popularity);
 
     // Get top tracks (limited to 10)
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { behaviorRepository } from '@/lib/data/behavior-repository';
+import { UserProfileManager } from '@/lib/recommendations/user-profile-manager';
+
+const MAX_BATCH_SIZE = 100;
+
+const behaviorSchema = z.object({
+  id: z.string().min(1).max(100),
+  trackId: z.string().min(1).max(100),
+  action: z.enum(['play', 'skip', 'like', 'add_to_playlist', 'share']),
+  timestamp: z.coerce.date(),
+  listenDuration: z.number().min(0).optional(),
+  context: z.object({
+    type: z.enum(['playlist', 'album', 'artist', 'liked', 'queue']),
+    id: z.string().optional(),
+    name: z.string().optional(),
+  }).optional(),
+  sessionId: z.string().min(1).max(100),
+  deviceType: z.enum(['mobile', 'desktop', 'tablet']),
+  timeOfDay: z.enum(['morning', 'afternoon', 'evening', 'night']),
+});
+
+const batchSchema = z.object({
+  events: z.array(behaviorSchema).min(1).max(MAX_BATCH_SIZE),
+});
+
+const profileManager = new UserProfileManager();
+
+/**
+ * POST /api/events/behavior
+ * Ingests a batch of listening-behavior events for the signed-in user,
+ * then rebuilds and persists their taste profile from the stored history.
+ * Events already recorded (by id) are ignored, so batches can be retried.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validatedFields = batchSchema.safeParse(await request.json());
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        {
+          error: `Between 1 and ${MAX_BATCH_SIZE} valid events are required`,
+          errors: validatedFields.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = session.user.id;
+    const events = validatedFields.data.events.map(event => ({ ...event, userId }));
+
+    const result = await behaviorRepository.recordBehaviors(userId, events);
+
+    let profileVersion = (await behaviorRepository.getProfile(userId))?.version ?? null;
+    if (result.accepted > 0) {
+      const behaviors = await behaviorRepository.listBehaviors(userId);
+      const profile = await profileManager.buildUserProfileFromBehaviors(userId, behaviors);
+      profileVersion = (await behaviorRepository.saveProfile(profile)).version;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, profileVersion },
+    });
+  } catch (error) {
+    console.error('Error ingesting behavior events:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
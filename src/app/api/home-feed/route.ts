@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  getServerRecommendationEngine,
+  getCacheMaxAge,
+  withRecentlyPlayed,
+} from '@/lib/recommendations/server-engine';
+
+/**
+ * GET /api/home-feed
+ * Generates the signed-in user's home feed on the server. Pass refresh=true
+ * to bypass cached sections. The response may be cached privately for the
+ * shortest TTL among the returned sections.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const refresh = searchParams.get('refresh') === 'true';
+
+    const engine = getServerRecommendationEngine();
+    const homeFeed = await withRecentlyPlayed(await engine.getHomeFeed(session.user.id, refresh));
+    const maxAge = getCacheMaxAge(homeFeed.sections.map(section => section.type));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: homeFeed,
+      },
+      {
+        headers: {
+          'Cache-Control': refresh ? 'private, no-cache' : `private, max-age=${maxAge}`,
+          Vary: 'Cookie',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error generating home feed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
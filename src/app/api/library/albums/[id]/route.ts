@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { libraryRepository } from '@/lib/data/library-repository';
+
+/**
+ * PUT /api/library/albums/[id]
+ * Saves an album to the signed-in user's library
+ */
+export async function PUT(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const [saved] = await libraryRepository.containsSavedAlbums(session.user.id, [resolvedParams.id]);
+
+    if (!saved) {
+      const added = await libraryRepository.saveAlbums(session.user.id, [resolvedParams.id]);
+      if (added.length === 0) {
+        return NextResponse.json(
+          { error: 'Album not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving album:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/library/albums/[id]
+ * Removes an album from the signed-in user's library
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    await libraryRepository.removeAlbums(session.user.id, [resolvedParams.id]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing saved album:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { libraryRepository, MAX_PAGE_LIMIT } from '@/lib/data/library-repository';
+
+/**
+ * GET /api/library/albums/contains?ids=a,b,c
+ * Returns whether each album is saved in the signed-in user's library,
+ * in the same order as the requested ids
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const albumIds = (searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (albumIds.length === 0 || albumIds.length > MAX_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PAGE_LIMIT} album IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const contains = await libraryRepository.containsSavedAlbums(session.user.id, albumIds);
+
+    return NextResponse.json({
+      success: true,
+      data: contains,
+    });
+  } catch (error) {
+    console.error('Error checking saved albums:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  libraryRepository,
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+} from '@/lib/data/library-repository';
+
+/**
+ * GET /api/library/albums
+ * Lists the signed-in user's saved albums, most recently saved first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_LIMIT));
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_LIMIT || isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_PAGE_LIMIT} and offset must be non-negative` },
+        { status: 400 }
+      );
+    }
+
+    const page = await libraryRepository.listSavedAlbums(session.user.id, { limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    console.error('Error fetching saved albums:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/library/albums
+ * Saves several albums at once
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { albumIds }: { albumIds: string[] } = await request.json();
+
+    if (!albumIds || !Array.isArray(albumIds) || albumIds.length === 0 || albumIds.length > MAX_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PAGE_LIMIT} album IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const added = await libraryRepository.saveAlbums(session.user.id, albumIds);
+
+    return NextResponse.json({
+      success: true,
+      data: { added },
+    });
+  } catch (error) {
+    console.error('Error saving albums:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/library/albums
+ * Removes several albums from the library at once
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { albumIds }: { albumIds: string[] } = await request.json();
+
+    if (!albumIds || !Array.isArray(albumIds) || albumIds.length === 0 || albumIds.length > MAX_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PAGE_LIMIT} album IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const removed = await libraryRepository.removeAlbums(session.user.id, albumIds);
+
+    return NextResponse.json({
+      success: true,
+      data: { removed },
+    });
+  } catch (error) {
+    console.error('Error removing saved albums:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
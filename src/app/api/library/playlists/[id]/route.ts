@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { libraryRepository } from '@/lib/data/library-repository';
+import { playlistRepository, canViewPlaylist } from '@/lib/data/playlist-repository';
+
+/**
+ * PUT /api/library/playlists/[id]
+ * Follows another user's playlist and increments its follower count
+ */
+export async function PUT(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const playlist = await playlistRepository.findById(resolvedParams.id);
+
+    if (!playlist || !canViewPlaylist(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    if (playlist.owner.id === session.user.id) {
+      return NextResponse.json(
+        { error: 'You cannot follow your own playlist' },
+        { status: 400 }
+      );
+    }
+
+    await libraryRepository.followPlaylist(session.user.id, playlist.id);
+    const updated = await playlistRepository.findById(playlist.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { followers: updated?.followers ?? playlist.followers },
+    });
+  } catch (error) {
+    console.error('Error following playlist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/library/playlists/[id]
+ * Unfollows a playlist and decrements its follower count
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    await libraryRepository.unfollowPlaylist(session.user.id, resolvedParams.id);
+    const playlist = await playlistRepository.findById(resolvedParams.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { followers: playlist?.followers ?? 0 },
+    });
+  } catch (error) {
+    console.error('Error unfollowing playlist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { libraryRepository, MAX_PAGE_LIMIT } from '@/lib/data/library-repository';
+
+/**
+ * GET /api/library/playlists/contains?ids=a,b,c
+ * Returns whether the signed-in user follows each playlist,
+ * in the same order as the requested ids
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const playlistIds = (searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (playlistIds.length === 0 || playlistIds.length > MAX_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PAGE_LIMIT} playlist IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const contains = await libraryRepository.containsFollowedPlaylists(session.user.id, playlistIds);
+
+    return NextResponse.json({
+      success: true,
+      data: contains,
+    });
+  } catch (error) {
+    console.error('Error checking followed playlists:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
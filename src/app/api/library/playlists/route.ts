@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { libraryRepository } from '@/lib/data/library-repository';
+
+/**
+ * GET /api/library/playlists
+ * Lists playlists the signed-in user follows, most recently followed first.
+ * Owned playlists are served by /api/playlist.
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const playlists = await libraryRepository.listFollowedPlaylists(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { playlists },
+    });
+  } catch (error) {
+    console.error('Error fetching followed playlists:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { libraryRepository } from '@/lib/data/library-repository';
+
+/**
+ * PUT /api/library/tracks/[id]
+ * Adds a track to the signed-in user's liked songs
+ */
+export async function PUT(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    const [liked] = await libraryRepository.containsLikedTracks(session.user.id, [resolvedParams.id]);
+
+    if (!liked) {
+      const added = await libraryRepository.likeTracks(session.user.id, [resolvedParams.id]);
+      if (added.length === 0) {
+        return NextResponse.json(
+          { error: 'Track not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error liking track:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/library/tracks/[id]
+ * Removes a track from the signed-in user's liked songs
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const resolvedParams = await params;
+    await libraryRepository.unlikeTracks(session.user.id, [resolvedParams.id]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unliking track:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
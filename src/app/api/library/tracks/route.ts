@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import type { LikedTrackSortField } from '@/types';
+import {
+  libraryRepository,
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+} from '@/lib/data/library-repository';
+
+const SORT_FIELDS: LikedTrackSortField[] = ['likedAt', 'title', 'artist', 'album', 'duration'];
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/library/tracks
+ * Lists the signed-in user's liked songs. Supports limit/offset paging,
+ * sortBy/sortOrder, a text filter (q) and likedAfter/likedBefore bounds.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_LIMIT));
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const sortBy = (searchParams.get('sortBy') || 'likedAt') as LikedTrackSortField;
+    const sortOrder = searchParams.get('sortOrder') || 'desc';
+    const likedAfter = parseDate(searchParams.get('likedAfter'));
+    const likedBefore = parseDate(searchParams.get('likedBefore'));
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_LIMIT || isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_PAGE_LIMIT} and offset must be non-negative` },
+        { status: 400 }
+      );
+    }
+
+    if (!SORT_FIELDS.includes(sortBy) || (sortOrder !== 'asc' && sortOrder !== 'desc')) {
+      return NextResponse.json(
+        { error: 'Invalid sort parameters' },
+        { status: 400 }
+      );
+    }
+
+    if (likedAfter === null || likedBefore === null) {
+      return NextResponse.json(
+        { error: 'Invalid date filter' },
+        { status: 400 }
+      );
+    }
+
+    const page = await libraryRepository.listLikedTracks(session.user.id, {
+      limit,
+      offset,
+      sortBy,
+      sortOrder,
+      query: searchParams.get('q') || undefined,
+      likedAfter,
+      likedBefore,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    console.error('Error fetching liked tracks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/library/tracks
+ * Likes several tracks at once
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { trackIds }: { trackIds: string[] } = await request.json();
+
+    if (!trackIds || !Array.isArray(trackIds) || trackIds.length === 0 || trackIds.length > MAX_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PAGE_LIMIT} track IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const added = await libraryRepository.likeTracks(session.user.id, trackIds);
+
+    return NextResponse.json({
+      success: true,
+      data: { added },
+    });
+  } catch (error) {
+    console.error('Error liking tracks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/library/tracks
+ * Removes several tracks from liked songs at once
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { trackIds }: { trackIds: string[] } = await request.json();
+
+    if (!trackIds || !Array.isArray(trackIds) || trackIds.length === 0 || trackIds.length > MAX_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PAGE_LIMIT} track IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const removed = await libraryRepository.unlikeTracks(session.user.id, trackIds);
+
+    return NextResponse.json({
+      success: true,
+      data: { removed },
+    });
+  } catch (error) {
+    console.error('Error unliking tracks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { deviceRegistry, DEVICE_ID_PATTERN } from '@/lib/connect/device-registry';
+
+const commandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('play') }).strict(),
+  z.object({ type: z.literal('pause') }).strict(),
+  z.object({ type: z.literal('next') }).strict(),
+  z.object({ type: z.literal('previous') }).strict(),
+  z.object({ type: z.literal('seek'), position: z.number().min(0) }).strict(),
+  z.object({ type: z.literal('volume'), volume: z.number().min(0).max(1) }).strict(),
+  z.object({ type: z.literal('transfer'), to: z.string().regex(DEVICE_ID_PATTERN) }).strict(),
+  z.object({ type: z.literal('takeover') }).strict(),
+]);
+
+/**
+ * POST /api/me/devices/[deviceId]/commands
+ * Sends a playback command to another of the user's devices
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { deviceId } = await params;
+    const validatedBody = commandSchema.safeParse(await request.json());
+
+    if (!validatedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid command',
+          errors: validatedBody.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!deviceRegistry.sendCommand(session.user.id, deviceId, validatedBody.data)) {
+      return NextResponse.json(
+        { error: 'Device not connected' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error sending device command:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import {
+  deviceRegistry,
+  DEVICE_ID_PATTERN,
+  type DeviceConnection,
+} from '@/lib/connect/device-registry';
+
+// The stream stays open for as long as the player is
+export const dynamic = 'force-dynamic';
+
+// Proxies drop connections that stay quiet for too long
+const KEEPALIVE_INTERVAL = 25000;
+
+const deviceInfoSchema = z.object({
+  id: z.string().regex(DEVICE_ID_PATTERN),
+  name: z.string().min(1).max(100),
+  type: z.enum(['computer', 'smartphone', 'tablet']),
+});
+
+/**
+ * GET /api/me/devices/[deviceId]/events
+ * Registers the calling player as a device and streams server-sent events
+ * to it: `devices` whenever any of the user's devices change, and `command`
+ * when another device sends it one. The device is removed when the stream
+ * closes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const validatedInfo = deviceInfoSchema.safeParse({
+      id: (await params).deviceId,
+      name: searchParams.get('name'),
+      type: searchParams.get('type'),
+    });
+
+    if (!validatedInfo.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid device',
+          errors: validatedInfo.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        const connection: DeviceConnection = {
+          send: (event: string, data: unknown) => {
+            write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+          },
+        };
+        const keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_INTERVAL);
+        const disconnect = deviceRegistry.connect(userId, validatedInfo.data, connection);
+
+        close = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(keepalive);
+          disconnect();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client going away
+          }
+        };
+
+        request.signal.addEventListener('abort', () => close());
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening device events:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { deviceRegistry } from '@/lib/connect/device-registry';
+
+const deviceStateSchema = z.object({
+  isPlaying: z.boolean(),
+  nowPlaying: z.object({
+    trackId: z.string().min(1).max(100),
+    title: z.string().max(200),
+    artist: z.string().max(200),
+  }).strict().nullable(),
+  progress: z.number().min(0),
+  duration: z.number().min(0),
+  volume: z.number().min(0).max(1),
+}).strict();
+
+/**
+ * PUT /api/me/devices/[deviceId]
+ * Reports what a connected device is playing, for the user's other devices
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { deviceId } = await params;
+    const validatedBody = deviceStateSchema.safeParse(await request.json());
+
+    if (!validatedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid device state',
+          errors: validatedBody.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const device = deviceRegistry.updateState(session.user.id, deviceId, validatedBody.data);
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not connected' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: device,
+    });
+  } catch (error) {
+    console.error('Error updating device state:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { deviceRegistry } from '@/lib/connect/device-registry';
+
+/**
+ * GET /api/me/devices
+ * Lists the signed-in user's open players and what each one is playing
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: deviceRegistry.list(session.user.id),
+    });
+  } catch (error) {
+    console.error('Error fetching devices:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import type { PlaybackContext } from '@/types';
+import {
+  historyRepository,
+  DEFAULT_HISTORY_LIMIT,
+  MAX_HISTORY_LIMIT,
+} from '@/lib/data/history-repository';
+
+const CONTEXT_TYPES: PlaybackContext['type'][] = ['playlist', 'album', 'artist', 'liked', 'queue', 'radio'];
+
+function isPlaybackContext(value: unknown): value is PlaybackContext {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type, id, name } = value as Record<string, unknown>;
+  return (
+    CONTEXT_TYPES.includes(type as PlaybackContext['type']) &&
+    (id === undefined || typeof id === 'string') &&
+    (name === undefined || typeof name === 'string')
+  );
+}
+
+/**
+ * GET /api/me/history
+ * Lists the signed-in user's recently played tracks, newest first, with
+ * consecutive replays collapsed. Page with limit and the `before` cursor
+ * returned as nextCursor.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_HISTORY_LIMIT));
+    const beforeParam = searchParams.get('before');
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_HISTORY_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    if (before && isNaN(before.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    const page = await historyRepository.listRecentlyPlayed(session.user.id, { limit, before });
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    console.error('Error fetching listening history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/me/history
+ * Records a play once the player has passed its listen threshold
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { trackId, playedAt, duration, context } = await request.json();
+    const playedAtDate = playedAt ? new Date(playedAt) : new Date();
+
+    if (!trackId || typeof trackId !== 'string') {
+      return NextResponse.json(
+        { error: 'Track ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof duration !== 'number' || !isFinite(duration) || duration < 0) {
+      return NextResponse.json(
+        { error: 'duration must be a non-negative number of seconds' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(playedAtDate.getTime()) || playedAtDate.getTime() > Date.now() + 60 * 1000) {
+      return NextResponse.json(
+        { error: 'Invalid playedAt' },
+        { status: 400 }
+      );
+    }
+
+    if (context !== undefined && !isPlaybackContext(context)) {
+      return NextResponse.json(
+        { error: 'Invalid playback context' },
+        { status: 400 }
+      );
+    }
+
+    const play = await historyRepository.recordPlay(session.user.id, {
+      trackId,
+      playedAt: playedAtDate,
+      duration: Math.round(duration),
+      context,
+    });
+
+    if (!play) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: play,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording play:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/me/history
+ * Clears the signed-in user's listening history
+ */
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const removed = await historyRepository.clearHistory(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { removed },
+    });
+  } catch (error) {
+    console.error('Error clearing listening history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import type { PlayerSession, Track } from '@/types';
+import { getCatalog } from '@/lib/data/catalog-provider';
+import {
+  playerSessionRepository,
+  MAX_SESSION_TRACKS,
+  type PlayerSessionRecord,
+} from '@/lib/data/player-session-repository';
+
+const trackIdsSchema = z.array(z.string().min(1).max(100)).max(MAX_SESSION_TRACKS);
+const queueIndicesSchema = z.array(z.number().int().min(0)).max(MAX_SESSION_TRACKS);
+
+const playerSessionSchema = z.object({
+  queue: trackIdsSchema,
+  upNext: trackIdsSchema,
+  currentTrackId: z.string().min(1).max(100).nullable(),
+  currentIndex: z.number().int().min(-1),
+  isPlayingUpNext: z.boolean(),
+  position: z.number().min(0),
+  playbackContext: z.object({
+    type: z.enum(['playlist', 'album', 'artist', 'liked', 'queue', 'radio']),
+    id: z.string().max(200).optional(),
+    name: z.string().max(200).optional(),
+  }).nullable(),
+  shuffleMode: z.boolean(),
+  shuffleOrder: queueIndicesSchema,
+  shuffleSeed: z.number().int().min(0),
+  repeatMode: z.enum(['off', 'track', 'context']),
+  playHistory: queueIndicesSchema,
+  autoplayStartIndex: z.number().int().min(0).nullable(),
+}).strict();
+
+/**
+ * Swaps stored track ids for catalog tracks. If tracks have left the
+ * catalog since, queue positions no longer line up, so the saved play order
+ * and history are dropped rather than pointing at the wrong tracks.
+ */
+async function hydrateSession(record: PlayerSessionRecord): Promise<PlayerSession> {
+  const catalog = getCatalog();
+  const trackIds = [...new Set([...record.queue, ...record.upNext, ...(record.currentTrackId ? [record.currentTrackId] : [])])];
+  const tracks = new Map((await catalog.getTracks(trackIds)).map(track => [track.id, track]));
+  const resolve = (ids: string[]) => ids.map(id => tracks.get(id)).filter((track): track is Track => !!track);
+
+  const queue = resolve(record.queue);
+  const intact = queue.length === record.queue.length;
+  const currentTrack = record.currentTrackId ? tracks.get(record.currentTrackId) ?? null : null;
+
+  return {
+    queue,
+    upNext: resolve(record.upNext),
+    currentTrack,
+    currentIndex: intact
+      ? record.currentIndex
+      : queue.findIndex(track => track.id === record.currentTrackId),
+    isPlayingUpNext: record.isPlayingUpNext,
+    position: currentTrack ? Math.min(record.position, currentTrack.duration) : 0,
+    playbackContext: record.playbackContext,
+    shuffleMode: record.shuffleMode,
+    shuffleOrder: intact ? record.shuffleOrder : [],
+    shuffleSeed: record.shuffleSeed,
+    repeatMode: record.repeatMode,
+    playHistory: intact ? record.playHistory : [],
+    autoplayStartIndex: intact ? record.autoplayStartIndex : null,
+    updatedAt: new Date(record.updatedAt),
+  };
+}
+
+/**
+ * GET /api/me/player
+ * Returns where the signed-in user left off on any of their devices, or
+ * null if they haven't played anything yet
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const record = await playerSessionRepository.getSession(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: record ? await hydrateSession(record) : null,
+    });
+  } catch (error) {
+    console.error('Error fetching player session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/me/player
+ * Saves the player's current track, position, queue, context and
+ * shuffle/repeat state, with tracks given by id
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validatedBody = playerSessionSchema.safeParse(await request.json());
+
+    if (!validatedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid player session',
+          errors: validatedBody.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const record = await playerSessionRepository.saveSession(session.user.id, validatedBody.data);
+
+    return NextResponse.json({
+      success: true,
+      data: { updatedAt: record.updatedAt },
+    });
+  } catch (error) {
+    console.error('Error saving player session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { preferencesRepository } from '@/lib/data/preferences-repository';
+
+const preferencesUpdateSchema = z.object({
+  favoriteGenres: z.array(z.string().min(1).max(50)).max(20).optional(),
+  preferredAudioQuality: z.enum(['low', 'medium', 'high', 'lossless']).optional(),
+  autoplay: z.boolean().optional(),
+  crossfade: z.boolean().optional(),
+  volumeNormalization: z.enum(['track', 'album', 'off']).optional(),
+  showExplicitContent: z.boolean().optional(),
+  privateSession: z.boolean().optional(),
+}).strict();
+
+/**
+ * GET /api/me/preferences
+ * Returns the signed-in user's settings, with defaults for anything unset
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const preferences = await preferencesRepository.getPreferences(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/me/preferences
+ * Updates only the settings present in the body, e.g. { autoplay: false }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validatedBody = preferencesUpdateSchema.safeParse(await request.json());
+
+    if (!validatedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid preferences',
+          errors: validatedBody.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await preferencesRepository.updatePreferences(
+      session.user.id,
+      validatedBody.data
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
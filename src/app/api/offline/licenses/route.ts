@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { authDB } from '@/lib/auth/database';
+import { getCatalog } from '@/lib/data/catalog-provider';
+import { TierManager } from '@/lib/subscription/tier-manager';
+import { getLicenseExpiry } from '@/lib/offline/offline-license';
+
+const licenseRequestSchema = z.object({
+  trackIds: z.array(z.string().min(1)).min(1).max(100),
+});
+
+/**
+ * POST /api/offline/licenses
+ * Licenses tracks for offline playback for another 30 days. Asked before
+ * a download starts and again while a download's license runs out; tracks
+ * no longer in the catalog come back as revoked.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = licenseRequestSchema.safeParse(body);
+    if (!validatedData.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', errors: validatedData.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const user = await authDB.getUserById(session.user.id);
+    if (!TierManager.hasFeatureAccess(user, 'offline_downloads')) {
+      return NextResponse.json(
+        { error: 'Offline downloads require a Premium plan' },
+        { status: 403 }
+      );
+    }
+
+    const { trackIds } = validatedData.data;
+    const tracks = await getCatalog().getTracks(trackIds);
+    const found = new Set(tracks.map(track => track.id));
+    const expiresAt = getLicenseExpiry();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        licenses: tracks.map(track => ({ trackId: track.id, expiresAt })),
+        revoked: trackIds.filter(trackId => !found.has(trackId)),
+      },
+    });
+  } catch (error) {
+    console.error('Error issuing offline licenses:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { authConfig } from '@/lib/auth/config';
-import { Playlist } from '@/types';
+import {
+  playlistRepository,
+  canEditPlaylistTracks,
+} from '@/lib/data/playlist-repository';
 
 export async function POST(
   request: NextRequest,
@@ -9,7 +11,7 @@ export async function POST(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -27,62 +29,25 @@ export async function POST(
       );
     }
 
-    // In a real app, fetch playlist, verify ownership, and reorder tracks
-    // const playlist = await db.playlist.findUnique({
-    //   where: { id: playlistId },
-    //   include: { tracks: { orderBy: { position: 'asc' } } }
-    // });
+    const playlist = await playlistRepository.findById(playlistId);
 
-    // if (!playlist || playlist.ownerId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Playlist not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
-
-    // Reorder logic would go here:
-    // const tracks = [...playlist.tracks];
-    // const [reorderedItem] = tracks.splice(startIndex, 1);
-    // tracks.splice(endIndex, 0, reorderedItem);
+    if (!playlist || !canEditPlaylistTracks(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
 
-    // Update positions in database
-    // for (let i = 0; i < tracks.length; i++) {
-    //   await db.playlistTrack.update({
-    //     where: { id: tracks[i].id },
-    //     data: { position: i }
-    //   });
-    // }
+    // Indices are positions in the playlist as the client sees it
+    const entry = playlist.tracks[startIndex];
+    if (!entry || endIndex < 0 || endIndex >= playlist.trackCount) {
+      return NextResponse.json(
+        { error: 'Track index out of range' },
+        { status: 400 }
+      );
+    }
 
-    // Mock response - return updated playlist
-    const updatedPlaylist: Playlist = {
-      id: playlistId,
-      name: "Reordered Playlist",
-      description: "Playlist with reordered tracks",
-      imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400&h=400&fit=crop",
-      owner: {
-        id: session.user.id || "user-1",
-        email: session.user.email || "",
-        username: session.user.name || "User",
-        displayName: session.user.name || "User",
-        profileImage: session.user.image || "/images/placeholder-avatar.png",
-        isPremium: false,
-        subscriptionTier: 'free',
-        subscriptionStatus: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      tracks: [], // Would contain reordered tracks
-      isPublic: true,
-      collaborative: false,
-      followers: 0,
-      totalDuration: 0,
-      trackCount: 0,
-      tags: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      playCount: 0,
-      isSmartPlaylist: false,
-    };
+    const updatedPlaylist = await playlistRepository.reorderTracks(playlistId, entry.id, endIndex);
 
     return NextResponse.json(updatedPlaylist);
   } catch (error) {
@@ -92,4 +57,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
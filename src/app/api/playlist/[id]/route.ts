@@ -1,56 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { authConfig } from '@/lib/auth/config';
-import { PlaylistUpdateRequest, Playlist } from '@/types';
-
-// Mock data storage - replace with actual database
-const mockPlaylists: Playlist[] = [];
+import { PlaylistUpdateRequest } from '@/types';
+import {
+  playlistRepository,
+  canManagePlaylist,
+  canViewPlaylist,
+} from '@/lib/data/playlist-repository';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const session = await auth();
     const resolvedParams = await params;
     const playlistId = resolvedParams.id;
-    
-    // In a real app, fetch from database
-    // const playlist = await db.playlist.findUnique({
-    //   where: { id: playlistId },
-    //   include: { tracks: { include: { track: true } }, owner: true }
-    // });
-
-    // Mock response - return sample playlist structure
-    const mockPlaylist: Playlist = {
-      id: playlistId,
-      name: "Sample Playlist",
-      description: "A sample playlist for testing",
-      imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400&h=400&fit=crop",
-      owner: {
-        id: "user-1",
-        email: "user@example.com",
-        username: "testuser",
-        displayName: "Test User",
-        isPremium: false,
-        subscriptionTier: 'free',
-        subscriptionStatus: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      tracks: [],
-      isPublic: true,
-      collaborative: false,
-      followers: 0,
-      totalDuration: 0,
-      trackCount: 0,
-      tags: ["sample", "test"],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      playCount: 0,
-      isSmartPlaylist: false,
-    };
-
-    return NextResponse.json(mockPlaylist);
+
+    const playlist = await playlistRepository.findById(playlistId);
+
+    // Private playlists are reported as missing to anyone but the owner
+    if (!playlist || !canViewPlaylist(playlist, session?.user?.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(playlist);
   } catch (error) {
     console.error('Error fetching playlist:', error);
     return NextResponse.json(
@@ -66,7 +42,7 @@ export async function PATCH(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -77,49 +53,40 @@ export async function PATCH(
     const playlistId = resolvedParams.id;
     const updates: PlaylistUpdateRequest = await request.json();
 
-    // In a real app, fetch existing playlist and check ownership
-    // const existingPlaylist = await db.playlist.findUnique({
-    //   where: { id: playlistId }
-    // });
-    
-    // if (!existingPlaylist || existingPlaylist.ownerId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Playlist not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
-
-    // Mock update response
-    const updatedPlaylist: Playlist = {
-      id: playlistId,
-      name: updates.name || "Updated Playlist",
-      description: updates.description || "",
-      imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400&h=400&fit=crop",
-      owner: {
-        id: session.user.id || "user-1",
-        email: session.user.email || "",
-        username: session.user.name || "User",
-        displayName: session.user.name || "User",
-        profileImage: session.user.image || "/images/placeholder-avatar.png",
-        isPremium: false,
-        subscriptionTier: 'free',
-        subscriptionStatus: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      tracks: [],
-      isPublic: updates.isPublic ?? true,
-      collaborative: updates.collaborative ?? false,
-      followers: 0,
-      totalDuration: 0,
-      trackCount: 0,
-      tags: updates.tags || [],
-      folderId: updates.folderId ? updates.folderId : undefined,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      playCount: 0,
-      isSmartPlaylist: false,
-    };
+    const existingPlaylist = await playlistRepository.findById(playlistId);
+
+    if (!existingPlaylist || !canManagePlaylist(existingPlaylist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    if (updates.name !== undefined && !updates.name.trim()) {
+      return NextResponse.json(
+        { error: 'Playlist name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.folderId) {
+      const folder = await playlistRepository.findFolder(updates.folderId);
+      if (!folder || folder.userId !== session.user.id) {
+        return NextResponse.json(
+          { error: 'Folder not found or unauthorized' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const updatedPlaylist = await playlistRepository.update(playlistId, {
+      name: updates.name,
+      description: updates.description,
+      isPublic: updates.isPublic,
+      collaborative: updates.collaborative,
+      tags: updates.tags,
+      folderId: updates.folderId,
+    });
 
     return NextResponse.json(updatedPlaylist);
   } catch (error) {
@@ -137,7 +104,7 @@ export async function DELETE(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -147,21 +114,16 @@ export async function DELETE(
     const resolvedParams = await params;
     const playlistId = resolvedParams.id;
 
-    // In a real app, check ownership and delete
-    // const playlist = await db.playlist.findUnique({
-    //   where: { id: playlistId }
-    // });
-    
-    // if (!playlist || playlist.ownerId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Playlist not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
-
-    // await db.playlist.delete({
-    //   where: { id: playlistId }
-    // });
+    const playlist = await playlistRepository.findById(playlistId);
+
+    if (!playlist || !canManagePlaylist(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    await playlistRepository.delete(playlistId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -171,4 +133,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
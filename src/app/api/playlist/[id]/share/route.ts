@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { authConfig } from '@/lib/auth/config';
 import { PlaylistShareSettings } from '@/types';
+import { playlistRepository, canManagePlaylist } from '@/lib/data/playlist-repository';
 
 export async function POST(
   request: NextRequest,
@@ -20,22 +21,21 @@ export async function POST(
     const playlistId = resolvedParams.id;
     const settings: Partial<PlaylistShareSettings> = await request.json();
 
-    // In a real app, verify playlist ownership
-    // const playlist = await db.playlist.findUnique({
-    //   where: { id: playlistId }
-    // });
+    const playlist = await playlistRepository.findById(playlistId);
 
-    // if (!playlist || playlist.ownerId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Playlist not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
+    if (!playlist || !canManagePlaylist(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
 
     // Generate unique share URL
     const shareToken = Math.random().toString(36).substr(2, 16);
     const shareUrl = `${process.env.NEXTAUTH_URL}/shared/playlist/${shareToken}`;
 
+    await playlistRepository.update(playlistId, { shareUrl });
+
     // In a real app, save share settings to database
     // const shareSettings: PlaylistShareSettings = {
     //   shareUrl,
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { authConfig } from '@/lib/auth/config';
-import { Playlist } from '@/types';
+import {
+  playlistRepository,
+  canEditPlaylistTracks,
+} from '@/lib/data/playlist-repository';
 
 export async function DELETE(
   request: NextRequest,
@@ -9,7 +11,7 @@ export async function DELETE(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -17,58 +19,18 @@ export async function DELETE(
     }
 
     const resolvedParams = await params;
-const { id: playlistId, trackId } = resolvedParams;
+    const { id: playlistId, trackId } = resolvedParams;
 
-    // In a real app, check playlist ownership and remove specific track
-    // const playlist = await db.playlist.findUnique({
-    //   where: { id: playlistId },
-    //   include: { tracks: true }
-    // });
+    const playlist = await playlistRepository.findById(playlistId);
 
-    // if (!playlist || playlist.ownerId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Playlist not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
-
-    // await db.playlistTrack.deleteMany({
-    //   where: {
-    //     playlistId,
-    //     trackId
-    //   }
-    // });
+    if (!playlist || !canEditPlaylistTracks(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
 
-    // Mock updated playlist with specific track removed
-    const updatedPlaylist: Playlist = {
-      id: playlistId,
-      name: "Updated Playlist",
-      description: "Playlist with track removed",
-      imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400&h=400&fit=crop",
-      owner: {
-        id: session.user.id || "user-1",
-        email: session.user.email || "",
-        username: session.user.name || "User",
-        displayName: session.user.name || "User",
-        profileImage: session.user.image || "/images/placeholder-avatar.png",
-        isPremium: false,
-        subscriptionTier: 'free',
-        subscriptionStatus: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      tracks: [], // Track removed
-      isPublic: true,
-      collaborative: false,
-      followers: 0,
-      totalDuration: 0,
-      trackCount: 0,
-      tags: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      playCount: 0,
-      isSmartPlaylist: false,
-    };
+    const updatedPlaylist = await playlistRepository.removeTracks(playlistId, [trackId]);
 
     return NextResponse.json(updatedPlaylist);
   } catch (error) {
@@ -78,4 +40,4 @@ const { id: playlistId, trackId } = resolvedParams;
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { authConfig } from '@/lib/auth/config';
-import { Playlist, PlaylistTrack } from '@/types';
-
-// Mock data imports
-import mockDatabase from '@/data/mock-music-database.json';
+import {
+  playlistRepository,
+  canEditPlaylistTracks,
+} from '@/lib/data/playlist-repository';
 
 export async function POST(
   request: NextRequest,
@@ -12,7 +11,7 @@ export async function POST(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -30,99 +29,16 @@ export async function POST(
       );
     }
 
-    // In a real app, validate playlist ownership and add tracks
-    // const playlist = await db.playlist.findUnique({
-    //   where: { id: playlistId },
-    //   include: { tracks: true }
-    // });
-
-    // Mock playlist with new tracks added
-    const newTracks: PlaylistTrack[] = trackIds.map((trackId, index) => {
-      const mockTrack = mockDatabase.tracks.find(t => t.id === trackId) || mockDatabase.tracks[0];
-      
-      if (!mockTrack) {
-        throw new Error('Required track data not found');
-      }
-      
-      const mockArtist = mockDatabase.artists.find(a => a.id === mockTrack.artist) || mockDatabase.artists[0];
-      const mockAlbum = mockDatabase.albums.find(a => a.id === mockTrack.album) || mockDatabase.albums[0];
-
-      if (!mockArtist || !mockAlbum) {
-        throw new Error('Required artist or album data not found');
-      }
+    const playlist = await playlistRepository.findById(playlistId);
 
-      return {
-        id: `playlist-track-${playlistId}-${Date.now()}-${index}`,
-        track: {
-          id: mockTrack.id,
-          title: mockTrack.title,
-          artist: mockArtist,
-          album: {
-            id: mockAlbum.id,
-            title: mockAlbum.title,
-            artist: mockArtist,
-            releaseDate: new Date(mockAlbum.releaseDate),
-            totalTracks: mockAlbum.totalTracks,
-            imageUrl: mockAlbum.imageUrl,
-            genres: mockAlbum.genres,
-            type: (mockAlbum.type as "album" | "single" | "compilation") || "album",
-          },
-          duration: mockTrack.duration,
-          previewUrl: mockTrack.previewUrl,
-          streamUrl: mockTrack.streamUrl,
-          isExplicit: mockTrack.isExplicit,
-          popularity: mockTrack.popularity,
-          trackNumber: mockTrack.trackNumber,
-          genres: mockTrack.genres,
-          releaseDate: new Date(mockTrack.releaseDate),
-          imageUrl: mockTrack.imageUrl,
-        },
-        addedAt: new Date(),
-        addedBy: {
-          id: session.user.id || "user-1",
-          email: session.user.email || "",
-          username: session.user.name || "User",
-          displayName: session.user.name || "User",
-          profileImage: session.user.image || "/images/placeholder-avatar.png",
-          isPremium: false,
-          subscriptionTier: 'free',
-          subscriptionStatus: 'active',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        position: index, // In real app, this would be current track count + index
-      };
-    });
+    if (!playlist || !canEditPlaylistTracks(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
 
-    const updatedPlaylist: Playlist = {
-      id: playlistId,
-      name: "Updated Playlist",
-      description: "Playlist with new tracks",
-      imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400&h=400&fit=crop",
-      owner: {
-        id: session.user.id || "user-1",
-        email: session.user.email || "",
-        username: session.user.name || "User",
-        displayName: session.user.name || "User",
-        profileImage: session.user.image || "/images/placeholder-avatar.png",
-        isPremium: false,
-        subscriptionTier: 'free',
-        subscriptionStatus: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      tracks: newTracks,
-      isPublic: true,
-      collaborative: false,
-      followers: 0,
-      totalDuration: newTracks.reduce((sum, t) => sum + t.track.duration, 0),
-      trackCount: newTracks.length,
-      tags: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      playCount: 0,
-      isSmartPlaylist: false,
-    };
+    const updatedPlaylist = await playlistRepository.addTracks(playlistId, trackIds, session.user.id);
 
     return NextResponse.json(updatedPlaylist);
   } catch (error) {
@@ -140,7 +56,7 @@ export async function DELETE(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -158,44 +74,16 @@ export async function DELETE(
       );
     }
 
-    // In a real app, remove tracks from playlist
-    // await db.playlistTrack.deleteMany({
-    //   where: {
-    //     playlistId,
-    //     trackId: { in: trackIds }
-    //   }
-    // });
+    const playlist = await playlistRepository.findById(playlistId);
 
-    // Mock updated playlist with tracks removed
-    const updatedPlaylist: Playlist = {
-      id: playlistId,
-      name: "Updated Playlist",
-      description: "Playlist with tracks removed",
-      imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400&h=400&fit=crop",
-      owner: {
-        id: session.user.id || "user-1",
-        email: session.user.email || "",
-        username: session.user.name || "User",
-        displayName: session.user.name || "User",
-        profileImage: session.user.image || "/images/placeholder-avatar.png",
-        isPremium: false,
-        subscriptionTier: 'free',
-        subscriptionStatus: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      tracks: [], // Tracks removed
-      isPublic: true,
-      collaborative: false,
-      followers: 0,
-      totalDuration: 0,
-      trackCount: 0,
-      tags: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      playCount: 0,
-      isSmartPlaylist: false,
-    };
+    if (!playlist || !canEditPlaylistTracks(playlist, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Playlist not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const updatedPlaylist = await playlistRepository.removeTracks(playlistId, trackIds);
 
     return NextResponse.json(updatedPlaylist);
   } catch (error) {
@@ -205,4 +93,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
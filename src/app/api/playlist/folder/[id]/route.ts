@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { authConfig } from '@/lib/auth/config';
-import { PlaylistFolder } from '@/types';
+import { playlistRepository } from '@/lib/data/playlist-repository';
 
 export async function PATCH(
   request: NextRequest,
@@ -9,7 +8,7 @@ export async function PATCH(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -20,27 +19,16 @@ export async function PATCH(
     const folderId = resolvedParams.id;
     const { name, color }: { name?: string; color?: string } = await request.json();
 
-    // In a real app, verify ownership and update
-    // const folder = await db.playlistFolder.findUnique({
-    //   where: { id: folderId }
-    // });
+    const folder = await playlistRepository.findFolder(folderId);
 
-    // if (!folder || folder.userId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Folder not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
+    if (!folder || folder.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Folder not found or unauthorized' },
+        { status: 404 }
+      );
+    }
 
-    const updatedFolder: PlaylistFolder = {
-      id: folderId,
-      name: name || 'Updated Folder',
-      userId: session.user.id || 'user-1',
-      playlists: [],
-      color: color || '#1DB954',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const updatedFolder = await playlistRepository.updateFolder(folderId, { name, color });
 
     return NextResponse.json(updatedFolder);
   } catch (error) {
@@ -58,7 +46,7 @@ export async function DELETE(
 ) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -68,27 +56,17 @@ export async function DELETE(
     const resolvedParams = await params;
     const folderId = resolvedParams.id;
 
-    // In a real app, verify ownership and delete
-    // const folder = await db.playlistFolder.findUnique({
-    //   where: { id: folderId }
-    // });
-
-    // if (!folder || folder.userId !== session.user.id) {
-    //   return NextResponse.json(
-    //     { error: 'Folder not found or unauthorized' },
-    //     { status: 404 }
-    //   );
-    // }
+    const folder = await playlistRepository.findFolder(folderId);
 
-    // Move playlists out of folder before deleting
-    // await db.playlist.updateMany({
-    //   where: { folderId },
-    //   data: { folderId: null }
-    // });
+    if (!folder || folder.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Folder not found or unauthorized' },
+        { status: 404 }
+      );
+    }
 
-    // await db.playlistFolder.delete({
-    //   where: { id: folderId }
-    // });
+    // Playlists are moved out of the folder before it is deleted
+    await playlistRepository.deleteFolder(folderId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -98,4 +76,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
-import { authConfig } from '@/lib/auth/config';
-import { PlaylistFolder } from '@/types';
+import { playlistRepository } from '@/lib/data/playlist-repository';
 
 export async function POST(request: NextRequest) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -22,21 +21,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate unique ID
-    const folderId = `folder-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-    const newFolder: PlaylistFolder = {
-      id: folderId,
-      name: name.trim(),
-      userId: session.user.id || 'user-1',
-      playlists: [],
-      color: color || '#1DB954', // Spotify green as default
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    // In a real app, save to database
-    // await db.playlistFolder.create({ data: newFolder });
+    const newFolder = await playlistRepository.createFolder(session.user.id, name, color);
 
     return NextResponse.json(newFolder, { status: 201 });
   } catch (error) {
@@ -51,42 +36,16 @@ export async function POST(request: NextRequest) {
 export async function GET(_request: NextRequest) {
   try {
     const session = await auth();
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
 
-    // In a real app, fetch user's folders
-    // const folders = await db.playlistFolder.findMany({
-    //   where: { userId: session.user.id },
-    //   include: { playlists: true }
-    // });
+    const folders = await playlistRepository.listFolders(session.user.id);
 
-    // Mock response
-    const mockFolders: PlaylistFolder[] = [
-      {
-        id: 'folder-1',
-        name: 'Favorites',
-        userId: session.user.id || 'user-1',
-        playlists: [],
-        color: '#1DB954',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      {
-        id: 'folder-2',
-        name: 'Workouts',
-        userId: session.user.id || 'user-1',
-        playlists: [],
-        color: '#FF6B35',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }
-    ];
-
-    return NextResponse.json(mockFolders);
+    return NextResponse.json(folders);
   } catch (error) {
     console.error('Error fetching folders:', error);
     return NextResponse.json(
@@ -94,4 +53,4 @@ export async function GET(_request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { playlistRepository } from '@/lib/data/playlist-repository';
+
+/**
+ * GET /api/playlist
+ * Lists the playlists owned by the signed-in user
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const playlists = await playlistRepository.listByOwner(session.user.id);
+
+    return NextResponse.json(playlists);
+  } catch (error) {
+    console.error('Error fetching playlists:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
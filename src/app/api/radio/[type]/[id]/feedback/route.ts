@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { radioRepository } from '@/lib/data/radio-repository';
+import { getRadioStationGenerator } from '@/lib/recommendations/server-engine';
+
+const seedTypeSchema = z.enum(['track', 'artist', 'genre']);
+
+const feedbackSchema = z.object({
+  trackId: z.string().min(1),
+  rating: z.enum(['up', 'down']).nullable(),
+});
+
+/**
+ * POST /api/radio/{track|artist|genre}/[id]/feedback
+ * Records a thumbs up or down (or clears it with rating: null) for a track
+ * on this station. Later batches are steered by the ratings.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { type, id } = await params;
+    const seedType = seedTypeSchema.safeParse(type);
+    const validatedBody = feedbackSchema.safeParse(await request.json());
+
+    if (!seedType.success) {
+      return NextResponse.json(
+        { error: 'Radio stations start from a track, artist or genre' },
+        { status: 400 }
+      );
+    }
+
+    if (!validatedBody.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid feedback',
+          errors: validatedBody.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const seed = await getRadioStationGenerator().describe({ type: seedType.data, id });
+    if (!seed) {
+      return NextResponse.json(
+        { error: 'Station not found' },
+        { status: 404 }
+      );
+    }
+
+    const { trackId, rating } = validatedBody.data;
+    const station = await radioRepository.rateTrack(session.user.id, seedType.data, seed.seedId, trackId, rating);
+
+    return NextResponse.json({
+      success: true,
+      data: { ratings: station.ratings },
+    });
+  } catch (error) {
+    console.error('Error recording radio feedback:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
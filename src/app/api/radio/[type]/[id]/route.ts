@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import type { RadioStation } from '@/types';
+import { radioRepository } from '@/lib/data/radio-repository';
+import { getRadioStationGenerator } from '@/lib/recommendations/server-engine';
+import { DEFAULT_RADIO_BATCH_SIZE, MAX_RADIO_BATCH_SIZE } from '@/lib/recommendations/radio-station';
+
+const seedTypeSchema = z.enum(['track', 'artist', 'genre']);
+
+const stationParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_RADIO_BATCH_SIZE).optional().default(DEFAULT_RADIO_BATCH_SIZE),
+  reset: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * GET /api/radio/{track|artist|genre}/[id]
+ * Returns the next batch of the signed-in user's station for this seed.
+ * Each call continues where the last one stopped; ?reset=true starts the
+ * station over while keeping its thumbs up/down.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { type, id } = await params;
+    const seedType = seedTypeSchema.safeParse(type);
+    const { searchParams } = new URL(request.url);
+    const validatedParams = stationParamsSchema.safeParse({
+      limit: searchParams.get('limit') ?? undefined,
+      reset: searchParams.get('reset') ?? undefined,
+    });
+
+    if (!seedType.success) {
+      return NextResponse.json(
+        { error: 'Radio stations start from a track, artist or genre' },
+        { status: 400 }
+      );
+    }
+
+    if (!validatedParams.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid radio parameters',
+          errors: validatedParams.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const generator = getRadioStationGenerator();
+    const seed = await generator.describe({ type: seedType.data, id });
+
+    if (!seed) {
+      return NextResponse.json(
+        { error: 'Station not found' },
+        { status: 404 }
+      );
+    }
+
+    const userId = session.user.id;
+    if (validatedParams.data.reset === 'true') {
+      await radioRepository.resetStation(userId, seedType.data, seed.seedId);
+    }
+
+    const station = await radioRepository.getStation(userId, seedType.data, seed.seedId);
+    const tracks = await generator.nextTracks(
+      { type: seedType.data, id: seed.seedId },
+      station,
+      validatedParams.data.limit,
+      userId
+    );
+    await radioRepository.recordServed(userId, seedType.data, seed.seedId, tracks.map(track => track.id));
+
+    const data: RadioStation = {
+      seedType: seedType.data,
+      seedId: seed.seedId,
+      name: seed.name,
+      imageUrl: seed.imageUrl,
+      tracks,
+      ratings: station.ratings,
+    };
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error generating radio station:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
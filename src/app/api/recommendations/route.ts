@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import {
+  getServerRecommendationEngine,
+  getCacheMaxAge,
+  getRecentlyPlayedRecommendations,
+} from '@/lib/recommendations/server-engine';
+
+const SECTION_TYPES = [
+  'discover_weekly', 'daily_mix', 'release_radar', 'recently_played', 'jump_back_in',
+  'heavy_rotation', 'trending_now', 'new_releases', 'charts', 'morning_mix',
+  'evening_chill', 'workout_mix', 'focus_music', 'friends_listening', 'popular_in_network',
+  'because_you_liked', 'similar_artists', 'genre_based', 'mood_based', 'activity_based',
+] as const;
+
+const idList = z.string().max(2000).optional()
+  .transform(value => (value ? value.split(',').filter(Boolean) : undefined));
+
+const recommendationParamsSchema = z.object({
+  section: z.enum(SECTION_TYPES),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  algorithm: z.enum([
+    'collaborative_filtering', 'content_based', 'hybrid', 'popularity_based',
+    'time_contextual', 'mood_based', 'social_collaborative',
+  ]).optional(),
+  diversity: z.enum(['low', 'medium', 'high']).optional(),
+  freshness: z.enum(['low', 'medium', 'high']).optional(),
+  exclude: idList,
+  seedTracks: idList,
+  seedArtists: idList,
+  seedGenres: idList,
+});
+
+/**
+ * GET /api/recommendations
+ * Runs the recommendation engine for one home feed section on the server,
+ * e.g. ?section=daily_mix&limit=20&exclude=track-1,track-2. Cacheable
+ * privately for that section's TTL.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedParams = recommendationParamsSchema.safeParse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validatedParams.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid recommendation parameters',
+          errors: validatedParams.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const params = validatedParams.data;
+    const response = params.section === 'recently_played'
+      ? await getRecentlyPlayedRecommendations(session.user.id, params.limit)
+      : await getServerRecommendationEngine().generateRecommendations({
+        userId: session.user.id,
+        sectionType: params.section,
+        limit: params.limit,
+        algorithm: params.algorithm,
+        diversityLevel: params.diversity,
+        freshnessLevel: params.freshness,
+        excludeTrackIds: params.exclude,
+        seedTracks: params.seedTracks,
+        seedArtists: params.seedArtists,
+        seedGenres: params.seedGenres,
+      });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: response,
+      },
+      {
+        headers: {
+          'Cache-Control': `private, max-age=${getCacheMaxAge([params.section])}`,
+          Vary: 'Cookie',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error generating recommendations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
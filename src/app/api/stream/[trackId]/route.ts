@@ -0,0 +1,151 @@
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { getCatalog } from '@/lib/data/catalog-provider';
+import { audioStorage } from '@/lib/data/audio-storage';
+import { streamUsageRepository } from '@/lib/data/stream-usage-repository';
+import { formatContentRange, parseRangeHeader, type ByteRange } from '@/lib/stream/byte-range';
+import { canStreamQuality, verifyStreamSignature } from '@/lib/stream/stream-signing';
+import { logger } from '@/lib/logger';
+
+// Every response depends on the signature and the Range header
+export const dynamic = 'force-dynamic';
+
+const streamQuerySchema = z.object({
+  quality: z.enum(['low', 'medium', 'high', 'lossless']),
+  tier: z.enum(['free', 'premium', 'student', 'family']),
+  expires: z.coerce.number().int().positive(),
+  signature: z.string().regex(/^[a-f0-9]{64}$/),
+});
+
+/**
+ * Streams `range` of the file, then records how many bytes actually went
+ * out, which is less than the range when the player stops listening early
+ */
+function createAudioStream(filePath: string, range: ByteRange, onDone: (bytes: number) => void): ReadableStream<Uint8Array> {
+  const file = fs.createReadStream(filePath, { start: range.start, end: range.end });
+  const chunks = file[Symbol.asyncIterator]();
+  let bytesSent = 0;
+  let done = false;
+
+  const finish = () => {
+    if (done) return;
+    done = true;
+    onDone(bytesSent);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done: ended } = await chunks.next();
+        if (ended) {
+          controller.close();
+          finish();
+          return;
+        }
+
+        const chunk = new Uint8Array(value as Buffer);
+        bytesSent += chunk.byteLength;
+        controller.enqueue(chunk);
+      } catch (error) {
+        controller.error(error);
+        finish();
+      }
+    },
+    cancel() {
+      file.destroy();
+      finish();
+    },
+  });
+}
+
+/**
+ * GET /api/stream/[trackId]?quality&tier&expires&signature
+ * Serves a track's audio to the listener a signed URL was issued to (see
+ * /api/stream/[trackId]/url), with byte ranges so players can seek. The
+ * bytes sent count towards the listener's data usage.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ trackId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { trackId } = await params;
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = streamQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validatedQuery.success) {
+      return NextResponse.json(
+        { error: 'Invalid stream URL', errors: validatedQuery.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { quality, tier, expires, signature } = validatedQuery.data;
+    if (!verifyStreamSignature({ trackId, quality, userId, tier, expires }, signature)) {
+      return NextResponse.json(
+        { error: 'Stream URL is invalid or has expired' },
+        { status: 403 }
+      );
+    }
+
+    if (!canStreamQuality(tier, quality)) {
+      return NextResponse.json(
+        { error: `Quality "${quality}" is not available on the ${tier} plan` },
+        { status: 403 }
+      );
+    }
+
+    const track = await getCatalog().getTrack(trackId);
+    const file = track && await audioStorage.getAudioFile(track, quality);
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Audio not found' },
+        { status: 404 }
+      );
+    }
+
+    const headers = new Headers({
+      'Accept-Ranges': 'bytes',
+      'Content-Type': file.contentType,
+      'Cache-Control': 'private, no-store',
+    });
+
+    const range = parseRangeHeader(request.headers.get('range'), file.size);
+    if (range === 'unsatisfiable') {
+      headers.set('Content-Range', `bytes */${file.size}`);
+      return new NextResponse(null, { status: 416, headers });
+    }
+
+    const served = range ?? { start: 0, end: file.size - 1 };
+    headers.set('Content-Length', String(served.end - served.start + 1));
+    if (range) {
+      headers.set('Content-Range', formatContentRange(range, file.size));
+    }
+
+    const body = createAudioStream(file.path, served, (bytes) => {
+      logger.info('Audio streamed', { userId, trackId, quality, range: `${served.start}-${served.end}`, bytes });
+      streamUsageRepository
+        .recordStream(userId, { trackId, quality, bytes, servedAt: new Date() })
+        .catch(error => console.error('Error recording stream usage:', error));
+    });
+
+    return new NextResponse(body, { status: range ? 206 : 200, headers });
+  } catch (error) {
+    console.error('Error streaming audio:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
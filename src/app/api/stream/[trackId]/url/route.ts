@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { authDB } from '@/lib/auth/database';
+import { getCatalog } from '@/lib/data/catalog-provider';
+import { audioStorage } from '@/lib/data/audio-storage';
+import { createStreamUrl, resolveStreamQuality } from '@/lib/stream/stream-signing';
+
+const streamUrlQuerySchema = z.object({
+  quality: z.enum(['low', 'medium', 'high', 'lossless']).default('high'),
+});
+
+/**
+ * GET /api/stream/[trackId]/url?quality=high
+ * Issues a short-lived signed URL to stream the track. The quality is
+ * lowered to the best one the listener's tier includes; `size` is that of
+ * the file served for it, so the player can measure its throughput.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ trackId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = streamUrlQuerySchema.safeParse({
+      quality: searchParams.get('quality') ?? undefined,
+    });
+    if (!validatedQuery.success) {
+      return NextResponse.json(
+        { error: 'Invalid quality', errors: validatedQuery.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { trackId } = await params;
+    const track = await getCatalog().getTrack(trackId);
+    if (!track) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      );
+    }
+
+    const user = await authDB.getUserById(session.user.id);
+    const tier = user?.subscriptionTier ?? 'free';
+    const quality = resolveStreamQuality(tier, validatedQuery.data.quality);
+    const file = await audioStorage.getAudioFile(track, quality);
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Audio not found' },
+        { status: 404 }
+      );
+    }
+
+    const { url, expiresAt } = createStreamUrl({ trackId: track.id, quality, userId: session.user.id, tier });
+
+    return NextResponse.json({
+      success: true,
+      data: { url, quality, size: file.size, expiresAt },
+    });
+  } catch (error) {
+    console.error('Error signing stream URL:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
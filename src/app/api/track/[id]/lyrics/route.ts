@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCatalog } from '@/lib/data/catalog-provider';
+import { lyricsRepository } from '@/lib/data/lyrics-repository';
+
+interface TrackParams {
+  id: string;
+}
+
+/**
+ * GET /api/track/[id]/lyrics
+ * Retrieves a track's lyrics: time-coded lines when they're synced, and
+ * always the plain text
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<TrackParams> }
+) {
+  try {
+    const { id } = await params;
+
+    const track = await getCatalog().getTrack(id);
+    if (!track) {
+      return NextResponse.json(
+        { error: 'Track not found' },
+        { status: 404 }
+      );
+    }
+
+    const lyrics = await lyricsRepository.getLyrics(track.id);
+    if (!lyrics) {
+      return NextResponse.json(
+        { error: 'Lyrics not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: lyrics,
+    });
+  } catch (error) {
+    console.error('Error fetching lyrics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import mockDatabase from '@/data/mock-music-database.json';
+import { getCatalog } from '@/lib/data/catalog-provider';
 import type { Track } from '@/types';
 
 interface TrackDetails extends Track {
@@ -22,7 +22,7 @@ export async function GET(
 ) {
   try {
     const resolvedParams = await params;
-const { id } = resolvedParams;
+    const { id } = resolvedParams;
 
     if (!id) {
       return NextResponse.json(
@@ -31,8 +31,8 @@ const { id } = resolvedParams;
       );
     }
 
-    // Find track in mock database
-    const track = mockDatabase.tracks.find(t => t.id === id);
+    const catalog = getCatalog();
+    const track = await catalog.getTrack(id);
     
     if (!track) {
       return NextResponse.json(
@@ -41,144 +41,25 @@ const { id } = resolvedParams;
       );
     }
 
-    // Find artist information
-    const artist = mockDatabase.artists.find(a => a.id === track.artist);
-    
-    if (!artist) {
-      return NextResponse.json(
-        { error: 'Artist not found for this track' },
-        { status: 404 }
-      );
-    }
-
-    // Find album information
-    const album = mockDatabase.albums.find(a => a.id === track.album);
-    
-    if (!album) {
-      return NextResponse.json(
-        { error: 'Album not found for this track' },
-        { status: 404 }
-      );
-    }
-
     // Get album tracks (other tracks from the same album)
-    const albumTracks = mockDatabase.tracks
-      .filter(t => t.album === track.album && t.id !== track.id)
-      .map(t => {
-        const trackArtist = mockDatabase.artists.find(a => a.id === t.artist);
-        return {
-          ...t,
-          artist: trackArtist || artist,
-          album: {
-            id: album.id,
-            title: album.title,
-            artist: artist,
-            releaseDate: new Date(album.releaseDate),
-            totalTracks: album.totalTracks,
-            imageUrl: album.imageUrl,
-            genres: album.genres,
-            type: (album.type as "album" | "single" | "compilation") || "album",
-          },
-          releaseDate: new Date(t.releaseDate),
-          genres: t.genres || [],
-        };
-      })
-      .sort((a, b) => (a.trackNumber || 0) - (b.trackNumber || 0))
+    const albumTracks = (await catalog.getTracksByAlbum(track.album.id))
+      .filter(t => t.id !== track.id)
       .slice(0, 10);
 
     // Get artist's top tracks (excluding current track)
-    const artistTopTracks = mockDatabase.tracks
-      .filter(t => t.artist === track.artist && t.id !== track.id)
-      .map(t => {
-        const trackAlbum = mockDatabase.albums.find(a => a.id === t.album);
-        return {
-          ...t,
-          artist: artist,
-          album: trackAlbum ? {
-            id: trackAlbum.id,
-            title: trackAlbum.title,
-            artist: artist,
-            releaseDate: new Date(trackAlbum.releaseDate),
-            totalTracks: trackAlbum.totalTracks,
-            imageUrl: trackAlbum.imageUrl,
-            genres: trackAlbum.genres,
-            type: (trackAlbum.type as "album" | "single" | "compilation") || "album",
-          } : {
-            id: 'unknown',
-            title: 'Unknown Album',
-            artist: artist,
-            releaseDate: new Date(),
-            totalTracks: 1,
-            genres: [],
-            type: 'album' as const,
-          },
-          releaseDate: new Date(t.releaseDate),
-          genres: t.genres || [],
-        };
-      })
+    const artistTopTracks = (await catalog.getTracksByArtist(track.artist.id))
+      .filter(t => t.id !== track.id)
       .sort((a, b) => b.popularity - a.popularity)
       .slice(0, 5);
 
     // Get related tracks (similar genres, excluding current track and artist's tracks)
-    const relatedTracks = mockDatabase.tracks
-      .filter(t => 
-        t.id !== track.id && 
-        t.artist !== track.artist &&
-        t.genres.some(genre => track.genres.includes(genre))
-      )
-      .map(t => {
-        const trackArtist = mockDatabase.artists.find(a => a.id === t.artist);
-        const trackAlbum = mockDatabase.albums.find(a => a.id === t.album);
-        return {
-          ...t,
-          artist: trackArtist || {
-            id: 'unknown',
-            name: 'Unknown Artist',
-            genres: [],
-            followers: 0,
-            isVerified: false,
-            popularity: 0,
-          },
-          album: trackAlbum ? {
-            id: trackAlbum.id,
-            title: trackAlbum.title,
-            artist: trackArtist || artist,
-            releaseDate: new Date(trackAlbum.releaseDate),
-            totalTracks: trackAlbum.totalTracks,
-            imageUrl: trackAlbum.imageUrl,
-            genres: trackAlbum.genres,
-            type: (trackAlbum.type as "album" | "single" | "compilation") || "album",
-          } : {
-            id: 'unknown',
-            title: 'Unknown Album',
-            artist: trackArtist || artist,
-            releaseDate: new Date(),
-            totalTracks: 1,
-            genres: [],
-            type: 'album' as const,
-          },
-          releaseDate: new Date(t.releaseDate),
-          genres: t.genres || [],
-        };
-      })
+    const relatedTracks = (await catalog.getTracksByGenres(track.genres))
+      .filter(t => t.id !== track.id && t.artist.id !== track.artist.id)
       .sort((a, b) => b.popularity - a.popularity)
       .slice(0, 8);
 
     const trackDetails: TrackDetails = {
       ...track,
-      artist: artist,
-      album: {
-        id: album.id,
-        title: album.title,
-        artist: artist,
-        releaseDate: new Date(album.releaseDate),
-        totalTracks: album.totalTracks,
-        imageUrl: album.imageUrl,
-        genres: album.genres,
-        type: (album.type as "album" | "single" | "compilation") || "album",
-      },
-      releaseDate: new Date(track.releaseDate),
-      genres: track.genres || [],
       relatedTracks,
       albumTracks,
       artistTopTracks,
@@ -197,4 +78,3 @@ const { id } = resolvedParams;
     );
   }
 }
-
@@ -8,7 +8,8 @@ import {
   HeartIcon, 
   EllipsisHorizontalIcon,
   ShareIcon,
-  CheckBadgeIcon
+  CheckBadgeIcon,
+  RadioIcon
 } from '@heroicons/react/24/solid';
 import { HeartIcon as HeartOutlineIcon } from '@heroicons/react/24/outline';
 import { cn } from '@/lib/utils';
@@ -21,8 +22,9 @@ import { ArtistPhoto, AlbumArtwork } from '@/components/common/optimized-image';
 import { GenreTags } from '@/components/common/genre-tags';
 import { FollowButton } from '@/components/social/follow-button';
 import { usePlayerStore } from '@/stores/player-store';
+import { useRadioStore } from '@/stores/radio-store';
 import { useSocialStore, useShareModalStore } from '@/stores/social-store';
-import type { Artist, Album, Track, ShareableContent, ArtistFollowStats } from '@/types';
+import type { Artist, Album, Track, ShareableContent, ArtistFollowStats, PlaybackContext } from '@/types';
 
 interface ArtistDetails extends Artist {
   albums: Album[];
@@ -42,6 +44,8 @@ export default function ArtistDetailClient({ artist }: ArtistDetailClientProps)
   const { currentTrack, isPlaying, play, pause, setQueue } = usePlayerStore();
   const { followingStats, updateArtistStats } = useSocialStore();
   const { openShareModal } = useShareModalStore();
+  const startRadio = useRadioStore(state => state.startRadio);
+  const isStartingRadio = useRadioStore(state => state.isStarting);
   const [likedTracks, setLikedTracks] = useState<Set<string>>(new Set());
   const [showAllTracks, setShowAllTracks] = useState(false);
   const [showAllAlbums, setShowAllAlbums] = useState(false);
@@ -52,6 +56,8 @@ export default function ArtistDetailClient({ artist }: ArtistDetailClientProps)
   const tracksToShow = showAllTracks ? artist.topTracks : artist.topTracks.slice(0, 5);
   const albumsToShow = showAllAlbums ? artist.albums : artist.albums.slice(0, 6);
 
+  const playbackContext: PlaybackContext = { type: 'artist', id: artist.id, name: artist.name };
+
   const isArtistPlaying = artist.topTracks.some(track => 
     currentTrack?.id === track.id && isPlaying
   );
@@ -62,13 +68,17 @@ export default function ArtistDetailClient({ artist }: ArtistDetailClientProps)
     if (isArtistPlaying) {
       pause();
     } else {
-      setQueue(artist.topTracks, 0);
+      setQueue(artist.topTracks, 0, playbackContext);
       play(artist.topTracks[0]);
     }
   };
 
+  const handleGoToRadio = () => {
+    startRadio('artist', artist.id);
+  };
+
   const handlePlayTrack = (track: Track, trackIndex: number) => {
-    setQueue(artist.topTracks, trackIndex);
+    setQueue(artist.topTracks, trackIndex, playbackContext);
     play(track);
   };
 
@@ -200,6 +210,16 @@ export default function ArtistDetailClient({ artist }: ArtistDetailClientProps)
               <ShareIcon className="w-8 h-8" />
             </button>
 
+            <button
+              onClick={handleGoToRadio}
+              disabled={isStartingRadio}
+              className="p-2 rounded-full text-gray-400 hover:text-white transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-offset-2 focus:ring-offset-purple-900 disabled:opacity-50"
+              aria-label={`Go to ${artist.name} radio`}
+              title="Go to artist radio"
+            >
+              <RadioIcon className="w-8 h-8" />
+            </button>
+
             <button
               className="p-2 rounded-full text-gray-400 hover:text-white transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-offset-2 focus:ring-offset-purple-900"
               aria-label="More options"
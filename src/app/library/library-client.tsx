@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Heart, Folder, Music, Disc3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import usePlaylistStore from '@/stores/playlist-store';
+import { useLibraryStore } from '@/stores/library-store';
+
+type LibraryFilter = 'all' | 'playlists' | 'albums';
+
+const filters: { key: LibraryFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'playlists', label: 'Playlists' },
+  { key: 'albums', label: 'Albums' },
+];
+
+interface LibraryTileProps {
+  href: string;
+  title: string;
+  subtitle: string;
+  imageUrl?: string;
+  icon: React.ComponentType<{ className?: string }>;
+  iconClassName?: string;
+}
+
+function LibraryTile({ href, title, subtitle, imageUrl, icon: Icon, iconClassName }: LibraryTileProps) {
+  return (
+    <Link
+      href={href}
+      className="group p-4 rounded-lg bg-zinc-900/60 hover:bg-zinc-800 transition-colors focus:outline-none focus:ring-2 focus:ring-green-500"
+    >
+      <div className="aspect-square w-full mb-4 rounded-md overflow-hidden relative">
+        {imageUrl ? (
+          <Image
+            src={imageUrl}
+            alt={title}
+            fill
+            sizes="(max-width: 768px) 50vw, 200px"
+            className="object-cover"
+          />
+        ) : (
+          <div className={`w-full h-full flex items-center justify-center ${iconClassName || 'bg-zinc-800'}`}>
+            <Icon className="w-12 h-12 text-white/70" />
+          </div>
+        )}
+      </div>
+      <h3 className="font-semibold text-white truncate">{title}</h3>
+      <p className="text-sm text-zinc-400 truncate">{subtitle}</p>
+    </Link>
+  );
+}
+
+export default function LibraryClient() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [filter, setFilter] = useState<LibraryFilter>('all');
+
+  const {
+    playlists,
+    folders,
+    fetchPlaylists,
+    fetchFolders,
+  } = usePlaylistStore();
+
+  const {
+    followedPlaylists,
+    savedAlbums,
+    likedTracksPagination,
+    isLoading,
+    fetchFollowedPlaylists,
+    fetchSavedAlbums,
+  } = useLibraryStore();
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchPlaylists();
+      fetchFolders();
+      fetchFollowedPlaylists();
+      fetchSavedAlbums();
+    }
+  }, [session?.user, fetchPlaylists, fetchFolders, fetchFollowedPlaylists, fetchSavedAlbums]);
+
+  if (!session?.user) {
+    router.push('/auth/login');
+    return null;
+  }
+
+  const ownedPlaylists = playlists.filter(playlist => playlist.owner.id === session.user.id);
+  const showPlaylists = filter === 'all' || filter === 'playlists';
+  const showAlbums = filter === 'all' || filter === 'albums';
+  const isEmpty = ownedPlaylists.length === 0 && followedPlaylists.length === 0 && savedAlbums.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-zinc-900 to-black text-white">
+      <div className="px-6 pt-16 pb-32">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold mb-6">Your Library</h1>
+
+          {/* Filter Chips */}
+          <div className="flex items-center space-x-2 mb-8" role="tablist" aria-label="Filter library">
+            {filters.map(({ key, label }) => (
+              <Button
+                key={key}
+                variant="ghost"
+                size="sm"
+                role="tab"
+                aria-selected={filter === key}
+                onClick={() => setFilter(key)}
+                className={`rounded-full px-4 ${
+                  filter === key
+                    ? 'bg-white text-black hover:bg-white/90'
+                    : 'bg-zinc-800 text-white hover:bg-zinc-700'
+                }`}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+            {showPlaylists && (
+              <>
+                <LibraryTile
+                  href="/liked-songs"
+                  title="Liked Songs"
+                  subtitle={likedTracksPagination ? `Playlist • ${likedTracksPagination.total} songs` : 'Playlist'}
+                  icon={Heart}
+                  iconClassName="bg-gradient-to-br from-purple-400 to-pink-400"
+                />
+
+                {folders.map(folder => (
+                  <LibraryTile
+                    key={folder.id}
+                    href="/playlists"
+                    title={folder.name}
+                    subtitle={`Folder • ${folder.playlists.length} playlists`}
+                    icon={Folder}
+                  />
+                ))}
+
+                {ownedPlaylists.map(playlist => (
+                  <LibraryTile
+                    key={playlist.id}
+                    href={`/playlist/${playlist.id}`}
+                    title={playlist.name}
+                    subtitle={`Playlist • ${playlist.owner.displayName}`}
+                    imageUrl={playlist.imageUrl}
+                    icon={Music}
+                  />
+                ))}
+
+                {followedPlaylists.map(playlist => (
+                  <LibraryTile
+                    key={playlist.id}
+                    href={`/playlist/${playlist.id}`}
+                    title={playlist.name}
+                    subtitle={`Playlist • ${playlist.owner.displayName}`}
+                    imageUrl={playlist.imageUrl}
+                    icon={Music}
+                  />
+                ))}
+              </>
+            )}
+
+            {showAlbums && savedAlbums.map(album => (
+              <LibraryTile
+                key={album.id}
+                href={`/album/${album.id}`}
+                title={album.title}
+                subtitle={`Album • ${album.artist.name}`}
+                imageUrl={album.imageUrl}
+                icon={Disc3}
+              />
+            ))}
+          </div>
+
+          {!isLoading && isEmpty && (
+            <div className="text-center py-12">
+              <p className="text-zinc-400 mb-6">
+                Playlists you create or follow and albums you save will appear here
+              </p>
+              <Button
+                onClick={() => router.push('/search')}
+                className="bg-green-500 hover:bg-green-600 text-black font-medium"
+              >
+                Find music
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+import LibraryClient from './library-client';
+import { PlaylistsSkeleton } from '@/components/skeletons/playlists-skeleton';
+
+export const metadata = {
+  title: 'Your Library | Spotify MVP',
+  description: 'Your playlists, followed playlists and saved albums',
+};
+
+export default function LibraryPage() {
+  return (
+    <Suspense fallback={<PlaylistsSkeleton />}>
+      <LibraryClient />
+    </Suspense>
+  );
+}
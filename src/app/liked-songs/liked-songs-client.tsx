@@ -21,68 +21,30 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import usePlayerStore from '@/stores/player-store';
-import { Track } from '@/types';
+import { useLibraryStore } from '@/stores/library-store';
+import { Track, LikedTrackSortField, PlaybackContext } from '@/types';
 import { formatDuration } from '@/lib/format-utils';
 
-// Mock liked songs data - in a real app this would come from the API
-const mockLikedSongs: (Track & { likedAt: Date })[] = [
-  {
-    id: 'track-1',
-    title: 'Anti-Hero',
-    artist: {
-      id: 'artist-1',
-      name: 'Taylor Swift',
-      bio: 'American singer-songwriter',
-      imageUrl: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=100&h=100&fit=crop',
-      genres: ['Pop'],
-      followers: 89500000,
-      isVerified: true,
-      popularity: 95,
-    },
-    album: {
-      id: 'album-1',
-      title: 'Midnights',
-      artist: {
-        id: 'artist-1',
-        name: 'Taylor Swift',
-        bio: 'American singer-songwriter',
-        imageUrl: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=100&h=100&fit=crop',
-        genres: ['Pop'],
-        followers: 89500000,
-        isVerified: true,
-        popularity: 95,
-      },
-      releaseDate: new Date('2022-10-21'),
-      totalTracks: 13,
-      imageUrl: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop',
-      genres: ['Pop'],
-      type: 'album' as const,
-    },
-    duration: 200,
-    previewUrl: '/audio/track-1.mp3',
-    streamUrl: '/audio/track-1.mp3',
-    isExplicit: false,
-    popularity: 98,
-    trackNumber: 3,
-    genres: ['Pop'],
-    releaseDate: new Date('2022-10-21'),
-    imageUrl: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop',
-    likedAt: new Date('2024-01-15T14:30:00.000Z'),
-  },
-  // Add more mock liked songs here...
-];
+const LIKED_SONGS_CONTEXT: PlaybackContext = { type: 'liked', name: 'Liked Songs' };
 
 export default function LikedSongsClient() {
   const { data: session } = useSession();
   const router = useRouter();
   
-  const [likedSongs, setLikedSongs] = useState<(Track & { likedAt: Date })[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTracks, setSelectedTracks] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState<'likedAt' | 'title' | 'artist' | 'album' | 'duration'>('likedAt');
+  const [sortBy, setSortBy] = useState<LikedTrackSortField>('likedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [viewMode, setViewMode] = useState<'list' | 'compact'>('list');
-  const [isLoading, setIsLoading] = useState(true);
+
+  const {
+    likedTracks: likedSongs,
+    likedTracksPagination: pagination,
+    isLoading,
+    fetchLikedTracks,
+    loadMoreLikedTracks,
+    unlikeTracks,
+  } = useLibraryStore();
   
   const { 
     isPlaying, 
@@ -94,15 +56,21 @@ export default function LikedSongsClient() {
     shuffleMode 
   } = usePlayerStore();
 
+  // Search and sort run server-side; debounce typing before refetching
   useEffect(() => {
-    // Simulate loading
+    if (!session?.user) return;
+
     const timer = setTimeout(() => {
-      setLikedSongs(mockLikedSongs);
-      setIsLoading(false);
-    }, 1000);
+      fetchLikedTracks({
+        limit: 50,
+        sortBy,
+        sortOrder,
+        query: searchQuery.trim() || undefined,
+      });
+    }, searchQuery ? 300 : 0);
 
     return () => clearTimeout(timer);
-  }, []);
+  }, [session?.user, sortBy, sortOrder, searchQuery, fetchLikedTracks]);
 
   if (!session?.user) {
     router.push('/auth/login');
@@ -112,36 +80,8 @@ export default function LikedSongsClient() {
   const isCurrentPlaylistPlaying = isPlaying && 
     likedSongs.some(song => song.id === currentTrack?.id);
 
-  const filteredSongs = likedSongs.filter(song =>
-    !searchQuery || 
-    song.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    song.artist.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    song.album.title.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
-  const sortedSongs = [...filteredSongs].sort((a, b) => {
-    let comparison = 0;
-    
-    switch (sortBy) {
-      case 'title':
-        comparison = a.title.localeCompare(b.title);
-        break;
-      case 'artist':
-        comparison = a.artist.name.localeCompare(b.artist.name);
-        break;
-      case 'album':
-        comparison = a.album.title.localeCompare(b.album.title);
-        break;
-      case 'likedAt':
-        comparison = new Date(a.likedAt).getTime() - new Date(b.likedAt).getTime();
-        break;
-      case 'duration':
-        comparison = a.duration - b.duration;
-        break;
-    }
-    
-    return sortOrder === 'asc' ? comparison : -comparison;
-  });
+  const sortedSongs = likedSongs;
+  const totalSongs = pagination?.total ?? likedSongs.length;
 
   const handlePlayPause = () => {
     if (likedSongs.length === 0) return;
@@ -153,7 +93,7 @@ export default function LikedSongsClient() {
         ...song,
         likedAt: undefined
       }));
-      setQueue(tracks, 0);
+      setQueue(tracks, 0, LIKED_SONGS_CONTEXT);
       play(tracks[0]);
     }
   };
@@ -163,7 +103,7 @@ export default function LikedSongsClient() {
       ...song,
       likedAt: undefined
     }));
-    setQueue(tracks, index);
+    setQueue(tracks, index, LIKED_SONGS_CONTEXT);
     play(track);
   };
 
@@ -177,7 +117,7 @@ export default function LikedSongsClient() {
   };
 
   const handleUnlike = (trackId: string) => {
-    setLikedSongs(prev => prev.filter(song => song.id !== trackId));
+    unlikeTracks([trackId]).catch(() => {});
     setSelectedTracks(prev => prev.filter(id => id !== trackId));
   };
 
@@ -196,7 +136,7 @@ export default function LikedSongsClient() {
   const handleBulkUnlike = () => {
     if (!confirm(`Remove ${selectedTracks.length} songs from Liked Songs?`)) return;
     
-    setLikedSongs(prev => prev.filter(song => !selectedTracks.includes(song.id)));
+    unlikeTracks(selectedTracks).catch(() => {});
     setSelectedTracks([]);
   };
 
@@ -247,7 +187,7 @@ export default function LikedSongsClient() {
                   {session.user.name}
                 </span>
                 <span>•</span>
-                <span>{likedSongs.length} songs</span>
+                <span>{totalSongs} songs</span>
                 {totalDuration > 0 && (
                   <>
                     <span>•</span>
@@ -368,7 +308,7 @@ export default function LikedSongsClient() {
       {/* Track List */}
       <div className="px-6">
         <div className="max-w-7xl mx-auto">
-          {isLoading ? (
+          {isLoading && likedSongs.length === 0 ? (
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
             </div>
@@ -546,6 +486,19 @@ export default function LikedSongsClient() {
                   );
                 })}
               </div>
+
+              {pagination?.hasMore && (
+                <div className="flex justify-center py-6">
+                  <Button
+                    variant="ghost"
+                    onClick={loadMoreLikedTracks}
+                    disabled={isLoading}
+                    className="text-white/70 hover:text-white"
+                  >
+                    {isLoading ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
             </>
           )}
         </div>
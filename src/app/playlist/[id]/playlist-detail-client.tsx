@@ -21,15 +21,23 @@ import {
   SortDesc,
   Grid3X3,
   List,
-  X
+  Heart,
+  X,
+  ArrowDownCircle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import usePlaylistStore from '@/stores/playlist-store';
 import usePlayerStore from '@/stores/player-store';
-import { Playlist, PlaylistTrack } from '@/types';
+import { useLibraryStore } from '@/stores/library-store';
+import { useOfflineStore } from '@/stores/offline-store';
+import { useAuthStore } from '@/stores/auth-store';
+import { TierManager } from '@/lib/subscription/tier-manager';
+import { Playlist, PlaylistTrack, PlaybackContext } from '@/types';
 import { formatDuration } from '@/lib/format-utils';
 import DraggableTrackList from '@/components/features/playlist/draggable-track-list';
+import OfflineSyncStatus from '@/components/features/playlist/offline-sync-status';
+import { UpgradePrompt, useUpgradePrompt } from '@/components/subscription/upgrade-prompt';
 
 interface PlaylistDetailClientProps {
   playlistId: string;
@@ -37,6 +45,8 @@ interface PlaylistDetailClientProps {
 
 export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClientProps) {
   const { data: session } = useSession();
+  const { user } = useAuthStore();
+  const { showUpgradePrompt, hideUpgradePrompt, ...upgradePromptState } = useUpgradePrompt();
   const _router = useRouter();
   
   const [playlist, setPlaylist] = useState<Playlist | null>(null);
@@ -62,6 +72,21 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
     shuffleMode 
   } = usePlayerStore();
 
+  const isFollowing = useLibraryStore(state => !!state.followedPlaylistIds[playlistId]);
+  const { checkFollowedPlaylists, toggleFollowedPlaylist } = useLibraryStore();
+
+  const isAvailableOffline = useOfflineStore(state => !!state.offlinePlaylists[playlistId]);
+  // Selected one by one, as download progress changes the store constantly
+  const addOfflinePlaylist = useOfflineStore(state => state.addOfflinePlaylist);
+  const removeOfflinePlaylist = useOfflineStore(state => state.removeOfflinePlaylist);
+  const syncPlaylist = useOfflineStore(state => state.syncPlaylist);
+
+  useEffect(() => {
+    if (session?.user) {
+      checkFollowedPlaylists([playlistId]);
+    }
+  }, [session?.user, playlistId, checkFollowedPlaylists]);
+
   useEffect(() => {
     // In a real app, fetch playlist from API
     const fetchPlaylist = async () => {
@@ -79,6 +104,13 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
     fetchPlaylist();
   }, [playlistId]);
 
+  useEffect(() => {
+    // Every change to the track list syncs the downloaded copy
+    if (playlist && isAvailableOffline) {
+      syncPlaylist(playlist);
+    }
+  }, [playlist, isAvailableOffline, syncPlaylist]);
+
   if (!playlist) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center">
@@ -88,6 +120,7 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
   }
 
   const isOwner = session?.user?.id === playlist.owner.id;
+  const playbackContext: PlaybackContext = { type: 'playlist', id: playlist.id, name: playlist.name };
   const isCurrentPlaylistPlaying = isPlaying && 
     playlist.tracks.some(pt => pt.track.id === currentTrack?.id);
 
@@ -129,14 +162,48 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
       pause();
     } else {
       const tracks = playlist.tracks.map(pt => pt.track);
-      setQueue(tracks, 0);
+      setQueue(tracks, 0, playbackContext);
       play(tracks[0]);
     }
   };
 
+  const handleToggleFollow = async () => {
+    try {
+      const followers = await toggleFollowedPlaylist(playlist);
+      setPlaylist(prev => (prev ? { ...prev, followers } : prev));
+    } catch (error) {
+      console.error('Failed to update playlist follow:', error);
+    }
+  };
+
+  // Every track would fail to download on a free plan
+  const canDownload = TierManager.hasFeatureAccess(user, 'offline_downloads');
+
+  const handleToggleOffline = async () => {
+    if (!isAvailableOffline && !canDownload) {
+      showUpgradePrompt({
+        featureId: 'offline_downloads',
+        title: 'Offline Downloads',
+        description: 'Download playlists and listen without a connection',
+        ctaText: 'Unlock Downloads'
+      });
+      return;
+    }
+
+    try {
+      if (isAvailableOffline) {
+        await removeOfflinePlaylist(playlist.id);
+      } else {
+        await addOfflinePlaylist(playlist);
+      }
+    } catch (error) {
+      console.error('Failed to update offline playlist:', error);
+    }
+  };
+
   const handlePlayTrack = (track: PlaylistTrack, index: number) => {
     const tracks = sortedTracks.map(pt => pt.track);
-    setQueue(tracks, index);
+    setQueue(tracks, index, playbackContext);
     play(track.track);
   };
 
@@ -237,6 +304,12 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
                 <span className="font-medium text-white">
                   {playlist.owner.displayName}
                 </span>
+                {playlist.followers > 0 && (
+                  <>
+                    <span>•</span>
+                    <span>{playlist.followers.toLocaleString()} {playlist.followers === 1 ? 'follower' : 'followers'}</span>
+                  </>
+                )}
                 <span>•</span>
                 <span>{playlist.trackCount} songs</span>
                 {totalDuration > 0 && (
@@ -292,6 +365,35 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
                 <Shuffle className="w-6 h-6" />
               </Button>
 
+              {/* Follow Button */}
+              {session?.user && !isOwner && (
+                <Button
+                  onClick={handleToggleFollow}
+                  variant="ghost"
+                  aria-pressed={isFollowing}
+                  aria-label={isFollowing ? 'Remove from Your Library' : 'Save to Your Library'}
+                  className={isFollowing ? 'text-green-500 hover:text-green-400' : 'text-white/70 hover:text-white'}
+                >
+                  <Heart className={`w-6 h-6 ${isFollowing ? 'fill-current' : ''}`} />
+                </Button>
+              )}
+
+              {/* Download Button */}
+              {session?.user && (
+                <Button
+                  onClick={handleToggleOffline}
+                  variant="ghost"
+                  aria-pressed={isAvailableOffline}
+                  aria-label={isAvailableOffline ? 'Remove download' : 'Download'}
+                  title={isAvailableOffline ? 'Remove download' : canDownload ? 'Make available offline' : 'Offline downloads are a Premium feature'}
+                  className={isAvailableOffline ? 'text-green-500 hover:text-green-400' : 'text-white/70 hover:text-white'}
+                >
+                  <ArrowDownCircle className="w-6 h-6" />
+                </Button>
+              )}
+
+              <OfflineSyncStatus playlistId={playlist.id} />
+
               {/* More Options */}
               <Button
                 variant="ghost"
@@ -484,6 +586,18 @@ export default function PlaylistDetailClient({ playlistId }: PlaylistDetailClien
 
       {/* Footer Spacing */}
       <div className="h-32" />
+
+      {/* Upgrade Prompt Modal */}
+      <UpgradePrompt
+        isOpen={upgradePromptState.isOpen}
+        onClose={hideUpgradePrompt}
+        user={user}
+        featureId={upgradePromptState.featureId}
+        title={upgradePromptState.title}
+        description={upgradePromptState.description}
+        ctaText={upgradePromptState.ctaText}
+        targetTier={upgradePromptState.targetTier}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -35,7 +35,6 @@ export default function PlaylistsPageClient() {
   const router = useRouter();
   
   const {
-    playlists,
     folders,
     viewMode,
     sortBy,
@@ -51,6 +50,8 @@ export default function PlaylistsPageClient() {
     setSelectedFolder,
     getFilteredPlaylists,
     clearSelection,
+    fetchPlaylists,
+    fetchFolders,
   } = usePlaylistStore();
 
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -60,13 +61,12 @@ export default function PlaylistsPageClient() {
   const filteredPlaylists = getFilteredPlaylists();
   const hasSelection = selectedPlaylists.length > 0;
 
-  // Mock data for demonstration
   useEffect(() => {
-    if (session && playlists.length === 0) {
-      // In a real app, fetch user's playlists here
-      // fetchUserPlaylists(session.user.id);
+    if (session?.user) {
+      fetchPlaylists();
+      fetchFolders();
     }
-  }, [session, playlists.length]);
+  }, [session?.user, fetchPlaylists, fetchFolders]);
 
   const sortOptions = [
     { key: 'name', label: 'Name', icon: SortAsc },
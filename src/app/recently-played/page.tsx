@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+import RecentlyPlayedClient from './recently-played-client';
+import { LikedSongsSkeleton } from '@/components/skeletons/liked-songs-skeleton';
+
+export const metadata = {
+  title: 'Recently Played | Spotify MVP',
+  description: 'The songs you have listened to most recently',
+};
+
+export default function RecentlyPlayedPage() {
+  return (
+    <Suspense fallback={<LikedSongsSkeleton />}>
+      <RecentlyPlayedClient />
+    </Suspense>
+  );
+}
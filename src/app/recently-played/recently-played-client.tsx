@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { Play, Pause, History, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import usePlayerStore from '@/stores/player-store';
+import { useHistoryStore } from '@/stores/history-store';
+import type { RecentlyPlayedItem } from '@/types';
+import { formatDuration, getRelativeTime } from '@/lib/format-utils';
+
+// Groups consecutive items played on the same day under one heading
+function groupByDay(items: RecentlyPlayedItem[]) {
+  const groups: { label: string; items: RecentlyPlayedItem[] }[] = [];
+
+  for (const item of items) {
+    const label = getRelativeTime(item.playedAt);
+    const group = groups[groups.length - 1];
+
+    if (group && group.label === label) {
+      group.items.push(item);
+    } else {
+      groups.push({ label, items: [item] });
+    }
+  }
+
+  return groups;
+}
+
+export default function RecentlyPlayedClient() {
+  const { data: session } = useSession();
+  const router = useRouter();
+
+  const {
+    recentlyPlayed,
+    nextCursor,
+    hasLoaded,
+    isLoading,
+    error,
+    fetchRecentlyPlayed,
+    loadMoreRecentlyPlayed,
+    clearHistory,
+  } = useHistoryStore();
+
+  const {
+    isPlaying,
+    currentTrack,
+    play,
+    pause,
+    setQueue,
+  } = usePlayerStore();
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchRecentlyPlayed();
+    }
+  }, [session?.user, fetchRecentlyPlayed]);
+
+  if (!session?.user) {
+    router.push('/auth/login');
+    return null;
+  }
+
+  const tracks = recentlyPlayed.map(item => item.track);
+
+  const handlePlayTrack = (index: number) => {
+    const track = tracks[index];
+    if (!track) return;
+
+    if (currentTrack?.id === track.id) {
+      if (isPlaying) {
+        pause();
+      } else {
+        play();
+      }
+      return;
+    }
+
+    setQueue(tracks, index);
+    play(track);
+  };
+
+  const handleClearHistory = () => {
+    if (!confirm('Clear your listening history? This cannot be undone.')) return;
+
+    clearHistory().catch(() => {});
+  };
+
+  const formatPlayedAt = (date: Date) => {
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-zinc-900 to-black text-white">
+      <div className="px-6 pt-16 pb-32">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-between mb-8">
+            <div>
+              <h1 className="text-3xl font-bold">Recently Played</h1>
+              <p className="text-zinc-400 mt-1">Songs you&apos;ve listened to, newest first</p>
+            </div>
+
+            {recentlyPlayed.length > 0 && (
+              <Button
+                variant="ghost"
+                onClick={handleClearHistory}
+                className="text-zinc-400 hover:text-white"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Clear history
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-red-400 mb-6" role="alert">{error}</p>
+          )}
+
+          {(isLoading || !hasLoaded) && recentlyPlayed.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+            </div>
+          ) : recentlyPlayed.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="w-16 h-16 mx-auto text-zinc-600 mb-4" />
+              <h3 className="text-xl font-semibold text-white mb-2">
+                Nothing played yet
+              </h3>
+              <p className="text-zinc-400 mb-6">
+                Songs you listen to for more than 30 seconds will appear here
+              </p>
+              <Button
+                onClick={() => router.push('/search')}
+                className="bg-green-500 hover:bg-green-600 text-black font-medium"
+              >
+                Find music
+              </Button>
+            </div>
+          ) : (
+            <>
+              {groupByDay(recentlyPlayed).map(group => (
+                <section key={group.label} className="mb-8">
+                  <h2 className="text-sm font-medium text-zinc-400 uppercase tracking-wider border-b border-zinc-800 pb-2 mb-2">
+                    {group.label}
+                  </h2>
+
+                  <div className="space-y-1">
+                    {group.items.map(item => {
+                      const index = recentlyPlayed.indexOf(item);
+                      const isCurrentTrack = currentTrack?.id === item.track.id;
+
+                      return (
+                        <div
+                          key={item.id}
+                          className={`group grid grid-cols-12 gap-4 px-4 py-2 rounded-lg transition-colors cursor-pointer hover:bg-white/5 ${
+                            isCurrentTrack ? 'bg-green-500/10' : ''
+                          }`}
+                          onClick={() => handlePlayTrack(index)}
+                        >
+                          <div className="col-span-1 flex items-center">
+                            {isCurrentTrack && isPlaying ? (
+                              <Pause className="w-4 h-4 text-green-400" />
+                            ) : (
+                              <Play className="w-4 h-4 text-zinc-400 group-hover:text-white" />
+                            )}
+                          </div>
+
+                          <div className="col-span-7 flex items-center space-x-3 min-w-0">
+                            <Image
+                              src={item.track.album.imageUrl || item.track.imageUrl || 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=40&h=40&fit=crop'}
+                              alt={item.track.album.title}
+                              width={40}
+                              height={40}
+                              className="rounded flex-shrink-0"
+                            />
+                            <div className="min-w-0">
+                              <h4 className={`font-medium truncate ${isCurrentTrack ? 'text-green-400' : 'text-white'}`}>
+                                {item.track.title}
+                                {item.playCount > 1 && (
+                                  <span className="ml-2 text-xs text-zinc-400">×{item.playCount}</span>
+                                )}
+                              </h4>
+                              <p className="text-sm text-zinc-400 truncate">
+                                {item.track.artist.name}
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="col-span-2 hidden md:flex items-center">
+                            <time
+                              dateTime={item.playedAt.toISOString()}
+                              className="text-sm text-zinc-400"
+                            >
+                              {formatPlayedAt(item.playedAt)}
+                            </time>
+                          </div>
+
+                          <div className="col-span-4 md:col-span-2 flex items-center justify-end">
+                            <span className="text-sm text-zinc-400">
+                              {formatDuration(item.track.duration)}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              ))}
+
+              {nextCursor && (
+                <div className="flex justify-center py-6">
+                  <Button
+                    variant="ghost"
+                    onClick={loadMoreRecentlyPlayed}
+                    disabled={isLoading}
+                    className="text-white/70 hover:text-white"
+                  >
+                    {isLoading ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import {
 import { AlbumArtwork, ArtistPhoto } from '@/components/common/optimized-image';
 import { GenreTags } from '@/components/common/genre-tags';
 import { SongMetadata } from '@/components/features/metadata/song-metadata';
+import { LyricsPanel } from '@/components/features/lyrics/lyrics-panel';
 import { usePlayerStore } from '@/stores/player-store';
 import type { Track } from '@/types';
 
@@ -298,6 +299,16 @@ export default function TrackDetailClient({ track }: TrackDetailClientProps) {
         </div>
       </div>
 
+      {/* Lyrics */}
+      <div className="px-6 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-black/20 backdrop-blur-sm rounded-lg p-6">
+            <h2 className="text-2xl font-bold mb-6">Lyrics</h2>
+            <LyricsPanel track={track} className="max-h-96" />
+          </div>
+        </div>
+      </div>
+
       {/* More from Album */}
       {track.albumTracks.length > 0 && (
         <div className="px-6 pb-8">
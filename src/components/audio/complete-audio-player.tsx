@@ -1,13 +1,17 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
 import { EnhancedMusicPlayer } from "@/components/layout/enhanced-music-player";
 import { MobilePlayer } from "@/components/audio/mobile-player";
 import { Equalizer } from "@/components/audio/equalizer";
 import { AudioVisualizer } from "@/components/audio/audio-visualizer";
 import { EnhancedQueue } from "@/components/queue/enhanced-queue";
+import { ResumePlaybackPrompt } from "@/components/audio/resume-playback-prompt";
 import { useKeyboardShortcuts, useKeyboardShortcutsHelp } from "@/hooks/use-keyboard-shortcuts";
 import { usePlayerStore } from "@/stores/player-store";
+import { usePlayerSessionStore } from "@/stores/player-session-store";
+import { useConnectStore } from "@/stores/connect-store";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,8 +32,30 @@ export function CompleteAudioPlayer({ className }: CompleteAudioPlayerProps) {
   const [activePanel, setActivePanel] = useState<ActivePanel>(null);
   const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
   
-  const { currentTrack, isEqualizerEnabled, isVisualizerEnabled } = usePlayerStore();
+  const { currentTrack, isEqualizerEnabled, isVisualizerEnabled, loadPlaybackPreferences } = usePlayerStore();
   const { categories } = useKeyboardShortcutsHelp();
+  const loadSession = usePlayerSessionStore(state => state.loadSession);
+  const connectDevice = useConnectStore(state => state.connect);
+  const disconnectDevice = useConnectStore(state => state.disconnect);
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+
+  // Playback settings such as autoplay follow the signed-in user, and so
+  // does where they left off on any device
+  useEffect(() => {
+    if (userId) {
+      loadPlaybackPreferences();
+      loadSession();
+    }
+  }, [userId, loadPlaybackPreferences, loadSession]);
+
+  // Signed-in players show up on each other's device pickers
+  useEffect(() => {
+    if (!userId) return;
+
+    connectDevice();
+    return () => disconnectDevice();
+  }, [userId, connectDevice, disconnectDevice]);
 
   // Enable keyboard shortcuts
   useKeyboardShortcuts({
@@ -68,6 +94,8 @@ export function CompleteAudioPlayer({ className }: CompleteAudioPlayerProps) {
 
   return (
     <>
+      <ResumePlaybackPrompt />
+
       {/* Mobile Player */}
       <MobilePlayer className="md:hidden" />
       
@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useConnectStore } from "@/stores/connect-store";
+import { usePlayerStore } from "@/stores/player-store";
+import { estimateProgress } from "@/lib/connect/device-client";
+import { cn, formatDuration } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  DeviceTabletIcon,
+  ForwardIcon,
+  BackwardIcon,
+  PlayIcon,
+  PauseIcon,
+} from "@heroicons/react/24/outline";
+import type { ConnectDevice, ConnectDeviceType } from "@/types";
+
+interface DevicePickerProps {
+  className?: string;
+}
+
+const DEVICE_ICONS: Record<ConnectDeviceType, typeof ComputerDesktopIcon> = {
+  computer: ComputerDesktopIcon,
+  smartphone: DevicePhoneMobileIcon,
+  tablet: DeviceTabletIcon,
+};
+
+/**
+ * Lists the listener's other open players, shows what they're playing and
+ * lets this one control them or move playback between them
+ */
+export function DevicePicker({ className }: DevicePickerProps) {
+  const {
+    deviceId,
+    devices,
+    isConnected,
+    isTransferring,
+    error,
+    sendCommand,
+    transferPlayback,
+  } = useConnectStore();
+  const hasTrack = usePlayerStore(state => !!state.currentTrack);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const thisDevice = devices.find(device => device.id === deviceId);
+  const otherDevices = devices.filter(device => device.id !== deviceId);
+  const activeDevice = otherDevices.find(device => device.isPlaying);
+
+  // Remote positions move on between their reports
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  // Handle click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  if (!isConnected) {
+    return null;
+  }
+
+  const renderDevice = (device: ConnectDevice) => {
+    const Icon = DEVICE_ICONS[device.type];
+    const progress = estimateProgress(device, now);
+
+    return (
+      <li key={device.id} className="border-t border-gray-700 p-3 first:border-t-0">
+        <div className="flex items-center space-x-3">
+          <Icon className={cn("h-6 w-6 shrink-0", device.isPlaying ? "text-spotify-green" : "text-gray-400")} />
+          <div className="min-w-0 flex-1">
+            <p className={cn("truncate text-sm font-medium", device.isPlaying ? "text-spotify-green" : "text-white")}>
+              {device.name}
+            </p>
+            <p className="truncate text-xs text-gray-400">
+              {device.nowPlaying
+                ? `${device.nowPlaying.title} · ${device.nowPlaying.artist}`
+                : "Nothing playing"}
+            </p>
+          </div>
+          {hasTrack && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="shrink-0 text-gray-300 hover:text-white"
+              onClick={() => transferPlayback(device.id)}
+              disabled={isTransferring}
+            >
+              Play there
+            </Button>
+          )}
+        </div>
+
+        {device.nowPlaying && (
+          <div className="mt-2 space-y-1">
+            <div className="flex items-center justify-center space-x-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-300 hover:text-white"
+                onClick={() => sendCommand(device.id, { type: "previous" })}
+                aria-label={`Previous track on ${device.name}`}
+              >
+                <BackwardIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-300 hover:text-white"
+                onClick={() => sendCommand(device.id, { type: device.isPlaying ? "pause" : "play" })}
+                aria-label={`${device.isPlaying ? "Pause" : "Play"} on ${device.name}`}
+              >
+                {device.isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-300 hover:text-white"
+                onClick={() => sendCommand(device.id, { type: "next" })}
+                aria-label={`Next track on ${device.name}`}
+              >
+                <ForwardIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-300 hover:text-white"
+                onClick={() => sendCommand(device.id, { type: "transfer", to: deviceId })}
+                disabled={isTransferring}
+              >
+                Play here
+              </Button>
+            </div>
+            <div className="flex items-center space-x-2 text-xs text-gray-400">
+              <span className="w-10 text-right">{formatDuration(progress)}</span>
+              <input
+                type="range"
+                min="0"
+                max={device.duration || 0}
+                step="1"
+                value={progress}
+                onChange={(e) => sendCommand(device.id, { type: "seek", position: parseFloat(e.target.value) })}
+                className="h-1 flex-1 cursor-pointer appearance-none rounded-lg bg-gray-600"
+                aria-label={`Seek on ${device.name}`}
+              />
+              <span className="w-10">{formatDuration(device.duration)}</span>
+            </div>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div ref={dropdownRef} className={cn("relative", className)}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "h-11 w-11 text-gray-300 hover:text-white min-h-[44px] min-w-[44px]",
+          (isOpen || activeDevice) && "text-spotify-green"
+        )}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={activeDevice ? `Playing on ${activeDevice.name}` : "Connect to a device"}
+        aria-expanded={isOpen}
+      >
+        <ComputerDesktopIcon className="h-4 w-4" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 z-50 mb-2 w-80 rounded-lg border border-gray-700 bg-gray-900 shadow-2xl">
+          <div className="border-b border-gray-700 p-3">
+            <h3 className="text-sm font-semibold text-white">Connect to a device</h3>
+            <p className="text-xs text-gray-400">This device: {thisDevice?.name ?? "Web Player"}</p>
+          </div>
+
+          {otherDevices.length > 0 ? (
+            <ul className="max-h-96 overflow-y-auto">{otherDevices.map(renderDevice)}</ul>
+          ) : (
+            <p className="p-3 text-sm text-gray-400">
+              Open the player in another tab or on another device to control it from here.
+            </p>
+          )}
+
+          {error && <p className="border-t border-gray-700 p-3 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,9 @@ import {
   ChevronUpIcon,
   QueueListIcon,
 } from "@heroicons/react/24/solid";
-import { HeartIcon as HeartIconOutline } from "@heroicons/react/24/outline";
+import { HeartIcon as HeartIconOutline, MoonIcon } from "@heroicons/react/24/outline";
+import { SleepTimerMenu, useSleepTimerCountdown } from "@/components/audio/sleep-timer-menu";
+import { LyricsPanel } from "@/components/features/lyrics/lyrics-panel";
 
 interface MobilePlayerProps {
   className?: string;
@@ -21,6 +23,7 @@ interface MobilePlayerProps {
 
 export function MobilePlayer({ className }: MobilePlayerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
   const {
     currentTrack,
     isPlaying,
@@ -31,6 +34,7 @@ export function MobilePlayer({ className }: MobilePlayerProps) {
     previousTrack,
     seekTo,
   } = usePlayerStore();
+  const sleepTimerRemaining = useSleepTimerCountdown();
 
   if (!currentTrack) {
     return null;
@@ -80,6 +84,17 @@ export function MobilePlayer({ className }: MobilePlayerProps) {
             </p>
           </div>
 
+          {/* Sleep Timer Countdown */}
+          {sleepTimerRemaining !== null && (
+            <span
+              className="flex items-center mr-3 text-xs text-spotify-green tabular-nums"
+              aria-label={`Sleep timer stops playback in ${formatDuration(sleepTimerRemaining)}`}
+            >
+              <MoonIcon className="h-4 w-4 mr-1" />
+              {formatDuration(sleepTimerRemaining)}
+            </span>
+          )}
+
           {/* Play/Pause Button */}
           <button
             onClick={(e) => {
@@ -139,17 +154,21 @@ export function MobilePlayer({ className }: MobilePlayerProps) {
           </button>
         </div>
 
-        {/* Album Art */}
-        <div className="flex-1 flex items-center justify-center px-8">
-          <div className="relative w-full max-w-sm aspect-square">
-            <Image
-              src={currentTrack.imageUrl || currentTrack.album.imageUrl || "/placeholder.svg"}
-              alt={`${currentTrack.title} album art`}
-              fill
-              className="rounded-lg shadow-2xl object-cover"
-            />
+        {/* Album Art or Lyrics */}
+        {showLyrics ? (
+          <LyricsPanel track={currentTrack} className="flex-1 min-h-0 px-6 py-4" />
+        ) : (
+          <div className="flex-1 flex items-center justify-center px-8">
+            <div className="relative w-full max-w-sm aspect-square">
+              <Image
+                src={currentTrack.imageUrl || currentTrack.album.imageUrl || "/placeholder.svg"}
+                alt={`${currentTrack.title} album art`}
+                fill
+                className="rounded-lg shadow-2xl object-cover"
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Track Info & Controls */}
         <div className="px-6 pb-8">
@@ -223,6 +242,21 @@ export function MobilePlayer({ className }: MobilePlayerProps) {
               <ForwardIcon className="h-6 w-6 text-white" />
             </button>
           </div>
+
+          {/* Lyrics & Sleep Timer */}
+          <div className="flex items-center justify-center space-x-4 mt-4">
+            <button
+              onClick={() => setShowLyrics(!showLyrics)}
+              className={cn(
+                "px-3 py-2 rounded-lg text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-spotify-green",
+                showLyrics ? "text-spotify-green" : "text-gray-300 hover:text-white"
+              )}
+              aria-pressed={showLyrics}
+            >
+              Lyrics
+            </button>
+            <SleepTimerMenu align="left" />
+          </div>
         </div>
       </div>
     </>
@@ -0,0 +1,62 @@
+"use client";
+
+import { usePlayerSessionStore } from "@/stores/player-session-store";
+import { cn, formatDuration } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { PlayIcon, XMarkIcon } from "@heroicons/react/24/solid";
+
+interface ResumePlaybackPromptProps {
+  className?: string;
+}
+
+/**
+ * Offers to carry on with the session restored at sign-in, which may have
+ * been saved on another device
+ */
+export function ResumePlaybackPrompt({ className }: ResumePlaybackPromptProps) {
+  const { resumeSession, resume, dismissResume } = usePlayerSessionStore();
+  const track = resumeSession?.currentTrack;
+
+  if (!resumeSession || !track) {
+    return null;
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby="resume-playback-title"
+      className={cn(
+        "fixed bottom-28 left-1/2 z-[60] w-[calc(100%-2rem)] max-w-md -translate-x-1/2 rounded-lg border border-gray-700 bg-gray-800 p-4 shadow-xl",
+        className,
+      )}
+    >
+      <div className="flex items-start justify-between space-x-3">
+        <div className="min-w-0">
+          <h2 id="resume-playback-title" className="text-sm font-semibold text-white">
+            Resume where you left off?
+          </h2>
+          <p className="mt-1 truncate text-sm text-gray-300">
+            {track.title} · {track.artist.name}
+          </p>
+          <p className="text-xs text-gray-400">
+            Paused at {formatDuration(resumeSession.position)} of {formatDuration(track.duration)}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-400 hover:text-white"
+          onClick={dismissResume}
+          aria-label="Dismiss"
+        >
+          <XMarkIcon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Button variant="spotify" className="mt-3 w-full" onClick={resume}>
+        <PlayIcon className="mr-2 h-4 w-4" />
+        Resume from {formatDuration(resumeSession.position)}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { usePlayerStore } from "@/stores/player-store";
+import {
+  SLEEP_TIMER_PRESETS,
+  describeSleepTimer,
+  getSleepTimerRemaining,
+} from "@/lib/audio/sleep-timer";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/format-utils";
+import { Button } from "@/components/ui/button";
+import { CheckIcon, MoonIcon } from "@heroicons/react/24/outline";
+import type { SleepTimer, SleepTimerOption } from "@/types";
+
+interface SleepTimerMenuProps {
+  className?: string;
+  // Which edge of the button the menu lines up with
+  align?: "left" | "right";
+}
+
+/**
+ * Seconds until the sleep timer stops playback, or null when it's off
+ */
+export function useSleepTimerCountdown(): number | null {
+  const player = usePlayerStore();
+  const [now, setNow] = useState(() => Date.now());
+  const { sleepTimer } = player;
+
+  // Minute timers run down whether or not anything is playing
+  useEffect(() => {
+    if (sleepTimer?.type !== "minutes") return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimer]);
+
+  return sleepTimer ? Math.ceil(getSleepTimerRemaining(sleepTimer, player, now)) : null;
+}
+
+const isSelected = (timer: SleepTimer | null, option: SleepTimerOption) =>
+  timer?.type === option.type &&
+  (option.type !== "minutes" || (timer.type === "minutes" && timer.minutes === option.minutes));
+
+export function SleepTimerMenu({ className, align = "right" }: SleepTimerMenuProps) {
+  const { sleepTimer, playbackContext, setSleepTimer, cancelSleepTimer } = usePlayerStore();
+  const remaining = useSleepTimerCountdown();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Handle click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const options: { label: string; option: SleepTimerOption }[] = [
+    ...SLEEP_TIMER_PRESETS.map(minutes => ({
+      label: `${minutes} minutes`,
+      option: { type: "minutes", minutes } as SleepTimerOption,
+    })),
+    { label: "End of track", option: { type: "track" } },
+    {
+      label: playbackContext?.type === "album" ? "End of album" : "End of playlist or queue",
+      option: { type: "context" },
+    },
+  ];
+
+  const choose = (option: SleepTimerOption) => {
+    setSleepTimer(option);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className={cn("relative", className)}>
+      <Button
+        variant="ghost"
+        size={remaining === null ? "icon" : "sm"}
+        className={cn(
+          "h-11 text-gray-300 hover:text-white min-h-[44px] min-w-[44px]",
+          sleepTimer && "text-spotify-green"
+        )}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={
+          sleepTimer && remaining !== null
+            ? `Sleep timer: ${describeSleepTimer(sleepTimer)}, stops in ${formatDuration(remaining)}`
+            : "Sleep timer"
+        }
+        aria-expanded={isOpen}
+      >
+        <MoonIcon className="h-4 w-4" />
+        {remaining !== null && (
+          <span className="ml-1 text-xs tabular-nums">{formatDuration(remaining)}</span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className={cn(
+            "absolute bottom-full z-50 mb-2 w-56 rounded-lg border border-gray-700 bg-gray-900 py-1 shadow-2xl",
+            align === "right" ? "right-0" : "left-0"
+          )}
+        >
+          <p className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+            Stop audio in
+          </p>
+          {options.map(({ label, option }) => (
+            <button
+              key={label}
+              role="menuitemradio"
+              aria-checked={isSelected(sleepTimer, option)}
+              onClick={() => choose(option)}
+              className="flex w-full items-center justify-between px-3 py-2 text-left text-sm text-white hover:bg-gray-800"
+            >
+              {label}
+              {isSelected(sleepTimer, option) && <CheckIcon className="h-4 w-4 text-spotify-green" />}
+            </button>
+          ))}
+          {sleepTimer && (
+            <button
+              role="menuitem"
+              onClick={() => {
+                cancelSleepTimer();
+                setIsOpen(false);
+              }}
+              className="w-full border-t border-gray-700 px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800"
+            >
+              Turn off timer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
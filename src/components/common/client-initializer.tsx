@@ -3,6 +3,7 @@
 import { useEffect } from 'react';
 import { useToast } from '@/providers/toast-provider';
 import { setGlobalToastError } from '@/lib/client-error-handler';
+import { useOfflineStore } from '@/stores/offline-store';
 
 export function ClientInitializer() {
   const toast = useToast();
@@ -12,5 +13,10 @@ export function ClientInitializer() {
     setGlobalToastError(toast.error);
   }, [toast.error]);
 
+  useEffect(() => {
+    // Registers the service worker and loads downloads for offline playback
+    void useOfflineStore.getState().initialize();
+  }, []);
+
   return null;
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { findActiveIndex } from '@/lib/lyrics/lrc';
+import { useLyricsStore } from '@/stores/lyrics-store';
+import { usePlayerStore } from '@/stores/player-store';
+import type { LyricsLine, Track } from '@/types';
+
+interface LyricsPanelProps {
+  track: Track;
+  className?: string;
+}
+
+/**
+ * Shows a track's lyrics. While the track is playing, synced lyrics follow
+ * along: the current line is highlighted and kept in view, and clicking a
+ * line seeks to it. Lyrics without timings are shown as plain text.
+ */
+export function LyricsPanel({ track, className }: LyricsPanelProps) {
+  const lyrics = useLyricsStore(state => state.lyricsByTrackId[track.id]);
+  const isLoading = useLyricsStore(state => !!state.loadingTrackIds[track.id]);
+  const error = useLyricsStore(state => state.errors[track.id]);
+  const loadLyrics = useLyricsStore(state => state.loadLyrics);
+
+  const isCurrentTrack = usePlayerStore(state => state.currentTrack?.id === track.id);
+  const progress = usePlayerStore(state => state.progress);
+  const seekTo = usePlayerStore(state => state.seekTo);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeLineRef = useRef<HTMLButtonElement>(null);
+
+  const lines = lyrics?.lines ?? [];
+  const activeIndex = isCurrentTrack ? findActiveIndex(lines, progress) : -1;
+
+  useEffect(() => {
+    loadLyrics(track.id);
+  }, [track.id, loadLyrics]);
+
+  // Keep the current line in the middle of the panel
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = activeLineRef.current;
+    if (!container || !line) return;
+
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [activeIndex]);
+
+  if (isLoading || lyrics === undefined) {
+    return (
+      <div className={cn('text-gray-400', className)}>
+        {error ?? 'Loading lyrics…'}
+      </div>
+    );
+  }
+
+  if (!lyrics) {
+    return (
+      <div className={cn('text-gray-400', className)}>
+        No lyrics for this track yet.
+      </div>
+    );
+  }
+
+  // Unsynced lyrics
+  if (lines.length === 0) {
+    return (
+      <div className={cn('overflow-y-auto', className)}>
+        <p className="whitespace-pre-line text-lg font-semibold leading-relaxed text-white">
+          {lyrics.text}
+        </p>
+      </div>
+    );
+  }
+
+  const renderLine = (line: LyricsLine, index: number) => {
+    const isActive = index === activeIndex;
+    const activeWord = isActive && line.words ? findActiveIndex(line.words, progress) : -1;
+
+    return (
+      <li key={`${line.time}-${index}`}>
+        <button
+          ref={isActive ? activeLineRef : undefined}
+          onClick={() => seekTo(line.time)}
+          disabled={!isCurrentTrack}
+          aria-current={isActive ? 'true' : undefined}
+          className={cn(
+            'w-full py-1 text-left text-2xl font-bold transition-colors duration-200',
+            isCurrentTrack && 'hover:text-white',
+            isActive ? 'text-white' : index < activeIndex ? 'text-gray-400' : 'text-gray-500'
+          )}
+        >
+          {line.words && isActive
+            ? line.words.map((word, wordIndex) => (
+                <span
+                  key={`${word.time}-${wordIndex}`}
+                  className={wordIndex <= activeWord ? 'text-white' : 'text-gray-400'}
+                >
+                  {word.text}
+                </span>
+              ))
+            : line.text || '♪'}
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className={cn('relative overflow-y-auto', className)}>
+      <ol className="space-y-2">{lines.map(renderLine)}</ol>
+    </div>
+  );
+}
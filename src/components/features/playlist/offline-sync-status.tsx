@@ -0,0 +1,73 @@
+'use client';
+
+import { ArrowDownCircle, AlertTriangle, HardDrive, Loader2, WifiOff } from 'lucide-react';
+import { getPlaylistSyncStatus, useOfflineStore, type PlaylistSyncStatus } from '@/stores/offline-store';
+
+interface OfflineSyncStatusProps {
+  playlistId: string;
+  // Icon only, for cards
+  compact?: boolean;
+  className?: string;
+}
+
+export function getSyncStatusLabel(status: PlaylistSyncStatus): string {
+  const count = `${status.downloaded} of ${status.total} songs`;
+
+  switch (status.state) {
+    case 'downloaded':
+      return 'Downloaded';
+    case 'downloading':
+      return `Downloading ${count}`;
+    case 'offline':
+      return `${count} downloaded, waiting for a connection`;
+    case 'waiting-for-wifi':
+      return `${count} downloaded, waiting for Wi-Fi`;
+    case 'storage-cap':
+      return `${count} downloaded, storage limit reached`;
+    default:
+      return `${count} downloaded`;
+  }
+}
+
+/**
+ * Where an offline playlist's sync has got; renders nothing for playlists
+ * that aren't available offline
+ */
+export default function OfflineSyncStatus({ playlistId, compact = false, className = '' }: OfflineSyncStatusProps) {
+  const status = useOfflineStore(state => getPlaylistSyncStatus(state, playlistId));
+  if (!status) return null;
+
+  const label = getSyncStatusLabel(status);
+  const iconClass = compact ? 'w-3 h-3' : 'w-4 h-4';
+
+  const icon = (() => {
+    switch (status.state) {
+      case 'downloaded':
+        return <ArrowDownCircle className={`${iconClass} text-green-500`} />;
+      case 'downloading':
+        return <Loader2 className={`${iconClass} text-green-500 animate-spin`} />;
+      case 'offline':
+      case 'waiting-for-wifi':
+        return <WifiOff className={`${iconClass} text-yellow-500`} />;
+      case 'storage-cap':
+        return <HardDrive className={`${iconClass} text-yellow-500`} />;
+      default:
+        return <AlertTriangle className={`${iconClass} text-yellow-500`} />;
+    }
+  })();
+
+  if (compact) {
+    return (
+      <div className={`bg-black/50 backdrop-blur-sm rounded-full p-1 ${className}`} title={label} aria-label={label}>
+        {icon}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-center space-x-2 text-sm text-white/70 ${className}`} role="status">
+      {icon}
+      <span>{label}</span>
+    </div>
+  );
+}
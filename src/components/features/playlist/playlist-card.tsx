@@ -19,6 +19,7 @@ import usePlaylistStore from '@/stores/playlist-store';
 import usePlayerStore from '@/stores/player-store';
 import { Playlist } from '@/types';
 import { formatDuration } from '@/lib/format-utils';
+import OfflineSyncStatus from './offline-sync-status';
 
 interface PlaylistCardProps {
   playlist: Playlist;
@@ -58,7 +59,7 @@ export default function PlaylistCard({ playlist }: PlaylistCardProps) {
     } else {
       // Set playlist as queue and play first track
       const tracks = playlist.tracks.map(pt => pt.track);
-      setQueue(tracks, 0);
+      setQueue(tracks, 0, { type: 'playlist', id: playlist.id, name: playlist.name });
       play(tracks[0]);
     }
   };
@@ -159,6 +160,7 @@ export default function PlaylistCard({ playlist }: PlaylistCardProps) {
               <Users className="w-3 h-3 text-white" />
             </div>
           )}
+          <OfflineSyncStatus playlistId={playlist.id} compact />
         </div>
 
         {/* Selection Checkbox */}
@@ -59,7 +59,7 @@ export default function PlaylistListItem({ playlist, index }: PlaylistListItemPr
     } else {
       // Set playlist as queue and play first track
       const tracks = playlist.tracks.map(pt => pt.track);
-      setQueue(tracks, 0);
+      setQueue(tracks, 0, { type: 'playlist', id: playlist.id, name: playlist.name });
       play(tracks[0]);
     }
   };
@@ -4,8 +4,9 @@ import Image from "next/image";
 import Link from "next/link";
 import { PlayIcon, PauseIcon, HeartIcon } from "@heroicons/react/24/solid";
 import { HeartIcon as HeartOutlineIcon, MusicalNoteIcon } from "@heroicons/react/24/outline";
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { usePlayerStore } from "@/stores/player-store";
+import { useLibraryStore } from "@/stores/library-store";
 import type { Album } from "@/types";
 import { cn } from "@/lib/utils";
 
@@ -22,16 +23,27 @@ export function AlbumCard({
   variant = "grid",
   onPlay,
   onLike,
-  isLiked = false,
+  isLiked: isLikedProp,
 }: AlbumCardProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [imageError, setImageError] = useState(false);
   
   const { currentTrack, isPlaying } = usePlayerStore();
+  const isSavedInLibrary = useLibraryStore(state => !!state.savedAlbumIds[album.id]);
+  const checkSavedAlbums = useLibraryStore(state => state.checkSavedAlbums);
+  const toggleSavedAlbum = useLibraryStore(state => state.toggleSavedAlbum);
+  const isLiked = isLikedProp ?? isSavedInLibrary;
   
   // Check if any track from this album is currently playing
   const isAlbumPlaying = currentTrack?.album.id === album.id && isPlaying;
 
+  // Look up saved status from the library unless the parent controls it
+  useEffect(() => {
+    if (isLikedProp === undefined) {
+      checkSavedAlbums([album.id]);
+    }
+  }, [album.id, isLikedProp, checkSavedAlbums]);
+
   // Format release date
   const formatReleaseDate = (date: Date) => {
     return new Date(date).getFullYear().toString();
@@ -52,9 +64,12 @@ export function AlbumCard({
 
   // Handle like
   const handleLike = (e: React.MouseEvent) => {
+    e.preventDefault();
     e.stopPropagation();
     if (onLike) {
       onLike(album);
+    } else {
+      toggleSavedAlbum(album).catch(() => {});
     }
   };
 
@@ -37,7 +37,12 @@ export function SearchFiltersComponent({ className, compact = false }: SearchFil
   const [showGenreDropdown, setShowGenreDropdown] = useState(false);
   const [showSortDropdown, setShowSortDropdown] = useState(false);
 
-  const { filters, setFilters, resetFilters, selectedResultType, setSelectedResultType } = useSearchStore();
+  const { filters, results, setFilters, resetFilters, selectedResultType, setSelectedResultType } = useSearchStore();
+
+  // Offer the genres present in the current results, with counts, once there are any
+  const genreOptions: { value: string; count?: number }[] = results?.facets?.genres.length
+    ? results.facets.genres
+    : GENRES.map(value => ({ value }));
 
   // Check if any filters are active
   const hasActiveFilters = filters.genre || filters.year || filters.explicit !== undefined || filters.sortBy !== "relevance";
@@ -202,7 +207,7 @@ export function SearchFiltersComponent({ className, compact = false }: SearchFil
                     >
                       All genres
                     </button>
-                    {GENRES.map((genre) => (
+                    {genreOptions.map(({ value: genre, count }) => (
                       <button
                         key={genre}
                         onClick={() => {
@@ -210,13 +215,14 @@ export function SearchFiltersComponent({ className, compact = false }: SearchFil
                           setShowGenreDropdown(false);
                         }}
                         className={cn(
-                          "w-full px-3 py-2 text-left text-sm transition-colors",
+                          "w-full flex justify-between px-3 py-2 text-left text-sm transition-colors",
                           filters.genre === genre
                             ? "bg-green-500 text-black"
                             : "text-white hover:bg-white/10"
                         )}
                       >
-                        {genre}
+                        <span>{genre}</span>
+                        {count !== undefined && <span className="opacity-60">{count}</span>}
                       </button>
                     ))}
                   </div>
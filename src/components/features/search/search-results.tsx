@@ -44,7 +44,7 @@ export function SearchResults({ className }: SearchResultsProps) {
     if (results?.tracks) {
       const artistTracks = results.tracks.filter(track => track.artist.id === artist.id);
       if (artistTracks.length > 0) {
-        setQueue(artistTracks);
+        setQueue(artistTracks, 0, { type: 'artist', id: artist.id, name: artist.name });
         play(artistTracks[0]);
       }
     }
@@ -55,7 +55,7 @@ export function SearchResults({ className }: SearchResultsProps) {
     if (results?.tracks) {
       const albumTracks = results.tracks.filter(track => track.album.id === album.id);
       if (albumTracks.length > 0) {
-        setQueue(albumTracks);
+        setQueue(albumTracks, 0, { type: 'album', id: album.id, name: album.title });
         play(albumTracks[0]);
       }
     }
@@ -66,12 +66,6 @@ export function SearchResults({ className }: SearchResultsProps) {
     addToQueue(track);
   };
 
-  // Handle like (placeholder for now)
-  const handleLike = (item: Track | Artist | Album) => {
-    console.log("Like:", item);
-    // TODO: Implement like functionality
-  };
-
   // Handle follow (placeholder for now)
   const handleFollow = (artist: Artist) => {
     console.log("Follow:", artist);
@@ -207,7 +201,6 @@ export function SearchResults({ className }: SearchResultsProps) {
                       variant="grid"
                       onPlay={handlePlayTrack}
                       onAddToQueue={handleAddToQueue}
-                      onLike={handleLike}
                     />
                   )}
                   {displayResults.artists[0] && (
@@ -223,7 +216,6 @@ export function SearchResults({ className }: SearchResultsProps) {
                       album={displayResults.albums[0]}
                       variant="grid"
                       onPlay={handlePlayAlbum}
-                      onLike={handleLike}
                     />
                   )}
                 </div>
@@ -253,7 +245,6 @@ export function SearchResults({ className }: SearchResultsProps) {
                       variant="list"
                       onPlay={handlePlayTrack}
                       onAddToQueue={handleAddToQueue}
-                      onLike={handleLike}
                     />
                   ))}
                 </div>
@@ -309,7 +300,6 @@ export function SearchResults({ className }: SearchResultsProps) {
                       album={album}
                       variant="grid"
                       onPlay={handlePlayAlbum}
-                      onLike={handleLike}
                     />
                   ))}
                 </div>
@@ -337,7 +327,6 @@ export function SearchResults({ className }: SearchResultsProps) {
                       variant={viewMode}
                       onPlay={handlePlayTrack}
                       onAddToQueue={handleAddToQueue}
-                      onLike={handleLike}
                     />
                   ))}
                 </div>
@@ -375,7 +364,6 @@ export function SearchResults({ className }: SearchResultsProps) {
                       album={album}
                       variant={viewMode}
                       onPlay={handlePlayAlbum}
-                      onLike={handleLike}
                     />
                   ))}
                 </div>
@@ -3,10 +3,12 @@
 import Image from "next/image";
 import Link from "next/link";
 import { PlayIcon, PauseIcon, PlusIcon, HeartIcon } from "@heroicons/react/24/solid";
-import { HeartIcon as HeartOutlineIcon, EllipsisHorizontalIcon, ShareIcon } from "@heroicons/react/24/outline";
-import { useState } from "react";
+import { HeartIcon as HeartOutlineIcon, EllipsisHorizontalIcon, ShareIcon, RadioIcon } from "@heroicons/react/24/outline";
+import { useState, useEffect } from "react";
 import { usePlayerStore } from "@/stores/player-store";
+import { useLibraryStore } from "@/stores/library-store";
 import { useShareModalStore } from "@/stores/social-store";
+import { useRadioStore } from "@/stores/radio-store";
 import type { Track, ShareableContent } from "@/types";
 import { cn } from "@/lib/utils";
 
@@ -29,16 +31,28 @@ export function TrackCard({
   onPlay,
   onAddToQueue,
   onLike,
-  isLiked = false,
+  isLiked: isLikedProp,
 }: TrackCardProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [imageError, setImageError] = useState(false);
   
   const { currentTrack, isPlaying, play, pause } = usePlayerStore();
   const { openShareModal } = useShareModalStore();
+  const startRadio = useRadioStore(state => state.startRadio);
+  const isLikedInLibrary = useLibraryStore(state => !!state.likedTrackIds[track.id]);
+  const checkLikedTracks = useLibraryStore(state => state.checkLikedTracks);
+  const toggleLikedTrack = useLibraryStore(state => state.toggleLikedTrack);
+  const isLiked = isLikedProp ?? isLikedInLibrary;
   const isCurrentTrack = currentTrack?.id === track.id;
   const showPlayButton = isHovered || isCurrentTrack;
 
+  // Look up like status from the library unless the parent controls it
+  useEffect(() => {
+    if (isLikedProp === undefined) {
+      checkLikedTracks([track.id]);
+    }
+  }, [track.id, isLikedProp, checkLikedTracks]);
+
   // Format duration
   const formatDuration = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -74,9 +88,17 @@ export function TrackCard({
     e.stopPropagation();
     if (onLike) {
       onLike(track);
+    } else {
+      toggleLikedTrack(track).catch(() => {});
     }
   };
 
+  // Handle go to radio
+  const handleGoToRadio = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    startRadio("track", track.id);
+  };
+
   // Handle share
   const handleShare = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -209,6 +231,18 @@ export function TrackCard({
           >
             <ShareIcon className="w-4 h-4 text-white" />
           </button>
+          
+          <button
+            onClick={handleGoToRadio}
+            className={cn(
+              "w-8 h-8 rounded-full bg-black/60 hover:bg-black/80 transition-all",
+              "flex items-center justify-center",
+              "focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-offset-2 focus:ring-offset-black"
+            )}
+            aria-label="Go to track radio"
+          >
+            <RadioIcon className="w-4 h-4 text-white" />
+          </button>
         </div>
       </div>
     );
@@ -402,6 +436,18 @@ export function TrackCard({
                 <ShareIcon className="w-4 h-4 text-white/60" />
               </button>
               
+              <button
+                onClick={handleGoToRadio}
+                className={cn(
+                  "w-8 h-8 rounded-full hover:bg-white/10 transition-all",
+                  "flex items-center justify-center",
+                  "focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-offset-2 focus:ring-offset-black"
+                )}
+                aria-label="Go to track radio"
+              >
+                <RadioIcon className="w-4 h-4 text-white/60" />
+              </button>
+              
               <button
                 className={cn(
                   "w-8 h-8 rounded-full hover:bg-white/10 transition-all",
@@ -1,6 +1,8 @@
 "use client";
 
 import { usePlayerStore } from "@/stores/player-store";
+import { useLibraryStore } from "@/stores/library-store";
+import { useRadioStore } from "@/stores/radio-store";
 import { cn, formatDuration } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import {
@@ -20,10 +22,22 @@ import {
   BackwardIcon as SkipBackwardIcon,
   AdjustmentsHorizontalIcon,
   ChartBarSquareIcon,
+  RadioIcon,
+  HandThumbUpIcon,
+  HandThumbDownIcon,
 } from "@heroicons/react/24/outline";
-import { HeartIcon as HeartIconSolid } from "@heroicons/react/24/solid";
+import {
+  HeartIcon as HeartIconSolid,
+  HandThumbUpIcon as HandThumbUpIconSolid,
+  HandThumbDownIcon as HandThumbDownIconSolid,
+} from "@heroicons/react/24/solid";
 import Image from "next/image";
 import { useState, useRef, useEffect } from "react";
+import { PlaybackContextLink } from "@/components/queue/playback-context-link";
+import { DevicePicker } from "@/components/audio/device-picker";
+import { SleepTimerMenu } from "@/components/audio/sleep-timer-menu";
+import { parseRadioContext } from "@/lib/audio/radio";
+import type { VolumeNormalization } from "@/types";
 
 interface EnhancedMusicPlayerProps {
   className?: string;
@@ -32,6 +46,7 @@ interface EnhancedMusicPlayerProps {
 export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
   const {
     currentTrack,
+    playbackContext,
     isPlaying,
     volume,
     progress,
@@ -40,6 +55,7 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
     shuffleMode,
     playbackRate,
     crossfadeDuration,
+    volumeNormalization,
     isEqualizerEnabled,
     isVisualizerEnabled,
     skipCount,
@@ -53,6 +69,7 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
     toggleShuffle,
     setPlaybackRate,
     setCrossfadeDuration,
+    setVolumeNormalization,
     toggleEqualizer,
     toggleVisualizer,
     skipForward,
@@ -60,7 +77,12 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
     initializeAudioEngine,
   } = usePlayerStore();
 
-  const [isLiked, setIsLiked] = useState(false);
+  const isLiked = useLibraryStore(state => !!currentTrack && !!state.likedTrackIds[currentTrack.id]);
+  const checkLikedTracks = useLibraryStore(state => state.checkLikedTracks);
+  const toggleLikedTrack = useLibraryStore(state => state.toggleLikedTrack);
+  const { ratings, startRadio, rateTrack } = useRadioStore();
+  const isRadio = parseRadioContext(playbackContext) !== null;
+  const rating = currentTrack ? ratings[currentTrack.id] : undefined;
   const [isDragging, setIsDragging] = useState(false);
   const [showAdvancedControls, setShowAdvancedControls] = useState(false);
   const [showQueue, setShowQueue] = useState(false);
@@ -71,6 +93,13 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
     initializeAudioEngine();
   }, [initializeAudioEngine]);
 
+  // Look up whether the current track is in liked songs
+  useEffect(() => {
+    if (currentTrack) {
+      checkLikedTracks([currentTrack.id]);
+    }
+  }, [currentTrack, checkLikedTracks]);
+
   // Handle progress bar click and drag
   const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!progressBarRef.current || duration === 0) return;
@@ -171,6 +200,10 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
     setCrossfadeDuration(duration);
   };
 
+  const handleNormalizationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setVolumeNormalization(e.target.value as VolumeNormalization);
+  };
+
   const progressPercentage = duration > 0 ? (progress / duration) * 100 : 0;
   const skipsRemaining = maxSkips - skipCount;
 
@@ -225,6 +258,22 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
               <span className="text-xs text-gray-300 w-8">{crossfadeDuration}s</span>
             </div>
 
+            {/* Volume Normalization */}
+            <div className="flex items-center space-x-2">
+              <label htmlFor="volume-normalization" className="text-xs text-gray-300">Normalize:</label>
+              <select
+                id="volume-normalization"
+                value={volumeNormalization}
+                onChange={handleNormalizationChange}
+                className="bg-gray-700 text-white text-xs px-2 py-1 rounded min-h-[44px]"
+                aria-label="Volume normalization"
+              >
+                <option value="track">Per track</option>
+                <option value="album">Per album</option>
+                <option value="off">Off</option>
+              </select>
+            </div>
+
             {/* Equalizer Toggle */}
             <Button
               variant="ghost"
@@ -289,13 +338,14 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
             <p className="truncate text-xs text-gray-300">
               {currentTrack.artist.name}
             </p>
+            {playbackContext && <PlaybackContextLink context={playbackContext} />}
           </div>
           
           <Button
             variant="ghost"
             size="icon"
             className="h-11 w-11 text-gray-300 hover:text-white min-h-[44px] min-w-[44px]"
-            onClick={() => setIsLiked(!isLiked)}
+            onClick={() => currentTrack && toggleLikedTrack(currentTrack).catch(() => {})}
             aria-label={`${isLiked ? 'Remove from' : 'Add to'} liked songs`}
           >
             {isLiked ? (
@@ -304,6 +354,50 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
               <HeartIcon className="h-4 w-4" />
             )}
           </Button>
+          
+          {/* Thumbs up/down steer the station; anywhere else, start one */}
+          {isRadio ? (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-11 w-11 text-gray-300 hover:text-white min-h-[44px] min-w-[44px]"
+                onClick={() => rateTrack(currentTrack, rating === "up" ? null : "up")}
+                aria-label="More like this"
+                aria-pressed={rating === "up"}
+              >
+                {rating === "up" ? (
+                  <HandThumbUpIconSolid className="h-4 w-4 text-spotify-green" />
+                ) : (
+                  <HandThumbUpIcon className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-11 w-11 text-gray-300 hover:text-white min-h-[44px] min-w-[44px]"
+                onClick={() => rateTrack(currentTrack, rating === "down" ? null : "down")}
+                aria-label="Less like this"
+                aria-pressed={rating === "down"}
+              >
+                {rating === "down" ? (
+                  <HandThumbDownIconSolid className="h-4 w-4 text-white" />
+                ) : (
+                  <HandThumbDownIcon className="h-4 w-4" />
+                )}
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-11 w-11 text-gray-300 hover:text-white min-h-[44px] min-w-[44px]"
+              onClick={() => startRadio("track", currentTrack.id)}
+              aria-label="Go to track radio"
+            >
+              <RadioIcon className="h-4 w-4" />
+            </Button>
+          )}
         </div>
 
         {/* Center Section - Player Controls */}
@@ -467,6 +561,12 @@ export function EnhancedMusicPlayer({ className }: EnhancedMusicPlayerProps) {
             )}
           </Button>
 
+          {/* Sleep Timer */}
+          <SleepTimerMenu />
+
+          {/* Connect Device Picker */}
+          <DevicePicker />
+
           {/* Volume Control */}
           <Button
             variant="ghost"
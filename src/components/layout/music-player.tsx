@@ -1,6 +1,7 @@
 "use client";
 
 import { usePlayerStore } from "@/stores/player-store";
+import { useLibraryStore } from "@/stores/library-store";
 import { useAuthStore } from "@/stores/auth-store";
 import { cn, formatDuration } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -58,10 +59,19 @@ export function MusicPlayer({ className }: MusicPlayerProps) {
     getCurrentAd,
   } = usePlayerStore();
 
-  const [isLiked, setIsLiked] = useState(false);
+  const isLiked = useLibraryStore(state => !!currentTrack && !!state.likedTrackIds[currentTrack.id]);
+  const checkLikedTracks = useLibraryStore(state => state.checkLikedTracks);
+  const toggleLikedTrack = useLibraryStore(state => state.toggleLikedTrack);
   const [isDragging, setIsDragging] = useState(false);
   const [showExpandedAd, setShowExpandedAd] = useState(false);
   const progressBarRef = useRef<HTMLDivElement>(null);
+
+  // Look up whether the current track is in liked songs
+  useEffect(() => {
+    if (currentTrack) {
+      checkLikedTracks([currentTrack.id]);
+    }
+  }, [currentTrack, checkLikedTracks]);
   
   const { showUpgradePrompt, hideUpgradePrompt, ...upgradePromptState } = useUpgradePrompt();
   
@@ -276,7 +286,7 @@ export function MusicPlayer({ className }: MusicPlayerProps) {
             variant="ghost"
             size="icon"
             className="h-8 w-8 text-gray-300 hover:text-white"
-            onClick={() => setIsLiked(!isLiked)}
+            onClick={() => currentTrack && toggleLikedTrack(currentTrack).catch(() => {})}
           >
             {isLiked ? (
               <HeartIconSolid className="h-4 w-4 text-spotify-green" />
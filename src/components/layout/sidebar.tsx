@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useSession } from "next-auth/react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { cn } from "@/lib/utils";
 import { UserMenu } from "@/components/auth/user-menu";
 import { NotificationBell } from "@/components/social/notification-bell";
@@ -18,6 +18,7 @@ import {
   CreditCardIcon,
   StarIcon,
   UserGroupIcon,
+  FolderIcon,
 } from "@heroicons/react/24/outline";
 import {
   HomeIcon as HomeIconSolid,
@@ -28,6 +29,7 @@ import {
   UserGroupIcon as UserGroupIconSolid,
 } from "@heroicons/react/24/solid";
 import usePlaylistStore from "@/stores/playlist-store";
+import { useLibraryStore } from "@/stores/library-store";
 import CreatePlaylistModal from "@/components/features/playlist/create-playlist-modal";
 import { useAuthStore } from "@/stores/auth-store";
 import { TierManager } from "@/lib/subscription/tier-manager";
@@ -47,7 +49,7 @@ const mainNavItems = [
   },
   {
     label: "Your Library",
-    href: "/playlists",
+    href: "/library",
     icon: RectangleStackIcon,
     activeIcon: RectangleStackIconSolid,
   },
@@ -78,6 +80,48 @@ interface SidebarProps {
   className?: string;
 }
 
+interface LibraryLinkProps {
+  href: string;
+  label: string;
+  kind: string;
+  isActive: boolean;
+  imageUrl?: string;
+  icon?: React.ComponentType<{ className?: string }>;
+}
+
+function LibraryLink({ href, label, kind, isActive, imageUrl, icon: Icon = MusicalNoteIcon }: LibraryLinkProps) {
+  return (
+    <Link
+      href={href}
+      className={cn(
+        "flex items-center space-x-3 rounded-md px-3 py-3 transition-colors",
+        "hover:bg-gray-800 hover:text-white focus:outline-none focus:ring-2 focus:ring-spotify-green focus:ring-offset-2 focus:ring-offset-black",
+        "min-h-[44px]", // WCAG touch target size
+        isActive
+          ? "bg-gray-900 text-white"
+          : "text-gray-300"
+      )}
+      aria-current={isActive ? "page" : undefined}
+      aria-label={`${label} ${kind}${isActive ? " (current page)" : ""}`}
+    >
+      {imageUrl ? (
+        <>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={imageUrl}
+            alt={label}
+            className="h-4 w-4 rounded flex-shrink-0"
+            loading="lazy"
+          />
+        </>
+      ) : (
+        <Icon className="h-4 w-4 flex-shrink-0" />
+      )}
+      <span className="truncate">{label}</span>
+    </Link>
+  );
+}
+
 export function Sidebar({ className }: SidebarProps) {
   const pathname = usePathname();
   const { data: session } = useSession();
@@ -85,14 +129,34 @@ export function Sidebar({ className }: SidebarProps) {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   
   const { 
+    folders,
     getUserPlaylists, 
+    fetchPlaylists,
+    fetchFolders,
     isLoading: playlistsLoading 
   } = usePlaylistStore();
+
+  const {
+    followedPlaylists,
+    savedAlbums,
+    fetchFollowedPlaylists,
+    fetchSavedAlbums,
+  } = useLibraryStore();
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchPlaylists();
+      fetchFolders();
+      fetchFollowedPlaylists();
+      fetchSavedAlbums();
+    }
+  }, [session?.user, fetchPlaylists, fetchFolders, fetchFollowedPlaylists, fetchSavedAlbums]);
   
   const userPlaylists = session?.user ? getUserPlaylists(session.user.id) : [];
   const recentPlaylists = userPlaylists
     .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
     .slice(0, 5);
+  const libraryItemCount = folders.length + userPlaylists.length + followedPlaylists.length + savedAlbums.length;
 
   const isPremiumUser = TierManager.isPremiumUser(user);
   const isInTrial = TierManager.isInTrial(user);
@@ -196,65 +260,70 @@ export function Sidebar({ className }: SidebarProps) {
             })}
           </div>
 
-          {/* Playlists Section */}
+          {/* Library Section: folders, owned and followed playlists, saved albums */}
           {session?.user && (
             <div className="mt-6">
               <div className="flex items-center justify-between px-3 mb-2">
                 <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-400">
-                  Recently Created
+                  Your Library
                 </h3>
-                {userPlaylists.length > 5 && (
+                {libraryItemCount > 5 && (
                   <Link 
-                    href="/playlists" 
+                    href="/library" 
                     className="text-xs text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-spotify-green focus:ring-offset-2 focus:ring-offset-black rounded px-2 py-2 min-h-[44px] min-w-[44px] flex items-center justify-center"
-                    aria-label="Show all playlists"
+                    aria-label="Show your whole library"
                   >
                     Show all
                   </Link>
                 )}
               </div>
               
-              {playlistsLoading ? (
+              {playlistsLoading && libraryItemCount === 0 ? (
                 <div className="px-3 py-2 text-sm text-gray-400">
                   Loading playlists...
                 </div>
-              ) : recentPlaylists.length > 0 ? (
+              ) : libraryItemCount > 0 ? (
                 <div className="space-y-1 text-sm text-gray-300">
-                  {recentPlaylists.map((playlist) => {
-                    const isActive = pathname === `/playlist/${playlist.id}`;
-                    
-                    return (
-                      <Link
-                        key={playlist.id}
-                        href={`/playlist/${playlist.id}`}
-                        className={cn(
-                          "flex items-center space-x-3 rounded-md px-3 py-3 transition-colors",
-                          "hover:bg-gray-800 hover:text-white focus:outline-none focus:ring-2 focus:ring-spotify-green focus:ring-offset-2 focus:ring-offset-black",
-                          "min-h-[44px]", // WCAG touch target size
-                          isActive
-                            ? "bg-gray-900 text-white"
-                            : "text-gray-300"
-                        )}
-                        aria-current={isActive ? "page" : undefined}
-                        aria-label={`${playlist.name} playlist${isActive ? " (current page)" : ""}`}
-                      >
-                        {playlist.imageUrl ? (
-                          <>
-                            {/* eslint-disable-next-line @next/next/no-img-element */}
-                            <img
-                              src={playlist.imageUrl}
-                              alt={playlist.name}
-                              className="h-4 w-4 rounded flex-shrink-0"
-                              loading="lazy"
-                            />
-                          </>
-                        ) : (
-                          <MusicalNoteIcon className="h-4 w-4 flex-shrink-0" />
-                        )}
-                        <span className="truncate">{playlist.name}</span>
-                      </Link>
-                    );
-                  })}
+                  {folders.map((folder) => (
+                    <LibraryLink
+                      key={folder.id}
+                      href="/playlists"
+                      label={folder.name}
+                      kind="folder"
+                      isActive={false}
+                      icon={FolderIcon}
+                    />
+                  ))}
+                  {recentPlaylists.map((playlist) => (
+                    <LibraryLink
+                      key={playlist.id}
+                      href={`/playlist/${playlist.id}`}
+                      label={playlist.name}
+                      kind="playlist"
+                      isActive={pathname === `/playlist/${playlist.id}`}
+                      imageUrl={playlist.imageUrl}
+                    />
+                  ))}
+                  {followedPlaylists.map((playlist) => (
+                    <LibraryLink
+                      key={playlist.id}
+                      href={`/playlist/${playlist.id}`}
+                      label={playlist.name}
+                      kind={`playlist by ${playlist.owner.displayName}`}
+                      isActive={pathname === `/playlist/${playlist.id}`}
+                      imageUrl={playlist.imageUrl}
+                    />
+                  ))}
+                  {savedAlbums.map((album) => (
+                    <LibraryLink
+                      key={album.id}
+                      href={`/album/${album.id}`}
+                      label={album.title}
+                      kind={`album by ${album.artist.name}`}
+                      isActive={pathname === `/album/${album.id}`}
+                      imageUrl={album.imageUrl}
+                    />
+                  ))}
                 </div>
               ) : (
                 <div className="px-3 py-2 text-sm text-gray-400">
@@ -257,21 +257,11 @@ export function CrossfadeControl({
               <h4 className="font-medium text-gray-700">Advanced Settings</h4>
               
               <div className="space-y-2">
-                <label className="flex items-center space-x-2 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    defaultChecked={true}
-                    disabled={!enabled}
-                    className={`rounded ${
-                      enabled ? 'text-blue-600' : 'text-gray-400'
-                    }`}
-                  />
-                  <span className={`text-sm ${
-                    enabled ? 'text-gray-700' : 'text-gray-400'
-                  }`}>
-                    Smart gapless playback
-                  </span>
-                </label>
+                <p className={`text-sm ${
+                  enabled ? 'text-gray-700' : 'text-gray-400'
+                }`}>
+                  Tracks that run into each other on an album play gapless at normal speed, without a crossfade
+                </p>
                 
                 <label className="flex items-center space-x-2 cursor-pointer">
                   <input
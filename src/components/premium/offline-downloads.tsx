@@ -1,180 +1,170 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import Image from 'next/image';
-import { Download, Check, X, Wifi, WifiOff, HardDrive, Clock } from 'lucide-react';
-import { Track, User, OfflineTrack, OfflinePlaylist } from '@/types';
+import { Download, Check, X, Wifi, WifiOff, HardDrive, Clock, Pause, AlertTriangle } from 'lucide-react';
+import { Track, User } from '@/types';
 import { featureGate } from '@/lib/subscription/feature-gate';
 import { TierManager } from '@/lib/subscription/tier-manager';
+import { isLicenseValid } from '@/lib/offline/offline-license';
+import type { OfflineDownload } from '@/lib/offline/offline-db';
+import type { DownloadProgress } from '@/lib/offline/download-queue';
+import { formatBytes, formatDate } from '@/lib/format-utils';
+import { useOfflineStore } from '@/stores/offline-store';
 import { Button } from '@/components/ui/button';
 
+const GB = 1024 ** 3;
+
+// Storage caps offered for playlist downloads; null is no cap
+const STORAGE_CAP_OPTIONS: (number | null)[] = [null, 1 * GB, 2 * GB, 5 * GB, 10 * GB];
+
 interface OfflineDownloadsProps {
   user: User | null;
   tracks?: Track[];
   className?: string;
 }
 
-// Mock offline storage
-class OfflineStorageService {
-  private downloads: Map<string, OfflineTrack> = new Map();
-  private offlinePlaylists: Map<string, OfflinePlaylist> = new Map();
-
-  downloadTrack(track: Track, quality: 'low' | 'medium' | 'high' = 'high'): Promise<OfflineTrack> {
-    return new Promise((resolve) => {
-      // Simulate download time
-      setTimeout(() => {
-        const offlineTrack: OfflineTrack = {
-          trackId: track.id,
-          downloadedAt: new Date(),
-          quality,
-          size: this.calculateSize(track.duration, quality),
-          expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
-        };
-        
-        this.downloads.set(track.id, offlineTrack);
-        resolve(offlineTrack);
-      }, Math.random() * 3000 + 1000); // 1-4 second download
-    });
-  }
-
-  removeDownload(trackId: string): boolean {
-    return this.downloads.delete(trackId);
-  }
-
-  isDownloaded(trackId: string): boolean {
-    return this.downloads.has(trackId);
-  }
-
-  getDownload(trackId: string): OfflineTrack | null {
-    return this.downloads.get(trackId) || null;
-  }
-
-  getAllDownloads(): OfflineTrack[] {
-    return Array.from(this.downloads.values());
-  }
-
-  getTotalSize(): number {
-    return Array.from(this.downloads.values()).reduce((total, track) => total + track.size, 0);
-  }
-
-  private calculateSize(durationSeconds: number, quality: 'low' | 'medium' | 'high'): number {
-    const bitrates = { low: 96, medium: 160, high: 320 };
-    const bitrate = bitrates[quality];
-    return (bitrate * durationSeconds) / 8 / 1024; // Convert to MB
-  }
+type DownloadState = 'idle' | 'queued' | 'downloading' | 'paused' | 'error' | 'downloaded' | 'expired';
+
+function getDownloadState(download: OfflineDownload | undefined, progress: DownloadProgress | undefined): DownloadState {
+  if (progress) return progress.status;
+  if (!download) return 'idle';
+  if (!download.complete) return 'paused';
+  return isLicenseValid(download) ? 'downloaded' : 'expired';
 }
 
-const offlineStorage = new OfflineStorageService();
+function getProgressPercent(progress: DownloadProgress | undefined): number {
+  if (!progress?.size) return 0;
+  return Math.floor((progress.bytesStored / progress.size) * 100);
+}
 
 export function OfflineDownloads({ user, tracks = [], className = '' }: OfflineDownloadsProps) {
-  const [downloads, setDownloads] = useState<Map<string, 'downloading' | 'downloaded' | 'error'>>(new Map());
-  const [totalSize, setTotalSize] = useState(0);
-  const [isOnline, setIsOnline] = useState(true);
-
-  useEffect(() => {
-    // Initialize download states
-    const initialStates = new Map();
-    tracks.forEach(track => {
-      if (offlineStorage.isDownloaded(track.id)) {
-        initialStates.set(track.id, 'downloaded');
-      }
-    });
-    setDownloads(initialStates);
-    setTotalSize(offlineStorage.getTotalSize());
-
-    // Listen for online/offline events
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-    
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, [tracks]);
+  const downloads = useOfflineStore(state => state.downloads);
+  const progress = useOfflineStore(state => state.progress);
+  const storage = useOfflineStore(state => state.storage);
+  const isOnline = useOfflineStore(state => state.isOnline);
+  const settings = useOfflineStore(state => state.settings);
+  const {
+    downloadTrack,
+    pauseDownload,
+    resumeDownload,
+    removeDownload,
+    clearAllDownloads,
+    updateSettings,
+  } = useOfflineStore.getState();
+
+  const completeDownloads = Object.values(downloads).filter(download => download.complete);
+  const downloadedBytes = Object.values(downloads).reduce((total, download) => total + download.bytesStored, 0);
+  const nextExpiry = completeDownloads
+    .map(download => download.expiresAt)
+    .filter((expiresAt): expiresAt is Date => !!expiresAt)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
 
   const handleDownload = async (track: Track) => {
     if (!user) return;
 
     // Check feature access
     const accessResult = await featureGate.useFeature(user, 'offline_downloads', track);
-    
+
     if (!accessResult.success) {
       // Show upgrade prompt or error
       console.log('Download not allowed:', accessResult.error);
       return;
     }
 
-    // Start download
-    setDownloads(prev => new Map(prev.set(track.id, 'downloading')));
-    
-    try {
-      await offlineStorage.downloadTrack(track);
-      setDownloads(prev => new Map(prev.set(track.id, 'downloaded')));
-      setTotalSize(offlineStorage.getTotalSize());
-    } catch (error) {
-      setDownloads(prev => new Map(prev.set(track.id, 'error')));
-      console.error('Download failed:', error);
-    }
-  };
-
-  const handleRemoveDownload = (track: Track) => {
-    const removed = offlineStorage.removeDownload(track.id);
-    if (removed) {
-      setDownloads(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(track.id);
-        return newMap;
-      });
-      setTotalSize(offlineStorage.getTotalSize());
-    }
+    downloadTrack(track);
   };
 
   const getDownloadButton = (track: Track) => {
-    const downloadState = downloads.get(track.id);
-    
+    const trackProgress = progress[track.id];
+    const downloadState = getDownloadState(downloads[track.id], trackProgress);
+
     switch (downloadState) {
+      case 'queued':
+        return (
+          <Button
+            onClick={() => pauseDownload(track.id)}
+            variant="ghost"
+            size="sm"
+            className="text-blue-600"
+            title="Cancel download"
+          >
+            <Clock className="w-4 h-4 mr-1" />
+            Queued
+          </Button>
+        );
+
       case 'downloading':
         return (
           <Button
-            disabled
+            onClick={() => pauseDownload(track.id)}
             variant="ghost"
             size="sm"
             className="text-blue-600"
+            title="Pause download"
+          >
+            <Pause className="w-4 h-4 mr-1" />
+            {getProgressPercent(trackProgress)}%
+          </Button>
+        );
+
+      case 'paused':
+        return (
+          <Button
+            onClick={() => resumeDownload(track.id)}
+            variant="ghost"
+            size="sm"
+            className="text-gray-600 hover:text-blue-600"
+            disabled={!isOnline}
           >
-            <Clock className="w-4 h-4 animate-spin mr-1" />
-            Downloading...
+            <Download className="w-4 h-4 mr-1" />
+            Resume ({getProgressPercent(trackProgress)}%)
           </Button>
         );
-        
+
       case 'downloaded':
         return (
           <Button
-            onClick={() => handleRemoveDownload(track)}
+            onClick={() => removeDownload(track.id)}
             variant="ghost"
             size="sm"
             className="text-green-600 hover:text-red-600"
+            title="Remove download"
           >
             <Check className="w-4 h-4 mr-1" />
             Downloaded
           </Button>
         );
-        
+
+      case 'expired':
+        return (
+          <Button
+            onClick={() => removeDownload(track.id)}
+            variant="ghost"
+            size="sm"
+            className="text-yellow-600 hover:text-red-600"
+            title="Go online to renew, or remove the download"
+          >
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            Expired
+          </Button>
+        );
+
       case 'error':
         return (
           <Button
-            onClick={() => handleDownload(track)}
+            onClick={() => (downloads[track.id] ? resumeDownload(track.id) : handleDownload(track))}
             variant="ghost"
             size="sm"
             className="text-red-600"
+            title={trackProgress?.error}
+            disabled={!isOnline}
           >
             <X className="w-4 h-4 mr-1" />
             Retry
           </Button>
         );
-        
+
       default:
         return (
           <Button
@@ -182,7 +172,7 @@ export function OfflineDownloads({ user, tracks = [], className = '' }: OfflineD
             variant="ghost"
             size="sm"
             className="text-gray-600 hover:text-blue-600"
-            disabled={!TierManager.hasFeatureAccess(user, 'offline_downloads')}
+            disabled={!isOnline || !TierManager.hasFeatureAccess(user, 'offline_downloads')}
           >
             <Download className="w-4 h-4 mr-1" />
             Download
@@ -206,9 +196,9 @@ export function OfflineDownloads({ user, tracks = [], className = '' }: OfflineD
             <WifiOff className="w-4 h-4 text-red-500" />
           )}
         </div>
-        
+
         <div className="text-sm text-gray-600">
-          {totalSize.toFixed(1)} MB used
+          {formatBytes(downloadedBytes)} used
         </div>
       </div>
 
@@ -240,6 +230,38 @@ export function OfflineDownloads({ user, tracks = [], className = '' }: OfflineD
         </div>
       )}
 
+      {/* Playlist Download Settings */}
+      {TierManager.hasFeatureAccess(user, 'offline_downloads') && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-3 text-sm text-gray-700">
+          <h4 className="font-semibold text-gray-900">Playlist downloads</h4>
+
+          <label className="flex items-center justify-between">
+            <span>Download over Wi-Fi only</span>
+            <input
+              type="checkbox"
+              checked={settings.wifiOnly}
+              onChange={(e) => updateSettings({ wifiOnly: e.target.checked })}
+              className="w-4 h-4"
+            />
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span>Storage limit</span>
+            <select
+              value={settings.storageCap ?? ''}
+              onChange={(e) => updateSettings({ storageCap: e.target.value ? Number(e.target.value) : null })}
+              className="border border-gray-300 rounded px-2 py-1 bg-white"
+            >
+              {STORAGE_CAP_OPTIONS.map(cap => (
+                <option key={cap ?? 'none'} value={cap ?? ''}>
+                  {cap === null ? 'No limit' : formatBytes(cap)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
       {/* Track List */}
       <div className="space-y-2">
         {tracks.map((track) => (
@@ -262,46 +284,50 @@ export function OfflineDownloads({ user, tracks = [], className = '' }: OfflineD
                 <p className="text-sm text-gray-600">{track.artist.name}</p>
               </div>
             </div>
-            
+
             {getDownloadButton(track)}
           </div>
         ))}
       </div>
 
       {/* Download Management */}
-      {downloads.size > 0 && (
+      {Object.keys(downloads).length > 0 && (
         <div className="mt-6 p-4 bg-blue-50 rounded-lg">
           <h4 className="font-semibold text-blue-900 mb-2">
             Download Management
           </h4>
-          
+
           <div className="space-y-2 text-sm text-blue-800">
             <div className="flex justify-between">
               <span>Total downloads:</span>
-              <span>{downloads.size} tracks</span>
+              <span>{completeDownloads.length} tracks</span>
             </div>
             <div className="flex justify-between">
               <span>Storage used:</span>
-              <span>{totalSize.toFixed(1)} MB</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Expires:</span>
-              <span>In 30 days</span>
+              <span>{formatBytes(downloadedBytes)}</span>
             </div>
+            {storage && storage.quota > 0 && (
+              <div className="flex justify-between">
+                <span>Space available:</span>
+                <span>{formatBytes(Math.max(0, storage.quota - storage.usage))}</span>
+              </div>
+            )}
+            {nextExpiry && (
+              <div className="flex justify-between">
+                <span>{isLicenseValid({ expiresAt: nextExpiry }) ? 'Next expiry:' : 'Expired:'}</span>
+                <span>{formatDate(nextExpiry)}</span>
+              </div>
+            )}
           </div>
-          
+          <p className="mt-2 text-xs text-blue-700">
+            Downloads stay playable for 30 days and renew whenever you&apos;re online.
+          </p>
+
           <Button
             variant="outline"
             size="sm"
             className="mt-3 text-blue-600 border-blue-200"
-            onClick={() => {
-              // Clear all downloads
-              tracks.forEach(track => {
-                if (offlineStorage.isDownloaded(track.id)) {
-                  handleRemoveDownload(track);
-                }
-              });
-            }}
+            onClick={() => clearAllDownloads()}
           >
             Clear All Downloads
           </Button>
@@ -319,54 +345,66 @@ interface DownloadButtonProps {
   showText?: boolean;
 }
 
-export function DownloadButton({ 
-  track, 
-  user, 
-  size = 'md', 
-  showText = false 
+export function DownloadButton({
+  track,
+  user,
+  size = 'md',
+  showText = false
 }: DownloadButtonProps) {
-  const [downloadState, setDownloadState] = useState<'idle' | 'downloading' | 'downloaded' | 'error'>('idle');
-  
-  useEffect(() => {
-    if (offlineStorage.isDownloaded(track.id)) {
-      setDownloadState('downloaded');
+  const download = useOfflineStore(state => state.downloads[track.id]);
+  const progress = useOfflineStore(state => state.progress[track.id]);
+  const isOnline = useOfflineStore(state => state.isOnline);
+  const downloadState = getDownloadState(download, progress);
+
+  const handleClick = () => {
+    const { downloadTrack, pauseDownload, resumeDownload, removeDownload } = useOfflineStore.getState();
+
+    switch (downloadState) {
+      case 'queued':
+      case 'downloading':
+        pauseDownload(track.id);
+        return;
+      case 'downloaded':
+      case 'expired':
+        void removeDownload(track.id);
+        return;
     }
-  }, [track.id]);
 
-  const handleDownload = async () => {
     if (!user || !TierManager.hasFeatureAccess(user, 'offline_downloads')) {
       // Show upgrade prompt
       return;
     }
 
-    setDownloadState('downloading');
-    
-    try {
-      await offlineStorage.downloadTrack(track);
-      setDownloadState('downloaded');
-    } catch (_error) {
-      setDownloadState('error');
+    if (download) {
+      resumeDownload(track.id);
+    } else {
+      downloadTrack(track);
     }
   };
 
-  const handleRemove = () => {
-    offlineStorage.removeDownload(track.id);
-    setDownloadState('idle');
-  };
-
   const iconSize = size === 'sm' ? 'w-3 h-3' : 'w-4 h-4';
   const buttonSize = size === 'sm' ? 'p-1' : 'p-2';
+  const isWaiting = downloadState === 'queued' || downloadState === 'downloading';
+  const needsNetwork = downloadState === 'idle' || downloadState === 'paused' || downloadState === 'error';
 
   const getButtonContent = () => {
     switch (downloadState) {
+      case 'queued':
+        return (
+          <>
+            <Clock className={iconSize} />
+            {showText && <span>Queued</span>}
+          </>
+        );
+
       case 'downloading':
         return (
           <>
-            <Clock className={`${iconSize} animate-spin`} />
-            {showText && <span>Downloading</span>}
+            <Pause className={iconSize} />
+            {showText && <span>{getProgressPercent(progress)}%</span>}
           </>
         );
-        
+
       case 'downloaded':
         return (
           <>
@@ -374,7 +412,15 @@ export function DownloadButton({
             {showText && <span>Downloaded</span>}
           </>
         );
-        
+
+      case 'expired':
+        return (
+          <>
+            <AlertTriangle className={iconSize} />
+            {showText && <span>Expired</span>}
+          </>
+        );
+
       case 'error':
         return (
           <>
@@ -382,37 +428,53 @@ export function DownloadButton({
             {showText && <span>Retry</span>}
           </>
         );
-        
+
       default:
         return (
           <>
             <Download className={iconSize} />
-            {showText && <span>Download</span>}
+            {showText && <span>{downloadState === 'paused' ? 'Resume' : 'Download'}</span>}
           </>
         );
     }
   };
 
+  const getTitle = () => {
+    switch (downloadState) {
+      case 'queued':
+        return 'Cancel download';
+      case 'downloading':
+        return `Downloading (${getProgressPercent(progress)}%) - click to pause`;
+      case 'paused':
+        return 'Resume download';
+      case 'downloaded':
+        return 'Remove download';
+      case 'expired':
+        return 'Download expired - go online to renew, or click to remove';
+      case 'error':
+        return progress?.error ?? 'Download failed - click to retry';
+      default:
+        return 'Download for offline listening';
+    }
+  };
+
   return (
     <button
-      onClick={downloadState === 'downloaded' ? handleRemove : handleDownload}
-      disabled={downloadState === 'downloading'}
+      onClick={handleClick}
+      disabled={needsNetwork && !isOnline}
       className={`
         ${buttonSize} rounded-full transition-colors
-        ${downloadState === 'downloaded' 
-          ? 'text-green-600 hover:text-red-600' 
+        ${downloadState === 'downloaded'
+          ? 'text-green-600 hover:text-red-600'
           : 'text-gray-600 hover:text-blue-600'
         }
-        ${downloadState === 'downloading' ? 'opacity-50 cursor-not-allowed' : ''}
+        ${isWaiting ? 'text-blue-600' : ''}
+        ${needsNetwork && !isOnline ? 'opacity-50 cursor-not-allowed' : ''}
         ${showText ? 'px-3 flex items-center space-x-1' : ''}
       `}
-      title={
-        downloadState === 'downloaded' ? 'Remove download' : 
-        downloadState === 'downloading' ? 'Downloading...' : 
-        'Download for offline listening'
-      }
+      title={getTitle()}
     >
       {getButtonContent()}
     </button>
   );
-}
\ No newline at end of file
+}
@@ -17,6 +17,9 @@ import {
 import { PlayIcon as PlayIconSolid } from "@heroicons/react/24/solid";
 import Image from "next/image";
 import type { Track } from "@/types";
+import { getUpcomingIndices } from "@/lib/audio/shuffle";
+import { getPlaybackContextName } from "@/lib/audio/playback-context";
+import { PlaybackContextLink } from "./playback-context-link";
 
 interface EnhancedQueueProps {
   className?: string;
@@ -32,11 +35,19 @@ interface DragState {
 export function EnhancedQueue({ className, onClose }: EnhancedQueueProps) {
   const {
     queue,
+    upNext,
+    playbackContext,
     currentIndex,
     currentTrack,
+    shuffleOrder,
+    playHistory,
+    autoplay,
+    autoplayStartIndex,
     isPlaying,
     play,
+    setAutoplay,
     removeFromQueue,
+    removeFromUpNext,
     reorderQueue,
     clearQueue,
   } = usePlayerStore();
@@ -134,18 +145,138 @@ export function EnhancedQueue({ className, onClose }: EnhancedQueueProps) {
     if (track) {
       // Update current index and play
       const { setQueue } = usePlayerStore.getState();
-      setQueue(queue, index);
+      setQueue(queue, index, playbackContext);
       play(track);
     }
     setShowOptions(null);
   };
 
   // Calculate queue stats
-  const totalDuration = queue.reduce((total, track) => total + track.duration, 0);
-  const upcomingTracks = queue.slice(currentIndex + 1);
-  const previousTracks = queue.slice(0, currentIndex);
+  const totalDuration = [...queue, ...upNext].reduce((total, track) => total + track.duration, 0);
+  // Upcoming tracks follow the shuffle order; previous ones are what actually played
+  const upcomingIndices = getUpcomingIndices(queue.length, shuffleOrder, currentIndex);
+  const previousTracks = playHistory
+    .map(index => queue[index])
+    .filter((track): track is Track => Boolean(track));
+  // Autoplay tracks sit after the context in the queue but are listed on their own
+  const isAutoplayIndex = (index: number) => autoplayStartIndex !== null && index >= autoplayStartIndex;
+  const contextIndices = upcomingIndices.filter(index => !isAutoplayIndex(index));
+  const autoplayIndices = upcomingIndices.filter(isAutoplayIndex);
 
-  if (queue.length === 0) {
+  // One row of the upcoming context or autoplay tracks
+  const renderUpcomingTrack = (actualIndex: number, index: number) => {
+    const track = queue[actualIndex];
+    if (!track) return null;
+
+    const isDragSource = dragState.dragIndex === actualIndex;
+    const isDropTarget = dragState.dropIndex === actualIndex;
+    
+    return (
+      <div
+        key={`${track.id}-${actualIndex}`}
+        className={cn(
+          "group flex items-center space-x-3 p-3 hover:bg-gray-700/50 transition-colors relative",
+          isDragSource && "opacity-50",
+          isDropTarget && "bg-spotify-green/10 border-l-2 border-spotify-green"
+        )}
+        draggable
+        onDragStart={(e) => handleDragStart(e, actualIndex)}
+        onDragOver={(e) => handleDragOver(e, actualIndex)}
+        onDrop={(e) => handleDrop(e, actualIndex)}
+        onDragEnd={handleDragEnd}
+      >
+        {/* Drag Handle */}
+        <div className="opacity-0 group-hover:opacity-100 transition-opacity cursor-grab active:cursor-grabbing">
+          <Bars3Icon className="h-4 w-4 text-gray-400" />
+        </div>
+        
+        {/* Track Number */}
+        <div className="w-4 text-xs text-gray-400 text-right">
+          {index + 1}
+        </div>
+        
+        {/* Track Image */}
+        <div className="relative h-10 w-10 overflow-hidden rounded group">
+          {track.imageUrl ? (
+            <Image
+              src={track.imageUrl}
+              alt={track.title}
+              fill
+              className="object-cover"
+            />
+          ) : (
+            <div className="h-full w-full bg-gray-600 flex items-center justify-center">
+              <MusicalNoteIcon className="h-4 w-4 text-gray-400" />
+            </div>
+          )}
+          
+          {/* Play Button Overlay */}
+          <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-white"
+              onClick={() => handleTrackPlay(track, actualIndex)}
+            >
+              <PlayIcon className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+        
+        {/* Track Info */}
+        <div className="flex-1 min-w-0">
+          <h4 className="text-sm font-medium text-white truncate group-hover:text-spotify-green transition-colors">
+            {track.title}
+          </h4>
+          <p className="text-xs text-gray-300 truncate">
+            {track.artist.name}
+          </p>
+        </div>
+        
+        {/* Duration */}
+        <div className="text-xs text-gray-400">
+          {formatDuration(track.duration)}
+        </div>
+        
+        {/* Options Menu */}
+        <div className="relative">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={() => setShowOptions(showOptions === actualIndex ? null : actualIndex)}
+          >
+            <EllipsisHorizontalIcon className="h-4 w-4" />
+          </Button>
+          
+          {showOptions === actualIndex && (
+            <div className="absolute right-0 top-full mt-1 bg-gray-900 border border-gray-600 rounded-lg shadow-lg z-10 min-w-48">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start text-left text-white hover:bg-gray-700 rounded-none rounded-t-lg"
+                onClick={() => handlePlayFromHere(actualIndex)}
+              >
+                <PlayIcon className="h-4 w-4 mr-2" />
+                Play from here
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start text-left text-white hover:bg-gray-700 rounded-none rounded-b-lg"
+                onClick={() => handleRemoveTrack(actualIndex)}
+              >
+                <XMarkIcon className="h-4 w-4 mr-2" />
+                Remove from queue
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (queue.length === 0 && upNext.length === 0) {
     return (
       <div className={cn(
         "enhanced-queue bg-gray-800 rounded-lg border border-gray-700 p-6",
@@ -195,13 +326,24 @@ export function EnhancedQueue({ className, onClose }: EnhancedQueueProps) {
           <QueueListIcon className="h-5 w-5 text-gray-400" />
           <div>
             <h3 className="text-lg font-semibold text-white">Queue</h3>
+            {playbackContext && <PlaybackContextLink context={playbackContext} />}
             <p className="text-xs text-gray-400">
-              {queue.length} tracks • {formatDuration(totalDuration)}
+              {queue.length + upNext.length} tracks • {formatDuration(totalDuration)}
             </p>
           </div>
         </div>
         
         <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("text-xs", autoplay ? "text-spotify-green" : "text-gray-400 hover:text-white")}
+            onClick={() => setAutoplay(!autoplay)}
+            aria-pressed={autoplay}
+            title="Keep playing similar tracks when the queue ends"
+          >
+            Autoplay {autoplay ? "on" : "off"}
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -290,122 +432,90 @@ export function EnhancedQueue({ className, onClose }: EnhancedQueueProps) {
           </div>
         )}
 
-        {/* Upcoming Tracks */}
-        {upcomingTracks.length > 0 && (
+        {/* Tracks the user queued, which play before the rest of the context */}
+        {upNext.length > 0 && (
           <div>
             <div className="px-4 py-2 bg-gray-800/50 border-b border-gray-700">
-              <h4 className="text-sm font-medium text-gray-300">Next Up</h4>
+              <h4 className="text-sm font-medium text-gray-300">Next in queue</h4>
             </div>
-            
-            {upcomingTracks.map((track, index) => {
-              const actualIndex = currentIndex + 1 + index;
-              const isDragSource = dragState.dragIndex === actualIndex;
-              const isDropTarget = dragState.dropIndex === actualIndex;
-              
-              return (
-                <div
-                  key={`${track.id}-${actualIndex}`}
-                  className={cn(
-                    "group flex items-center space-x-3 p-3 hover:bg-gray-700/50 transition-colors relative",
-                    isDragSource && "opacity-50",
-                    isDropTarget && "bg-spotify-green/10 border-l-2 border-spotify-green"
-                  )}
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, actualIndex)}
-                  onDragOver={(e) => handleDragOver(e, actualIndex)}
-                  onDrop={(e) => handleDrop(e, actualIndex)}
-                  onDragEnd={handleDragEnd}
-                >
-                  {/* Drag Handle */}
-                  <div className="opacity-0 group-hover:opacity-100 transition-opacity cursor-grab active:cursor-grabbing">
-                    <Bars3Icon className="h-4 w-4 text-gray-400" />
-                  </div>
-                  
-                  {/* Track Number */}
-                  <div className="w-4 text-xs text-gray-400 text-right">
-                    {index + 1}
-                  </div>
-                  
-                  {/* Track Image */}
-                  <div className="relative h-10 w-10 overflow-hidden rounded group">
-                    {track.imageUrl ? (
-                      <Image
-                        src={track.imageUrl}
-                        alt={track.title}
-                        fill
-                        className="object-cover"
-                      />
-                    ) : (
-                      <div className="h-full w-full bg-gray-600 flex items-center justify-center">
-                        <MusicalNoteIcon className="h-4 w-4 text-gray-400" />
-                      </div>
-                    )}
-                    
-                    {/* Play Button Overlay */}
-                    <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6 text-white"
-                        onClick={() => handleTrackPlay(track, actualIndex)}
-                      >
-                        <PlayIcon className="h-3 w-3" />
-                      </Button>
+
+            {upNext.map((track, index) => (
+              <div
+                key={`${track.id}-up-next-${index}`}
+                className="group flex items-center space-x-3 p-3 hover:bg-gray-700/50 transition-colors"
+              >
+                {/* Track Number */}
+                <div className="w-4 text-xs text-gray-400 text-right">
+                  {index + 1}
+                </div>
+
+                {/* Track Image */}
+                <div className="relative h-10 w-10 overflow-hidden rounded">
+                  {track.imageUrl ? (
+                    <Image
+                      src={track.imageUrl}
+                      alt={track.title}
+                      fill
+                      className="object-cover"
+                    />
+                  ) : (
+                    <div className="h-full w-full bg-gray-600 flex items-center justify-center">
+                      <MusicalNoteIcon className="h-4 w-4 text-gray-400" />
                     </div>
-                  </div>
-                  
-                  {/* Track Info */}
-                  <div className="flex-1 min-w-0">
-                    <h4 className="text-sm font-medium text-white truncate group-hover:text-spotify-green transition-colors">
-                      {track.title}
-                    </h4>
-                    <p className="text-xs text-gray-300 truncate">
-                      {track.artist.name}
-                    </p>
-                  </div>
-                  
-                  {/* Duration */}
-                  <div className="text-xs text-gray-400">
-                    {formatDuration(track.duration)}
-                  </div>
-                  
-                  {/* Options Menu */}
-                  <div className="relative">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={() => setShowOptions(showOptions === actualIndex ? null : actualIndex)}
-                    >
-                      <EllipsisHorizontalIcon className="h-4 w-4" />
-                    </Button>
-                    
-                    {showOptions === actualIndex && (
-                      <div className="absolute right-0 top-full mt-1 bg-gray-900 border border-gray-600 rounded-lg shadow-lg z-10 min-w-48">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="w-full justify-start text-left text-white hover:bg-gray-700 rounded-none rounded-t-lg"
-                          onClick={() => handlePlayFromHere(actualIndex)}
-                        >
-                          <PlayIcon className="h-4 w-4 mr-2" />
-                          Play from here
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="w-full justify-start text-left text-white hover:bg-gray-700 rounded-none rounded-b-lg"
-                          onClick={() => handleRemoveTrack(actualIndex)}
-                        >
-                          <XMarkIcon className="h-4 w-4 mr-2" />
-                          Remove from queue
-                        </Button>
-                      </div>
-                    )}
-                  </div>
+                  )}
                 </div>
-              );
-            })}
+
+                {/* Track Info */}
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-sm font-medium text-white truncate">
+                    {track.title}
+                  </h4>
+                  <p className="text-xs text-gray-300 truncate">
+                    {track.artist.name}
+                  </p>
+                </div>
+
+                {/* Duration */}
+                <div className="text-xs text-gray-400">
+                  {formatDuration(track.duration)}
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={() => removeFromUpNext(index)}
+                  aria-label={`Remove ${track.title} from queue`}
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Upcoming Tracks */}
+        {contextIndices.length > 0 && (
+          <div>
+            <div className="px-4 py-2 bg-gray-800/50 border-b border-gray-700">
+              <h4 className="text-sm font-medium text-gray-300 truncate">
+                {playbackContext ? `Next from: ${getPlaybackContextName(playbackContext)}` : "Next Up"}
+              </h4>
+            </div>
+            
+            {contextIndices.map(renderUpcomingTrack)}
+          </div>
+        )}
+
+        {/* Similar tracks autoplay added once the context ran out */}
+        {autoplayIndices.length > 0 && (
+          <div>
+            <div className="px-4 py-2 bg-gray-800/50 border-b border-gray-700">
+              <h4 className="text-sm font-medium text-gray-300">Autoplay</h4>
+              <p className="text-xs text-gray-400">Similar to what you&apos;ve been playing</p>
+            </div>
+            
+            {autoplayIndices.map(renderUpcomingTrack)}
           </div>
         )}
 
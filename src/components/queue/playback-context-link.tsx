@@ -0,0 +1,37 @@
+"use client";
+
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import {
+  getPlaybackContextHref,
+  getPlaybackContextLabel,
+  getPlaybackContextName,
+} from "@/lib/audio/playback-context";
+import type { PlaybackContext } from "@/types";
+
+interface PlaybackContextLinkProps {
+  context: PlaybackContext;
+  className?: string;
+}
+
+/**
+ * "Playing from album · Midnights", linking back to the source page
+ */
+export function PlaybackContextLink({ context, className }: PlaybackContextLinkProps) {
+  const href = getPlaybackContextHref(context);
+  const name = getPlaybackContextName(context);
+
+  return (
+    <p className={cn("truncate text-xs text-gray-400", className)}>
+      {getPlaybackContextLabel(context)}
+      {" · "}
+      {href ? (
+        <Link href={href} className="text-gray-300 hover:text-white hover:underline">
+          {name}
+        </Link>
+      ) : (
+        <span className="text-gray-300">{name}</span>
+      )}
+    </p>
+  );
+}
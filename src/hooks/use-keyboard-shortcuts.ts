@@ -2,6 +2,8 @@
 
 import { useEffect } from "react";
 import { usePlayerStore } from "@/stores/player-store";
+import { useLibraryStore } from "@/stores/library-store";
+import { cycleSleepTimer } from "@/lib/audio/sleep-timer";
 
 interface KeyboardShortcutsConfig {
   enabled?: boolean;
@@ -28,8 +30,14 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig = {}) {
     toggleShuffle,
     setRepeatMode,
     repeatMode,
+    currentTrack,
+    sleepTimer,
+    setSleepTimer,
+    cancelSleepTimer,
   } = usePlayerStore();
 
+  const toggleLikedTrack = useLibraryStore(state => state.toggleLikedTrack);
+
   useEffect(() => {
     if (!enabled) return;
 
@@ -140,11 +148,27 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig = {}) {
           break;
 
         case "KeyL":
-          // L: Like/Unlike current track (placeholder - would connect to like functionality)
-          if (!event.shiftKey && !event.ctrlKey && !event.metaKey) {
+          // L: Like/Unlike current track
+          if (!event.shiftKey && !event.ctrlKey && !event.metaKey && currentTrack) {
+            preventDefault();
+            toggleLikedTrack(currentTrack).catch(() => {});
+          }
+          break;
+
+        case "KeyT":
+          if (event.shiftKey && !event.ctrlKey && !event.metaKey) {
+            // Shift + T: Turn off the sleep timer
+            preventDefault();
+            cancelSleepTimer();
+          } else if (!event.ctrlKey && !event.metaKey) {
+            // T: Cycle sleep timer (15, 30, 60 minutes, end of track, off)
             preventDefault();
-            console.log("Like/Unlike shortcut pressed");
-            // TODO: Implement like/unlike functionality
+            const nextTimer = cycleSleepTimer(sleepTimer);
+            if (nextTimer) {
+              setSleepTimer(nextTimer);
+            } else {
+              cancelSleepTimer();
+            }
           }
           break;
 
@@ -257,6 +281,11 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig = {}) {
     toggleShuffle,
     setRepeatMode,
     repeatMode,
+    currentTrack,
+    sleepTimer,
+    setSleepTimer,
+    cancelSleepTimer,
+    toggleLikedTrack,
   ]);
 }
 
@@ -276,6 +305,8 @@ export function useKeyboardShortcutsHelp() {
       { key: "J", description: "Skip backward 10s" },
       { key: "F", description: "Skip forward 10s" },
       { key: "L", description: "Like/Unlike track" },
+      { key: "T", description: "Cycle sleep timer" },
+      { key: "Shift + T", description: "Turn off sleep timer" },
       { key: "0-9", description: "Seek to 0%-100% of track" },
       { key: ", .", description: "Previous/Next track" },
       { key: "- +", description: "Volume down/up" },
@@ -300,6 +331,8 @@ export function useKeyboardShortcutsHelp() {
       modes: [
         { key: "S", description: "Toggle Shuffle" },
         { key: "R", description: "Cycle Repeat modes" },
+        { key: "T", description: "Cycle sleep timer (15, 30, 60 min, end of track, off)" },
+        { key: "Shift + T", description: "Turn off sleep timer" },
       ],
       other: [
         { key: "L", description: "Like/Unlike current track" },
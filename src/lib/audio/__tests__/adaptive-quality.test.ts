@@ -0,0 +1,37 @@
+import { ThroughputEstimator, getSustainableQuality, toNetworkQuality } from '../adaptive-quality';
+
+describe('ThroughputEstimator', () => {
+  it('starts at the first sample and follows later ones gradually', () => {
+    const estimator = new ThroughputEstimator();
+    expect(estimator.estimate).toBeNull();
+
+    expect(estimator.addSample(1000)).toBe(1000);
+    expect(estimator.addSample(2000)).toBe(1300);
+
+    estimator.reset();
+    expect(estimator.estimate).toBeNull();
+  });
+});
+
+describe('getSustainableQuality', () => {
+  it('keeps the quality until throughput has been measured', () => {
+    expect(getSustainableQuality('lossless', null)).toBe('lossless');
+  });
+
+  it('steps down to what the connection keeps ahead of', () => {
+    expect(getSustainableQuality('lossless', 5000)).toBe('lossless');
+    expect(getSustainableQuality('lossless', 1000)).toBe('high');
+    expect(getSustainableQuality('high', 300)).toBe('medium');
+    expect(getSustainableQuality('high', 50)).toBe('low');
+    expect(getSustainableQuality('medium', 5000)).toBe('medium');
+  });
+});
+
+describe('toNetworkQuality', () => {
+  it('grades the connection by the qualities it can stream', () => {
+    expect(toNetworkQuality(null)).toBe('good');
+    expect(toNetworkQuality(3000)).toBe('excellent');
+    expect(toNetworkQuality(600)).toBe('good');
+    expect(toNetworkQuality(300)).toBe('poor');
+  });
+});
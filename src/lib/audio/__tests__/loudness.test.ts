@@ -0,0 +1,20 @@
+import { getNormalizationGain } from '../loudness';
+
+describe('loudness', () => {
+  it('turns tracks towards the reference level without clipping', () => {
+    expect(getNormalizationGain({ trackGain: 10, trackPeak: 0.2 }, 'track')).toBeCloseTo(Math.pow(10, 0.5));
+
+    // +10 dB would push a 0.5 peak past full scale
+    expect(getNormalizationGain({ trackGain: 10, trackPeak: 0.5 }, 'track')).toBeCloseTo(2);
+
+    expect(getNormalizationGain({ trackGain: -6, trackPeak: 1 }, 'off')).toBe(1);
+    expect(getNormalizationGain(undefined, 'track')).toBe(1);
+  });
+
+  it('uses the album gain in album mode when there is one', () => {
+    const replayGain = { trackGain: -6, trackPeak: 0.9, albumGain: -3, albumPeak: 1 };
+
+    expect(getNormalizationGain(replayGain, 'album')).toBeCloseTo(Math.pow(10, -3 / 20));
+    expect(getNormalizationGain({ trackGain: -6, trackPeak: 0.9 }, 'album')).toBeCloseTo(Math.pow(10, -6 / 20));
+  });
+});
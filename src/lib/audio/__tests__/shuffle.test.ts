@@ -0,0 +1,74 @@
+import type { Track } from '@/types';
+import {
+  createShuffleOrder,
+  getUpcomingIndices,
+  moveQueueIndex,
+  removeQueueIndex,
+} from '../shuffle';
+
+describe('shuffle', () => {
+  const track = (id: string, artistId: string, albumId = `${artistId}-album`): Track => ({
+    id,
+    title: id,
+    artist: { id: artistId, name: artistId, genres: [], followers: 0, isVerified: false, popularity: 0 },
+    album: {
+      id: albumId,
+      title: albumId,
+      artist: { id: artistId, name: artistId, genres: [], followers: 0, isVerified: false, popularity: 0 },
+      releaseDate: new Date(Date.UTC(2024, 0, 1)),
+      totalTracks: 1,
+      genres: [],
+      type: 'album',
+    },
+    duration: 180,
+    isExplicit: false,
+    popularity: 0,
+    genres: [],
+    releaseDate: new Date(Date.UTC(2024, 0, 1)),
+  });
+
+  // Three artists with four tracks each, queued artist by artist
+  const queue = ['a', 'b', 'c'].flatMap(artist =>
+    [1, 2, 3, 4].map(n => track(`${artist}${n}`, artist, `${artist}-${n % 2}`))
+  );
+
+  it('is a reproducible permutation of the queue', () => {
+    const order = createShuffleOrder(queue, 42);
+
+    expect([...order].sort((a, b) => a - b)).toEqual(queue.map((_, index) => index));
+    expect(createShuffleOrder(queue, 42)).toEqual(order);
+    expect(createShuffleOrder(queue, 43)).not.toEqual(order);
+  });
+
+  it('keeps the given track first', () => {
+    expect(createShuffleOrder(queue, 7, 5)[0]).toBe(5);
+  });
+
+  it('spreads artists so they rarely play back to back', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const artists = createShuffleOrder(queue, seed).map(index => queue[index]?.artist.id);
+      const repeats = artists.filter((artist, i) => i > 0 && artist === artists[i - 1]).length;
+
+      // A plain shuffle of 3x4 tracks averages ~3 back-to-back repeats
+      expect(repeats).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('alternates albums within an artist', () => {
+    const oneArtist = [1, 2, 3, 4].map(n => track(`t${n}`, 'a', `album-${n % 2}`));
+    const albums = createShuffleOrder(oneArtist, 3).map(index => oneArtist[index]?.album.id);
+
+    albums.slice(1).forEach((album, i) => expect(album).not.toBe(albums[i]));
+  });
+
+  it('lists upcoming indices in play order', () => {
+    expect(getUpcomingIndices(4, [], 1)).toEqual([2, 3]);
+    expect(getUpcomingIndices(4, [2, 0, 3, 1], 0)).toEqual([3, 1]);
+  });
+
+  it('keeps indices pointing at the same tracks after queue edits', () => {
+    expect(removeQueueIndex([3, 0, 2, 1], 1)).toEqual([2, 0, 1]);
+    expect(moveQueueIndex([0, 1, 2, 3], 0, 2)).toEqual([2, 0, 1, 3]);
+    expect(moveQueueIndex([0, 1, 2, 3], 3, 1)).toEqual([0, 2, 3, 1]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { PlayerState, Track } from '@/types';
+import {
+  createSleepTimer,
+  cycleSleepTimer,
+  endsAfterCurrentTrack,
+  getSleepTimerRemaining,
+} from '../sleep-timer';
+
+describe('sleep timer', () => {
+  const track = (id: string, duration: number) => ({ id, duration }) as Track;
+  const queue = [track('a', 100), track('b', 200), track('c', 300)];
+
+  const player = (overrides: Partial<PlayerState> = {}) => ({
+    currentTrack: queue[0],
+    queue,
+    upNext: [],
+    currentIndex: 0,
+    shuffleOrder: [],
+    progress: 40,
+    duration: 100,
+    playbackRate: 1,
+    ...overrides,
+  }) as PlayerState;
+
+  it('counts minute timers down from when they were set', () => {
+    const timer = createSleepTimer({ type: 'minutes', minutes: 15 }, 0);
+    expect(getSleepTimerRemaining(timer, player(), 60000)).toBe(14 * 60);
+    expect(getSleepTimerRemaining(timer, player(), 20 * 60000)).toBe(0);
+  });
+
+  it('counts the rest of the track, or of the context, at the playback rate', () => {
+    expect(getSleepTimerRemaining({ type: 'track' }, player())).toBe(60);
+    expect(getSleepTimerRemaining({ type: 'track' }, player({ playbackRate: 2 }))).toBe(30);
+    expect(getSleepTimerRemaining({ type: 'context' }, player())).toBe(60 + 200 + 300);
+    expect(getSleepTimerRemaining({ type: 'context' }, player({ shuffleOrder: [1, 0, 2] }))).toBe(60 + 300);
+    expect(getSleepTimerRemaining({ type: 'context' }, player({ upNext: [track('d', 50)] }))).toBe(60 + 50 + 200 + 300);
+  });
+
+  it('stops context timers after the last track in play order and any queued tracks', () => {
+    expect(endsAfterCurrentTrack({ type: 'context' }, player())).toBe(false);
+    expect(endsAfterCurrentTrack({ type: 'context' }, player({ currentIndex: 2 }))).toBe(true);
+    expect(endsAfterCurrentTrack({ type: 'context' }, player({ shuffleOrder: [2, 1, 0] }))).toBe(true);
+    expect(endsAfterCurrentTrack({ type: 'context' }, player({ currentIndex: 2, upNext: [track('d', 50)] }))).toBe(false);
+    expect(endsAfterCurrentTrack({ type: 'track' }, player())).toBe(true);
+    expect(endsAfterCurrentTrack(createSleepTimer({ type: 'minutes', minutes: 5 }), player())).toBe(false);
+  });
+
+  it('cycles through the shortcut options and back off', () => {
+    expect(cycleSleepTimer(null)).toEqual({ type: 'minutes', minutes: 15 });
+    expect(cycleSleepTimer(createSleepTimer({ type: 'minutes', minutes: 15 }))).toEqual({ type: 'minutes', minutes: 30 });
+    expect(cycleSleepTimer(createSleepTimer({ type: 'minutes', minutes: 60 }))).toEqual({ type: 'track' });
+    expect(cycleSleepTimer({ type: 'track' })).toBeNull();
+    expect(cycleSleepTimer({ type: 'context' })).toBeNull();
+  });
+});
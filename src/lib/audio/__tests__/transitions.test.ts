@@ -0,0 +1,57 @@
+import type { Track } from '@/types';
+import { createEqualPowerCurve, planTransition } from '../transitions';
+
+describe('transitions', () => {
+  const track = (id: string, albumId: string, trackNumber?: number): Track => ({
+    id,
+    title: id,
+    artist: { id: 'artist', name: 'artist', genres: [], followers: 0, isVerified: false, popularity: 0 },
+    album: {
+      id: albumId,
+      title: albumId,
+      artist: { id: 'artist', name: 'artist', genres: [], followers: 0, isVerified: false, popularity: 0 },
+      releaseDate: new Date(Date.UTC(2024, 0, 1)),
+      totalTracks: 10,
+      genres: [],
+      type: 'album',
+    },
+    duration: 180,
+    isExplicit: false,
+    popularity: 0,
+    trackNumber,
+    genres: [],
+    releaseDate: new Date(Date.UTC(2024, 0, 1)),
+  });
+
+  it('plays consecutive album tracks gapless', () => {
+    expect(planTransition(track('a1', 'a', 1), track('a2', 'a', 2), 5, 180, 180)).toEqual({ type: 'gapless' });
+    expect(planTransition(track('a1', 'a', 1), track('a3', 'a', 3), 5, 180, 180))
+      .toEqual({ type: 'crossfade', duration: 5 });
+  });
+
+  it('plays a repeated track gapless', () => {
+    const repeated = track('a1', 'a', 1);
+    expect(planTransition(repeated, repeated, 5, 180, 180)).toEqual({ type: 'gapless' });
+  });
+
+  it('crossfades other tracks for at most half of either track', () => {
+    expect(planTransition(track('a1', 'a', 1), track('b1', 'b', 1), 5, 180, 180))
+      .toEqual({ type: 'crossfade', duration: 5 });
+    expect(planTransition(track('a1', 'a', 1), track('b1', 'b', 1), 5, 180, 6))
+      .toEqual({ type: 'crossfade', duration: 3 });
+    expect(planTransition(track('a1', 'a', 1), track('b1', 'b', 1), 0, 180, 180)).toEqual({ type: 'gapless' });
+  });
+
+  it('keeps the combined power of an equal-power crossfade constant', () => {
+    const fadeIn = createEqualPowerCurve('in', 16);
+    const fadeOut = createEqualPowerCurve('out', 16);
+
+    expect(fadeIn[0]).toBeCloseTo(0);
+    expect(fadeIn[15]).toBeCloseTo(1);
+    expect(fadeOut[0]).toBeCloseTo(1);
+    expect(fadeOut[15]).toBeCloseTo(0);
+    fadeIn.forEach((gain, i) => {
+      expect(gain * gain + (fadeOut[i] ?? 0) ** 2).toBeCloseTo(1);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { QUALITY_SETTINGS, type AudioQuality, type NetworkQuality } from '@/lib/subscription/audio-quality-manager';
+
+/**
+ * Adaptive streaming quality. The engine measures how fast streams arrive,
+ * and each track is streamed at the best rendition the connection keeps
+ * ahead of playback, so quality follows the network from one track to the
+ * next.
+ */
+
+// A rendition needs this much more throughput than its bitrate, so the
+// buffer keeps growing rather than just keeping up
+export const THROUGHPUT_HEADROOM = 1.5;
+
+// Weight of the newest sample in the running estimate
+const SMOOTHING = 0.3;
+
+const QUALITY_ORDER: AudioQuality[] = ['low', 'medium', 'high', 'lossless'];
+
+const requiredThroughput = (quality: AudioQuality) => QUALITY_SETTINGS[quality].bitrate * THROUGHPUT_HEADROOM;
+
+/**
+ * Running estimate of stream throughput in kbps, weighted towards recent
+ * samples so it follows the connection without jumping on every sample
+ */
+export class ThroughputEstimator {
+  private value: number | null = null;
+
+  get estimate(): number | null {
+    return this.value;
+  }
+
+  addSample(kbps: number): number {
+    this.value = this.value === null ? kbps : this.value + SMOOTHING * (kbps - this.value);
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+  }
+}
+
+/**
+ * How audioQualityManager sees the connection: excellent enough for
+ * lossless, poor when even high quality would fall behind
+ */
+export function toNetworkQuality(kbps: number | null): NetworkQuality {
+  if (kbps === null) return 'good';
+  if (kbps >= requiredThroughput('lossless')) return 'excellent';
+  return kbps < requiredThroughput('high') ? 'poor' : 'good';
+}
+
+/**
+ * The best quality up to `quality` the connection can stream; any quality
+ * goes until there's an estimate, and low is the floor
+ */
+export function getSustainableQuality(quality: AudioQuality, kbps: number | null): AudioQuality {
+  if (kbps === null) return quality;
+
+  const candidates = QUALITY_ORDER.slice(0, QUALITY_ORDER.indexOf(quality) + 1).reverse();
+  return candidates.find(candidate => requiredThroughput(candidate) <= kbps) ?? 'low';
+}
@@ -1,4 +1,6 @@
-import type { Track } from "@/types";
+import type { Track, VolumeNormalization } from "@/types";
+import { createEqualPowerCurve, planTransition } from "./transitions";
+import { getNormalizationGain } from "./loudness";
 
 export interface AudioEngineConfig {
   crossfadeDuration: number; // in seconds
@@ -6,6 +8,7 @@ export interface AudioEngineConfig {
   enableEqualizer: boolean;
   enableVisualizer: boolean;
   audioQuality: 'low' | 'medium' | 'high' | 'lossless';
+  normalization: VolumeNormalization;
 }
 
 export interface EqualizerBand {
@@ -21,39 +24,126 @@ export interface AudioAnalyzerData {
   peak: number;
 }
 
+// Lead time for anything started on the audio clock, so it never lands in the past
+const SCHEDULE_AHEAD = 0.05;
+
+// A gapless hand-over is lined up on the audio clock this long before the
+// current track ends, from the start of the next track decoded ahead of time
+const HANDOVER_LEAD = 1;
+const HEAD_DURATION = 8;
+
+// Once the decoded head plays, the next track's element starts muted this
+// far ahead of it (allowing for its startup), is sped up or slowed down
+// until it's in step, then takes over in a short blend
+const ELEMENT_START_LEAD = 0.25;
+const ALIGN_INTERVAL = 0.1;
+const ALIGN_CATCH_UP = 0.5;
+const MAX_ALIGN_RATE_CHANGE = 0.25;
+const SPLICE_TOLERANCE = 0.005;
+const SPLICE_FADE = 0.02;
+
+// Throughput is measured over at least this much download, so short bursts
+// don't count as the connection's speed
+const MIN_THROUGHPUT_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Where a track streams from. With the file's size the engine can tell
+ * how fast the stream arrives.
+ */
+export interface StreamSource {
+  url: string;
+  size?: number; // bytes
+}
+
+// The decoded start of a track, playing on the audio clock
+interface HeadSource {
+  node: AudioBufferSourceNode;
+  gainNode: GainNode;
+  startTime: number;
+  // The element has taken over and the head is fading out
+  spliced: boolean;
+}
+
+/**
+ * One of the engine's two players. Tracks stream through a media element,
+ * so playback starts on the first bytes instead of after the whole file
+ * has downloaded and decoded; the element feeds its own normalization and
+ * crossfade gain, which join the shared graph. Media elements can't start
+ * on the audio clock, so for a gapless start the first seconds of the
+ * track are decoded and play from a buffer until the element takes over.
+ */
+interface Voice {
+  element: HTMLAudioElement;
+  // Silences the element while the decoded head plays instead
+  elementGainNode: GainNode;
+  normalizationNode: GainNode;
+  gainNode: GainNode;
+  track: Track | null;
+  // Resolves once the track's stream URL is on the element
+  loading: Promise<void> | null;
+  size: number | null;
+  // Where the current throughput measurement started
+  throughputStart: { time: number; buffered: number } | null;
+  // A fresh URL was already tried after the stream failed
+  retried: boolean;
+  head: AudioBuffer | null;
+  headLoading: Promise<void> | null;
+  headSource: HeadSource | null;
+}
+
 export class AdvancedAudioEngine {
   private audioContext: AudioContext | null = null;
-  private currentSource: AudioBufferSourceNode | null = null;
-  private nextSource: AudioBufferSourceNode | null = null;
+  // The voice playing the current track, and the one that preloads the
+  // next track (or fades out the previous one)
+  private currentVoice: Voice | null = null;
+  private standbyVoice: Voice | null = null;
   private gainNode: GainNode | null = null;
-  private crossfadeGainNode: GainNode | null = null;
-  private nextGainNode: GainNode | null = null;
+  // Sleep timer fade-out, kept apart from the volume
+  private fadeNode: GainNode | null = null;
   private analyzerNode: AnalyserNode | null = null;
   private equalizerNodes: BiquadFilterNode[] = [];
   private compressorNode: DynamicsCompressorNode | null = null;
-  
+  private limiterNode: DynamicsCompressorNode | null = null;
+
   private currentTrack: Track | null = null;
   private nextTrack: Track | null = null;
-  private audioBuffers: Map<string, AudioBuffer> = new Map();
-  private loadingPromises: Map<string, Promise<AudioBuffer>> = new Map();
-  
+
   private config: AudioEngineConfig = {
     crossfadeDuration: 3,
     preloadNext: true,
     enableEqualizer: true,
     enableVisualizer: true,
-    audioQuality: 'high'
+    audioQuality: 'high',
+    normalization: 'track'
   };
-  
-  private playbackStartTime: number = 0;
+
   private pauseTime: number = 0;
   private isPlaying: boolean = false;
   private playbackRate: number = 1;
-  private crossfadeTimeout: NodeJS.Timeout | null = null;
-  
+  // Bumped whenever playback stops, so a play() still waiting on its
+  // stream URL doesn't start after a pause or a newer play()
+  private playRequest: number = 0;
+  // play() is waiting for the stream; the position is still pauseTime
+  private isStarting: boolean = false;
+
+  // Hands playback over to the next track when the current one is about
+  // to end; the standby voice then fades the previous track out
+  private transitionTimeout: NodeJS.Timeout | null = null;
+  private fadeTimeout: NodeJS.Timeout | null = null;
+  // Brings the element in step with the decoded head it takes over from
+  private alignTimeout: NodeJS.Timeout | null = null;
+  private isFading: boolean = false;
+
+  // Where to fetch a track's audio from; defaults to its stream URL
+  public resolveStream?: (track: Track) => Promise<StreamSource>;
+
   // Event callbacks
   public onTrackEnd?: () => void;
+  // The engine moved on to the track given to setNextTrack by itself
+  public onTrackChange?: (track: Track) => void;
   public onLoadProgress?: (progress: number) => void;
+  // Measured download speed of a stream, in kbps
+  public onThroughput?: (kbps: number) => void;
   public onAnalyzerData?: (data: AudioAnalyzerData) => void;
   public onError?: (error: Error) => void;
 
@@ -65,11 +155,11 @@ export class AdvancedAudioEngine {
   private async initializeAudioContext(): Promise<void> {
     try {
       this.audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-      
+
       if (this.audioContext.state === 'suspended') {
         await this.audioContext.resume();
       }
-      
+
       this.setupAudioGraph();
     } catch (error) {
       console.error('Failed to initialize AudioContext:', error);
@@ -82,24 +172,20 @@ export class AdvancedAudioEngine {
 
     // Create main gain node
     this.gainNode = this.audioContext.createGain();
-    
-    // Create crossfade gain node
-    this.crossfadeGainNode = this.audioContext.createGain();
-    this.nextGainNode = this.audioContext.createGain();
-    this.nextGainNode.gain.value = 0;
-    
+    this.fadeNode = this.audioContext.createGain();
+
     // Create analyzer node for visualizer
     if (this.config.enableVisualizer) {
       this.analyzerNode = this.audioContext.createAnalyser();
       this.analyzerNode.fftSize = 2048;
       this.analyzerNode.smoothingTimeConstant = 0.8;
     }
-    
+
     // Create equalizer nodes
     if (this.config.enableEqualizer) {
       this.setupEqualizer();
     }
-    
+
     // Create compressor
     this.compressorNode = this.audioContext.createDynamicsCompressor();
     this.compressorNode.threshold.value = -24;
@@ -107,9 +193,23 @@ export class AdvancedAudioEngine {
     this.compressorNode.ratio.value = 12;
     this.compressorNode.attack.value = 0.01;
     this.compressorNode.release.value = 0.25;
-    
+
+    // Create limiter, the last stage: only catches peaks that normalization,
+    // the equalizer or the compressor's makeup gain push towards clipping
+    this.limiterNode = this.audioContext.createDynamicsCompressor();
+    this.limiterNode.threshold.value = -1;
+    this.limiterNode.knee.value = 0;
+    this.limiterNode.ratio.value = 20;
+    this.limiterNode.attack.value = 0.003;
+    this.limiterNode.release.value = 0.1;
+
     // Connect audio graph
     this.connectAudioGraph();
+
+    // Each voice: media element, normalization, then its crossfade gain
+    this.currentVoice = this.createVoice();
+    this.standbyVoice = this.createVoice();
+    this.standbyVoice.gainNode.gain.value = 0;
   }
 
   private setupEqualizer(): void {
@@ -117,10 +217,10 @@ export class AdvancedAudioEngine {
 
     // 10-band equalizer frequencies (Hz)
     const frequencies = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
-    
+
     this.equalizerNodes = frequencies.map((frequency, index) => {
       const filter = this.audioContext!.createBiquadFilter();
-      
+
       if (index === 0) {
         filter.type = 'lowshelf';
       } else if (index === frequencies.length - 1) {
@@ -129,10 +229,10 @@ export class AdvancedAudioEngine {
         filter.type = 'peaking';
         filter.Q.value = 1;
       }
-      
+
       filter.frequency.value = frequency;
       filter.gain.value = 0; // neutral
-      
+
       return filter;
     });
   }
@@ -141,11 +241,13 @@ export class AdvancedAudioEngine {
     if (!this.audioContext || !this.gainNode) return;
 
     let currentNode: AudioNode = this.gainNode;
-    
-    // Connect crossfade nodes
-    this.crossfadeGainNode?.connect(currentNode);
-    this.nextGainNode?.connect(currentNode);
-    
+
+    // Connect fade-out after the volume
+    if (this.fadeNode) {
+      currentNode.connect(this.fadeNode);
+      currentNode = this.fadeNode;
+    }
+
     // Connect equalizer
     if (this.equalizerNodes.length > 0 && this.equalizerNodes[0]) {
       currentNode.connect(this.equalizerNodes[0]);
@@ -161,13 +263,19 @@ export class AdvancedAudioEngine {
         currentNode = lastNode;
       }
     }
-    
+
     // Connect compressor
     if (this.compressorNode) {
       currentNode.connect(this.compressorNode);
       currentNode = this.compressorNode;
     }
-    
+
+    // Connect limiter
+    if (this.limiterNode) {
+      currentNode.connect(this.limiterNode);
+      currentNode = this.limiterNode;
+    }
+
     // Connect analyzer
     if (this.analyzerNode) {
       currentNode.connect(this.analyzerNode);
@@ -177,56 +285,102 @@ export class AdvancedAudioEngine {
     }
   }
 
-  public async loadTrack(track: Track): Promise<void> {
-    if (!track.streamUrl) {
-      throw new Error('Track has no stream URL');
-    }
+  private createVoice(): Voice {
+    const context = this.audioContext!;
+    const element = new Audio();
+    element.preload = 'auto';
+
+    const voice: Voice = {
+      element,
+      elementGainNode: context.createGain(),
+      normalizationNode: context.createGain(),
+      gainNode: context.createGain(),
+      track: null,
+      loading: null,
+      size: null,
+      throughputStart: null,
+      retried: false,
+      head: null,
+      headLoading: null,
+      headSource: null,
+    };
 
-    if (this.audioBuffers.has(track.id)) {
-      return; // Already loaded
-    }
+    // An element can only ever feed one source node, so voices are reused
+    context.createMediaElementSource(element).connect(voice.elementGainNode);
+    voice.elementGainNode.connect(voice.normalizationNode);
+    voice.normalizationNode.connect(voice.gainNode);
+    voice.gainNode.connect(this.gainNode!);
 
-    if (this.loadingPromises.has(track.id)) {
-      await this.loadingPromises.get(track.id);
-      return;
-    }
+    element.addEventListener('ended', () => this.handleEnded(voice));
+    element.addEventListener('durationchange', () => {
+      // The catalog's duration was only an estimate until now
+      if (voice === this.currentVoice && this.isPlaying && !this.isFading) this.rescheduleTransition();
+    });
+    element.addEventListener('error', () => this.handleStreamError(voice));
+    element.addEventListener('progress', () => {
+      this.reportLoadProgress(voice);
+      this.measureThroughput(voice);
+    });
+    // Time spent not downloading doesn't count towards throughput
+    ['suspend', 'seeking', 'emptied'].forEach(type => {
+      element.addEventListener(type, () => { voice.throughputStart = null; });
+    });
 
-    const loadPromise = this.fetchAndDecodeAudio(track.streamUrl, track.id);
-    this.loadingPromises.set(track.id, loadPromise);
+    return voice;
+  }
 
-    try {
-      const buffer = await loadPromise;
-      this.audioBuffers.set(track.id, buffer);
-      this.loadingPromises.delete(track.id);
-    } catch (error) {
-      this.loadingPromises.delete(track.id);
-      throw error;
+  private async getStreamSource(track: Track): Promise<StreamSource> {
+    if (!track.streamUrl) {
+      throw new Error('Track has no stream URL');
     }
+    return this.resolveStream ? this.resolveStream(track) : { url: track.streamUrl };
   }
 
-  private async fetchAndDecodeAudio(url: string, trackId: string): Promise<AudioBuffer> {
-    if (!this.audioContext) {
-      throw new Error('AudioContext not initialized');
+  /**
+   * Points the voice at the track's stream. The element starts buffering
+   * straight away; nothing waits for the whole file.
+   */
+  private loadVoice(voice: Voice, track: Track): Promise<void> {
+    if (voice.track?.id === track.id && voice.loading) {
+      voice.track = track;
+      return voice.loading;
     }
 
-    try {
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch audio: ${response.status}`);
-      }
+    this.stopHead(voice);
+    voice.track = track;
+    voice.retried = false;
+    voice.head = null;
+    voice.headLoading = null;
+    voice.loading = this.getStreamSource(track).then(({ url, size }) => {
+      // Another track may have taken the voice in the meantime
+      if (voice.track?.id !== track.id) return;
+
+      voice.size = size ?? null;
+      voice.throughputStart = null;
+      voice.element.src = url;
+      voice.element.playbackRate = this.playbackRate;
+    });
 
-      const arrayBuffer = await response.arrayBuffer();
-      const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-      
-      return audioBuffer;
-    } catch (error) {
-      console.error(`Failed to load audio for track ${trackId}:`, error);
-      throw new Error(`Failed to load audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    voice.loading.catch(error => {
+      if (voice.track?.id === track.id) voice.loading = null;
+      console.error(`Failed to load audio for track ${track.id}:`, error);
+    });
+
+    return voice.loading;
+  }
+
+  // Playing the track that is already preloaded swaps the voices over
+  private takeVoiceFor(track: Track): Voice {
+    const standby = this.standbyVoice!;
+    if (!this.isFading && standby.track?.id === track.id && standby.loading) {
+      [this.currentVoice, this.standbyVoice] = [standby, this.currentVoice];
+      this.currentVoice!.gainNode.gain.setValueAtTime(1, this.audioContext!.currentTime);
+      this.standbyVoice!.gainNode.gain.setValueAtTime(0, this.audioContext!.currentTime);
     }
+    return this.currentVoice!;
   }
 
-  public async play(track: Track): Promise<void> {
+  public async play(track: Track, offset: number = 0): Promise<void> {
     try {
       if (!this.audioContext) {
         await this.initializeAudioContext();
@@ -238,41 +392,30 @@ export class AdvancedAudioEngine {
 
       // Stop current playback
       this.stop();
+      const request = this.playRequest;
 
-      // Load track if not already loaded
-      await this.loadTrack(track);
-
-      const buffer = this.audioBuffers.get(track.id);
-      if (!buffer) {
-        throw new Error('Failed to load audio buffer');
-      }
-
-      // Create new audio source
-      this.currentSource = this.audioContext!.createBufferSource();
-      this.currentSource.buffer = buffer;
-      this.currentSource.playbackRate.value = this.playbackRate;
+      const voice = this.takeVoiceFor(track);
+      this.currentTrack = track;
+      this.isPlaying = true;
+      this.isStarting = true;
+      this.pauseTime = Math.max(0, offset);
 
-      // Connect to crossfade gain node
-      this.currentSource.connect(this.crossfadeGainNode!);
+      await this.loadVoice(voice, track);
+      if (request !== this.playRequest) return;
 
-      // Set up track end handler
-      this.currentSource.onended = () => {
-        if (this.isPlaying) {
-          this.onTrackEnd?.();
-        }
-      };
+      const now = this.audioContext!.currentTime;
+      voice.normalizationNode.gain.cancelScheduledValues(0);
+      voice.normalizationNode.gain.setValueAtTime(this.getNormalizationGain(track), now);
+      voice.element.currentTime = this.pauseTime;
+      voice.element.playbackRate = this.playbackRate;
 
-      // Start playback
-      this.currentSource.start(0, this.pauseTime);
-      this.playbackStartTime = this.audioContext!.currentTime - this.pauseTime;
-      this.isPlaying = true;
-      this.currentTrack = track;
-      this.pauseTime = 0;
+      // Starts as soon as enough of the stream has arrived
+      await voice.element.play();
+      if (request !== this.playRequest) return;
+      this.isStarting = false;
 
-      // Preload next track if enabled
-      if (this.config.preloadNext && this.nextTrack) {
-        this.loadTrack(this.nextTrack).catch(console.warn);
-      }
+      // Buffer the next track and line up the transition into it
+      this.prepareNextTrack();
 
       // Start analyzer if enabled
       if (this.config.enableVisualizer) {
@@ -280,47 +423,71 @@ export class AdvancedAudioEngine {
       }
 
     } catch (error) {
+      // Interrupted by a pause or another play()
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
+      this.isPlaying = false;
+      this.isStarting = false;
       console.error('Failed to play track:', error);
       this.onError?.(error instanceof Error ? error : new Error('Unknown playback error'));
     }
   }
 
   public pause(): void {
-    if (this.currentSource && this.isPlaying) {
-      this.pauseTime = this.getCurrentTime();
-      this.currentSource.stop();
-      this.currentSource = null;
-      this.isPlaying = false;
+    if (this.currentTrack && this.isPlaying) {
+      const position = this.getCurrentTime();
+      this.stop();
+      this.pauseTime = position;
     }
   }
 
   public resume(): void {
     if (this.currentTrack && !this.isPlaying) {
-      this.play(this.currentTrack);
+      this.play(this.currentTrack, this.pauseTime);
     }
   }
 
-  public stop(): void {
-    if (this.currentSource) {
-      this.currentSource.stop();
-      this.currentSource.disconnect();
-      this.currentSource = null;
-    }
-    
-    if (this.nextSource) {
-      this.nextSource.stop();
-      this.nextSource.disconnect();
-      this.nextSource = null;
+  /**
+   * Makes a track current at a position without starting it, so resume()
+   * picks up from there, e.g. when restoring a saved session
+   */
+  public cue(track: Track, offset: number = 0): void {
+    this.stop();
+    this.currentTrack = track;
+    this.pauseTime = Math.max(0, offset);
+
+    // Start buffering now so resuming starts straight away
+    if (this.currentVoice) {
+      const voice = this.takeVoiceFor(track);
+      this.loadVoice(voice, track)
+        .then(() => {
+          if (this.currentTrack === track && !this.isPlaying) voice.element.currentTime = this.pauseTime;
+        })
+        .catch(console.warn);
     }
+  }
+
+  public stop(): void {
+    this.playRequest++;
+    this.cancelTransition();
+    this.finishFade();
+    if (this.currentVoice) this.stopHead(this.currentVoice);
+
+    this.currentVoice?.element.pause();
+    this.standbyVoice?.element.pause();
 
-    if (this.crossfadeTimeout) {
-      clearTimeout(this.crossfadeTimeout);
-      this.crossfadeTimeout = null;
+    // Whatever plays next starts on the current voice at full volume
+    if (this.audioContext && this.currentVoice && this.standbyVoice) {
+      const now = this.audioContext.currentTime;
+      this.currentVoice.gainNode.gain.cancelScheduledValues(0);
+      this.currentVoice.gainNode.gain.setValueAtTime(1, now);
+      this.standbyVoice.gainNode.gain.cancelScheduledValues(0);
+      this.standbyVoice.gainNode.gain.setValueAtTime(0, now);
     }
 
     this.isPlaying = false;
+    this.isStarting = false;
     this.pauseTime = 0;
-    this.playbackStartTime = 0;
   }
 
   public setVolume(volume: number): void {
@@ -332,73 +499,120 @@ export class AdvancedAudioEngine {
     }
   }
 
+  /**
+   * Fades all output out over `duration` seconds, e.g. as the sleep timer
+   * runs out. Output stays silent, whatever plays, until cancelFadeOut().
+   */
+  public fadeOut(duration: number): void {
+    if (!this.audioContext || !this.fadeNode) return;
+
+    const now = this.audioContext.currentTime;
+    const gain = this.fadeNode.gain;
+    const level = gain.value;
+    const curve = createEqualPowerCurve('out').map(value => value * level);
+
+    gain.cancelScheduledValues(0);
+    gain.setValueCurveAtTime(curve, now, Math.max(duration, SCHEDULE_AHEAD));
+  }
+
+  public cancelFadeOut(): void {
+    if (!this.audioContext || !this.fadeNode) return;
+
+    const now = this.audioContext.currentTime;
+    const gain = this.fadeNode.gain;
+    const level = gain.value;
+
+    gain.cancelScheduledValues(0);
+    gain.setValueAtTime(level, now);
+    gain.setTargetAtTime(1, now, 0.1);
+  }
+
   public setPlaybackRate(rate: number): void {
     this.playbackRate = Math.max(0.25, Math.min(4, rate));
-    if (this.currentSource) {
-      this.currentSource.playbackRate.value = this.playbackRate;
+
+    // A decoded head only plays at normal speed, so the element takes over
+    if (this.currentVoice?.headSource) this.spliceHead(this.currentVoice);
+
+    [this.currentVoice, this.standbyVoice].forEach(voice => {
+      if (voice) voice.element.playbackRate = this.playbackRate;
+    });
+
+    // Same position, but the track now ends at a different time
+    if (this.isPlaying) {
+      this.rescheduleTransition();
     }
   }
 
   public seekTo(time: number): void {
-    if (this.currentTrack && this.isPlaying) {
-      this.pauseTime = Math.max(0, time);
-      this.play(this.currentTrack);
+    const voice = this.currentVoice;
+    if (this.currentTrack && this.isPlaying && !this.isStarting && voice) {
+      // Seeking cuts a fade still under way short, like starting afresh would
+      this.finishFade();
+      this.stopHead(voice);
+      voice.element.currentTime = Math.max(0, time);
+      this.rescheduleTransition();
     } else {
       this.pauseTime = Math.max(0, time);
     }
   }
 
   public getCurrentTime(): number {
-    if (!this.isPlaying || !this.audioContext) return this.pauseTime;
-    return (this.audioContext.currentTime - this.playbackStartTime) * this.playbackRate;
+    const voice = this.currentVoice;
+    if (!this.isPlaying || this.isStarting || !voice) return this.pauseTime;
+    if (voice.headSource && this.audioContext) {
+      return Math.max(0, this.audioContext.currentTime - voice.headSource.startTime);
+    }
+    return voice.element.currentTime;
   }
 
   public getDuration(): number {
     if (!this.currentTrack) return 0;
-    const buffer = this.audioBuffers.get(this.currentTrack.id);
-    return buffer ? buffer.duration : this.currentTrack.duration;
+    return this.currentVoice?.track === this.currentTrack
+      ? this.getVoiceDuration(this.currentVoice)
+      : this.currentTrack.duration;
   }
 
-  // Crossfade to next track
-  public async crossfadeToNext(nextTrack: Track): Promise<void> {
-    if (!this.audioContext || !this.currentSource) return;
-
-    try {
-      await this.loadTrack(nextTrack);
-      const buffer = this.audioBuffers.get(nextTrack.id);
-      if (!buffer) throw new Error('Failed to load next track');
-
-      // Create next source
-      this.nextSource = this.audioContext.createBufferSource();
-      this.nextSource.buffer = buffer;
-      this.nextSource.playbackRate.value = this.playbackRate;
-      this.nextSource.connect(this.nextGainNode!);
+  // Unknown until the stream's metadata has arrived; the catalog's until then
+  private getVoiceDuration(voice: Voice): number {
+    const duration = voice.element.duration;
+    return Number.isFinite(duration) ? duration : voice.track?.duration ?? 0;
+  }
 
-      // Start next track
-      this.nextSource.start();
+  /**
+   * What plays after the current track, or null when nothing does. The
+   * engine buffers it ahead of time and moves on to it without waiting for
+   * the current track to end, reporting the change through onTrackChange.
+   */
+  public setNextTrack(track: Track | null): void {
+    if (track === this.nextTrack) return;
+
+    this.cancelTransition();
+    this.nextTrack = track;
+    this.prepareNextTrack();
+  }
 
-      // Crossfade
-      const fadeTime = this.config.crossfadeDuration;
-      const now = this.audioContext.currentTime;
+  // Crossfade to next track straight away, e.g. when the user skips
+  public async crossfadeToNext(nextTrack: Track): Promise<void> {
+    // Skipping again mid-fade cuts straight to the new track
+    if (!this.audioContext || !this.currentVoice || !this.isPlaying || this.isFading) {
+      await this.play(nextTrack);
+      return;
+    }
 
-      // Fade out current track
-      this.crossfadeGainNode!.gain.setTargetAtTime(0, now, fadeTime / 3);
-      
-      // Fade in next track
-      this.nextGainNode!.gain.setTargetAtTime(1, now, fadeTime / 3);
+    try {
+      this.cancelTransition();
+      this.nextTrack = nextTrack;
+      await this.loadVoice(this.standbyVoice!, nextTrack);
 
-      // Switch tracks after crossfade
-      this.crossfadeTimeout = setTimeout(() => {
-        this.currentSource?.stop();
-        this.currentSource = this.nextSource;
-        this.nextSource = null;
-        this.currentTrack = nextTrack;
+      // Paused or skipped again while the stream URL was on its way
+      if (!this.isPlaying || this.nextTrack !== nextTrack) return;
 
-        // Reset gain nodes
-        this.crossfadeGainNode!.gain.value = 1;
-        this.nextGainNode!.gain.value = 0;
-      }, fadeTime * 1000);
+      const remaining = (this.getDuration() - this.getCurrentTime()) / this.playbackRate;
+      const nextLength = this.getVoiceDuration(this.standbyVoice!) / this.playbackRate;
+      const fadeDuration = Math.min(this.config.crossfadeDuration, nextLength / 2, remaining);
 
+      // The caller already knows about the new track
+      this.startTransition(Math.max(0, fadeDuration), false);
     } catch (error) {
       console.error('Crossfade failed:', error);
       // Fallback to regular track change
@@ -406,6 +620,466 @@ export class AdvancedAudioEngine {
     }
   }
 
+  private getNormalizationGain(track: Track): number {
+    return getNormalizationGain(track.replayGain, this.config.normalization);
+  }
+
+  private handleEnded(voice: Voice): void {
+    if (voice !== this.currentVoice) {
+      // The previous track finished fading out
+      if (this.isFading && voice === this.standbyVoice) this.finishFade();
+      return;
+    }
+    if (!this.isPlaying) return;
+
+    if (this.standbyVoice?.headSource) {
+      // The next track is already lined up; timers run late in background tabs
+      this.clearTransitionTimeout();
+      this.completeHandover();
+      this.finishFade();
+    } else if (this.transitionTimeout) {
+      // Timers run late in background tabs; hand over now
+      this.cancelTransition();
+      this.startTransition(0);
+    } else {
+      this.onTrackEnd?.();
+    }
+  }
+
+  /**
+   * Signed stream URLs expire, and a paused or long track may only ask for
+   * more of the file afterwards: retry once with a fresh URL from where it
+   * stopped before giving up
+   */
+  private handleStreamError(voice: Voice): void {
+    const track = voice.track;
+    if (!track || !voice.element.error) return;
+
+    if (voice !== this.currentVoice) {
+      // A next track that fails to buffer is played as a regular track change
+      if (voice.track === this.nextTrack) this.cancelTransition();
+      voice.track = null;
+      voice.loading = null;
+      return;
+    }
+
+    if (!voice.retried) {
+      const position = voice.element.currentTime;
+      const wasPlaying = this.isPlaying;
+      const request = this.playRequest;
+
+      voice.loading = null;
+      this.loadVoice(voice, track)
+        .then(async () => {
+          voice.element.currentTime = position;
+          if (wasPlaying && request === this.playRequest) await voice.element.play();
+        })
+        .catch(error => this.failStream(error));
+      voice.retried = true;
+      return;
+    }
+
+    this.failStream(new Error(`Failed to load audio: media error ${voice.element.error.code}`));
+  }
+
+  private failStream(error: unknown): void {
+    this.stop();
+    this.onError?.(error instanceof Error ? error : new Error('Unknown playback error'));
+  }
+
+  private reportLoadProgress(voice: Voice): void {
+    const { buffered, duration } = voice.element;
+    if (voice !== this.currentVoice || !this.onLoadProgress || buffered.length === 0 || !Number.isFinite(duration)) return;
+
+    this.onLoadProgress(Math.min(1, buffered.end(buffered.length - 1) / duration));
+  }
+
+  /**
+   * Download speed from how much more of the stream is buffered: the
+   * buffered share of the duration is that share of the file's bytes
+   */
+  private measureThroughput(voice: Voice): void {
+    const { buffered, duration } = voice.element;
+    if (!voice.size || !this.onThroughput || !Number.isFinite(duration) || duration <= 0) return;
+
+    let bufferedSeconds = 0;
+    for (let i = 0; i < buffered.length; i++) {
+      bufferedSeconds += buffered.end(i) - buffered.start(i);
+    }
+
+    const now = performance.now();
+    const start = voice.throughputStart;
+    if (!start || bufferedSeconds < start.buffered) {
+      voice.throughputStart = { time: now, buffered: bufferedSeconds };
+      return;
+    }
+
+    const bytes = (bufferedSeconds - start.buffered) / duration * voice.size;
+    const elapsed = (now - start.time) / 1000;
+    if (bytes < MIN_THROUGHPUT_SAMPLE_BYTES || elapsed <= 0) return;
+
+    voice.throughputStart = { time: now, buffered: bufferedSeconds };
+    this.onThroughput(bytes * 8 / 1000 / elapsed);
+  }
+
+  private prepareNextTrack(): void {
+    const track = this.nextTrack;
+    const standby = this.standbyVoice;
+    // The standby voice is still busy fading out the previous track;
+    // finishFade() comes back here
+    if (!track || !standby || !this.config.preloadNext || this.isFading) return;
+
+    this.loadVoice(standby, track)
+      .then(() => {
+        // The queue may have moved on while the stream URL was on its way
+        if (track === this.nextTrack) this.scheduleTransition();
+      })
+      .catch(console.warn);
+  }
+
+  /**
+   * Hands over to the next track where the current one ends, or that many
+   * seconds before it for a crossfade. A gapless hand-over is lined up on
+   * the audio clock shortly before the end, see scheduleHandover().
+   */
+  private scheduleTransition(): void {
+    if (!this.isPlaying || this.isFading || this.transitionTimeout) return;
+    if (!this.currentTrack || !this.nextTrack || this.standbyVoice?.track !== this.nextTrack) return;
+
+    const currentLength = this.getDuration() / this.playbackRate;
+    const remaining = currentLength - this.getCurrentTime() / this.playbackRate;
+    const transition = planTransition(
+      this.currentTrack,
+      this.nextTrack,
+      this.config.crossfadeDuration,
+      currentLength,
+      this.getVoiceDuration(this.standbyVoice) / this.playbackRate
+    );
+
+    // Near the end there may only be time for a shorter fade, or none;
+    // once the track has ended onTrackEnd takes over
+    if (remaining <= 0) return;
+    const fade = Math.min(transition.type === 'crossfade' ? transition.duration : 0, remaining);
+
+    if (fade === 0) {
+      this.loadHead(this.standbyVoice);
+      this.transitionTimeout = setTimeout(() => {
+        this.transitionTimeout = null;
+        this.scheduleHandover();
+      }, Math.max(0, (remaining - HANDOVER_LEAD) * 1000));
+      return;
+    }
+
+    this.transitionTimeout = setTimeout(() => {
+      this.transitionTimeout = null;
+      const left = (this.getDuration() - this.getCurrentTime()) / this.playbackRate;
+      this.startTransition(Math.max(0, Math.min(fade, left)));
+    }, Math.max(0, (remaining - fade) * 1000));
+  }
+
+  /**
+   * Decodes the start of the voice's track, so a gapless hand-over can
+   * start it on the audio clock. Only a part of the file is fetched, and
+   * never more than half of it, so the element always takes over.
+   */
+  private loadHead(voice: Voice): void {
+    const track = voice.track;
+    const context = this.audioContext;
+    const url = voice.element.currentSrc || voice.element.src;
+    const duration = this.getVoiceDuration(voice);
+    if (!context || !track || !url || !voice.size || duration <= 0 || voice.head || voice.headLoading) return;
+
+    const bytes = Math.min(Math.ceil(voice.size / duration * HEAD_DURATION), Math.floor(voice.size / 2));
+    voice.headLoading = fetch(url, { headers: { Range: `bytes=0-${bytes - 1}` } })
+      .then(response => {
+        // A server that ignores the range sends the whole file
+        if (response.status !== 206) throw new Error(`Head request failed with status ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(data => context.decodeAudioData(data))
+      .then(head => {
+        if (voice.track === track) voice.head = head;
+      })
+      .catch(error => {
+        // The hand-over falls back to starting the element when the timer fires
+        console.warn(`Failed to decode the start of track ${track.id}:`, error);
+      });
+  }
+
+  /**
+   * Starts the next track's decoded head on the audio clock at the moment
+   * the current track runs out, which then plays to its last sample.
+   * Without a head (not decoded yet, or playing at another speed) the
+   * element is started when the timer fires instead.
+   */
+  private scheduleHandover(): void {
+    const incoming = this.standbyVoice;
+    const track = this.nextTrack;
+    if (!this.audioContext || !incoming || !track || incoming.track !== track) return;
+
+    const remaining = Math.max(0, (this.getDuration() - this.getCurrentTime()) / this.playbackRate);
+    if (!incoming.head || this.playbackRate !== 1) {
+      this.transitionTimeout = setTimeout(() => {
+        this.transitionTimeout = null;
+        this.startTransition(0);
+      }, remaining * 1000);
+      return;
+    }
+
+    const now = this.audioContext.currentTime;
+    const startTime = now + Math.max(SCHEDULE_AHEAD, remaining);
+
+    const node = this.audioContext.createBufferSource();
+    const gainNode = this.audioContext.createGain();
+    node.buffer = incoming.head;
+    node.connect(gainNode);
+    gainNode.connect(incoming.normalizationNode);
+    node.onended = () => this.releaseHead(incoming, node);
+    node.start(startTime);
+    incoming.headSource = { node, gainNode, startTime, spliced: false };
+
+    incoming.elementGainNode.gain.cancelScheduledValues(0);
+    incoming.elementGainNode.gain.setValueAtTime(0, now);
+    incoming.normalizationNode.gain.cancelScheduledValues(0);
+    incoming.normalizationNode.gain.setValueAtTime(this.getNormalizationGain(track), now);
+    incoming.gainNode.gain.cancelScheduledValues(0);
+    incoming.gainNode.gain.setValueAtTime(1, now);
+
+    // Only the bookkeeping waits for the timer; the audio is already lined up
+    this.transitionTimeout = setTimeout(() => {
+      this.transitionTimeout = null;
+      this.completeHandover();
+    }, (startTime - now) * 1000);
+  }
+
+  // Makes the voice whose head has started the current one
+  private completeHandover(): void {
+    const incoming = this.standbyVoice;
+    const outgoing = this.currentVoice;
+    const track = this.nextTrack;
+    if (!incoming?.headSource || !outgoing || !track || incoming.track !== track) return;
+
+    this.currentVoice = incoming;
+    this.standbyVoice = outgoing;
+    this.currentTrack = track;
+    this.nextTrack = null;
+
+    // The previous track plays out; its 'ended' event calls finishFade()
+    this.isFading = true;
+    this.fadeTimeout = setTimeout(() => this.finishFade(), HANDOVER_LEAD * 1000);
+
+    this.startElementUnderHead(incoming);
+    this.onTrackChange?.(track);
+  }
+
+  private startElementUnderHead(voice: Voice): void {
+    const head = voice.headSource;
+    if (!this.audioContext || !head?.node.buffer) return;
+
+    // Should the element never get in step, it still takes over as the head runs out
+    this.scheduleSplice(voice, head.startTime + head.node.buffer.duration - SPLICE_FADE);
+
+    const position = Math.max(0, this.audioContext.currentTime - head.startTime);
+    voice.element.currentTime = position + ELEMENT_START_LEAD;
+    voice.element.playbackRate = 1;
+    voice.element.play()
+      .then(() => this.alignElement(voice))
+      .catch(error => {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) this.failStream(error);
+      });
+  }
+
+  /**
+   * Speeds the muted element up or down until it plays the same part of
+   * the track as the head, then lets it take over
+   */
+  private alignElement(voice: Voice): void {
+    this.alignTimeout = null;
+    const head = voice.headSource;
+    if (!this.audioContext || !head?.node.buffer || head.spliced || voice !== this.currentVoice) return;
+
+    const { element } = voice;
+    const position = this.audioContext.currentTime - head.startTime;
+    const left = head.node.buffer.duration - position;
+
+    if (!element.paused && !element.seeking && element.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+      const drift = element.currentTime - position;
+      if (Math.abs(drift) <= SPLICE_TOLERANCE || left < ALIGN_INTERVAL * 2) {
+        this.spliceHead(voice);
+        return;
+      }
+
+      const change = Math.max(-MAX_ALIGN_RATE_CHANGE, Math.min(MAX_ALIGN_RATE_CHANGE, drift / ALIGN_CATCH_UP));
+      element.playbackRate = 1 - change;
+    }
+
+    this.alignTimeout = setTimeout(() => this.alignElement(voice), ALIGN_INTERVAL * 1000);
+  }
+
+  // The element takes over from the head now
+  private spliceHead(voice: Voice): void {
+    const head = voice.headSource;
+    if (!this.audioContext || !head || head.spliced) return;
+
+    if (this.alignTimeout) {
+      clearTimeout(this.alignTimeout);
+      this.alignTimeout = null;
+    }
+
+    const now = this.audioContext.currentTime;
+    head.spliced = true;
+    voice.element.playbackRate = this.playbackRate;
+    this.scheduleSplice(voice, now);
+    head.node.stop(now + SPLICE_FADE);
+  }
+
+  /**
+   * Blends from the head to the element at `time`. Both play the same
+   * audio, so linear ramps keep the level steady where an equal-power
+   * curve would bump it.
+   */
+  private scheduleSplice(voice: Voice, time: number): void {
+    const head = voice.headSource;
+    if (!this.audioContext || !head) return;
+
+    const now = this.audioContext.currentTime;
+    const start = Math.max(now, time);
+
+    voice.elementGainNode.gain.cancelScheduledValues(0);
+    voice.elementGainNode.gain.setValueAtTime(0, now);
+    voice.elementGainNode.gain.setValueAtTime(0, start);
+    voice.elementGainNode.gain.linearRampToValueAtTime(1, start + SPLICE_FADE);
+
+    head.gainNode.gain.cancelScheduledValues(0);
+    head.gainNode.gain.setValueAtTime(1, now);
+    head.gainNode.gain.setValueAtTime(1, start);
+    head.gainNode.gain.linearRampToValueAtTime(0, start + SPLICE_FADE);
+  }
+
+  // The head finished, or was stopped once the element took over
+  private releaseHead(voice: Voice, node: AudioBufferSourceNode): void {
+    const head = voice.headSource;
+    if (head?.node !== node) return;
+
+    voice.headSource = null;
+    head.node.disconnect();
+    head.gainNode.disconnect();
+    if (voice === this.currentVoice && this.alignTimeout) {
+      clearTimeout(this.alignTimeout);
+      this.alignTimeout = null;
+    }
+    voice.element.playbackRate = this.playbackRate;
+  }
+
+  // Drops the voice's head at once, leaving the element to play
+  private stopHead(voice: Voice): void {
+    const head = voice.headSource;
+    if (!head) return;
+
+    head.node.onended = null;
+    head.node.stop();
+    this.releaseHead(voice, head.node);
+
+    if (this.audioContext) {
+      voice.elementGainNode.gain.cancelScheduledValues(0);
+      voice.elementGainNode.gain.setValueAtTime(1, this.audioContext.currentTime);
+    }
+  }
+
+  /**
+   * Starts the next track on the standby voice and makes it the current
+   * one; the previous track fades out over `fadeDuration`, or stops at
+   * once for a gapless hand-over
+   */
+  private startTransition(fadeDuration: number, notify: boolean = true): void {
+    const incoming = this.standbyVoice;
+    const outgoing = this.currentVoice;
+    const track = this.nextTrack;
+    if (!this.audioContext || !incoming || !outgoing || !track || incoming.track !== track) return;
+
+    const now = this.audioContext.currentTime;
+    incoming.gainNode.gain.cancelScheduledValues(0);
+    outgoing.gainNode.gain.cancelScheduledValues(0);
+
+    if (fadeDuration > 0) {
+      incoming.gainNode.gain.setValueCurveAtTime(createEqualPowerCurve('in'), now, fadeDuration);
+      outgoing.gainNode.gain.setValueCurveAtTime(createEqualPowerCurve('out'), now, fadeDuration);
+    } else {
+      incoming.gainNode.gain.setValueAtTime(1, now);
+      outgoing.gainNode.gain.setValueAtTime(0, now);
+    }
+
+    incoming.normalizationNode.gain.cancelScheduledValues(0);
+    incoming.normalizationNode.gain.setValueAtTime(this.getNormalizationGain(track), now);
+    incoming.element.currentTime = 0;
+    incoming.element.playbackRate = this.playbackRate;
+    incoming.element.play().catch(error => {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) this.failStream(error);
+    });
+
+    this.currentVoice = incoming;
+    this.standbyVoice = outgoing;
+    this.currentTrack = track;
+    this.nextTrack = null;
+
+    this.isFading = true;
+    if (fadeDuration > 0) {
+      this.fadeTimeout = setTimeout(() => this.finishFade(), fadeDuration * 1000);
+    } else {
+      this.finishFade();
+    }
+
+    if (notify) {
+      this.onTrackChange?.(track);
+    }
+  }
+
+  // Silences the previous track and frees its voice for the next one
+  private finishFade(): void {
+    if (this.fadeTimeout) {
+      clearTimeout(this.fadeTimeout);
+      this.fadeTimeout = null;
+    }
+    if (!this.isFading) return;
+
+    this.isFading = false;
+    const voice = this.standbyVoice;
+    if (voice) {
+      voice.element.pause();
+      if (this.audioContext) {
+        voice.gainNode.gain.cancelScheduledValues(0);
+        voice.gainNode.gain.setValueAtTime(0, this.audioContext.currentTime);
+      }
+    }
+
+    this.prepareNextTrack();
+  }
+
+  // Drops a transition that hasn't started yet, e.g. when the queue changes
+  private cancelTransition(): void {
+    this.clearTransitionTimeout();
+
+    // A head lined up for a gapless hand-over
+    const standby = this.standbyVoice;
+    if (standby?.headSource && this.audioContext) {
+      this.stopHead(standby);
+      standby.gainNode.gain.cancelScheduledValues(0);
+      standby.gainNode.gain.setValueAtTime(0, this.audioContext.currentTime);
+    }
+  }
+
+  private clearTransitionTimeout(): void {
+    if (this.transitionTimeout) {
+      clearTimeout(this.transitionTimeout);
+      this.transitionTimeout = null;
+    }
+  }
+
+  private rescheduleTransition(): void {
+    this.cancelTransition();
+    this.scheduleTransition();
+  }
+
   // Equalizer controls
   public setEqualizerBand(bandIndex: number, gain: number): void {
     if (bandIndex >= 0 && bandIndex < this.equalizerNodes.length) {
@@ -481,7 +1155,22 @@ export class AdvancedAudioEngine {
 
   // Configuration
   public updateConfig(newConfig: Partial<AudioEngineConfig>): void {
+    const crossfadeChanged = newConfig.crossfadeDuration !== undefined &&
+      newConfig.crossfadeDuration !== this.config.crossfadeDuration;
+    const normalizationChanged = newConfig.normalization !== undefined &&
+      newConfig.normalization !== this.config.normalization;
     this.config = { ...this.config, ...newConfig };
+
+    if (normalizationChanged && this.audioContext && this.currentVoice && this.currentTrack) {
+      // Glide to the new level rather than jumping
+      const now = this.audioContext.currentTime;
+      this.currentVoice.normalizationNode.gain.cancelScheduledValues(now);
+      this.currentVoice.normalizationNode.gain.setTargetAtTime(this.getNormalizationGain(this.currentTrack), now, 0.1);
+    }
+
+    if (crossfadeChanged || normalizationChanged) {
+      this.rescheduleTransition();
+    }
   }
 
   public getConfig(): AudioEngineConfig {
@@ -491,22 +1180,28 @@ export class AdvancedAudioEngine {
   // Cleanup
   public dispose(): void {
     this.stop();
-    
+
+    // Stop the elements downloading
+    [this.currentVoice, this.standbyVoice].forEach(voice => {
+      if (!voice) return;
+      voice.element.removeAttribute('src');
+      voice.element.load();
+    });
+
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
     }
-    
-    this.audioBuffers.clear();
-    this.loadingPromises.clear();
-    
+
     // Clear all nodes
+    this.currentVoice = null;
+    this.standbyVoice = null;
     this.gainNode = null;
-    this.crossfadeGainNode = null;
-    this.nextGainNode = null;
+    this.fadeNode = null;
     this.analyzerNode = null;
     this.equalizerNodes = [];
     this.compressorNode = null;
+    this.limiterNode = null;
   }
 
   // Media Session API integration
@@ -0,0 +1,68 @@
+import type { RecommendationResponse, Track } from '@/types';
+import { musicDatabase } from '@/lib/data/music-database';
+
+/**
+ * Autoplay keeps music going once the context queue runs out by appending
+ * tracks similar to what was just played. The seeds are the last few
+ * tracks played, most recent first.
+ */
+
+// Tracks fetched each time autoplay extends the queue
+export const AUTOPLAY_BATCH_SIZE = 10;
+
+const MAX_SEED_TRACKS = 5;
+const MAX_SEED_ARTISTS = 5;
+// Keeps the request URL within the API's id list limit
+const MAX_EXCLUDED_TRACKS = 40;
+
+export interface AutoplaySeeds {
+  seedTracks: string[];
+  seedArtists: string[];
+}
+
+/**
+ * Seeds from the current track and the tracks played before it
+ */
+export function getAutoplaySeeds(queue: Track[], currentIndex: number, playHistory: number[]): AutoplaySeeds {
+  const recentIndices = [currentIndex, ...[...playHistory].reverse()];
+  const seedTracks: string[] = [];
+  const seedArtists: string[] = [];
+
+  for (const index of recentIndices) {
+    const track = queue[index];
+    if (!track || seedTracks.includes(track.id)) continue;
+
+    seedTracks.push(track.id);
+    if (!seedArtists.includes(track.artist.id) && seedArtists.length < MAX_SEED_ARTISTS) {
+      seedArtists.push(track.artist.id);
+    }
+    if (seedTracks.length === MAX_SEED_TRACKS) break;
+  }
+
+  return { seedTracks, seedArtists };
+}
+
+/**
+ * Asks the recommendation engine for tracks to follow the seeds, skipping
+ * anything already queued. Signed-out listeners get no autoplay tracks.
+ */
+export async function fetchAutoplayTracks(seeds: AutoplaySeeds, queuedTrackIds: string[]): Promise<Track[]> {
+  if (seeds.seedTracks.length === 0 && seeds.seedArtists.length === 0) return [];
+
+  const params = new URLSearchParams({
+    section: 'similar_artists',
+    limit: String(AUTOPLAY_BATCH_SIZE),
+    seedTracks: seeds.seedTracks.join(','),
+    seedArtists: seeds.seedArtists.join(','),
+    exclude: [...new Set(queuedTrackIds)].slice(-MAX_EXCLUDED_TRACKS).join(','),
+  });
+  const response = await fetch(`/api/recommendations?${params}`, { cache: 'no-store' });
+
+  if (response.status === 401) return [];
+  if (!response.ok) {
+    throw new Error(`Autoplay request failed with status ${response.status}`);
+  }
+
+  const { data }: { data: RecommendationResponse } = await response.json();
+  return musicDatabase.getTracks(data.tracks.map(recommendation => recommendation.trackId));
+}
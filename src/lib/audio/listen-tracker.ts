@@ -0,0 +1,101 @@
+import type { PlaybackContext, Track } from '@/types';
+
+/**
+ * Listen tracking for the recently played history (US-013)
+ * Counts seconds actually heard for the current play and reports the play
+ * once it crosses the listen threshold
+ */
+
+// A play counts after 30 seconds, or half the track for very short tracks
+const LISTEN_THRESHOLD_SECONDS = 30;
+
+// Position jumps larger than this between ticks are seeks, not listening
+const MAX_TICK_SECONDS = 1;
+
+export interface PlayEvent {
+  trackId: string;
+  playedAt: Date;
+  duration: number;
+  context?: PlaybackContext;
+}
+
+interface ListenSession {
+  trackId: string;
+  startedAt: Date;
+  lastPosition: number;
+  listened: number;
+  reported: boolean;
+  context?: PlaybackContext;
+}
+
+class ListenTracker {
+  private session: ListenSession | null = null;
+
+  constructor(private readonly report: (event: PlayEvent) => Promise<void>) {}
+
+  /**
+   * Start counting a new play of a track, e.g. when it is started or repeated
+   */
+  begin(track: Track, context?: PlaybackContext): void {
+    this.session = {
+      trackId: track.id,
+      startedAt: new Date(),
+      lastPosition: 0,
+      listened: 0,
+      reported: false,
+      context,
+    };
+  }
+
+  /**
+   * Record playback progress; called from the player's progress loop
+   */
+  tick(track: Track, position: number, duration: number): void {
+    if (!this.session || this.session.trackId !== track.id) {
+      this.begin(track);
+    }
+
+    const session = this.session!;
+    const delta = position - session.lastPosition;
+    session.lastPosition = position;
+
+    if (delta <= 0 || delta > MAX_TICK_SECONDS) return;
+
+    session.listened += delta;
+
+    const threshold = duration > 0
+      ? Math.min(LISTEN_THRESHOLD_SECONDS, duration / 2)
+      : LISTEN_THRESHOLD_SECONDS;
+
+    if (!session.reported && session.listened >= threshold) {
+      session.reported = true;
+      this.report({
+        trackId: session.trackId,
+        playedAt: session.startedAt,
+        duration: Math.round(session.listened),
+        context: session.context,
+      }).catch(error => {
+        console.error('Failed to record play:', error);
+      });
+    }
+  }
+
+  reset(): void {
+    this.session = null;
+  }
+}
+
+async function postPlayEvent(event: PlayEvent): Promise<void> {
+  const response = await fetch('/api/me/history', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(event),
+  });
+
+  // Signed-out listeners have no history to record into
+  if (!response.ok && response.status !== 401) {
+    throw new Error(`History request failed with status ${response.status}`);
+  }
+}
+
+export const listenTracker = new ListenTracker(postPlayEvent);
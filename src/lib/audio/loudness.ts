@@ -0,0 +1,26 @@
+import type { ReplayGain, VolumeNormalization } from '@/types';
+
+/**
+ * ReplayGain-style loudness normalization. Every track is turned up or down
+ * towards one reference level, using the values measured offline by
+ * scripts/analyze-audio.js and stored with the track; that script is the
+ * only place loudness is measured. The player streams audio rather than
+ * decoding whole files, so tracks the script hasn't analyzed play at their
+ * own level.
+ */
+
+/**
+ * Linear gain for a track in the given mode. Album mode falls back to the
+ * track's own gain when the album wasn't measured as a whole. The gain is
+ * capped so the track's loudest sample stays under full scale.
+ */
+export function getNormalizationGain(replayGain: ReplayGain | undefined, mode: VolumeNormalization): number {
+  if (mode === 'off' || !replayGain) return 1;
+
+  const useAlbum = mode === 'album' && replayGain.albumGain !== undefined;
+  const gainDb = useAlbum ? replayGain.albumGain ?? 0 : replayGain.trackGain;
+  const peak = useAlbum ? replayGain.albumPeak ?? replayGain.trackPeak : replayGain.trackPeak;
+
+  const gain = Math.pow(10, gainDb / 20);
+  return peak > 0 ? Math.min(gain, 1 / peak) : gain;
+}
@@ -0,0 +1,50 @@
+import type { PlaybackContext } from '@/types';
+import { parseRadioContext } from './radio';
+
+const CONTEXT_LABELS: Record<PlaybackContext['type'], string> = {
+  playlist: 'Playlist',
+  album: 'Album',
+  artist: 'Artist',
+  liked: 'Liked Songs',
+  queue: 'Queue',
+  radio: 'Radio',
+};
+
+/**
+ * Page the context was started from, or null when it has no page of its own
+ */
+export function getPlaybackContextHref(context: PlaybackContext): string | null {
+  switch (context.type) {
+    case 'playlist':
+      return context.id ? `/playlist/${context.id}` : null;
+    case 'album':
+      return context.id ? `/album/${context.id}` : null;
+    case 'artist':
+      return context.id ? `/artist/${context.id}` : null;
+    case 'liked':
+      return '/liked-songs';
+    case 'radio': {
+      // Radio links back to the track or artist it was started from
+      const seed = parseRadioContext(context);
+      if (seed?.seedType === 'track') return `/track/${seed.seedId}`;
+      if (seed?.seedType === 'artist') return `/artist/${seed.seedId}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Display name for the context, e.g. the playlist's name or "Liked Songs"
+ */
+export function getPlaybackContextName(context: PlaybackContext): string {
+  return context.name || CONTEXT_LABELS[context.type];
+}
+
+/**
+ * What kind of source is playing, e.g. "Playing from album"
+ */
+export function getPlaybackContextLabel(context: PlaybackContext): string {
+  return `Playing from ${CONTEXT_LABELS[context.type].toLowerCase()}`;
+}
@@ -0,0 +1,99 @@
+import type { Album, PlayerSession, PlayerState, Track } from '@/types';
+import type { PlayerSessionUpdate } from '@/lib/data/player-session-repository';
+
+/**
+ * Client side of the saved player session: what the player was doing, so a
+ * listener can pick up where they left off after a reload or on another
+ * device.
+ */
+
+// How often the position is saved while something is playing
+export const SESSION_SAVE_INTERVAL = 15000;
+
+// Everything a session records besides the position
+export const SESSION_STATE_KEYS = [
+  'currentTrack',
+  'currentIndex',
+  'queue',
+  'upNext',
+  'isPlayingUpNext',
+  'playbackContext',
+  'shuffleMode',
+  'shuffleOrder',
+  'repeatMode',
+  'isPlaying',
+] as const satisfies readonly (keyof PlayerState)[];
+
+export function toPlayerSessionUpdate(state: PlayerState): PlayerSessionUpdate {
+  return {
+    queue: state.queue.map(track => track.id),
+    upNext: state.upNext.map(track => track.id),
+    currentTrackId: state.currentTrack?.id ?? null,
+    currentIndex: state.currentIndex,
+    isPlayingUpNext: state.isPlayingUpNext,
+    position: Math.max(0, state.progress),
+    playbackContext: state.playbackContext,
+    shuffleMode: state.shuffleMode,
+    shuffleOrder: state.shuffleOrder,
+    shuffleSeed: state.shuffleSeed,
+    repeatMode: state.repeatMode,
+    playHistory: state.playHistory,
+    autoplayStartIndex: state.autoplayStartIndex,
+  };
+}
+
+// JSON responses carry dates as strings
+const reviveAlbum = (album: Album): Album => ({
+  ...album,
+  releaseDate: new Date(album.releaseDate),
+});
+
+const reviveTrack = (track: Track): Track => ({
+  ...track,
+  album: reviveAlbum(track.album),
+  releaseDate: new Date(track.releaseDate),
+});
+
+/**
+ * The signed-in listener's saved session; null when there is none or
+ * nobody is signed in
+ */
+export async function fetchPlayerSession(): Promise<PlayerSession | null> {
+  const response = await fetch('/api/me/player', { cache: 'no-store' });
+
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Player session request failed with status ${response.status}`);
+  }
+
+  const { data }: { data: PlayerSession | null } = await response.json();
+  if (!data) return null;
+
+  return {
+    ...data,
+    queue: data.queue.map(reviveTrack),
+    upNext: data.upNext.map(reviveTrack),
+    currentTrack: data.currentTrack ? reviveTrack(data.currentTrack) : null,
+    updatedAt: new Date(data.updatedAt),
+  };
+}
+
+/**
+ * `keepalive` lets the save finish while the page is being closed
+ */
+export async function savePlayerSession(
+  session: PlayerSessionUpdate,
+  { keepalive = false }: { keepalive?: boolean } = {}
+): Promise<void> {
+  const response = await fetch('/api/me/player', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(session),
+    keepalive,
+  });
+
+  // Signed-out listeners have nothing to save to
+  if (!response.ok && response.status !== 401) {
+    throw new Error(`Saving the player session failed with status ${response.status}`);
+  }
+}
@@ -0,0 +1,88 @@
+import type { Album, PlaybackContext, RadioRating, RadioSeedType, RadioStation, Track } from '@/types';
+
+/**
+ * Client side of radio stations. A station plays as a "radio" playback
+ * context whose id encodes the seed, e.g. "artist:artist-1", so the player
+ * can fetch more of it when the queue runs out.
+ */
+
+// Tracks fetched each time the player extends a station
+export const RADIO_BATCH_SIZE = 10;
+
+export interface RadioSeedRef {
+  seedType: RadioSeedType;
+  seedId: string;
+}
+
+const SEED_TYPES: RadioSeedType[] = ['track', 'artist', 'genre'];
+
+export function getRadioContext(station: Pick<RadioStation, 'seedType' | 'seedId' | 'name'>): PlaybackContext {
+  return { type: 'radio', id: `${station.seedType}:${station.seedId}`, name: station.name };
+}
+
+/**
+ * The station a radio context plays, or null for any other context
+ */
+export function parseRadioContext(context: PlaybackContext | null): RadioSeedRef | null {
+  if (context?.type !== 'radio' || !context.id) return null;
+
+  const separator = context.id.indexOf(':');
+  const seedType = context.id.slice(0, separator) as RadioSeedType;
+  const seedId = context.id.slice(separator + 1);
+
+  return separator > 0 && SEED_TYPES.includes(seedType) && seedId ? { seedType, seedId } : null;
+}
+
+function getStationPath({ seedType, seedId }: RadioSeedRef): string {
+  return `/api/radio/${seedType}/${encodeURIComponent(seedId)}`;
+}
+
+// JSON responses carry dates as strings
+const reviveAlbum = (album: Album): Album => ({
+  ...album,
+  releaseDate: new Date(album.releaseDate),
+});
+
+const reviveTrack = (track: Track): Track => ({
+  ...track,
+  album: reviveAlbum(track.album),
+  releaseDate: new Date(track.releaseDate),
+});
+
+/**
+ * The station's next batch. `reset` starts the station over.
+ */
+export async function fetchRadioStation(
+  seed: RadioSeedRef,
+  { limit = RADIO_BATCH_SIZE, reset = false }: { limit?: number; reset?: boolean } = {}
+): Promise<RadioStation> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (reset) params.set('reset', 'true');
+
+  const response = await fetch(`${getStationPath(seed)}?${params}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(response.status === 401 ? 'Sign in to listen to radio' : 'Failed to load radio station');
+  }
+
+  const { data }: { data: RadioStation } = await response.json();
+  return { ...data, tracks: data.tracks.map(reviveTrack) };
+}
+
+export async function sendRadioFeedback(
+  seed: RadioSeedRef,
+  trackId: string,
+  rating: RadioRating | null
+): Promise<Record<string, RadioRating>> {
+  const response = await fetch(`${getStationPath(seed)}/feedback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trackId, rating }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save radio feedback');
+  }
+
+  const { data } = await response.json();
+  return data.ratings;
+}
@@ -0,0 +1,137 @@
+import type { Track } from '@/types';
+
+/**
+ * Shuffle ordering for the player queue
+ * Orders are permutations of queue indices generated from a seed, so the
+ * same queue and seed always shuffle the same way. Tracks by one artist are
+ * spread evenly through the order, and within an artist, albums alternate.
+ */
+
+// How many played tracks "previous" can walk back through
+export const MAX_PLAY_HISTORY = 100;
+
+/**
+ * mulberry32: a small, fast PRNG that is plenty for shuffling
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+function fisherYates<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j] as T, result[i] as T];
+  }
+  return result;
+}
+
+type GroupKey = (track: Track) => string;
+
+const byArtist: GroupKey = track => track.artist.id;
+const byAlbum: GroupKey = track => track.album.id;
+
+/**
+ * Each group's items are placed at evenly spaced positions along [0, 1)
+ * from a random starting offset, then all groups are merged by position.
+ * Groups are ordered recursively by the remaining keys.
+ */
+function spreadShuffle(
+  indices: number[],
+  tracks: Track[],
+  keys: GroupKey[],
+  random: () => number
+): number[] {
+  const [key, ...remainingKeys] = keys;
+  if (!key || indices.length < 2) return fisherYates(indices, random);
+
+  const groups = new Map<string, number[]>();
+  indices.forEach(index => {
+    const track = tracks[index];
+    const groupId = track ? key(track) : '';
+    groups.set(groupId, [...(groups.get(groupId) ?? []), index]);
+  });
+
+  if (groups.size === 1) return spreadShuffle(indices, tracks, remainingKeys, random);
+
+  const placed: { index: number; position: number }[] = [];
+  // Visit groups in random order so ties don't always favour the same one
+  fisherYates(Array.from(groups.values()), random).forEach(group => {
+    const ordered = spreadShuffle(group, tracks, remainingKeys, random);
+    const spacing = 1 / ordered.length;
+    const offset = random() * spacing;
+
+    ordered.forEach((index, i) => {
+      placed.push({ index, position: offset + i * spacing });
+    });
+  });
+
+  return placed
+    .sort((a, b) => a.position - b.position)
+    .map(({ index }) => index);
+}
+
+/**
+ * Play order for the queue in shuffle mode. The track at `firstIndex`
+ * (usually the one already playing) stays first.
+ */
+export function createShuffleOrder(tracks: Track[], seed: number, firstIndex = -1): number[] {
+  const random = createSeededRandom(seed);
+  const rest = tracks
+    .map((_, index) => index)
+    .filter(index => index !== firstIndex);
+
+  const shuffled = spreadShuffle(rest, tracks, [byArtist, byAlbum], random);
+  return firstIndex >= 0 && firstIndex < tracks.length ? [firstIndex, ...shuffled] : shuffled;
+}
+
+/**
+ * Queue indices in the order they play: the shuffle order when there is
+ * one, otherwise queue order
+ */
+export function getPlayOrder(queueLength: number, shuffleOrder: number[]): number[] {
+  return shuffleOrder.length > 0
+    ? shuffleOrder
+    : Array.from({ length: queueLength }, (_, index) => index);
+}
+
+/**
+ * Queue indices still to play after `currentIndex`
+ */
+export function getUpcomingIndices(queueLength: number, shuffleOrder: number[], currentIndex: number): number[] {
+  const order = getPlayOrder(queueLength, shuffleOrder);
+  return order.slice(order.indexOf(currentIndex) + 1);
+}
+
+/**
+ * Drops `removed` from a list of queue indices and shifts later indices
+ * down to match the shortened queue
+ */
+export function removeQueueIndex(indices: number[], removed: number): number[] {
+  return indices
+    .filter(index => index !== removed)
+    .map(index => (index > removed ? index - 1 : index));
+}
+
+/**
+ * Rewrites queue indices after the queue entry at `from` moved to `to`
+ */
+export function moveQueueIndex(indices: number[], from: number, to: number): number[] {
+  return indices.map(index => {
+    if (index === from) return to;
+    if (from < to && index > from && index <= to) return index - 1;
+    if (from > to && index >= to && index < from) return index + 1;
+    return index;
+  });
+}
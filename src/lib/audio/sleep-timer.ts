@@ -0,0 +1,90 @@
+import type { PlayerState, SleepTimer, SleepTimerOption } from '@/types';
+import { getPlayOrder } from './shuffle';
+
+/**
+ * Sleep timer: stops playback after a number of minutes, or once the
+ * current track or the rest of its context has played. Playback fades out
+ * over its last seconds rather than cutting off.
+ */
+
+// Minute presets offered in the player
+export const SLEEP_TIMER_PRESETS = [5, 15, 30, 45, 60, 90] as const;
+
+// Seconds of fade-out before playback stops
+export const SLEEP_FADE_DURATION = 10;
+
+// What the sleep timer shortcut steps through; null turns the timer off
+const SHORTCUT_OPTIONS: (SleepTimerOption | null)[] = [
+  { type: 'minutes', minutes: 15 },
+  { type: 'minutes', minutes: 30 },
+  { type: 'minutes', minutes: 60 },
+  { type: 'track' },
+  null,
+];
+
+export function createSleepTimer(option: SleepTimerOption, now: number = Date.now()): SleepTimer {
+  if (option.type === 'minutes') {
+    return { type: 'minutes', minutes: option.minutes, endsAt: now + option.minutes * 60000 };
+  }
+  return option;
+}
+
+/**
+ * Whether playback stops when the current track ends rather than moving on
+ * (minute timers stop wherever they run out). Tracks queued with "add to
+ * queue" still play before the context counts as finished.
+ */
+export function endsAfterCurrentTrack(timer: SleepTimer | null, state: PlayerState): boolean {
+  if (timer?.type === 'track') return true;
+  if (timer?.type !== 'context' || state.upNext.length > 0) return false;
+
+  const order = getPlayOrder(state.queue.length, state.shuffleOrder);
+  return order.length === 0 || order[order.length - 1] === state.currentIndex;
+}
+
+/**
+ * Seconds until the timer stops playback, at the current playback rate
+ */
+export function getSleepTimerRemaining(timer: SleepTimer, state: PlayerState, now: number = Date.now()): number {
+  if (timer.type === 'minutes') {
+    return Math.max(0, (timer.endsAt - now) / 1000);
+  }
+
+  const duration = state.duration || state.currentTrack?.duration || 0;
+  let remaining = Math.max(0, duration - state.progress);
+
+  if (timer.type === 'context') {
+    const order = getPlayOrder(state.queue.length, state.shuffleOrder);
+    const upcoming = order.slice(order.indexOf(state.currentIndex) + 1);
+
+    remaining += state.upNext.reduce((total, track) => total + track.duration, 0);
+    remaining += upcoming.reduce((total, index) => total + (state.queue[index]?.duration ?? 0), 0);
+  }
+
+  return remaining / (state.playbackRate || 1);
+}
+
+/**
+ * The option the sleep timer shortcut moves on to from the running timer
+ */
+export function cycleSleepTimer(timer: SleepTimer | null): SleepTimerOption | null {
+  if (!timer) return SHORTCUT_OPTIONS[0] ?? null;
+
+  const index = SHORTCUT_OPTIONS.findIndex(option =>
+    option?.type === timer.type &&
+    (option.type !== 'minutes' || (timer.type === 'minutes' && option.minutes === timer.minutes))
+  );
+  // Timers the shortcut doesn't offer are turned off
+  return index === -1 ? null : SHORTCUT_OPTIONS[index + 1] ?? null;
+}
+
+export function describeSleepTimer(timer: SleepTimer): string {
+  switch (timer.type) {
+    case 'minutes':
+      return `${timer.minutes} minutes`;
+    case 'track':
+      return 'End of track';
+    case 'context':
+      return 'End of album or playlist';
+  }
+}
@@ -0,0 +1,46 @@
+import type { AudioQuality } from '@/lib/subscription/audio-quality-manager';
+
+/**
+ * Client side of signed streaming. Audio isn't public: the player asks
+ * /api/stream/[trackId]/url for a short-lived URL and plays that.
+ */
+
+// Ask for a new URL this long before the current one expires (ms), so a
+// slow download doesn't outlive it
+const EXPIRY_MARGIN = 60 * 1000;
+
+export interface StreamUrl {
+  url: string;
+  quality: AudioQuality; // May be lower than asked for, depending on the plan
+  size: number; // bytes
+  expiresAt: Date;
+}
+
+const cache = new Map<string, StreamUrl>();
+
+/**
+ * A signed URL to stream the track, reused until it's about to expire
+ */
+export async function fetchStreamUrl(trackId: string, quality: AudioQuality): Promise<StreamUrl> {
+  const key = `${trackId}:${quality}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt.getTime() - Date.now() > EXPIRY_MARGIN) {
+    return cached;
+  }
+
+  const params = new URLSearchParams({ quality });
+  const response = await fetch(`/api/stream/${encodeURIComponent(trackId)}/url?${params}`);
+  if (!response.ok) {
+    throw new Error(`Stream URL request failed with status ${response.status}`);
+  }
+
+  const { data } = await response.json();
+  const streamUrl: StreamUrl = { ...data, expiresAt: new Date(data.expiresAt) };
+  cache.set(key, streamUrl);
+
+  return streamUrl;
+}
+
+export function clearStreamUrls(): void {
+  cache.clear();
+}
@@ -0,0 +1,60 @@
+import type { Track } from '@/types';
+
+/**
+ * How the audio engine moves from one track into the next. Albums and
+ * repeated tracks run straight into each other with no gap; anything else
+ * crossfades for the configured duration.
+ */
+
+// Fades shorter than this are indistinguishable from a cut
+const MIN_CROSSFADE_DURATION = 0.05;
+
+// Points in each gain curve handed to the Web Audio API
+export const CROSSFADE_CURVE_STEPS = 128;
+
+export type TrackTransition =
+  | { type: 'gapless' }
+  | { type: 'crossfade'; duration: number };
+
+/**
+ * The next track picks up where this one leaves off on the same album
+ */
+export function isAlbumContinuation(current: Track, next: Track): boolean {
+  return current.album.id === next.album.id &&
+    current.trackNumber !== undefined &&
+    next.trackNumber === current.trackNumber + 1;
+}
+
+/**
+ * Lengths are in playback seconds. A crossfade never takes more than half
+ * of either track, so a fade out always finishes before the next one starts.
+ */
+export function planTransition(
+  current: Track,
+  next: Track,
+  crossfadeDuration: number,
+  currentLength: number,
+  nextLength: number
+): TrackTransition {
+  if (crossfadeDuration <= 0 || current.id === next.id || isAlbumContinuation(current, next)) {
+    return { type: 'gapless' };
+  }
+
+  const duration = Math.min(crossfadeDuration, currentLength / 2, nextLength / 2);
+  return duration < MIN_CROSSFADE_DURATION ? { type: 'gapless' } : { type: 'crossfade', duration };
+}
+
+/**
+ * Equal-power gain curve: the two tracks' powers always add up to one, so
+ * the mix doesn't dip in the middle the way a linear fade does
+ */
+export function createEqualPowerCurve(direction: 'in' | 'out', steps: number = CROSSFADE_CURVE_STEPS): Float32Array {
+  const curve = new Float32Array(steps);
+
+  for (let i = 0; i < steps; i++) {
+    const angle = (i / (steps - 1)) * (Math.PI / 2);
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle);
+  }
+
+  return curve;
+}
@@ -0,0 +1,77 @@
+import type { ConnectCommand, ConnectDevice } from '@/types';
+import { DeviceRegistry, type DeviceConnection } from '../device-registry';
+
+describe('DeviceRegistry', () => {
+  const recorder = () => {
+    const events: { event: string; data: ConnectDevice[] | ConnectCommand }[] = [];
+    const connection: DeviceConnection = {
+      send: (event: 'devices' | 'command', data: ConnectDevice[] | ConnectCommand) => {
+        events.push({ event, data });
+      },
+    } as DeviceConnection;
+    return { events, connection };
+  };
+
+  const laptop = { id: 'laptop', name: 'Chrome on macOS', type: 'computer' as const };
+  const phone = { id: 'phone', name: 'Safari on iOS', type: 'smartphone' as const };
+
+  let registry: DeviceRegistry;
+
+  beforeEach(() => {
+    registry = new DeviceRegistry();
+  });
+
+  it('tells every device of a listener when another one connects', () => {
+    const first = recorder();
+    const second = recorder();
+
+    registry.connect('user-1', laptop, first.connection);
+    registry.connect('user-1', phone, second.connection);
+
+    const lastDevices = first.events.at(-1)?.data as ConnectDevice[];
+    expect(lastDevices.map(device => device.id)).toEqual(['laptop', 'phone']);
+    expect(second.events).toHaveLength(1);
+    expect(registry.list('user-2')).toEqual([]);
+  });
+
+  it('shares state reports and delivers commands to the named device', () => {
+    const first = recorder();
+    const second = recorder();
+    registry.connect('user-1', laptop, first.connection);
+    registry.connect('user-1', phone, second.connection);
+
+    const updated = registry.updateState('user-1', 'laptop', {
+      isPlaying: true,
+      nowPlaying: { trackId: 'track-1', title: 'Song', artist: 'Artist' },
+      progress: 42,
+      duration: 180,
+      volume: 0.5,
+    });
+    expect(updated).toMatchObject({ id: 'laptop', isPlaying: true, progress: 42 });
+
+    const seen = second.events.at(-1)?.data as ConnectDevice[];
+    expect(seen.find(device => device.id === 'laptop')?.nowPlaying?.trackId).toBe('track-1');
+
+    expect(registry.sendCommand('user-1', 'laptop', { type: 'seek', position: 10 })).toBe(true);
+    expect(first.events.at(-1)).toEqual({ event: 'command', data: { type: 'seek', position: 10 } });
+    expect(registry.sendCommand('user-1', 'tablet', { type: 'pause' })).toBe(false);
+    expect(registry.updateState('user-2', 'laptop', updated!)).toBeNull();
+  });
+
+  it('keeps a reconnected device when its old stream closes', () => {
+    const watcher = recorder();
+    const stale = recorder();
+    const fresh = recorder();
+    registry.connect('user-1', phone, watcher.connection);
+
+    const disconnectStale = registry.connect('user-1', laptop, stale.connection);
+    const disconnectFresh = registry.connect('user-1', laptop, fresh.connection);
+
+    disconnectStale();
+    expect(registry.list('user-1').map(device => device.id)).toEqual(['phone', 'laptop']);
+
+    disconnectFresh();
+    expect(registry.list('user-1').map(device => device.id)).toEqual(['phone']);
+    expect(watcher.events.at(-1)?.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,115 @@
+import type { ConnectCommand, ConnectDevice, ConnectDeviceType, PlayerState } from '@/types';
+import type { DeviceInfo, DeviceStateUpdate } from './device-registry';
+
+/**
+ * Client side of Connect: how this player describes itself to the
+ * listener's other devices and talks to them through the relay.
+ */
+
+// How often a playing device reports its position
+export const DEVICE_REPORT_INTERVAL = 5000;
+
+// Player state the other devices see change right away
+export const DEVICE_STATE_KEYS = [
+  'currentTrack',
+  'isPlaying',
+  'volume',
+  'duration',
+] as const satisfies readonly (keyof PlayerState)[];
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux'],
+];
+
+const findName = (patterns: [RegExp, string][], userAgent: string) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/**
+ * Names a device after its browser and platform, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent: string): Omit<DeviceInfo, 'id'> {
+  const browser = findName(BROWSERS, userAgent) ?? 'Web Player';
+  const platform = findName(PLATFORMS, userAgent);
+
+  let type: ConnectDeviceType = 'computer';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    type = 'tablet';
+  } else if (/Mobi|iPhone|iPod|Android/.test(userAgent)) {
+    type = 'smartphone';
+  }
+
+  return {
+    name: platform ? `${browser} on ${platform}` : browser,
+    type,
+  };
+}
+
+export function createDeviceId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function toDeviceState(state: PlayerState): DeviceStateUpdate {
+  const track = state.currentTrack;
+
+  return {
+    isPlaying: state.isPlaying,
+    nowPlaying: track
+      ? { trackId: track.id, title: track.title, artist: track.artist.name }
+      : null,
+    progress: Math.max(0, state.progress),
+    duration: Math.max(0, state.duration || track?.duration || 0),
+    volume: state.volume,
+  };
+}
+
+/**
+ * Where a device's playback should be by now, going by its last report
+ */
+export function estimateProgress(device: ConnectDevice, now = Date.now()): number {
+  if (!device.isPlaying) return device.progress;
+
+  const elapsed = (now - new Date(device.updatedAt).getTime()) / 1000;
+  return Math.min(device.duration, device.progress + Math.max(0, elapsed));
+}
+
+export function getDeviceEventsUrl({ id, name, type }: DeviceInfo): string {
+  const params = new URLSearchParams({ name, type });
+  return `/api/me/devices/${encodeURIComponent(id)}/events?${params}`;
+}
+
+export async function reportDeviceState(deviceId: string, state: DeviceStateUpdate): Promise<void> {
+  const response = await fetch(`/api/me/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(state),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Device state report failed with status ${response.status}`);
+  }
+}
+
+export async function sendDeviceCommand(deviceId: string, command: ConnectCommand): Promise<void> {
+  const response = await fetch(`/api/me/devices/${encodeURIComponent(deviceId)}/commands`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(command),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Device command failed with status ${response.status}`);
+  }
+}
@@ -0,0 +1,107 @@
+import type { ConnectCommand, ConnectDevice } from '@/types';
+
+/**
+ * Relay between a listener's open players. Each player keeps an event
+ * stream open; the registry tracks what every device is doing, tells them
+ * all when that changes, and delivers commands from one device to another.
+ * Devices live in memory only and disappear when their stream closes.
+ */
+
+// Device ids are generated by the client for each page load
+export const DEVICE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export type DeviceInfo = Pick<ConnectDevice, 'id' | 'name' | 'type'>;
+
+export type DeviceStateUpdate = Pick<
+  ConnectDevice,
+  'isPlaying' | 'nowPlaying' | 'progress' | 'duration' | 'volume'
+>;
+
+// The open event stream of one device
+export interface DeviceConnection {
+  send(event: 'devices', data: ConnectDevice[]): void;
+  send(event: 'command', data: ConnectCommand): void;
+}
+
+interface RegisteredDevice {
+  device: ConnectDevice;
+  connection: DeviceConnection;
+}
+
+export class DeviceRegistry {
+  private readonly users = new Map<string, Map<string, RegisteredDevice>>();
+
+  /**
+   * Registers a device and returns the function that removes it again. A
+   * device that reconnects replaces its old stream, and the old stream
+   * closing afterwards doesn't remove the new one.
+   */
+  connect(userId: string, info: DeviceInfo, connection: DeviceConnection): () => void {
+    const devices = this.users.get(userId) ?? new Map<string, RegisteredDevice>();
+    const previous = devices.get(info.id)?.device;
+
+    devices.set(info.id, {
+      device: {
+        isPlaying: false,
+        nowPlaying: null,
+        progress: 0,
+        duration: 0,
+        volume: 1,
+        ...previous,
+        ...info,
+        updatedAt: new Date().toISOString(),
+      },
+      connection,
+    });
+    this.users.set(userId, devices);
+    this.broadcast(userId);
+
+    return () => {
+      if (devices.get(info.id)?.connection !== connection) return;
+
+      devices.delete(info.id);
+      if (devices.size === 0) {
+        this.users.delete(userId);
+      }
+      this.broadcast(userId);
+    };
+  }
+
+  updateState(userId: string, deviceId: string, state: DeviceStateUpdate): ConnectDevice | null {
+    const registered = this.users.get(userId)?.get(deviceId);
+    if (!registered) return null;
+
+    registered.device = {
+      ...registered.device,
+      ...state,
+      updatedAt: new Date().toISOString(),
+    };
+    this.broadcast(userId);
+
+    return registered.device;
+  }
+
+  list(userId: string): ConnectDevice[] {
+    return [...(this.users.get(userId)?.values() ?? [])].map(({ device }) => device);
+  }
+
+  /**
+   * Returns false when the device isn't connected
+   */
+  sendCommand(userId: string, deviceId: string, command: ConnectCommand): boolean {
+    const registered = this.users.get(userId)?.get(deviceId);
+    if (!registered) return false;
+
+    registered.connection.send('command', command);
+    return true;
+  }
+
+  private broadcast(userId: string): void {
+    const devices = this.list(userId);
+    for (const { connection } of this.users.get(userId)?.values() ?? []) {
+      connection.send('devices', devices);
+    }
+  }
+}
+
+export const deviceRegistry = new DeviceRegistry();
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Track } from '@/types';
+import { AudioStorage } from '../audio-storage';
+
+describe('AudioStorage', () => {
+  let dir: string;
+  let storage: AudioStorage;
+  const track = { id: 'track-1', streamUrl: '/audio/track-1.wav' } as Track;
+
+  const writeFile = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, relativePath), content);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-'));
+    storage = new AudioStorage(dir);
+    writeFile('track-1.wav', 'master');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves the master file until the track has renditions', async () => {
+    expect(await storage.getAudioFile(track, 'high')).toEqual({
+      path: path.join(dir, 'track-1.wav'),
+      size: 6,
+      contentType: 'audio/wav',
+      quality: null,
+    });
+    expect(await storage.getAudioFile({ ...track, streamUrl: '/audio/../../secret.wav' }, 'high')).toBeNull();
+  });
+
+  it('serves the best rendition up to the quality asked for', async () => {
+    writeFile('renditions/track-1/low.mp3', 'low');
+    writeFile('renditions/track-1/high.m4a', 'high');
+    writeFile('renditions/track-1/manifest.json', JSON.stringify({
+      trackId: 'track-1',
+      source: 'track-1.wav',
+      generatedAt: '2025-01-01T00:00:00.000Z',
+      renditions: {
+        low: { file: 'low.mp3', bitrate: 96, format: 'mp3', size: 3 },
+        high: { file: 'high.m4a', bitrate: 320, format: 'aac', size: 4 },
+        lossless: { file: 'lossless.flac', bitrate: 1411, format: 'flac', size: 8 },
+      },
+    }));
+
+    expect(await storage.getAudioFile(track, 'lossless')).toMatchObject({ quality: 'high', contentType: 'audio/mp4' });
+    expect(await storage.getAudioFile(track, 'high')).toMatchObject({ quality: 'high', size: 4 });
+    expect(await storage.getAudioFile(track, 'medium')).toMatchObject({ quality: 'low', contentType: 'audio/mpeg' });
+  });
+});
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { UserBehavior } from '@/types';
+import { FileBehaviorRepository } from '../behavior-repository';
+import { UserProfileManager } from '@/lib/recommendations/user-profile-manager';
+
+describe('FileBehaviorRepository', () => {
+  let dir: string;
+  let repository: FileBehaviorRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'behavior-'));
+    repository = new FileBehaviorRepository(path.join(dir, 'behavior.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const behavior = (id: string, action: UserBehavior['action'], minute: number): UserBehavior => ({
+    id,
+    userId: 'user-1',
+    trackId: 'track-1',
+    action,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+    listenDuration: 60,
+    sessionId: 'session-1',
+    deviceType: 'desktop',
+    timeOfDay: 'afternoon',
+  });
+
+  it('ignores events it has already stored and keeps them in time order', async () => {
+    const first = await repository.recordBehaviors('user-1', [
+      behavior('b-2', 'skip', 2),
+      behavior('b-1', 'play', 1),
+    ]);
+    const retried = await repository.recordBehaviors('user-1', [
+      behavior('b-1', 'play', 1),
+      behavior('b-3', 'like', 3),
+    ]);
+
+    expect(first).toEqual({ accepted: 2, duplicates: 0 });
+    expect(retried).toEqual({ accepted: 1, duplicates: 1 });
+
+    const stored = await repository.listBehaviors('user-1');
+    expect(stored.map(entry => entry.id)).toEqual(['b-1', 'b-2', 'b-3']);
+    expect(stored[0]?.timestamp).toEqual(new Date(Date.UTC(2024, 0, 1, 12, 1)));
+    expect(await repository.listBehaviors('user-2')).toEqual([]);
+  });
+
+  it('persists rebuilt profiles with dates and a rising version', async () => {
+    await repository.recordBehaviors('user-1', [behavior('b-1', 'play', 1)]);
+    const manager = new UserProfileManager();
+
+    const built = await manager.buildUserProfileFromBehaviors('user-1', await repository.listBehaviors('user-1'));
+    const first = await repository.saveProfile(built);
+    const second = await repository.saveProfile(built);
+
+    expect(second.version).toBe(first.version + 1);
+
+    // A fresh repository instance reads the profile back from disk
+    const reloaded = await new FileBehaviorRepository(path.join(dir, 'behavior.json')).getProfile('user-1');
+    expect(reloaded?.version).toBe(second.version);
+    expect(reloaded?.favoriteArtists[0]?.lastPlayed).toEqual(new Date(Date.UTC(2024, 0, 1, 12, 1)));
+    expect(reloaded?.lastUpdated).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileHistoryRepository } from '../history-repository';
+
+describe('FileHistoryRepository', () => {
+  let dir: string;
+  let dbPath: string;
+  let repository: FileHistoryRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+    dbPath = path.join(dir, 'history.json');
+    repository = new FileHistoryRepository(dbPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const play = (trackId: string, minute: number) =>
+    repository.recordPlay('user-1', {
+      trackId,
+      playedAt: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+      duration: 45,
+    });
+
+  it('records known tracks once per play', async () => {
+    expect(await play('unknown-track', 0)).toBeNull();
+
+    const first = await play('track-1', 0);
+    const retried = await play('track-1', 0);
+
+    expect(retried?.id).toBe(first?.id);
+    expect((await repository.listRecentlyPlayed('user-1')).items).toHaveLength(1);
+    expect((await repository.listRecentlyPlayed('user-2')).items).toEqual([]);
+  });
+
+  it('collapses consecutive replays and never splits them across pages', async () => {
+    await play('track-1', 0);
+    await play('track-3', 1);
+    await play('track-3', 2);
+    await play('track-3', 3);
+    await play('track-1', 4);
+    await play('track-5', 5);
+
+    const firstPage = await repository.listRecentlyPlayed('user-1', { limit: 2 });
+    expect(firstPage.items.map(item => [item.trackId, item.playCount])).toEqual([
+      ['track-5', 1],
+      ['track-1', 1],
+    ]);
+    expect(firstPage.items[0]?.track.title).toBe('bad guy');
+    expect(firstPage.nextCursor).not.toBeNull();
+
+    const secondPage = await repository.listRecentlyPlayed('user-1', {
+      limit: 1,
+      before: new Date(firstPage.nextCursor!),
+    });
+    expect(secondPage.items.map(item => [item.trackId, item.playCount])).toEqual([['track-3', 3]]);
+    expect(secondPage.items[0]?.playedAt).toEqual(new Date(Date.UTC(2024, 0, 1, 12, 3)));
+
+    const lastPage = await repository.listRecentlyPlayed('user-1', {
+      limit: 1,
+      before: new Date(secondPage.nextCursor!),
+    });
+    expect(lastPage.items.map(item => item.trackId)).toEqual(['track-1']);
+    expect(lastPage.nextCursor).toBeNull();
+  });
+
+  it('clears only the requesting user', async () => {
+    await play('track-1', 0);
+    await repository.recordPlay('user-2', { trackId: 'track-2', playedAt: new Date(), duration: 30 });
+
+    expect(await repository.clearHistory('user-1')).toBe(1);
+    expect((await repository.listRecentlyPlayed('user-1')).items).toEqual([]);
+    expect((await repository.listRecentlyPlayed('user-2')).items).toHaveLength(1);
+  });
+
+  it('counts other listeners who played a track alongside the seeds', async () => {
+    const listen = (userId: string, trackId: string) =>
+      repository.recordPlay(userId, { trackId, playedAt: new Date(), duration: 30 });
+
+    await listen('user-1', 'track-1');
+    await listen('user-1', 'track-4');
+    await listen('user-2', 'track-1');
+    await listen('user-2', 'track-4');
+    await listen('user-2', 'track-5');
+    await listen('user-3', 'track-5');
+
+    const counts = await repository.countCoListeners(['track-1'], 'user-1');
+    expect(Object.fromEntries(counts)).toEqual({ 'track-4': 1, 'track-5': 1 });
+    expect(Object.fromEntries(await repository.countCoListeners(['track-1'])))
+      .toEqual({ 'track-4': 2, 'track-5': 1 });
+  });
+});
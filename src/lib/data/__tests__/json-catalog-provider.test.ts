@@ -0,0 +1,70 @@
+import { CatalogIndex } from '../json-catalog-provider';
+import type { CatalogSnapshot } from '../catalog-provider';
+
+const snapshot: CatalogSnapshot = {
+  artists: [
+    { id: 'artist-a', name: 'Artist A', genres: ['Pop'], followers: 10, isVerified: true, popularity: 80 },
+    { id: 'artist-b', name: 'Artist B', genres: ['Rock'], followers: 5, isVerified: false, popularity: 60 },
+  ],
+  albums: [
+    { id: 'album-a', title: 'Album A', artist: 'artist-a', releaseDate: '2020-01-01T00:00:00.000Z', totalTracks: 2, genres: ['Pop'], type: 'album' },
+    { id: 'album-b', title: 'Album B', artist: 'artist-b', releaseDate: '2021-01-01T00:00:00.000Z', totalTracks: 1, genres: ['Rock'], type: 'single' },
+    { id: 'album-orphan', title: 'Orphan', artist: 'missing', releaseDate: '2021-01-01T00:00:00.000Z', totalTracks: 1, genres: [], type: 'album' },
+  ],
+  tracks: [
+    { id: 't2', title: 'Second', artist: 'artist-a', album: 'album-a', duration: 100, isExplicit: false, popularity: 50, trackNumber: 2, genres: ['Pop'], releaseDate: '2020-01-01T00:00:00.000Z' },
+    { id: 't1', title: 'First', artist: 'artist-a', album: 'album-a', duration: 120, isExplicit: false, popularity: 70, trackNumber: 1, genres: ['Pop', 'Dance'], releaseDate: '2020-01-01T00:00:00.000Z' },
+    { id: 't3', title: 'Third', artist: 'artist-b', album: 'album-b', duration: 90, isExplicit: true, popularity: 40, trackNumber: 1, genres: ['Rock'], releaseDate: '2021-01-01T00:00:00.000Z' },
+    { id: 't4', title: 'Orphan', artist: 'artist-b', album: 'album-missing', duration: 90, isExplicit: false, popularity: 10, genres: ['Rock'], releaseDate: '2021-01-01T00:00:00.000Z' },
+  ],
+};
+
+describe('CatalogIndex', () => {
+  let catalog: CatalogIndex;
+
+  beforeEach(() => {
+    catalog = new CatalogIndex(snapshot);
+  });
+
+  it('joins tracks with their artist and album', async () => {
+    const track = await catalog.getTrack('t3');
+
+    expect(track?.artist.name).toBe('Artist B');
+    expect(track?.album.title).toBe('Album B');
+    expect(track?.album.type).toBe('single');
+    expect(track?.releaseDate).toBeInstanceOf(Date);
+  });
+
+  it('joins records with missing references to placeholders', async () => {
+    const album = await catalog.getAlbum('album-orphan');
+    const track = await catalog.getTrack('t4');
+
+    expect(album?.artist.name).toBe('Unknown Artist');
+    expect(track?.album.title).toBe('Unknown Album');
+    expect(track?.artist.name).toBe('Artist B');
+    expect(await catalog.getAllTracks()).toHaveLength(4);
+  });
+
+  it('returns album tracks in track-number order', async () => {
+    const tracks = await catalog.getTracksByAlbum('album-a');
+    expect(tracks.map(t => t.id)).toEqual(['t1', 't2']);
+  });
+
+  it('looks up tracks by any genre without duplicates in catalog order', async () => {
+    const tracks = await catalog.getTracksByGenres(['Dance', 'Pop', 'Rock']);
+    expect(tracks.map(t => t.id)).toEqual(['t2', 't1', 't3', 't4']);
+  });
+
+  it('preserves the requested order for batch lookups and ignores unknown ids', async () => {
+    const tracks = await catalog.getTracks(['t3', 'unknown', 't1']);
+    expect(tracks.map(t => t.id)).toEqual(['t3', 't1']);
+  });
+
+  it('returns copies so callers cannot reorder the index', async () => {
+    const tracks = await catalog.getTracksByArtist('artist-a');
+    tracks.reverse();
+
+    expect((await catalog.getTracksByArtist('artist-a')).map(t => t.id)).toEqual(['t2', 't1']);
+    expect((await catalog.getAlbumsByArtist('artist-a')).map(a => a.id)).toEqual(['album-a']);
+  });
+});
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLibraryRepository } from '../library-repository';
+import { FilePlaylistRepository } from '../playlist-repository';
+
+describe('FileLibraryRepository', () => {
+  let dir: string;
+  let dbPath: string;
+  let playlists: FilePlaylistRepository;
+  let repository: FileLibraryRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'library-'));
+    dbPath = path.join(dir, 'library.json');
+    playlists = new FilePlaylistRepository(path.join(dir, 'playlists.json'));
+    repository = new FileLibraryRepository(dbPath, playlists);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('likes known catalog tracks once and reports membership in request order', async () => {
+    const added = await repository.likeTracks('user-1', ['track-1', 'unknown-track', 'track-1']);
+    const addedAgain = await repository.likeTracks('user-1', ['track-1', 'track-2']);
+
+    expect(added).toEqual(['track-1']);
+    expect(addedAgain).toEqual(['track-2']);
+    expect(await repository.containsLikedTracks('user-1', ['track-2', 'track-3', 'track-1']))
+      .toEqual([true, false, true]);
+    expect(await repository.containsLikedTracks('user-2', ['track-1'])).toEqual([false]);
+
+    expect(await repository.unlikeTracks('user-1', ['track-1', 'track-3'])).toEqual(['track-1']);
+    expect(await repository.containsLikedTracks('user-1', ['track-1'])).toEqual([false]);
+  });
+
+  it('sorts, filters and pages liked tracks server-side', async () => {
+    fs.writeFileSync(dbPath, JSON.stringify({
+      likedTracks: [
+        { userId: 'user-1', trackId: 'track-1', likedAt: '2024-01-01T00:00:00.000Z' },
+        { userId: 'user-1', trackId: 'track-3', likedAt: '2024-03-01T00:00:00.000Z' },
+        { userId: 'user-1', trackId: 'track-4', likedAt: '2024-02-01T00:00:00.000Z' },
+        { userId: 'user-2', trackId: 'track-5', likedAt: '2024-04-01T00:00:00.000Z' },
+      ],
+    }));
+
+    const newest = await repository.listLikedTracks('user-1', { limit: 2 });
+    expect(newest.tracks.map(t => t.id)).toEqual(['track-3', 'track-4']);
+    expect(newest.tracks[0]?.likedAt).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+    expect(newest.pagination).toEqual({ limit: 2, offset: 0, total: 3, hasMore: true });
+
+    const byTitle = await repository.listLikedTracks('user-1', { sortBy: 'title', sortOrder: 'asc', offset: 1 });
+    expect(byTitle.tracks.map(t => t.title)).toEqual(['Blinding Lights', 'Save Your Tears']);
+
+    const filtered = await repository.listLikedTracks('user-1', {
+      query: 'weeknd',
+      likedBefore: new Date('2024-02-15T00:00:00.000Z'),
+    });
+    expect(filtered.tracks.map(t => t.id)).toEqual(['track-4']);
+  });
+
+  it('counts each follower once and hides playlists that become private', async () => {
+    const playlist = await playlists.create('owner', { name: 'Shared', isPublic: true, collaborative: false });
+
+    expect(await repository.followPlaylist('user-1', playlist.id)).toBe(true);
+    expect(await repository.followPlaylist('user-1', playlist.id)).toBe(false);
+    await repository.followPlaylist('user-2', playlist.id);
+    expect((await playlists.findById(playlist.id))?.followers).toBe(2);
+
+    await repository.unfollowPlaylist('user-2', playlist.id);
+    expect((await playlists.findById(playlist.id))?.followers).toBe(1);
+    expect((await repository.listFollowedPlaylists('user-1')).map(p => p.id)).toEqual([playlist.id]);
+
+    await playlists.update(playlist.id, { isPublic: false });
+    expect(await repository.listFollowedPlaylists('user-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLyricsRepository } from '../lyrics-repository';
+
+describe('FileLyricsRepository', () => {
+  let dir: string;
+  let repository: FileLyricsRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lyrics-'));
+    repository = new FileLyricsRepository(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prefers time-coded lyrics over plain text', async () => {
+    fs.writeFileSync(path.join(dir, 'track-1.lrc'), '[00:01.00]Synced');
+    fs.writeFileSync(path.join(dir, 'track-1.txt'), 'Plain');
+
+    expect(await repository.getLyrics('track-1')).toEqual({
+      trackId: 'track-1',
+      lines: [{ time: 1, text: 'Synced' }],
+      text: 'Synced',
+    });
+  });
+
+  it('serves plain text lyrics unsynced', async () => {
+    fs.writeFileSync(path.join(dir, 'track-2.txt'), 'Plain\nwords\n');
+
+    expect(await repository.getLyrics('track-2')).toEqual({
+      trackId: 'track-2',
+      lines: [],
+      text: 'Plain\nwords',
+    });
+  });
+
+  it('has no lyrics for missing or empty files and unsafe ids', async () => {
+    fs.writeFileSync(path.join(dir, 'track-3.lrc'), '[ar:Artist]\n');
+
+    expect(await repository.getLyrics('track-3')).toBeNull();
+    expect(await repository.getLyrics('track-4')).toBeNull();
+    expect(await repository.getLyrics('../track-1')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilePlayerSessionRepository, type PlayerSessionUpdate } from '../player-session-repository';
+
+describe('FilePlayerSessionRepository', () => {
+  let dir: string;
+  let repository: FilePlayerSessionRepository;
+
+  const session: PlayerSessionUpdate = {
+    queue: ['track-1', 'track-2', 'track-3'],
+    upNext: ['track-5'],
+    currentTrackId: 'track-2',
+    currentIndex: 1,
+    isPlayingUpNext: false,
+    position: 83.4,
+    playbackContext: { type: 'album', id: 'album-1', name: 'Midnights' },
+    shuffleMode: true,
+    shuffleOrder: [1, 0, 2],
+    shuffleSeed: 42,
+    repeatMode: 'context',
+    playHistory: [],
+    autoplayStartIndex: null,
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'player-sessions-'));
+    repository = new FilePlayerSessionRepository(path.join(dir, 'player-sessions.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('has no session for users who never played anything', async () => {
+    expect(await repository.getSession('user-1')).toBeNull();
+  });
+
+  it('keeps the latest session per user', async () => {
+    await repository.saveSession('user-1', session);
+    const saved = await repository.saveSession('user-1', { ...session, position: 120 });
+
+    expect(saved).toEqual({ ...session, position: 120, updatedAt: expect.any(String) });
+    expect(await repository.getSession('user-1')).toEqual(saved);
+    expect(await repository.getSession('user-2')).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FilePlaylistRepository,
+  canEditPlaylistTracks,
+  canManagePlaylist,
+  canViewPlaylist,
+} from '../playlist-repository';
+
+jest.mock('@/lib/auth/database', () => ({
+  authDB: {
+    getUserById: jest.fn().mockImplementation(async (id: string) => ({
+      id,
+      email: `${id}@example.com`,
+      username: id,
+      displayName: id,
+      isPremium: false,
+      subscriptionTier: 'free',
+      subscriptionStatus: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })),
+  },
+}));
+
+describe('FilePlaylistRepository', () => {
+  let dir: string;
+  let repository: FilePlaylistRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'playlists-'));
+    repository = new FilePlaylistRepository(path.join(dir, 'playlists.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists created playlists across repository instances', async () => {
+    const created = await repository.create('user-1', {
+      name: '  Road Trip  ',
+      isPublic: true,
+      collaborative: false,
+    });
+
+    const reopened = new FilePlaylistRepository(path.join(dir, 'playlists.json'));
+    const found = await reopened.findById(created.id);
+
+    expect(found?.name).toBe('Road Trip');
+    expect(found?.owner.id).toBe('user-1');
+    expect(await reopened.listByOwner('user-1')).toHaveLength(1);
+    expect(await reopened.listByOwner('user-2')).toHaveLength(0);
+  });
+
+  it('adds, reorders and removes tracks', async () => {
+    const playlist = await repository.create('user-1', {
+      name: 'Mix',
+      isPublic: false,
+      collaborative: false,
+    });
+
+    let updated = await repository.addTracks(playlist.id, ['track-1', 'track-2', 'track-3', 'missing'], 'user-1');
+    expect(updated?.tracks.map(t => t.track.id)).toEqual(['track-1', 'track-2', 'track-3']);
+    expect(updated?.trackCount).toBe(3);
+    expect(updated?.totalDuration).toBeGreaterThan(0);
+
+    updated = await repository.reorderTracks(playlist.id, updated!.tracks[0]!.id, 2);
+    expect(updated?.tracks.map(t => t.track.id)).toEqual(['track-2', 'track-3', 'track-1']);
+    expect(updated?.tracks.map(t => t.position)).toEqual([0, 1, 2]);
+
+    updated = await repository.removeTracks(playlist.id, ['track-3']);
+    expect(updated?.tracks.map(t => t.track.id)).toEqual(['track-2', 'track-1']);
+  });
+
+  it('reorders by position in the hydrated playlist when a track has left the catalog', async () => {
+    const dbPath = path.join(dir, 'playlists.json');
+    const playlist = await repository.create('user-1', {
+      name: 'Mix',
+      isPublic: false,
+      collaborative: false,
+      trackIds: ['track-1', 'track-2', 'track-3'],
+    });
+
+    // An entry whose track was removed from the catalog after it was added
+    const db = JSON.parse(fs.readFileSync(dbPath, 'utf8'));
+    db.playlists[0].tracks.unshift({
+      id: 'entry-removed',
+      trackId: 'removed-track',
+      addedAt: new Date().toISOString(),
+      addedById: 'user-1',
+    });
+    fs.writeFileSync(dbPath, JSON.stringify(db));
+
+    const updated = await repository.reorderTracks(playlist.id, playlist.tracks[2]!.id, 0);
+    expect(updated?.tracks.map(t => t.track.id)).toEqual(['track-3', 'track-1', 'track-2']);
+
+    await expect(repository.reorderTracks(playlist.id, 'entry-removed', 0)).rejects.toThrow(RangeError);
+    await expect(repository.reorderTracks(playlist.id, playlist.tracks[0]!.id, 3)).rejects.toThrow(RangeError);
+  });
+
+  it('releases playlists from a folder when the folder is deleted', async () => {
+    const folder = await repository.createFolder('user-1', 'Workouts');
+    const playlist = await repository.create('user-1', {
+      name: 'Cardio',
+      isPublic: false,
+      collaborative: false,
+      folderId: folder.id,
+    });
+
+    expect((await repository.findFolder(folder.id))?.playlists.map(p => p.id)).toEqual([playlist.id]);
+
+    await repository.deleteFolder(folder.id);
+
+    expect(await repository.findFolder(folder.id)).toBeNull();
+    expect((await repository.findById(playlist.id))?.folderId).toBeUndefined();
+  });
+
+  it('returns null when mutating a missing playlist', async () => {
+    expect(await repository.update('missing', { name: 'Nope' })).toBeNull();
+    expect(await repository.delete('missing')).toBe(false);
+  });
+});
+
+describe('playlist permissions', () => {
+  it('limits management to the owner and opens track edits on collaborative playlists', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'playlists-'));
+    const repository = new FilePlaylistRepository(path.join(dir, 'playlists.json'));
+
+    const privatePlaylist = await repository.create('owner', {
+      name: 'Private',
+      isPublic: false,
+      collaborative: false,
+    });
+    const sharedPlaylist = await repository.create('owner', {
+      name: 'Shared',
+      isPublic: false,
+      collaborative: true,
+    });
+
+    expect(canManagePlaylist(privatePlaylist, 'owner')).toBe(true);
+    expect(canManagePlaylist(sharedPlaylist, 'guest')).toBe(false);
+    expect(canEditPlaylistTracks(privatePlaylist, 'guest')).toBe(false);
+    expect(canEditPlaylistTracks(sharedPlaylist, 'guest')).toBe(true);
+    expect(canViewPlaylist(privatePlaylist)).toBe(false);
+    expect(canViewPlaylist(privatePlaylist, 'owner')).toBe(true);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
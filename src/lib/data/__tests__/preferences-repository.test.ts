@@ -0,0 +1,31 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_USER_PREFERENCES, FilePreferencesRepository } from '../preferences-repository';
+
+describe('FilePreferencesRepository', () => {
+  let dir: string;
+  let repository: FilePreferencesRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preferences-'));
+    repository = new FilePreferencesRepository(path.join(dir, 'preferences.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the defaults for users who changed nothing', async () => {
+    expect(await repository.getPreferences('user-1')).toEqual(DEFAULT_USER_PREFERENCES);
+  });
+
+  it('merges updates per user and keeps earlier changes', async () => {
+    await repository.updatePreferences('user-1', { autoplay: false });
+    const updated = await repository.updatePreferences('user-1', { crossfade: true, volumeNormalization: undefined });
+
+    expect(updated).toEqual({ ...DEFAULT_USER_PREFERENCES, autoplay: false, crossfade: true });
+    expect(await repository.getPreferences('user-1')).toEqual(updated);
+    expect((await repository.getPreferences('user-2')).autoplay).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { SqlCatalogProvider, type SqlClient } from '../sql-catalog-provider';
+
+type Row = Record<string, unknown>;
+
+// The same catalog as json-catalog-provider.test.ts, as table rows
+const tables: Record<string, Row[]> = {
+  artists: [
+    { id: 'artist-a', name: 'Artist A', bio: null, image_url: null, followers: 10, is_verified: 1, popularity: 80 },
+    { id: 'artist-b', name: 'Artist B', bio: null, image_url: null, followers: 5, is_verified: 0, popularity: 60 },
+  ],
+  albums: [
+    { id: 'album-a', title: 'Album A', artist_id: 'artist-a', release_date: '2020-01-01T00:00:00.000Z', total_tracks: 2, image_url: null, type: 'album' },
+    { id: 'album-b', title: 'Album B', artist_id: 'artist-b', release_date: '2021-01-01T00:00:00.000Z', total_tracks: 1, image_url: null, type: 'single' },
+    { id: 'album-orphan', title: 'Orphan', artist_id: 'missing', release_date: '2021-01-01T00:00:00.000Z', total_tracks: 1, image_url: null, type: 'album' },
+  ],
+  tracks: [
+    track({ id: 't2', title: 'Second', artist_id: 'artist-a', album_id: 'album-a', track_number: 2, position: 0 }),
+    track({ id: 't1', title: 'First', artist_id: 'artist-a', album_id: 'album-a', track_number: 1, position: 1 }),
+    track({ id: 't3', title: 'Third', artist_id: 'artist-b', album_id: 'album-b', track_number: 1, position: 2 }),
+    track({ id: 't4', title: 'Orphan', artist_id: 'artist-b', album_id: 'album-missing', track_number: null, position: 3 }),
+  ],
+  artist_genres: [
+    { artist_id: 'artist-a', genre: 'Pop' },
+    { artist_id: 'artist-b', genre: 'Rock' },
+  ],
+  album_genres: [
+    { album_id: 'album-a', genre: 'Pop' },
+    { album_id: 'album-b', genre: 'Rock' },
+  ],
+  track_genres: [
+    { track_id: 't2', genre: 'Pop' },
+    { track_id: 't1', genre: 'Pop' },
+    { track_id: 't1', genre: 'Dance' },
+    { track_id: 't3', genre: 'Rock' },
+    { track_id: 't4', genre: 'Rock' },
+  ],
+};
+
+function track(row: Row): Row {
+  return {
+    duration: 100,
+    preview_url: null,
+    stream_url: null,
+    is_explicit: 0,
+    popularity: 50,
+    release_date: '2020-01-01T00:00:00.000Z',
+    image_url: null,
+    track_gain: null,
+    track_peak: null,
+    album_gain: null,
+    album_peak: null,
+    ...row,
+  };
+}
+
+/**
+ * Answers the handful of query shapes SqlCatalogProvider issues from the
+ * in-memory tables above
+ */
+function createFakeClient(): SqlClient {
+  return {
+    async query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+      const statement = sql.replace(/\s+/g, ' ');
+      const table = /FROM (\w+)/.exec(statement)![1]!;
+      let rows = [...tables[table]!];
+
+      if (statement.includes('IN ( SELECT track_id FROM track_genres')) {
+        const ids = new Set(tables.track_genres!.filter(row => params.includes(row.genre)).map(row => row.track_id));
+        rows = rows.filter(row => ids.has(row.id));
+      } else {
+        const inFilter = /WHERE (\w+) IN/.exec(statement);
+        const equalsFilter = /WHERE (\w+) = \?/.exec(statement);
+        if (inFilter) rows = rows.filter(row => params.includes(row[inFilter[1]!]));
+        if (equalsFilter) rows = rows.filter(row => row[equalsFilter[1]!] === params[0]);
+      }
+
+      const order = /ORDER BY (\w+)( DESC)?/.exec(statement);
+      if (order) {
+        const column = order[1]!;
+        const direction = order[2] ? -1 : 1;
+        rows.sort((a, b) => (String(a[column]) < String(b[column]) ? -direction : String(a[column]) > String(b[column]) ? direction : 0));
+      }
+
+      const alias = /SELECT (\w+) AS owner_id/.exec(statement);
+      if (alias) rows = rows.map(row => ({ owner_id: row[alias[1]!], genre: row.genre }));
+
+      return rows as T[];
+    },
+  };
+}
+
+describe('SqlCatalogProvider', () => {
+  let catalog: SqlCatalogProvider;
+
+  beforeEach(() => {
+    catalog = new SqlCatalogProvider(createFakeClient());
+  });
+
+  it('joins tracks with their artist and album', async () => {
+    const result = await catalog.getTrack('t3');
+
+    expect(result?.artist.name).toBe('Artist B');
+    expect(result?.album.title).toBe('Album B');
+    expect(result?.album.type).toBe('single');
+    expect(result?.isExplicit).toBe(false);
+    expect(result?.releaseDate).toBeInstanceOf(Date);
+  });
+
+  it('joins records with missing references to placeholders', async () => {
+    const album = await catalog.getAlbum('album-orphan');
+    const result = await catalog.getTrack('t4');
+
+    expect(album?.artist.name).toBe('Unknown Artist');
+    expect(result?.album.title).toBe('Unknown Album');
+    expect(result?.artist.name).toBe('Artist B');
+    expect(await catalog.getAllTracks()).toHaveLength(4);
+  });
+
+  it('returns album tracks in track-number order', async () => {
+    const tracks = await catalog.getTracksByAlbum('album-a');
+    expect(tracks.map(t => t.id)).toEqual(['t1', 't2']);
+  });
+
+  it('looks up tracks by any genre without duplicates in catalog order', async () => {
+    const tracks = await catalog.getTracksByGenres(['Dance', 'Pop', 'Rock']);
+    expect(tracks.map(t => t.id)).toEqual(['t2', 't1', 't3', 't4']);
+    expect(tracks[1]?.genres).toEqual(['Pop', 'Dance']);
+  });
+
+  it('preserves the requested order for batch lookups and ignores unknown ids', async () => {
+    const tracks = await catalog.getTracks(['t3', 'unknown', 't1']);
+    expect(tracks.map(t => t.id)).toEqual(['t3', 't1']);
+  });
+
+  it('looks up tracks and albums by artist', async () => {
+    expect((await catalog.getTracksByArtist('artist-a')).map(t => t.id)).toEqual(['t2', 't1']);
+    expect((await catalog.getAlbumsByArtist('artist-a')).map(a => a.id)).toEqual(['album-a']);
+  });
+});
@@ -0,0 +1,36 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStreamUsageRepository } from '../stream-usage-repository';
+
+describe('FileStreamUsageRepository', () => {
+  let dir: string;
+  let repository: FileStreamUsageRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-usage-'));
+    repository = new FileStreamUsageRepository(path.join(dir, 'stream-usage.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('totals bytes per listener, month and quality', async () => {
+    await repository.recordStream('user-1', { trackId: 'track-1', quality: 'low', bytes: 1000, servedAt: new Date('2025-03-01T10:00:00Z') });
+    await repository.recordStream('user-1', { trackId: 'track-2', quality: 'high', bytes: 4000, servedAt: new Date('2025-03-31T23:00:00Z') });
+    await repository.recordStream('user-1', { trackId: 'track-1', quality: 'low', bytes: 500, servedAt: new Date('2025-03-15T10:00:00Z') });
+    await repository.recordStream('user-1', { trackId: 'track-1', quality: 'low', bytes: 700, servedAt: new Date('2025-04-01T00:00:00Z') });
+    await repository.recordStream('user-2', { trackId: 'track-1', quality: 'low', bytes: 300, servedAt: new Date('2025-03-02T00:00:00Z') });
+
+    expect(await repository.getUsage('user-1', '2025-03')).toEqual({
+      month: '2025-03',
+      totalBytes: 5500,
+      bytesByQuality: { low: 1500, high: 4000 },
+      streams: 3,
+    });
+    expect((await repository.getUsage('user-1', '2025-04'))?.totalBytes).toBe(700);
+    expect((await repository.getUsage('user-2', '2025-03'))?.totalBytes).toBe(300);
+    expect(await repository.getUsage('user-3', '2025-03')).toBeNull();
+  });
+});
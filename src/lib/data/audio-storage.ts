@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import type { Track } from '@/types';
+import type { AudioQuality } from '@/lib/subscription/audio-quality-manager';
+
+// Audio lives outside public/ so it can only be reached through the signed
+// streaming route
+const DEFAULT_AUDIO_DIR = path.join(process.cwd(), 'media', 'audio');
+
+// Track ids become directory names, so nothing that could leave the directory
+const TRACK_ID_PATTERN = /^[\w-]+$/;
+
+const QUALITY_ORDER: AudioQuality[] = ['low', 'medium', 'high', 'lossless'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+};
+
+export interface AudioFile {
+  path: string;
+  size: number;
+  contentType: string;
+  // The rendition served, or null for the track's master file
+  quality: AudioQuality | null;
+}
+
+export interface Rendition {
+  file: string;
+  bitrate: number; // kbps
+  format: string;
+  size: number | null;
+}
+
+/**
+ * Written next to a track's renditions by scripts/transcode-audio.js
+ */
+export interface RenditionManifest {
+  trackId: string;
+  source: string;
+  generatedAt: string;
+  renditions: Partial<Record<AudioQuality, Rendition>>;
+}
+
+/**
+ * Finds the file that holds a track's audio. The catalog's stream URL
+ * names the master file, e.g. "/audio/track-1.wav"; transcoded renditions
+ * live in renditions/<trackId>/ with a manifest.json.
+ */
+export class AudioStorage {
+  constructor(private readonly audioDir: string = DEFAULT_AUDIO_DIR) {}
+
+  async getManifest(trackId: string): Promise<RenditionManifest | null> {
+    if (!TRACK_ID_PATTERN.test(trackId)) return null;
+
+    try {
+      const content = await fs.promises.readFile(path.join(this.audioDir, 'renditions', trackId, 'manifest.json'), 'utf8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The file to serve for `track` at `quality`, or null when there's none:
+   * that quality's rendition, else the best one below it, else the master
+   * file for tracks that haven't been transcoded
+   */
+  async getAudioFile(track: Track, quality: AudioQuality): Promise<AudioFile | null> {
+    const manifest = await this.getManifest(track.id);
+    const candidates = QUALITY_ORDER.slice(0, QUALITY_ORDER.indexOf(quality) + 1).reverse();
+
+    for (const candidate of candidates) {
+      const rendition = manifest?.renditions[candidate];
+      if (!rendition) continue;
+
+      const file = await this.statAudioFile(path.join(this.audioDir, 'renditions', track.id, path.basename(rendition.file)));
+      if (file) return { ...file, quality: candidate };
+    }
+
+    if (!track.streamUrl) return null;
+
+    // Only the file name counts, so a stream URL can't point outside the directory
+    const fileName = path.basename(track.streamUrl.split('?')[0] ?? '');
+    const file = await this.statAudioFile(path.join(this.audioDir, fileName));
+    return file && { ...file, quality: null };
+  }
+
+  private async statAudioFile(filePath: string): Promise<Omit<AudioFile, 'quality'> | null> {
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (!stats.isFile()) return null;
+
+      return {
+        path: filePath,
+        size: stats.size,
+        contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const audioStorage = new AudioStorage();
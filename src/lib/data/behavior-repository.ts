@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import type { UserBehavior, UserProfile } from '@/types';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'behavior.json');
+
+// Matches the window UserProfileManager keeps in memory
+const MAX_BEHAVIORS_PER_USER = 1000;
+
+type StoredBehavior = Omit<UserBehavior, 'timestamp'> & { timestamp: string };
+
+interface Database {
+  behaviors: StoredBehavior[];
+  profiles: Record<string, UserProfile>;
+}
+
+export interface RecordBehaviorsResult {
+  accepted: number;
+  duplicates: number;
+}
+
+/**
+ * Storage contract for listening-behavior events and the taste profiles
+ * rebuilt from them on the server.
+ */
+export interface BehaviorRepository {
+  recordBehaviors(userId: string, behaviors: UserBehavior[]): Promise<RecordBehaviorsResult>;
+  listBehaviors(userId: string): Promise<UserBehavior[]>;
+  getProfile(userId: string): Promise<UserProfile | null>;
+  saveProfile(profile: UserProfile): Promise<UserProfile>;
+}
+
+function toUserBehavior(stored: StoredBehavior): UserBehavior {
+  return { ...stored, timestamp: new Date(stored.timestamp) };
+}
+
+// JSON round-trips turn the profile's dates into strings
+function reviveProfile(profile: UserProfile): UserProfile {
+  return {
+    ...profile,
+    favoriteGenres: profile.favoriteGenres.map(genre => ({
+      ...genre,
+      recentActivity: new Date(genre.recentActivity),
+    })),
+    favoriteArtists: profile.favoriteArtists.map(artist => ({
+      ...artist,
+      lastPlayed: new Date(artist.lastPlayed),
+    })),
+    lastUpdated: new Date(profile.lastUpdated),
+  };
+}
+
+/**
+ * JSON file implementation of BehaviorRepository. Events are kept oldest
+ * first and capped per user; event ids make retried batches idempotent.
+ */
+export class FileBehaviorRepository implements BehaviorRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { behaviors: [], profiles: {} };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return {
+        behaviors: data.behaviors || [],
+        profiles: data.profiles || {},
+      };
+    } catch (error) {
+      console.error('Error reading behavior database:', error);
+      return { behaviors: [], profiles: {} };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing behavior database:', error);
+      throw new Error('Failed to save behavior data');
+    }
+  }
+
+  async recordBehaviors(userId: string, behaviors: UserBehavior[]): Promise<RecordBehaviorsResult> {
+    const db = this.readDB();
+    const userBehaviors = db.behaviors.filter(entry => entry.userId === userId);
+    const seen = new Set(userBehaviors.map(entry => entry.id));
+
+    const added: StoredBehavior[] = [];
+    for (const behavior of behaviors) {
+      if (seen.has(behavior.id)) continue;
+      seen.add(behavior.id);
+      added.push({ ...behavior, userId, timestamp: behavior.timestamp.toISOString() });
+    }
+
+    if (added.length > 0) {
+      const kept = userBehaviors
+        .concat(added)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .slice(-MAX_BEHAVIORS_PER_USER);
+
+      this.writeDB({
+        ...db,
+        behaviors: db.behaviors.filter(entry => entry.userId !== userId).concat(kept),
+      });
+    }
+
+    return { accepted: added.length, duplicates: behaviors.length - added.length };
+  }
+
+  async listBehaviors(userId: string): Promise<UserBehavior[]> {
+    return this.readDB().behaviors
+      .filter(entry => entry.userId === userId)
+      .map(toUserBehavior);
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const profile = this.readDB().profiles[userId];
+    return profile ? reviveProfile(profile) : null;
+  }
+
+  async saveProfile(profile: UserProfile): Promise<UserProfile> {
+    const db = this.readDB();
+    const previous = db.profiles[profile.userId];
+
+    // Bump past the stored version so caches keyed on it are invalidated
+    const saved: UserProfile = {
+      ...profile,
+      version: Math.max(profile.version, (previous?.version ?? 0) + 1),
+    };
+
+    db.profiles[profile.userId] = saved;
+    this.writeDB(db);
+
+    return saved;
+  }
+}
+
+export const behaviorRepository: BehaviorRepository = new FileBehaviorRepository();
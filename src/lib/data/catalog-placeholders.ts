@@ -0,0 +1,27 @@
+import type { Artist, Album } from '@/types';
+
+// Placeholders for records that reference an artist or album missing from
+// the catalog, shared so every CatalogProvider joins them the same way
+
+export function unknownArtist(id: string): Artist {
+  return {
+    id,
+    name: 'Unknown Artist',
+    genres: [],
+    followers: 0,
+    isVerified: false,
+    popularity: 0,
+  };
+}
+
+export function unknownAlbum(id: string, artist: Artist): Album {
+  return {
+    id,
+    title: 'Unknown Album',
+    artist,
+    releaseDate: new Date(0),
+    totalTracks: 1,
+    genres: [],
+    type: 'album',
+  };
+}
@@ -0,0 +1,95 @@
+import type { Track, Artist, Album, ReplayGain } from '@/types';
+import { JsonCatalogProvider } from './json-catalog-provider';
+
+/**
+ * Read access to the music catalog (tracks, artists and albums).
+ * Every catalog lookup in the app goes through this interface so the
+ * backing store can be swapped without touching routes or services.
+ */
+export interface CatalogProvider {
+  readonly name: string;
+
+  // Tracks
+  getTrack(id: string): Promise<Track | null>;
+  getTracks(ids: string[]): Promise<Track[]>;
+  getAllTracks(): Promise<Track[]>;
+  getTracksByArtist(artistId: string): Promise<Track[]>;
+  getTracksByAlbum(albumId: string): Promise<Track[]>;
+  getTracksByGenres(genres: string[]): Promise<Track[]>;
+
+  // Artists
+  getArtist(id: string): Promise<Artist | null>;
+  getArtists(ids: string[]): Promise<Artist[]>;
+  getAllArtists(): Promise<Artist[]>;
+
+  // Albums
+  getAlbum(id: string): Promise<Album | null>;
+  getAlbums(ids: string[]): Promise<Album[]>;
+  getAllAlbums(): Promise<Album[]>;
+  getAlbumsByArtist(artistId: string): Promise<Album[]>;
+}
+
+// Stored catalog records reference related entities by id
+export interface ArtistRecord {
+  id: string;
+  name: string;
+  bio?: string;
+  imageUrl?: string;
+  genres: string[];
+  followers: number;
+  isVerified: boolean;
+  popularity: number;
+}
+
+export interface AlbumRecord {
+  id: string;
+  title: string;
+  artist: string;
+  releaseDate: string;
+  totalTracks: number;
+  imageUrl?: string;
+  genres: string[];
+  type: string;
+}
+
+export interface TrackRecord {
+  id: string;
+  title: string;
+  artist: string;
+  album: string;
+  duration: number;
+  previewUrl?: string;
+  streamUrl?: string;
+  isExplicit: boolean;
+  popularity: number;
+  trackNumber?: number;
+  genres: string[];
+  releaseDate: string;
+  imageUrl?: string;
+  replayGain?: ReplayGain;
+}
+
+export interface CatalogSnapshot {
+  artists: ArtistRecord[];
+  albums: AlbumRecord[];
+  tracks: TrackRecord[];
+}
+
+let activeProvider: CatalogProvider | null = null;
+
+/**
+ * Get the active catalog provider, defaulting to the bundled JSON catalog.
+ */
+export function getCatalog(): CatalogProvider {
+  if (!activeProvider) {
+    activeProvider = new JsonCatalogProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active catalog provider (e.g. with a SqlCatalogProvider at startup).
+ */
+export function setCatalogProvider(provider: CatalogProvider): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import type { ListeningHistory, PlaybackContext, RecentlyPlayedItem, RecentlyPlayedPage } from '@/types';
+import { getCatalog } from './catalog-provider';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'history.json');
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const MAX_HISTORY_LIMIT = 50;
+
+// Oldest plays beyond this are dropped when a new play is recorded
+const MAX_PLAYS_PER_USER = 500;
+
+interface StoredPlay {
+  id: string;
+  userId: string;
+  trackId: string;
+  playedAt: string;
+  duration: number;
+  context?: PlaybackContext;
+}
+
+interface Database {
+  plays: StoredPlay[];
+}
+
+export interface RecordPlayInput {
+  trackId: string;
+  playedAt: Date;
+  duration: number;
+  context?: PlaybackContext;
+}
+
+/**
+ * Storage contract for a user's listening history. Plays are stored
+ * individually; consecutive replays are only collapsed when listed.
+ */
+export interface HistoryRepository {
+  listRecentlyPlayed(userId: string, options?: { limit?: number; before?: Date }): Promise<RecentlyPlayedPage>;
+  recordPlay(userId: string, play: RecordPlayInput): Promise<ListeningHistory | null>;
+  clearHistory(userId: string): Promise<number>;
+  // For each other track: how many listeners also played any of `trackIds`
+  countCoListeners(trackIds: string[], excludeUserId?: string): Promise<Map<string, number>>;
+}
+
+function toListeningHistory(play: StoredPlay): ListeningHistory {
+  return {
+    id: play.id,
+    userId: play.userId,
+    trackId: play.trackId,
+    playedAt: new Date(play.playedAt),
+    duration: play.duration,
+    ...(play.context && { context: play.context }),
+  };
+}
+
+/**
+ * JSON file implementation of HistoryRepository, stored alongside library.json.
+ */
+export class FileHistoryRepository implements HistoryRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { plays: [] };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return { plays: data.plays || [] };
+    } catch (error) {
+      console.error('Error reading history database:', error);
+      return { plays: [] };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing history database:', error);
+      throw new Error('Failed to save history data');
+    }
+  }
+
+  async listRecentlyPlayed(
+    userId: string,
+    { limit = DEFAULT_HISTORY_LIMIT, before }: { limit?: number; before?: Date } = {}
+  ): Promise<RecentlyPlayedPage> {
+    const plays = this.readDB().plays
+      .filter(play => play.userId === userId && (!before || new Date(play.playedAt) < before))
+      .sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime());
+
+    const catalogTracks = await getCatalog().getTracks([...new Set(plays.map(play => play.trackId))]);
+    const trackById = new Map(catalogTracks.map(track => [track.id, track]));
+
+    const items: RecentlyPlayedItem[] = [];
+    let lastConsumed: StoredPlay | null = null;
+    let hasMore = false;
+
+    for (const play of plays) {
+      const track = trackById.get(play.trackId);
+      if (!track) continue; // Track was removed from the catalog
+
+      // Older plays of the same track directly before it are replays of one listen
+      const previous = items[items.length - 1];
+      if (previous && previous.trackId === play.trackId) {
+        previous.playCount += 1;
+        lastConsumed = play;
+        continue;
+      }
+
+      if (items.length === limit) {
+        hasMore = true;
+        break;
+      }
+
+      items.push({ ...toListeningHistory(play), track, playCount: 1 });
+      lastConsumed = play;
+    }
+
+    // The cursor sits after the last replay consumed, so a run is never split across pages
+    return {
+      items,
+      nextCursor: hasMore && lastConsumed ? lastConsumed.playedAt : null,
+    };
+  }
+
+  async recordPlay(userId: string, play: RecordPlayInput): Promise<ListeningHistory | null> {
+    const track = await getCatalog().getTrack(play.trackId);
+    if (!track) {
+      return null;
+    }
+
+    const db = this.readDB();
+    const playedAt = play.playedAt.toISOString();
+
+    // A retried request for the same play is recorded once
+    const existing = db.plays.find(entry =>
+      entry.userId === userId && entry.trackId === play.trackId && entry.playedAt === playedAt
+    );
+    if (existing) {
+      return toListeningHistory(existing);
+    }
+
+    const stored: StoredPlay = {
+      id: `play-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      userId,
+      trackId: play.trackId,
+      playedAt,
+      duration: play.duration,
+      ...(play.context && { context: play.context }),
+    };
+
+    const userPlays = db.plays
+      .filter(entry => entry.userId === userId)
+      .concat(stored)
+      .sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime())
+      .slice(0, MAX_PLAYS_PER_USER);
+
+    this.writeDB({
+      plays: db.plays.filter(entry => entry.userId !== userId).concat(userPlays),
+    });
+
+    return toListeningHistory(stored);
+  }
+
+  async clearHistory(userId: string): Promise<number> {
+    const db = this.readDB();
+    const remaining = db.plays.filter(play => play.userId !== userId);
+    const removed = db.plays.length - remaining.length;
+
+    if (removed > 0) {
+      this.writeDB({ plays: remaining });
+    }
+
+    return removed;
+  }
+
+  async countCoListeners(trackIds: string[], excludeUserId?: string): Promise<Map<string, number>> {
+    const seeds = new Set(trackIds);
+    const tracksByUser = new Map<string, Set<string>>();
+
+    for (const play of this.readDB().plays) {
+      if (play.userId === excludeUserId) continue;
+      const played = tracksByUser.get(play.userId) ?? new Set<string>();
+      played.add(play.trackId);
+      tracksByUser.set(play.userId, played);
+    }
+
+    const counts = new Map<string, number>();
+    for (const played of tracksByUser.values()) {
+      if (![...played].some(trackId => seeds.has(trackId))) continue;
+
+      played.forEach(trackId => {
+        if (!seeds.has(trackId)) {
+          counts.set(trackId, (counts.get(trackId) ?? 0) + 1);
+        }
+      });
+    }
+
+    return counts;
+  }
+}
+
+export const historyRepository: HistoryRepository = new FileHistoryRepository();
@@ -0,0 +1,182 @@
+import type { Track, Artist, Album } from '@/types';
+import type { CatalogProvider, CatalogSnapshot, AlbumRecord, TrackRecord } from './catalog-provider';
+import { unknownAlbum, unknownArtist } from './catalog-placeholders';
+import mockDatabase from '@/data/mock-music-database.json';
+
+function toAlbumType(type: string): Album['type'] {
+  return type === 'single' || type === 'compilation' ? type : 'album';
+}
+
+function addToIndex<T>(index: Map<string, T[]>, key: string, value: T): void {
+  const bucket = index.get(key);
+  if (bucket) {
+    bucket.push(value);
+  } else {
+    index.set(key, [value]);
+  }
+}
+
+/**
+ * In-memory catalog built from a snapshot of records, with lookup maps
+ * by id, artist, album and genre. Records referencing a missing artist
+ * or album are kept and joined to an "Unknown" placeholder.
+ */
+export class CatalogIndex implements CatalogProvider {
+  readonly name: string = 'memory';
+
+  private tracks: Track[] = [];
+  private artists: Artist[] = [];
+  private albums: Album[] = [];
+
+  private trackById = new Map<string, Track>();
+  private trackPosition = new Map<string, number>();
+  private artistById = new Map<string, Artist>();
+  private albumById = new Map<string, Album>();
+  private tracksByArtist = new Map<string, Track[]>();
+  private tracksByAlbum = new Map<string, Track[]>();
+  private tracksByGenre = new Map<string, Track[]>();
+  private albumsByArtist = new Map<string, Album[]>();
+
+  constructor(snapshot: CatalogSnapshot) {
+    this.load(snapshot);
+  }
+
+  protected load(snapshot: CatalogSnapshot): void {
+    this.artists = snapshot.artists.map(artist => ({ ...artist }));
+    this.artistById = new Map(this.artists.map(artist => [artist.id, artist]));
+
+    this.albums = [];
+    this.albumById.clear();
+    this.albumsByArtist.clear();
+    for (const record of snapshot.albums) {
+      const album = this.buildAlbum(record);
+      this.albums.push(album);
+      this.albumById.set(album.id, album);
+      addToIndex(this.albumsByArtist, album.artist.id, album);
+    }
+
+    this.tracks = [];
+    this.trackById.clear();
+    this.trackPosition.clear();
+    this.tracksByArtist.clear();
+    this.tracksByAlbum.clear();
+    this.tracksByGenre.clear();
+    for (const record of snapshot.tracks) {
+      const track = this.buildTrack(record);
+      this.trackPosition.set(track.id, this.tracks.length);
+      this.tracks.push(track);
+      this.trackById.set(track.id, track);
+      addToIndex(this.tracksByArtist, track.artist.id, track);
+      addToIndex(this.tracksByAlbum, track.album.id, track);
+      for (const genre of track.genres) {
+        addToIndex(this.tracksByGenre, genre, track);
+      }
+    }
+
+    for (const albumTracks of this.tracksByAlbum.values()) {
+      albumTracks.sort((a, b) => (a.trackNumber || 0) - (b.trackNumber || 0));
+    }
+  }
+
+  private buildAlbum(record: AlbumRecord): Album {
+    return {
+      ...record,
+      artist: this.artistById.get(record.artist) || unknownArtist(record.artist),
+      releaseDate: new Date(record.releaseDate),
+      genres: record.genres || [],
+      type: toAlbumType(record.type),
+    };
+  }
+
+  private buildTrack(record: TrackRecord): Track {
+    const artist = this.artistById.get(record.artist) || unknownArtist(record.artist);
+    const album = this.albumById.get(record.album) || unknownAlbum(record.album, artist);
+
+    return {
+      ...record,
+      artist,
+      album,
+      genres: record.genres || [],
+      releaseDate: new Date(record.releaseDate),
+    };
+  }
+
+  async getTrack(id: string): Promise<Track | null> {
+    return this.trackById.get(id) || null;
+  }
+
+  async getTracks(ids: string[]): Promise<Track[]> {
+    return ids
+      .map(id => this.trackById.get(id))
+      .filter((track): track is Track => !!track);
+  }
+
+  async getAllTracks(): Promise<Track[]> {
+    return [...this.tracks];
+  }
+
+  async getTracksByArtist(artistId: string): Promise<Track[]> {
+    return [...(this.tracksByArtist.get(artistId) || [])];
+  }
+
+  async getTracksByAlbum(albumId: string): Promise<Track[]> {
+    return [...(this.tracksByAlbum.get(albumId) || [])];
+  }
+
+  async getTracksByGenres(genres: string[]): Promise<Track[]> {
+    const matches = new Map<string, Track>();
+    for (const genre of genres) {
+      for (const track of this.tracksByGenre.get(genre) || []) {
+        matches.set(track.id, track);
+      }
+    }
+
+    // Keep catalog order so results are stable across genre lists
+    return [...matches.values()].sort(
+      (a, b) => this.trackPosition.get(a.id)! - this.trackPosition.get(b.id)!
+    );
+  }
+
+  async getArtist(id: string): Promise<Artist | null> {
+    return this.artistById.get(id) || null;
+  }
+
+  async getArtists(ids: string[]): Promise<Artist[]> {
+    return ids
+      .map(id => this.artistById.get(id))
+      .filter((artist): artist is Artist => !!artist);
+  }
+
+  async getAllArtists(): Promise<Artist[]> {
+    return [...this.artists];
+  }
+
+  async getAlbum(id: string): Promise<Album | null> {
+    return this.albumById.get(id) || null;
+  }
+
+  async getAlbums(ids: string[]): Promise<Album[]> {
+    return ids
+      .map(id => this.albumById.get(id))
+      .filter((album): album is Album => !!album);
+  }
+
+  async getAllAlbums(): Promise<Album[]> {
+    return [...this.albums];
+  }
+
+  async getAlbumsByArtist(artistId: string): Promise<Album[]> {
+    return [...(this.albumsByArtist.get(artistId) || [])];
+  }
+}
+
+/**
+ * Catalog adapter for the bundled mock-music-database.json file.
+ */
+export class JsonCatalogProvider extends CatalogIndex {
+  override readonly name: string = 'json';
+
+  constructor(snapshot: CatalogSnapshot = mockDatabase as CatalogSnapshot) {
+    super(snapshot);
+  }
+}
@@ -0,0 +1,364 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  FollowedPlaylist,
+  LikedTrack,
+  LikedTracksQuery,
+  LikedTrackSortField,
+  LibraryPagination,
+  SavedAlbum,
+  Track,
+} from '@/types';
+import { getCatalog } from './catalog-provider';
+import { playlistRepository, canViewPlaylist, type PlaylistRepository } from './playlist-repository';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'library.json');
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 50;
+
+interface StoredLikedTrack {
+  userId: string;
+  trackId: string;
+  likedAt: string;
+}
+
+interface StoredSavedAlbum {
+  userId: string;
+  albumId: string;
+  savedAt: string;
+}
+
+interface StoredFollowedPlaylist {
+  userId: string;
+  playlistId: string;
+  followedAt: string;
+}
+
+interface Database {
+  likedTracks: StoredLikedTrack[];
+  savedAlbums: StoredSavedAlbum[];
+  followedPlaylists: StoredFollowedPlaylist[];
+}
+
+export interface LikedTracksPage {
+  tracks: LikedTrack[];
+  pagination: LibraryPagination;
+}
+
+export interface SavedAlbumsPage {
+  albums: SavedAlbum[];
+  pagination: LibraryPagination;
+}
+
+/**
+ * Storage contract for a user's saved library: liked songs, saved albums
+ * and followed playlists. Route handlers depend on this interface rather
+ * than a concrete backend.
+ */
+export interface LibraryRepository {
+  // Liked songs
+  listLikedTracks(userId: string, query?: LikedTracksQuery): Promise<LikedTracksPage>;
+  likeTracks(userId: string, trackIds: string[]): Promise<string[]>;
+  unlikeTracks(userId: string, trackIds: string[]): Promise<string[]>;
+  containsLikedTracks(userId: string, trackIds: string[]): Promise<boolean[]>;
+
+  // Saved albums
+  listSavedAlbums(userId: string, page?: { limit?: number; offset?: number }): Promise<SavedAlbumsPage>;
+  saveAlbums(userId: string, albumIds: string[]): Promise<string[]>;
+  removeAlbums(userId: string, albumIds: string[]): Promise<string[]>;
+  containsSavedAlbums(userId: string, albumIds: string[]): Promise<boolean[]>;
+
+  // Followed playlists
+  listFollowedPlaylists(userId: string): Promise<FollowedPlaylist[]>;
+  followPlaylist(userId: string, playlistId: string): Promise<boolean>;
+  unfollowPlaylist(userId: string, playlistId: string): Promise<boolean>;
+  containsFollowedPlaylists(userId: string, playlistIds: string[]): Promise<boolean[]>;
+}
+
+const compareLikedTracks: Record<LikedTrackSortField, (a: LikedTrack, b: LikedTrack) => number> = {
+  likedAt: (a, b) => a.likedAt.getTime() - b.likedAt.getTime(),
+  title: (a, b) => a.title.localeCompare(b.title),
+  artist: (a, b) => a.artist.name.localeCompare(b.artist.name),
+  album: (a, b) => a.album.title.localeCompare(b.album.title),
+  duration: (a, b) => a.duration - b.duration,
+};
+
+function matchesQuery(track: Track, query: string): boolean {
+  const needle = query.toLowerCase();
+  return (
+    track.title.toLowerCase().includes(needle) ||
+    track.artist.name.toLowerCase().includes(needle) ||
+    track.album.title.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * JSON file implementation of LibraryRepository, stored alongside users.json.
+ * Following a playlist also updates its follower count in the playlist store.
+ */
+export class FileLibraryRepository implements LibraryRepository {
+  constructor(
+    private readonly dbPath: string = DEFAULT_DB_PATH,
+    private readonly playlists: PlaylistRepository = playlistRepository
+  ) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { likedTracks: [], savedAlbums: [], followedPlaylists: [] };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return {
+        likedTracks: data.likedTracks || [],
+        savedAlbums: data.savedAlbums || [],
+        followedPlaylists: data.followedPlaylists || [],
+      };
+    } catch (error) {
+      console.error('Error reading library database:', error);
+      return { likedTracks: [], savedAlbums: [], followedPlaylists: [] };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing library database:', error);
+      throw new Error('Failed to save library data');
+    }
+  }
+
+  async listLikedTracks(userId: string, query: LikedTracksQuery = {}): Promise<LikedTracksPage> {
+    const {
+      limit = DEFAULT_PAGE_LIMIT,
+      offset = 0,
+      sortBy = 'likedAt',
+      sortOrder = 'desc',
+    } = query;
+
+    const entries = this.readDB().likedTracks.filter(entry =>
+      entry.userId === userId &&
+      (!query.likedAfter || new Date(entry.likedAt) >= query.likedAfter) &&
+      (!query.likedBefore || new Date(entry.likedAt) <= query.likedBefore)
+    );
+
+    const catalogTracks = await getCatalog().getTracks(entries.map(entry => entry.trackId));
+    const trackById = new Map(catalogTracks.map(track => [track.id, track]));
+
+    let tracks: LikedTrack[] = [];
+    for (const entry of entries) {
+      const track = trackById.get(entry.trackId);
+      if (!track) continue; // Track was removed from the catalog
+
+      tracks.push({ ...track, likedAt: new Date(entry.likedAt) });
+    }
+
+    if (query.query?.trim()) {
+      const needle = query.query.trim();
+      tracks = tracks.filter(track => matchesQuery(track, needle));
+    }
+
+    const compare = compareLikedTracks[sortBy];
+    tracks.sort((a, b) => (sortOrder === 'asc' ? compare(a, b) : compare(b, a)));
+
+    return {
+      tracks: tracks.slice(offset, offset + limit),
+      pagination: {
+        limit,
+        offset,
+        total: tracks.length,
+        hasMore: offset + limit < tracks.length,
+      },
+    };
+  }
+
+  async likeTracks(userId: string, trackIds: string[]): Promise<string[]> {
+    const db = this.readDB();
+    const existing = new Set(
+      db.likedTracks.filter(entry => entry.userId === userId).map(entry => entry.trackId)
+    );
+
+    const known = await getCatalog().getTracks([...new Set(trackIds)]);
+    const added = known.map(track => track.id).filter(id => !existing.has(id));
+
+    if (added.length > 0) {
+      const likedAt = new Date().toISOString();
+      db.likedTracks.push(...added.map(trackId => ({ userId, trackId, likedAt })));
+      this.writeDB(db);
+    }
+
+    return added;
+  }
+
+  async unlikeTracks(userId: string, trackIds: string[]): Promise<string[]> {
+    const db = this.readDB();
+    const removed: string[] = [];
+
+    const remaining = db.likedTracks.filter(entry => {
+      if (entry.userId === userId && trackIds.includes(entry.trackId)) {
+        removed.push(entry.trackId);
+        return false;
+      }
+      return true;
+    });
+
+    if (removed.length > 0) {
+      this.writeDB({ ...db, likedTracks: remaining });
+    }
+
+    return removed;
+  }
+
+  async containsLikedTracks(userId: string, trackIds: string[]): Promise<boolean[]> {
+    const liked = new Set(
+      this.readDB().likedTracks
+        .filter(entry => entry.userId === userId)
+        .map(entry => entry.trackId)
+    );
+
+    return trackIds.map(id => liked.has(id));
+  }
+
+  async listSavedAlbums(
+    userId: string,
+    { limit = DEFAULT_PAGE_LIMIT, offset = 0 }: { limit?: number; offset?: number } = {}
+  ): Promise<SavedAlbumsPage> {
+    const entries = this.readDB().savedAlbums
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+
+    const catalogAlbums = await getCatalog().getAlbums(entries.map(entry => entry.albumId));
+    const albumById = new Map(catalogAlbums.map(album => [album.id, album]));
+
+    const albums: SavedAlbum[] = [];
+    for (const entry of entries) {
+      const album = albumById.get(entry.albumId);
+      if (!album) continue; // Album was removed from the catalog
+
+      albums.push({ ...album, savedAt: new Date(entry.savedAt) });
+    }
+
+    return {
+      albums: albums.slice(offset, offset + limit),
+      pagination: {
+        limit,
+        offset,
+        total: albums.length,
+        hasMore: offset + limit < albums.length,
+      },
+    };
+  }
+
+  async saveAlbums(userId: string, albumIds: string[]): Promise<string[]> {
+    const db = this.readDB();
+    const existing = new Set(
+      db.savedAlbums.filter(entry => entry.userId === userId).map(entry => entry.albumId)
+    );
+
+    const known = await getCatalog().getAlbums([...new Set(albumIds)]);
+    const added = known.map(album => album.id).filter(id => !existing.has(id));
+
+    if (added.length > 0) {
+      const savedAt = new Date().toISOString();
+      db.savedAlbums.push(...added.map(albumId => ({ userId, albumId, savedAt })));
+      this.writeDB(db);
+    }
+
+    return added;
+  }
+
+  async removeAlbums(userId: string, albumIds: string[]): Promise<string[]> {
+    const db = this.readDB();
+    const removed: string[] = [];
+
+    const remaining = db.savedAlbums.filter(entry => {
+      if (entry.userId === userId && albumIds.includes(entry.albumId)) {
+        removed.push(entry.albumId);
+        return false;
+      }
+      return true;
+    });
+
+    if (removed.length > 0) {
+      this.writeDB({ ...db, savedAlbums: remaining });
+    }
+
+    return removed;
+  }
+
+  async containsSavedAlbums(userId: string, albumIds: string[]): Promise<boolean[]> {
+    const saved = new Set(
+      this.readDB().savedAlbums
+        .filter(entry => entry.userId === userId)
+        .map(entry => entry.albumId)
+    );
+
+    return albumIds.map(id => saved.has(id));
+  }
+
+  async listFollowedPlaylists(userId: string): Promise<FollowedPlaylist[]> {
+    const entries = this.readDB().followedPlaylists
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => new Date(b.followedAt).getTime() - new Date(a.followedAt).getTime());
+
+    const followed: FollowedPlaylist[] = [];
+    for (const entry of entries) {
+      const playlist = await this.playlists.findById(entry.playlistId);
+
+      // Skip playlists that were deleted or made private since they were followed
+      if (!playlist || !canViewPlaylist(playlist, userId)) continue;
+
+      followed.push({ ...playlist, followedAt: new Date(entry.followedAt) });
+    }
+
+    return followed;
+  }
+
+  async followPlaylist(userId: string, playlistId: string): Promise<boolean> {
+    const db = this.readDB();
+    const alreadyFollowing = db.followedPlaylists.some(
+      entry => entry.userId === userId && entry.playlistId === playlistId
+    );
+
+    if (alreadyFollowing) {
+      return false;
+    }
+
+    db.followedPlaylists.push({ userId, playlistId, followedAt: new Date().toISOString() });
+    this.writeDB(db);
+    await this.playlists.adjustFollowers(playlistId, 1);
+
+    return true;
+  }
+
+  async unfollowPlaylist(userId: string, playlistId: string): Promise<boolean> {
+    const db = this.readDB();
+    const remaining = db.followedPlaylists.filter(
+      entry => !(entry.userId === userId && entry.playlistId === playlistId)
+    );
+
+    if (remaining.length === db.followedPlaylists.length) {
+      return false;
+    }
+
+    this.writeDB({ ...db, followedPlaylists: remaining });
+    await this.playlists.adjustFollowers(playlistId, -1);
+
+    return true;
+  }
+
+  async containsFollowedPlaylists(userId: string, playlistIds: string[]): Promise<boolean[]> {
+    const followed = new Set(
+      this.readDB().followedPlaylists
+        .filter(entry => entry.userId === userId)
+        .map(entry => entry.playlistId)
+    );
+
+    return playlistIds.map(id => followed.has(id));
+  }
+}
+
+export const libraryRepository: LibraryRepository = new FileLibraryRepository();
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+import type { Lyrics } from '@/types';
+import { parseLrc } from '@/lib/lyrics/lrc';
+
+const DEFAULT_LYRICS_DIR = path.join(process.cwd(), 'src', 'data', 'lyrics');
+
+// Track ids become file names, so nothing that could leave the directory
+const TRACK_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Read access to track lyrics
+ */
+export interface LyricsRepository {
+  getLyrics(trackId: string): Promise<Lyrics | null>;
+}
+
+/**
+ * Lyrics stored as one file per track: `<trackId>.lrc` for time-coded
+ * (LRC or enhanced LRC) lyrics, or `<trackId>.txt` for plain text
+ */
+export class FileLyricsRepository implements LyricsRepository {
+  constructor(private readonly lyricsDir: string = DEFAULT_LYRICS_DIR) {}
+
+  private readLyricsFile(trackId: string): string | null {
+    for (const extension of ['.lrc', '.txt']) {
+      const filePath = path.join(this.lyricsDir, `${trackId}${extension}`);
+      if (fs.existsSync(filePath)) {
+        return fs.readFileSync(filePath, 'utf8');
+      }
+    }
+    return null;
+  }
+
+  async getLyrics(trackId: string): Promise<Lyrics | null> {
+    if (!TRACK_ID_PATTERN.test(trackId)) return null;
+
+    const content = this.readLyricsFile(trackId);
+    if (content === null) return null;
+
+    const { lines, text } = parseLrc(content);
+    return text ? { trackId, lines, text } : null;
+  }
+}
+
+export const lyricsRepository: LyricsRepository = new FileLyricsRepository();
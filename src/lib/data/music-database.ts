@@ -1,113 +1,61 @@
 import type { Track, Artist, Album } from '@/types';
-import mockDatabase from '@/data/mock-music-database.json';
+import { getCatalog, type CatalogProvider } from './catalog-provider';
 
 class MusicDatabase {
-  private tracks: Track[] = [];
-  private artists: Artist[] = [];
-  private albums: Album[] = [];
-
-  constructor() {
-    this.loadMockData();
-  }
-
-  private loadMockData() {
-    // Load artists
-    this.artists = mockDatabase.artists.map(artist => ({
-      ...artist,
-      id: artist.id,
-      name: artist.name,
-      bio: artist.bio,
-      imageUrl: artist.imageUrl,
-      genres: artist.genres,
-      followers: artist.followers,
-      isVerified: artist.isVerified,
-      popularity: artist.popularity,
-    }));
-
-    // Load albums
-    this.albums = mockDatabase.albums.map(album => ({
-      ...album,
-      id: album.id,
-      title: album.title,
-      artist: this.artists.find(a => a.id === album.artist) || this.artists[0]!,
-      releaseDate: new Date(album.releaseDate),
-      totalTracks: album.totalTracks,
-      imageUrl: album.imageUrl,
-      genres: album.genres,
-      type: album.type as "album" | "single" | "compilation",
-    }));
-
-    // Load tracks
-    this.tracks = mockDatabase.tracks.map(track => ({
-      ...track,
-      id: track.id,
-      title: track.title,
-      artist: this.artists.find(a => a.id === track.artist) || this.artists[0]!,
-      album: this.albums.find(a => a.id === track.album) || this.albums[0]!,
-      duration: track.duration,
-      previewUrl: track.previewUrl,
-      streamUrl: track.streamUrl,
-      isExplicit: track.isExplicit,
-      popularity: track.popularity,
-      trackNumber: track.trackNumber,
-      genres: track.genres,
-      releaseDate: new Date(track.releaseDate),
-      imageUrl: track.imageUrl,
-    }));
+  private get catalog(): CatalogProvider {
+    return getCatalog();
   }
 
   async getAllTracks(): Promise<Track[]> {
-    return [...this.tracks];
+    return this.catalog.getAllTracks();
   }
 
   async getTrack(id: string): Promise<Track | null> {
-    return this.tracks.find(track => track.id === id) || null;
+    return this.catalog.getTrack(id);
   }
 
   async getTracks(ids: string[]): Promise<Track[]> {
-    return this.tracks.filter(track => ids.includes(track.id));
+    return this.catalog.getTracks(ids);
   }
 
   async getAllArtists(): Promise<Artist[]> {
-    return [...this.artists];
+    return this.catalog.getAllArtists();
   }
 
   async getArtist(id: string): Promise<Artist | null> {
-    return this.artists.find(artist => artist.id === id) || null;
+    return this.catalog.getArtist(id);
   }
 
   async getArtists(ids: string[]): Promise<Artist[]> {
-    return this.artists.filter(artist => ids.includes(artist.id));
+    return this.catalog.getArtists(ids);
   }
 
   async getAllAlbums(): Promise<Album[]> {
-    return [...this.albums];
+    return this.catalog.getAllAlbums();
   }
 
   async getAlbum(id: string): Promise<Album | null> {
-    return this.albums.find(album => album.id === id) || null;
+    return this.catalog.getAlbum(id);
   }
 
   async getAlbums(ids: string[]): Promise<Album[]> {
-    return this.albums.filter(album => ids.includes(album.id));
+    return this.catalog.getAlbums(ids);
   }
 
   async getTracksByGenres(genres: string[]): Promise<Track[]> {
-    return this.tracks.filter(track => 
-      track.genres.some(genre => genres.includes(genre))
-    );
+    return this.catalog.getTracksByGenres(genres);
   }
 
   async getTracksByArtist(artistId: string): Promise<Track[]> {
-    return this.tracks.filter(track => track.artist.id === artistId);
+    return this.catalog.getTracksByArtist(artistId);
   }
 
   async getTracksByAlbum(albumId: string): Promise<Track[]> {
-    return this.tracks.filter(track => track.album.id === albumId);
+    return this.catalog.getTracksByAlbum(albumId);
   }
 
   async getPopularTracks(limit = 50): Promise<Track[]> {
-    return [...this.tracks]
+    return (await this.getAllTracks())
       .sort((a, b) => b.popularity - a.popularity)
       .slice(0, limit);
   }
@@ -116,7 +64,7 @@ class MusicDatabase {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
-    return this.tracks
+    return (await this.getAllTracks())
       .filter(track => track.releaseDate > thirtyDaysAgo)
       .sort((a, b) => b.releaseDate.getTime() - a.releaseDate.getTime())
       .slice(0, limit);
@@ -124,7 +72,7 @@ class MusicDatabase {
 
   async searchTracks(query: string): Promise<Track[]> {
     const lowercaseQuery = query.toLowerCase();
-    return this.tracks.filter(track => 
+    return (await this.getAllTracks()).filter(track => 
       track.title.toLowerCase().includes(lowercaseQuery) ||
       track.artist.name.toLowerCase().includes(lowercaseQuery) ||
       track.album.title.toLowerCase().includes(lowercaseQuery)
@@ -133,14 +81,14 @@ class MusicDatabase {
 
   async searchArtists(query: string): Promise<Artist[]> {
     const lowercaseQuery = query.toLowerCase();
-    return this.artists.filter(artist => 
+    return (await this.getAllArtists()).filter(artist => 
       artist.name.toLowerCase().includes(lowercaseQuery)
     );
   }
 
   async searchAlbums(query: string): Promise<Album[]> {
     const lowercaseQuery = query.toLowerCase();
-    return this.albums.filter(album => 
+    return (await this.getAllAlbums()).filter(album => 
       album.title.toLowerCase().includes(lowercaseQuery) ||
       album.artist.name.toLowerCase().includes(lowercaseQuery)
     );
@@ -154,12 +102,8 @@ class MusicDatabase {
     const seedGenres = [...new Set(seedTracks.flatMap(track => track.genres))];
     const seedArtistIds = [...new Set(seedTracks.map(track => track.artist.id))];
 
-    const candidates = this.tracks.filter(track => 
-      !seedTrackIds.includes(track.id) && (
-        track.genres.some(genre => seedGenres.includes(genre)) ||
-        seedArtistIds.includes(track.artist.id)
-      )
-    );
+    const candidates = (await this.getCandidateTracks(seedArtistIds, seedGenres))
+      .filter(track => !seedTrackIds.includes(track.id));
 
     // Sort by relevance (genre overlap + popularity)
     const scored = candidates.map(track => ({
@@ -173,6 +117,18 @@ class MusicDatabase {
       .map(item => item.track);
   }
 
+  // Tracks by any of the given artists or sharing any of the given genres
+  private async getCandidateTracks(artistIds: string[], genres: string[]): Promise<Track[]> {
+    const byArtist = await Promise.all(artistIds.map(id => this.catalog.getTracksByArtist(id)));
+    const byGenre = await this.catalog.getTracksByGenres(genres);
+
+    const candidates = new Map<string, Track>();
+    for (const track of [...byArtist.flat(), ...byGenre]) {
+      candidates.set(track.id, track);
+    }
+    return [...candidates.values()];
+  }
+
   private calculateRelevanceScore(track: Track, seedGenres: string[], seedArtistIds: string[]): number {
     let score = 0;
 
@@ -200,7 +156,7 @@ class MusicDatabase {
   }): Promise<Track[]> {
     // Mock implementation - in a real app, this would filter by actual audio features
     // For now, return a random selection based on mock criteria
-    const filteredTracks = this.tracks.filter(track => {
+    const filteredTracks = (await this.getAllTracks()).filter(track => {
       // Mock filtering logic based on track properties
       const mockDanceability = (track.popularity / 100) * Math.random();
       const mockEnergy = ((track.genres.includes('Electronic') || track.genres.includes('Hip Hop')) ? 0.8 : 0.5) * Math.random();
@@ -232,12 +188,8 @@ class MusicDatabase {
     if (!track) return [];
 
     // Find tracks with similar genres and artists
-    const similarTracks = this.tracks.filter(t => 
-      t.id !== trackId && (
-        t.artist.id === track.artist.id ||
-        t.genres.some(genre => track.genres.includes(genre))
-      )
-    );
+    const similarTracks = (await this.getCandidateTracks([track.artist.id], track.genres))
+      .filter(t => t.id !== trackId);
 
     // Sort by similarity score
     const scored = similarTracks.map(t => ({
@@ -272,15 +224,15 @@ class MusicDatabase {
   }
 
   async getTrackCount(): Promise<number> {
-    return this.tracks.length;
+    return (await this.getAllTracks()).length;
   }
 
   async getArtistCount(): Promise<number> {
-    return this.artists.length;
+    return (await this.getAllArtists()).length;
   }
 
   async getAlbumCount(): Promise<number> {
-    return this.albums.length;
+    return (await this.getAllAlbums()).length;
   }
 }
 
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import type { PlaybackContext, RepeatMode } from '@/types';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'player-sessions.json');
+
+// Longest queue (and up next list) a session keeps
+export const MAX_SESSION_TRACKS = 500;
+
+/**
+ * Player state as stored: tracks are kept as ids and looked up in the
+ * catalog when the session is restored
+ */
+export interface PlayerSessionRecord {
+  queue: string[];
+  upNext: string[];
+  currentTrackId: string | null;
+  currentIndex: number;
+  isPlayingUpNext: boolean;
+  position: number; // seconds into the current track
+  playbackContext: PlaybackContext | null;
+  shuffleMode: boolean;
+  shuffleOrder: number[];
+  shuffleSeed: number;
+  repeatMode: RepeatMode;
+  playHistory: number[];
+  autoplayStartIndex: number | null;
+  updatedAt: string;
+}
+
+export type PlayerSessionUpdate = Omit<PlayerSessionRecord, 'updatedAt'>;
+
+interface Database {
+  sessions: Record<string, PlayerSessionRecord>;
+}
+
+/**
+ * Storage contract for where each listener left off, one session per user
+ * shared by all of their devices
+ */
+export interface PlayerSessionRepository {
+  getSession(userId: string): Promise<PlayerSessionRecord | null>;
+  saveSession(userId: string, session: PlayerSessionUpdate): Promise<PlayerSessionRecord>;
+}
+
+/**
+ * JSON file implementation of PlayerSessionRepository. The last device to
+ * save wins.
+ */
+export class FilePlayerSessionRepository implements PlayerSessionRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { sessions: {} };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return { sessions: data.sessions || {} };
+    } catch (error) {
+      console.error('Error reading player session database:', error);
+      return { sessions: {} };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing player session database:', error);
+      throw new Error('Failed to save player session data');
+    }
+  }
+
+  async getSession(userId: string): Promise<PlayerSessionRecord | null> {
+    return this.readDB().sessions[userId] ?? null;
+  }
+
+  async saveSession(userId: string, session: PlayerSessionUpdate): Promise<PlayerSessionRecord> {
+    const db = this.readDB();
+    const record: PlayerSessionRecord = { ...session, updatedAt: new Date().toISOString() };
+
+    db.sessions[userId] = record;
+    this.writeDB(db);
+
+    return record;
+  }
+}
+
+export const playerSessionRepository: PlayerSessionRepository = new FilePlayerSessionRepository();
@@ -0,0 +1,456 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  Playlist,
+  PlaylistFolder,
+  PlaylistTrack,
+  PlaylistCreateRequest,
+  PlaylistUpdateRequest,
+  Track,
+  User,
+} from '@/types';
+import { authDB } from '@/lib/auth/database';
+import { getCatalog } from './catalog-provider';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'playlists.json');
+
+interface StoredPlaylistTrack {
+  id: string;
+  trackId: string;
+  addedAt: string;
+  addedById: string;
+}
+
+interface StoredPlaylist {
+  id: string;
+  ownerId: string;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  isPublic: boolean;
+  collaborative: boolean;
+  followers: number;
+  tags: string[];
+  folderId?: string;
+  tracks: StoredPlaylistTrack[];
+  createdAt: string;
+  updatedAt: string;
+  lastPlayedAt?: string;
+  playCount: number;
+  shareUrl?: string;
+}
+
+interface StoredFolder {
+  id: string;
+  userId: string;
+  name: string;
+  color?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Database {
+  playlists: StoredPlaylist[];
+  folders: StoredFolder[];
+}
+
+export type PlaylistCreateInput = Omit<PlaylistCreateRequest, 'imageFile' | 'templateId'> & {
+  trackIds?: string[];
+};
+
+export type PlaylistUpdateInput = Omit<PlaylistUpdateRequest, 'imageFile'> & {
+  imageUrl?: string;
+  shareUrl?: string;
+};
+
+/**
+ * Storage contract for user playlists and playlist folders.
+ * Route handlers depend on this interface rather than a concrete backend.
+ */
+export interface PlaylistRepository {
+  // Playlists
+  findById(id: string): Promise<Playlist | null>;
+  listByOwner(ownerId: string): Promise<Playlist[]>;
+  create(ownerId: string, input: PlaylistCreateInput): Promise<Playlist>;
+  update(id: string, updates: PlaylistUpdateInput): Promise<Playlist | null>;
+  delete(id: string): Promise<boolean>;
+  adjustFollowers(id: string, delta: number): Promise<Playlist | null>;
+
+  // Tracks
+  addTracks(id: string, trackIds: string[], addedById: string): Promise<Playlist | null>;
+  removeTracks(id: string, trackIds: string[]): Promise<Playlist | null>;
+  reorderTracks(id: string, entryId: string, endIndex: number): Promise<Playlist | null>;
+
+  // Folders
+  findFolder(id: string): Promise<PlaylistFolder | null>;
+  listFolders(userId: string): Promise<PlaylistFolder[]>;
+  createFolder(userId: string, name: string, color?: string): Promise<PlaylistFolder>;
+  updateFolder(id: string, updates: { name?: string; color?: string }): Promise<PlaylistFolder | null>;
+  deleteFolder(id: string): Promise<boolean>;
+}
+
+/**
+ * Check whether a user may modify a playlist's metadata (rename, delete, move).
+ */
+export function canManagePlaylist(playlist: Playlist, userId: string): boolean {
+  return playlist.owner.id === userId;
+}
+
+/**
+ * Check whether a user may add, remove or reorder tracks in a playlist.
+ * Collaborative playlists accept track edits from any signed-in user.
+ */
+export function canEditPlaylistTracks(playlist: Playlist, userId: string): boolean {
+  return playlist.owner.id === userId || playlist.collaborative;
+}
+
+/**
+ * Check whether a user may view a playlist.
+ */
+export function canViewPlaylist(playlist: Playlist, userId?: string): boolean {
+  return playlist.isPublic || playlist.collaborative || (!!userId && playlist.owner.id === userId);
+}
+
+/**
+ * JSON file implementation of PlaylistRepository, stored alongside users.json.
+ */
+export class FilePlaylistRepository implements PlaylistRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { playlists: [], folders: [] };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return {
+        playlists: data.playlists || [],
+        folders: data.folders || [],
+      };
+    } catch (error) {
+      console.error('Error reading playlist database:', error);
+      return { playlists: [], folders: [] };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing playlist database:', error);
+      throw new Error('Failed to save playlist data');
+    }
+  }
+
+  async findById(id: string): Promise<Playlist | null> {
+    const record = this.readDB().playlists.find(p => p.id === id);
+    return record ? this.hydratePlaylist(record) : null;
+  }
+
+  async listByOwner(ownerId: string): Promise<Playlist[]> {
+    const records = this.readDB().playlists.filter(p => p.ownerId === ownerId);
+    return Promise.all(records.map(record => this.hydratePlaylist(record)));
+  }
+
+  async create(ownerId: string, input: PlaylistCreateInput): Promise<Playlist> {
+    const db = this.readDB();
+    const now = new Date().toISOString();
+
+    const record: StoredPlaylist = {
+      id: this.generateId('playlist'),
+      ownerId,
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      isPublic: input.isPublic ?? false,
+      collaborative: input.collaborative ?? false,
+      followers: 0,
+      tags: input.tags || [],
+      folderId: input.folderId || undefined,
+      tracks: [],
+      createdAt: now,
+      updatedAt: now,
+      playCount: 0,
+    };
+
+    if (input.trackIds?.length) {
+      record.tracks = await this.buildTrackEntries(record.id, input.trackIds, ownerId);
+    }
+
+    db.playlists.push(record);
+    this.writeDB(db);
+
+    return this.hydratePlaylist(record);
+  }
+
+  async update(id: string, updates: PlaylistUpdateInput): Promise<Playlist | null> {
+    return this.mutatePlaylist(id, record => {
+      if (updates.name !== undefined) record.name = updates.name.trim();
+      if (updates.description !== undefined) record.description = updates.description.trim() || undefined;
+      if (updates.isPublic !== undefined) record.isPublic = updates.isPublic;
+      if (updates.collaborative !== undefined) record.collaborative = updates.collaborative;
+      if (updates.tags !== undefined) record.tags = updates.tags;
+      if (updates.imageUrl !== undefined) record.imageUrl = updates.imageUrl;
+      if (updates.shareUrl !== undefined) record.shareUrl = updates.shareUrl;
+      if (updates.folderId !== undefined) record.folderId = updates.folderId || undefined;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = this.readDB();
+    const remaining = db.playlists.filter(p => p.id !== id);
+
+    if (remaining.length === db.playlists.length) {
+      return false;
+    }
+
+    this.writeDB({ ...db, playlists: remaining });
+    return true;
+  }
+
+  async adjustFollowers(id: string, delta: number): Promise<Playlist | null> {
+    const db = this.readDB();
+    const record = db.playlists.find(p => p.id === id);
+
+    if (!record) {
+      return null;
+    }
+
+    // Follower changes are not edits, so updatedAt is left alone
+    record.followers = Math.max(0, record.followers + delta);
+
+    this.writeDB(db);
+    return this.hydratePlaylist(record);
+  }
+
+  async addTracks(id: string, trackIds: string[], addedById: string): Promise<Playlist | null> {
+    const entries = await this.buildTrackEntries(id, trackIds, addedById);
+    return this.mutatePlaylist(id, record => {
+      record.tracks.push(...entries);
+    });
+  }
+
+  async removeTracks(id: string, trackIds: string[]): Promise<Playlist | null> {
+    // Accept either catalog track ids or playlist entry ids
+    return this.mutatePlaylist(id, record => {
+      record.tracks = record.tracks.filter(
+        entry => !trackIds.includes(entry.trackId) && !trackIds.includes(entry.id)
+      );
+    });
+  }
+
+  async reorderTracks(id: string, entryId: string, endIndex: number): Promise<Playlist | null> {
+    return this.mutatePlaylist(id, async record => {
+      // Positions are those of the hydrated playlist, so entries whose track
+      // has left the catalog are dropped before moving anything
+      const known = await getCatalog().getTracks(record.tracks.map(entry => entry.trackId));
+      const knownIds = new Set(known.map(track => track.id));
+      const tracks = record.tracks.filter(entry => knownIds.has(entry.trackId));
+
+      const startIndex = tracks.findIndex(entry => entry.id === entryId);
+      const moved = tracks[startIndex];
+      if (!moved) {
+        throw new RangeError('Track is not in the playlist');
+      }
+      if (endIndex < 0 || endIndex >= tracks.length) {
+        throw new RangeError('Track index out of range');
+      }
+
+      tracks.splice(startIndex, 1);
+      tracks.splice(endIndex, 0, moved);
+      record.tracks = tracks;
+    });
+  }
+
+  async findFolder(id: string): Promise<PlaylistFolder | null> {
+    const db = this.readDB();
+    const record = db.folders.find(f => f.id === id);
+    return record ? this.hydrateFolder(record, db) : null;
+  }
+
+  async listFolders(userId: string): Promise<PlaylistFolder[]> {
+    const db = this.readDB();
+    const records = db.folders.filter(f => f.userId === userId);
+    return Promise.all(records.map(record => this.hydrateFolder(record, db)));
+  }
+
+  async createFolder(userId: string, name: string, color?: string): Promise<PlaylistFolder> {
+    const db = this.readDB();
+    const now = new Date().toISOString();
+
+    const record: StoredFolder = {
+      id: this.generateId('folder'),
+      userId,
+      name: name.trim(),
+      color: color || '#1DB954', // Spotify green as default
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    db.folders.push(record);
+    this.writeDB(db);
+
+    return this.hydrateFolder(record, db);
+  }
+
+  async updateFolder(id: string, updates: { name?: string; color?: string }): Promise<PlaylistFolder | null> {
+    const db = this.readDB();
+    const record = db.folders.find(f => f.id === id);
+
+    if (!record) {
+      return null;
+    }
+
+    if (updates.name?.trim()) record.name = updates.name.trim();
+    if (updates.color) record.color = updates.color;
+    record.updatedAt = new Date().toISOString();
+
+    this.writeDB(db);
+    return this.hydrateFolder(record, db);
+  }
+
+  async deleteFolder(id: string): Promise<boolean> {
+    const db = this.readDB();
+    const remaining = db.folders.filter(f => f.id !== id);
+
+    if (remaining.length === db.folders.length) {
+      return false;
+    }
+
+    // Move playlists out of the folder before deleting it
+    const playlists = db.playlists.map(p =>
+      p.folderId === id ? { ...p, folderId: undefined } : p
+    );
+
+    this.writeDB({ playlists, folders: remaining });
+    return true;
+  }
+
+  private async mutatePlaylist(
+    id: string,
+    mutate: (record: StoredPlaylist) => void | Promise<void>
+  ): Promise<Playlist | null> {
+    const db = this.readDB();
+    const record = db.playlists.find(p => p.id === id);
+
+    if (!record) {
+      return null;
+    }
+
+    await mutate(record);
+    record.updatedAt = new Date().toISOString();
+
+    this.writeDB(db);
+    return this.hydratePlaylist(record);
+  }
+
+  private async buildTrackEntries(
+    playlistId: string,
+    trackIds: string[],
+    addedById: string
+  ): Promise<StoredPlaylistTrack[]> {
+    const known = await getCatalog().getTracks(trackIds);
+    const knownIds = new Set(known.map(track => track.id));
+    const addedAt = new Date().toISOString();
+
+    return trackIds
+      .filter(trackId => knownIds.has(trackId))
+      .map((trackId, index) => ({
+        id: `${this.generateId(`playlist-track-${playlistId}`)}-${index}`,
+        trackId,
+        addedAt,
+        addedById,
+      }));
+  }
+
+  private async hydratePlaylist(record: StoredPlaylist): Promise<Playlist> {
+    const owner = await this.resolveUser(record.ownerId);
+    const catalogTracks = await getCatalog().getTracks(record.tracks.map(entry => entry.trackId));
+    const trackById = new Map<string, Track>(catalogTracks.map(track => [track.id, track]));
+
+    const users = new Map<string, User>([[owner.id, owner]]);
+    const tracks: PlaylistTrack[] = [];
+
+    for (const entry of record.tracks) {
+      const track = trackById.get(entry.trackId);
+      if (!track) continue; // Track was removed from the catalog
+
+      let addedBy = users.get(entry.addedById);
+      if (!addedBy) {
+        addedBy = await this.resolveUser(entry.addedById);
+        users.set(addedBy.id, addedBy);
+      }
+
+      tracks.push({
+        id: entry.id,
+        track,
+        addedAt: new Date(entry.addedAt),
+        addedBy,
+        position: tracks.length,
+      });
+    }
+
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      imageUrl: record.imageUrl,
+      owner,
+      tracks,
+      isPublic: record.isPublic,
+      collaborative: record.collaborative,
+      followers: record.followers,
+      totalDuration: tracks.reduce((sum, t) => sum + t.track.duration, 0),
+      trackCount: tracks.length,
+      tags: record.tags,
+      folderId: record.folderId,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+      lastPlayedAt: record.lastPlayedAt ? new Date(record.lastPlayedAt) : undefined,
+      playCount: record.playCount,
+      shareUrl: record.shareUrl,
+      isSmartPlaylist: false,
+    };
+  }
+
+  private async hydrateFolder(record: StoredFolder, db: Database): Promise<PlaylistFolder> {
+    const members = db.playlists.filter(p => p.folderId === record.id);
+
+    return {
+      id: record.id,
+      name: record.name,
+      userId: record.userId,
+      playlists: await Promise.all(members.map(member => this.hydratePlaylist(member))),
+      color: record.color,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+    };
+  }
+
+  private async resolveUser(userId: string): Promise<User> {
+    const user = await authDB.getUserById(userId);
+    if (user) {
+      return user;
+    }
+
+    // Fallback for users that no longer exist in the auth database
+    return {
+      id: userId,
+      email: '',
+      username: 'unknown',
+      displayName: 'Unknown User',
+      isPremium: false,
+      subscriptionTier: 'free',
+      subscriptionStatus: 'active',
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    };
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+  }
+}
+
+export const playlistRepository: PlaylistRepository = new FilePlaylistRepository();
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import type { UserPreferences } from '@/types';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'preferences.json');
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  favoriteGenres: [],
+  preferredAudioQuality: 'high',
+  autoplay: true,
+  crossfade: false,
+  volumeNormalization: 'track',
+  showExplicitContent: true,
+  privateSession: false,
+};
+
+interface Database {
+  preferences: Record<string, Partial<UserPreferences>>;
+}
+
+/**
+ * Storage contract for per-user playback and app settings
+ */
+export interface PreferencesRepository {
+  getPreferences(userId: string): Promise<UserPreferences>;
+  updatePreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences>;
+}
+
+/**
+ * JSON file implementation of PreferencesRepository. Only settings a user
+ * has changed are stored; everything else falls back to the defaults, so
+ * new settings reach existing users without a migration.
+ */
+export class FilePreferencesRepository implements PreferencesRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { preferences: {} };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return { preferences: data.preferences || {} };
+    } catch (error) {
+      console.error('Error reading preferences database:', error);
+      return { preferences: {} };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing preferences database:', error);
+      throw new Error('Failed to save preferences data');
+    }
+  }
+
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    return { ...DEFAULT_USER_PREFERENCES, ...this.readDB().preferences[userId] };
+  }
+
+  async updatePreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences> {
+    const db = this.readDB();
+    const stored = { ...db.preferences[userId] };
+
+    (Object.keys(updates) as (keyof UserPreferences)[]).forEach(key => {
+      if (updates[key] !== undefined) {
+        Object.assign(stored, { [key]: updates[key] });
+      }
+    });
+
+    db.preferences[userId] = stored;
+    this.writeDB(db);
+
+    return { ...DEFAULT_USER_PREFERENCES, ...stored };
+  }
+}
+
+export const preferencesRepository: PreferencesRepository = new FilePreferencesRepository();
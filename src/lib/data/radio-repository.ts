@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import type { RadioRating, RadioSeedType } from '@/types';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'radio.json');
+
+// Older served tracks fall out of the window and may be played again
+export const MAX_SERVED_TRACKS = 200;
+
+interface StoredStation {
+  userId: string;
+  seedType: RadioSeedType;
+  seedId: string;
+  servedTrackIds: string[]; // oldest first
+  ratings: Record<string, RadioRating>;
+  updatedAt: string;
+}
+
+interface Database {
+  stations: StoredStation[];
+}
+
+export interface RadioStationState {
+  servedTrackIds: string[];
+  ratings: Record<string, RadioRating>;
+}
+
+/**
+ * Storage contract for a listener's radio stations: what each station has
+ * already served and the thumbs up/down given on it
+ */
+export interface RadioRepository {
+  getStation(userId: string, seedType: RadioSeedType, seedId: string): Promise<RadioStationState>;
+  recordServed(userId: string, seedType: RadioSeedType, seedId: string, trackIds: string[]): Promise<void>;
+  rateTrack(
+    userId: string,
+    seedType: RadioSeedType,
+    seedId: string,
+    trackId: string,
+    rating: RadioRating | null
+  ): Promise<RadioStationState>;
+  resetStation(userId: string, seedType: RadioSeedType, seedId: string): Promise<void>;
+}
+
+/**
+ * JSON file implementation of RadioRepository. A station is created the
+ * first time it is used; resetting it forgets what was served but keeps
+ * the listener's ratings.
+ */
+export class FileRadioRepository implements RadioRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { stations: [] };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return { stations: data.stations || [] };
+    } catch (error) {
+      console.error('Error reading radio database:', error);
+      return { stations: [] };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing radio database:', error);
+      throw new Error('Failed to save radio data');
+    }
+  }
+
+  private findOrCreate(db: Database, userId: string, seedType: RadioSeedType, seedId: string): StoredStation {
+    let station = db.stations.find(entry =>
+      entry.userId === userId && entry.seedType === seedType && entry.seedId === seedId
+    );
+
+    if (!station) {
+      station = { userId, seedType, seedId, servedTrackIds: [], ratings: {}, updatedAt: new Date().toISOString() };
+      db.stations.push(station);
+    }
+
+    return station;
+  }
+
+  async getStation(userId: string, seedType: RadioSeedType, seedId: string): Promise<RadioStationState> {
+    const station = this.readDB().stations.find(entry =>
+      entry.userId === userId && entry.seedType === seedType && entry.seedId === seedId
+    );
+
+    return {
+      servedTrackIds: station?.servedTrackIds ?? [],
+      ratings: station?.ratings ?? {},
+    };
+  }
+
+  async recordServed(userId: string, seedType: RadioSeedType, seedId: string, trackIds: string[]): Promise<void> {
+    if (trackIds.length === 0) return;
+
+    const db = this.readDB();
+    const station = this.findOrCreate(db, userId, seedType, seedId);
+
+    // A track served again moves to the end of the window
+    station.servedTrackIds = station.servedTrackIds
+      .filter(trackId => !trackIds.includes(trackId))
+      .concat(trackIds)
+      .slice(-MAX_SERVED_TRACKS);
+    station.updatedAt = new Date().toISOString();
+
+    this.writeDB(db);
+  }
+
+  async rateTrack(
+    userId: string,
+    seedType: RadioSeedType,
+    seedId: string,
+    trackId: string,
+    rating: RadioRating | null
+  ): Promise<RadioStationState> {
+    const db = this.readDB();
+    const station = this.findOrCreate(db, userId, seedType, seedId);
+
+    if (rating) {
+      station.ratings[trackId] = rating;
+    } else {
+      delete station.ratings[trackId];
+    }
+    station.updatedAt = new Date().toISOString();
+
+    this.writeDB(db);
+
+    return { servedTrackIds: station.servedTrackIds, ratings: station.ratings };
+  }
+
+  async resetStation(userId: string, seedType: RadioSeedType, seedId: string): Promise<void> {
+    const db = this.readDB();
+    const station = db.stations.find(entry =>
+      entry.userId === userId && entry.seedType === seedType && entry.seedId === seedId
+    );
+    if (!station || station.servedTrackIds.length === 0) return;
+
+    station.servedTrackIds = [];
+    station.updatedAt = new Date().toISOString();
+    this.writeDB(db);
+  }
+}
+
+export const radioRepository: RadioRepository = new FileRadioRepository();
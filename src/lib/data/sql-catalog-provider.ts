@@ -0,0 +1,347 @@
+import type { Track, Artist, Album, ReplayGain } from '@/types';
+import type { CatalogProvider } from './catalog-provider';
+import { unknownAlbum, unknownArtist } from './catalog-placeholders';
+
+/**
+ * Minimal query interface the SQL adapter needs. Wrap any driver
+ * (better-sqlite3, mysql2, pg with `?` rewriting) in this shape.
+ * Queries use `?` positional placeholders.
+ */
+export interface SqlClient {
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+/**
+ * Expected schema. Genres are stored in join tables so genre lookups
+ * can use an index instead of scanning JSON columns.
+ */
+export const CATALOG_SQL_SCHEMA = `
+CREATE TABLE IF NOT EXISTS artists (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  bio TEXT,
+  image_url TEXT,
+  followers INTEGER NOT NULL DEFAULT 0,
+  is_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  popularity INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS albums (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist_id TEXT NOT NULL REFERENCES artists(id),
+  release_date TEXT NOT NULL,
+  total_tracks INTEGER NOT NULL DEFAULT 0,
+  image_url TEXT,
+  type TEXT NOT NULL DEFAULT 'album'
+);
+
+CREATE TABLE IF NOT EXISTS tracks (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist_id TEXT NOT NULL REFERENCES artists(id),
+  album_id TEXT NOT NULL REFERENCES albums(id),
+  duration INTEGER NOT NULL,
+  preview_url TEXT,
+  stream_url TEXT,
+  is_explicit BOOLEAN NOT NULL DEFAULT FALSE,
+  popularity INTEGER NOT NULL DEFAULT 0,
+  track_number INTEGER,
+  release_date TEXT NOT NULL,
+  image_url TEXT,
+  track_gain REAL,
+  track_peak REAL,
+  album_gain REAL,
+  album_peak REAL,
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS artist_genres (artist_id TEXT NOT NULL, genre TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS album_genres (album_id TEXT NOT NULL, genre TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS track_genres (track_id TEXT NOT NULL, genre TEXT NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_albums_artist ON albums(artist_id);
+CREATE INDEX IF NOT EXISTS idx_tracks_artist ON tracks(artist_id);
+CREATE INDEX IF NOT EXISTS idx_tracks_album ON tracks(album_id);
+CREATE INDEX IF NOT EXISTS idx_artist_genres ON artist_genres(artist_id);
+CREATE INDEX IF NOT EXISTS idx_album_genres ON album_genres(album_id);
+CREATE INDEX IF NOT EXISTS idx_track_genres_track ON track_genres(track_id);
+CREATE INDEX IF NOT EXISTS idx_track_genres_genre ON track_genres(genre);
+`;
+
+interface ArtistRow {
+  id: string;
+  name: string;
+  bio: string | null;
+  image_url: string | null;
+  followers: number;
+  is_verified: boolean | number;
+  popularity: number;
+}
+
+interface AlbumRow {
+  id: string;
+  title: string;
+  artist_id: string;
+  release_date: string;
+  total_tracks: number;
+  image_url: string | null;
+  type: string;
+}
+
+interface TrackRow {
+  id: string;
+  title: string;
+  artist_id: string;
+  album_id: string;
+  duration: number;
+  preview_url: string | null;
+  stream_url: string | null;
+  is_explicit: boolean | number;
+  popularity: number;
+  track_number: number | null;
+  release_date: string;
+  image_url: string | null;
+  track_gain: number | null;
+  track_peak: number | null;
+  album_gain: number | null;
+  album_peak: number | null;
+}
+
+interface GenreRow {
+  owner_id: string;
+  genre: string;
+}
+
+const TRACK_COLUMNS = 'id, title, artist_id, album_id, duration, preview_url, stream_url, is_explicit, popularity, track_number, release_date, image_url, track_gain, track_peak, album_gain, album_peak';
+
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function toReplayGain(row: TrackRow): ReplayGain | undefined {
+  if (row.track_gain === null || row.track_peak === null) return undefined;
+
+  return {
+    trackGain: Number(row.track_gain),
+    trackPeak: Number(row.track_peak),
+    albumGain: row.album_gain === null ? undefined : Number(row.album_gain),
+    albumPeak: row.album_peak === null ? undefined : Number(row.album_peak),
+  };
+}
+
+/**
+ * Catalog adapter backed by a SQL database (see CATALOG_SQL_SCHEMA).
+ * Related artists and albums are fetched in batches and joined in memory;
+ * rows referencing a missing artist or album are joined to the same
+ * "Unknown" placeholders as the JSON catalog.
+ */
+export class SqlCatalogProvider implements CatalogProvider {
+  readonly name = 'sql';
+
+  constructor(private readonly client: SqlClient) {}
+
+  async getTrack(id: string): Promise<Track | null> {
+    const [track] = await this.getTracks([id]);
+    return track || null;
+  }
+
+  async getTracks(ids: string[]): Promise<Track[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await this.client.query<TrackRow>(
+      `SELECT ${TRACK_COLUMNS} FROM tracks WHERE id IN (${placeholders(ids.length)})`,
+      ids
+    );
+    const tracks = await this.hydrateTracks(rows);
+    const byId = new Map(tracks.map(track => [track.id, track]));
+
+    // Preserve the requested order
+    return ids.map(id => byId.get(id)).filter((track): track is Track => !!track);
+  }
+
+  async getAllTracks(): Promise<Track[]> {
+    const rows = await this.client.query<TrackRow>(
+      `SELECT ${TRACK_COLUMNS} FROM tracks ORDER BY position`
+    );
+    return this.hydrateTracks(rows);
+  }
+
+  async getTracksByArtist(artistId: string): Promise<Track[]> {
+    const rows = await this.client.query<TrackRow>(
+      `SELECT ${TRACK_COLUMNS} FROM tracks WHERE artist_id = ? ORDER BY position`,
+      [artistId]
+    );
+    return this.hydrateTracks(rows);
+  }
+
+  async getTracksByAlbum(albumId: string): Promise<Track[]> {
+    const rows = await this.client.query<TrackRow>(
+      `SELECT ${TRACK_COLUMNS} FROM tracks WHERE album_id = ? ORDER BY track_number`,
+      [albumId]
+    );
+    return this.hydrateTracks(rows);
+  }
+
+  async getTracksByGenres(genres: string[]): Promise<Track[]> {
+    if (genres.length === 0) return [];
+
+    const rows = await this.client.query<TrackRow>(
+      `SELECT ${TRACK_COLUMNS} FROM tracks WHERE id IN (
+        SELECT track_id FROM track_genres WHERE genre IN (${placeholders(genres.length)})
+      ) ORDER BY position`,
+      genres
+    );
+    return this.hydrateTracks(rows);
+  }
+
+  async getArtist(id: string): Promise<Artist | null> {
+    const [artist] = await this.getArtists([id]);
+    return artist || null;
+  }
+
+  async getArtists(ids: string[]): Promise<Artist[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await this.client.query<ArtistRow>(
+      `SELECT * FROM artists WHERE id IN (${placeholders(ids.length)})`,
+      ids
+    );
+    const artists = await this.hydrateArtists(rows);
+    const byId = new Map(artists.map(artist => [artist.id, artist]));
+
+    return ids.map(id => byId.get(id)).filter((artist): artist is Artist => !!artist);
+  }
+
+  async getAllArtists(): Promise<Artist[]> {
+    const rows = await this.client.query<ArtistRow>('SELECT * FROM artists ORDER BY name');
+    return this.hydrateArtists(rows);
+  }
+
+  async getAlbum(id: string): Promise<Album | null> {
+    const [album] = await this.getAlbums([id]);
+    return album || null;
+  }
+
+  async getAlbums(ids: string[]): Promise<Album[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await this.client.query<AlbumRow>(
+      `SELECT * FROM albums WHERE id IN (${placeholders(ids.length)})`,
+      ids
+    );
+    const albums = await this.hydrateAlbums(rows);
+    const byId = new Map(albums.map(album => [album.id, album]));
+
+    return ids.map(id => byId.get(id)).filter((album): album is Album => !!album);
+  }
+
+  async getAllAlbums(): Promise<Album[]> {
+    const rows = await this.client.query<AlbumRow>('SELECT * FROM albums ORDER BY release_date DESC');
+    return this.hydrateAlbums(rows);
+  }
+
+  async getAlbumsByArtist(artistId: string): Promise<Album[]> {
+    const rows = await this.client.query<AlbumRow>(
+      'SELECT * FROM albums WHERE artist_id = ? ORDER BY release_date DESC',
+      [artistId]
+    );
+    return this.hydrateAlbums(rows);
+  }
+
+  private async loadGenres(table: 'artist_genres' | 'album_genres' | 'track_genres', ids: string[]): Promise<Map<string, string[]>> {
+    const genres = new Map<string, string[]>();
+    if (ids.length === 0) return genres;
+
+    const column = table.replace('_genres', '_id');
+    const rows = await this.client.query<GenreRow>(
+      `SELECT ${column} AS owner_id, genre FROM ${table} WHERE ${column} IN (${placeholders(ids.length)})`,
+      ids
+    );
+
+    for (const row of rows) {
+      const list = genres.get(row.owner_id) || [];
+      list.push(row.genre);
+      genres.set(row.owner_id, list);
+    }
+    return genres;
+  }
+
+  private async hydrateArtists(rows: ArtistRow[]): Promise<Artist[]> {
+    const genres = await this.loadGenres('artist_genres', rows.map(row => row.id));
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      bio: row.bio ?? undefined,
+      imageUrl: row.image_url ?? undefined,
+      genres: genres.get(row.id) || [],
+      followers: Number(row.followers),
+      isVerified: Boolean(row.is_verified),
+      popularity: Number(row.popularity),
+    }));
+  }
+
+  private async hydrateAlbums(rows: AlbumRow[], knownArtists = new Map<string, Artist>()): Promise<Album[]> {
+    const missingArtistIds = unique(rows.map(row => row.artist_id)).filter(id => !knownArtists.has(id));
+    const artists = new Map(knownArtists);
+    for (const artist of await this.getArtists(missingArtistIds)) {
+      artists.set(artist.id, artist);
+    }
+    const genres = await this.loadGenres('album_genres', rows.map(row => row.id));
+
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      artist: artists.get(row.artist_id) || unknownArtist(row.artist_id),
+      releaseDate: new Date(row.release_date),
+      totalTracks: Number(row.total_tracks),
+      imageUrl: row.image_url ?? undefined,
+      genres: genres.get(row.id) || [],
+      type: row.type === 'single' || row.type === 'compilation' ? row.type : 'album',
+    }));
+  }
+
+  private async hydrateTracks(rows: TrackRow[]): Promise<Track[]> {
+    if (rows.length === 0) return [];
+
+    const artists = new Map(
+      (await this.getArtists(unique(rows.map(row => row.artist_id)))).map(artist => [artist.id, artist])
+    );
+
+    const albumIds = unique(rows.map(row => row.album_id));
+    const albumRows = await this.client.query<AlbumRow>(
+      `SELECT * FROM albums WHERE id IN (${placeholders(albumIds.length)})`,
+      albumIds
+    );
+    const albums = new Map(
+      (await this.hydrateAlbums(albumRows, artists)).map(album => [album.id, album])
+    );
+    const genres = await this.loadGenres('track_genres', rows.map(row => row.id));
+
+    return rows.map(row => {
+      const artist = artists.get(row.artist_id) || unknownArtist(row.artist_id);
+
+      return {
+        id: row.id,
+        title: row.title,
+        artist,
+        album: albums.get(row.album_id) || unknownAlbum(row.album_id, artist),
+        duration: Number(row.duration),
+        previewUrl: row.preview_url ?? undefined,
+        streamUrl: row.stream_url ?? undefined,
+        isExplicit: Boolean(row.is_explicit),
+        popularity: Number(row.popularity),
+        trackNumber: row.track_number ?? undefined,
+        genres: genres.get(row.id) || [],
+        releaseDate: new Date(row.release_date),
+        imageUrl: row.image_url ?? undefined,
+        replayGain: toReplayGain(row),
+      };
+    });
+  }
+}
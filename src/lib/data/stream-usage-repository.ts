@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import type { AudioQuality } from '@/lib/subscription/audio-quality-manager';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'stream-usage.json');
+
+/**
+ * Bytes of audio a listener was sent in one calendar month (UTC)
+ */
+export interface StreamUsage {
+  month: string; // YYYY-MM
+  totalBytes: number;
+  bytesByQuality: Partial<Record<AudioQuality, number>>;
+  streams: number;
+}
+
+export interface RecordStreamInput {
+  trackId: string;
+  quality: AudioQuality;
+  bytes: number;
+  servedAt: Date;
+}
+
+interface Database {
+  // userId -> month -> usage
+  usage: Record<string, Record<string, StreamUsage>>;
+}
+
+/**
+ * Storage contract for data-usage accounting of streamed audio
+ */
+export interface StreamUsageRepository {
+  recordStream(userId: string, stream: RecordStreamInput): Promise<StreamUsage>;
+  getUsage(userId: string, month: string): Promise<StreamUsage | null>;
+}
+
+export function toUsageMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * JSON file implementation of StreamUsageRepository. Usage is kept as
+ * monthly totals rather than one entry per request.
+ */
+export class FileStreamUsageRepository implements StreamUsageRepository {
+  constructor(private readonly dbPath: string = DEFAULT_DB_PATH) {}
+
+  private readDB(): Database {
+    if (!fs.existsSync(this.dbPath)) {
+      return { usage: {} };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dbPath, 'utf8'));
+      return { usage: data.usage || {} };
+    } catch (error) {
+      console.error('Error reading stream usage database:', error);
+      return { usage: {} };
+    }
+  }
+
+  private writeDB(data: Database): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      fs.writeFileSync(this.dbPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Error writing stream usage database:', error);
+      throw new Error('Failed to save stream usage data');
+    }
+  }
+
+  async recordStream(userId: string, stream: RecordStreamInput): Promise<StreamUsage> {
+    const db = this.readDB();
+    const month = toUsageMonth(stream.servedAt);
+    const months = db.usage[userId] ?? {};
+    const usage = months[month] ?? { month, totalBytes: 0, bytesByQuality: {}, streams: 0 };
+
+    usage.totalBytes += stream.bytes;
+    usage.bytesByQuality[stream.quality] = (usage.bytesByQuality[stream.quality] ?? 0) + stream.bytes;
+    usage.streams += 1;
+
+    months[month] = usage;
+    db.usage[userId] = months;
+    this.writeDB(db);
+
+    return usage;
+  }
+
+  async getUsage(userId: string, month: string): Promise<StreamUsage | null> {
+    return this.readDB().usage[userId]?.[month] ?? null;
+  }
+}
+
+export const streamUsageRepository: StreamUsageRepository = new FileStreamUsageRepository();
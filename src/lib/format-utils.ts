@@ -143,4 +143,16 @@ export function getRelativeTime(date: Date | string): string {
   if (diffMonths < 12) return `${diffMonths} months ago`;
   if (diffYears === 1) return '1 year ago';
   return `${diffYears} years ago`;
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a size in bytes for storage readouts
+ * @param bytes Size in bytes
+ * @returns Formatted size string (e.g., "512 KB", "4.2 MB", "1.5 GB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1).replace(/\.0$/, '')} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(1).replace(/\.0$/, '')} GB`;
+}
@@ -0,0 +1,58 @@
+import { findActiveIndex, parseLrc } from '../lrc';
+
+describe('parseLrc', () => {
+  it('reads time-coded lines in time order, with repeated lines expanded', () => {
+    const { lines, text } = parseLrc([
+      '[ti:Song]',
+      '[ar:Artist]',
+      '[00:12.00]First line',
+      '[00:05.50][01:02.25]Chorus',
+      '[00:20.123]',
+      '[1:30:50]Last line',
+    ].join('\n'));
+
+    expect(lines).toEqual([
+      { time: 5.5, text: 'Chorus' },
+      { time: 12, text: 'First line' },
+      { time: 20.123, text: '' },
+      { time: 62.25, text: 'Chorus' },
+      { time: 90.5, text: 'Last line' },
+    ]);
+    expect(text).toBe('Chorus\nFirst line\n\nChorus\nLast line');
+  });
+
+  it('applies the offset tag', () => {
+    const { lines } = parseLrc('[offset:+500]\n[00:10.00]Line\n[00:00.20]Intro');
+    expect(lines.map(line => line.time)).toEqual([0, 9.5]);
+  });
+
+  it('reads enhanced LRC word timings', () => {
+    const { lines } = parseLrc('[00:10.00]<00:10.00>Hello <00:10.50>there <00:11.20>world<00:12.00>');
+
+    expect(lines[0]?.text).toBe('Hello there world');
+    expect(lines[0]?.words).toEqual([
+      { time: 10, text: 'Hello ' },
+      { time: 10.5, text: 'there ' },
+      { time: 11.2, text: 'world' },
+    ]);
+  });
+
+  it('falls back to plain text for lyrics without time tags', () => {
+    expect(parseLrc('[ar:Artist]\nJust some words\r\nand more\n')).toEqual({
+      lines: [],
+      text: 'Just some words\nand more',
+    });
+  });
+});
+
+describe('findActiveIndex', () => {
+  const lines = [{ time: 5 }, { time: 10 }, { time: 20 }];
+
+  it('finds the last line that has started', () => {
+    expect(findActiveIndex(lines, 0)).toBe(-1);
+    expect(findActiveIndex(lines, 5)).toBe(0);
+    expect(findActiveIndex(lines, 19.9)).toBe(1);
+    expect(findActiveIndex(lines, 300)).toBe(2);
+    expect(findActiveIndex([], 3)).toBe(-1);
+  });
+});
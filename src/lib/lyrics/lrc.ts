@@ -0,0 +1,121 @@
+import type { Lyrics, LyricsLine, LyricsWord } from '@/types';
+
+/**
+ * LRC lyrics: lines start with "[mm:ss.xx]" time tags (several when a line
+ * repeats), and ID tags such as "[ar:Artist]" or "[offset:+250]" describe
+ * the file. Enhanced LRC adds "<mm:ss.xx>" tags in front of words. Text
+ * without any time tags is taken as unsynced lyrics.
+ */
+
+const LINE_TIME_TAGS = /^((?:\[\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?\])+)(.*)$/;
+const TIME_TAG = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const WORD_TIME_TAG = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const ID_TAG = /^\[([a-z#]+):(.*)\]$/i;
+
+function toSeconds(minutes: string, seconds: string, fraction?: string): number {
+  // "xx" is hundredths and "xxx" thousandths of a second
+  const fractional = fraction ? Number(fraction) / 10 ** fraction.length : 0;
+  return Number(minutes) * 60 + Number(seconds) + fractional;
+}
+
+function parseWords(body: string, lineTime: number): { text: string; words?: LyricsWord[] } {
+  const tags = [...body.matchAll(WORD_TIME_TAG)];
+  if (tags.length === 0) return { text: body.trim() };
+
+  const words: LyricsWord[] = [];
+  const leading = body.slice(0, tags[0]?.index).trim();
+  if (leading) {
+    words.push({ time: lineTime, text: `${leading} ` });
+  }
+
+  tags.forEach((tag, index) => {
+    const start = (tag.index ?? 0) + tag[0].length;
+    const end = tags[index + 1]?.index ?? body.length;
+    const text = body.slice(start, end);
+
+    // A tag at the very end only marks when the last word stops
+    if (text.trim()) {
+      words.push({ time: toSeconds(tag[1] ?? '0', tag[2] ?? '0', tag[3]), text });
+    }
+  });
+
+  return {
+    text: body.replace(WORD_TIME_TAG, '').replace(/\s+/g, ' ').trim(),
+    words,
+  };
+}
+
+/**
+ * Parses LRC or enhanced LRC. Lines come back in time order with the
+ * file's offset applied.
+ */
+export function parseLrc(content: string): Pick<Lyrics, 'lines' | 'text'> {
+  const lines: LyricsLine[] = [];
+  const plainLines: string[] = [];
+  let offset = 0;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const timed = LINE_TIME_TAGS.exec(line);
+
+    if (timed) {
+      const [, tags = '', body = ''] = timed;
+      for (const tag of tags.matchAll(TIME_TAG)) {
+        const time = toSeconds(tag[1] ?? '0', tag[2] ?? '0', tag[3]);
+        lines.push({ time, ...parseWords(body, time) });
+      }
+      continue;
+    }
+
+    const idTag = ID_TAG.exec(line);
+    if (idTag) {
+      // Positive offsets (in ms) show the lyrics sooner
+      if (idTag[1]?.toLowerCase() === 'offset') {
+        offset = Number(idTag[2]?.trim()) / 1000 || 0;
+      }
+      continue;
+    }
+
+    plainLines.push(line);
+  }
+
+  if (lines.length === 0) {
+    return { lines, text: plainLines.join('\n').trim() };
+  }
+
+  const shift = (time: number) => Math.max(0, time - offset);
+  const synced = lines
+    .map(line => ({
+      ...line,
+      time: shift(line.time),
+      ...(line.words && { words: line.words.map(word => ({ ...word, time: shift(word.time) })) }),
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  return {
+    lines: synced,
+    text: synced.map(line => line.text).join('\n').trim(),
+  };
+}
+
+/**
+ * Index of the last line (or word) that has started by `time`, or -1
+ * before the first one
+ */
+export function findActiveIndex(items: { time: number }[], time: number): number {
+  let low = 0;
+  let high = items.length - 1;
+  let active = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if ((items[middle]?.time ?? Infinity) <= time) {
+      active = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return active;
+}
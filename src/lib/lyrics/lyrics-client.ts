@@ -0,0 +1,16 @@
+import type { Lyrics } from '@/types';
+
+/**
+ * A track's lyrics, or null when it has none
+ */
+export async function fetchLyrics(trackId: string): Promise<Lyrics | null> {
+  const response = await fetch(`/api/track/${encodeURIComponent(trackId)}/lyrics`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Lyrics request failed with status ${response.status}`);
+  }
+
+  const { data } = await response.json();
+  return data;
+}
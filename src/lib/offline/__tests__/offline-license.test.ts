@@ -0,0 +1,24 @@
+import { OFFLINE_LICENSE_DAYS, getLicenseExpiry, isLicenseValid, needsRenewal } from '../offline-license';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-01-01T00:00:00Z');
+const inDays = (days: number) => new Date(now.getTime() + days * DAY);
+
+describe('offline licenses', () => {
+  it('last 30 days', () => {
+    expect(getLicenseExpiry(now)).toEqual(inDays(OFFLINE_LICENSE_DAYS));
+  });
+
+  it('only play downloads before they expire', () => {
+    expect(isLicenseValid({ expiresAt: inDays(1) }, now)).toBe(true);
+    expect(isLicenseValid({ expiresAt: now }, now)).toBe(false);
+    expect(isLicenseValid({}, now)).toBe(false);
+  });
+
+  it('renew once there is less than a week left', () => {
+    expect(needsRenewal({ expiresAt: inDays(20) }, now)).toBe(false);
+    expect(needsRenewal({ expiresAt: inDays(6) }, now)).toBe(true);
+    expect(needsRenewal({ expiresAt: inDays(-1) }, now)).toBe(true);
+    expect(needsRenewal({}, now)).toBe(true);
+  });
+});
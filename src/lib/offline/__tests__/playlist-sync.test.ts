@@ -0,0 +1,75 @@
+import type { Track } from '@/types';
+import type { OfflineDownload } from '../offline-db';
+import { estimateDownloadSize, planPlaylistSync } from '../playlist-sync';
+
+const track = (id: string, duration = 200) => ({ id, duration }) as Track;
+
+const download = (trackId: string, overrides: Partial<OfflineDownload> = {}) => ({
+  trackId,
+  size: 1_000_000,
+  complete: true,
+  fromPlaylistSync: true,
+  ...overrides,
+}) as OfflineDownload;
+
+describe('planPlaylistSync', () => {
+  it('downloads additions and evicts removals', () => {
+    const plan = planPlaylistSync({
+      previousTrackIds: ['a', 'b'],
+      tracks: [track('a'), track('c')],
+      downloads: { a: download('a'), b: download('b') },
+      keptTrackIds: new Set(),
+      storageCap: null,
+    });
+
+    expect(plan.toDownload.map(t => t.id)).toEqual(['c']);
+    expect(plan.toEvict).toEqual(['b']);
+    expect(plan.overCap).toEqual([]);
+  });
+
+  it('keeps removals that another playlist has or that were downloaded on their own', () => {
+    const plan = planPlaylistSync({
+      previousTrackIds: ['a', 'b', 'c'],
+      tracks: [],
+      downloads: { a: download('a'), b: download('b', { fromPlaylistSync: false }), c: download('c') },
+      keptTrackIds: new Set(['a']),
+      storageCap: null,
+    });
+
+    expect(plan.toEvict).toEqual(['c']);
+  });
+
+  it('resumes partial downloads', () => {
+    const plan = planPlaylistSync({
+      previousTrackIds: ['a'],
+      tracks: [track('a')],
+      downloads: { a: download('a', { complete: false }) },
+      keptTrackIds: new Set(),
+      storageCap: null,
+    });
+
+    expect(plan.toDownload.map(t => t.id)).toEqual(['a']);
+  });
+
+  it('leaves out additions past the storage cap, counting what evictions free', () => {
+    const size = estimateDownloadSize(track('x'));
+    const plan = planPlaylistSync({
+      previousTrackIds: ['a', 'b'],
+      tracks: [track('a'), track('c'), track('d')],
+      downloads: { a: download('a', { size }), b: download('b', { size }) },
+      keptTrackIds: new Set(),
+      storageCap: size * 2,
+    });
+
+    expect(plan.toEvict).toEqual(['b']);
+    expect(plan.toDownload.map(t => t.id)).toEqual(['c']);
+    expect(plan.overCap.map(t => t.id)).toEqual(['d']);
+  });
+});
+
+describe('estimateDownloadSize', () => {
+  it('scales with duration and bitrate', () => {
+    expect(estimateDownloadSize(track('a', 100), 'high')).toBe(2 * estimateDownloadSize(track('a', 50), 'high'));
+    expect(estimateDownloadSize(track('a'), 'low')).toBeLessThan(estimateDownloadSize(track('a'), 'high'));
+  });
+});
@@ -0,0 +1,290 @@
+import type { OfflineTrack, Track } from '@/types';
+import { fetchStreamUrl } from '@/lib/audio/stream-url';
+import { fetchLicenses } from './offline-license';
+import {
+  CHUNK_SIZE,
+  deleteDownload,
+  getAudioKey,
+  getChunkAdditionalData,
+  getDownload,
+  getStorageEstimate,
+  putChunk,
+  putDownload,
+  requestPersistentStorage,
+  type OfflineDownload,
+} from './offline-db';
+
+export type DownloadQuality = OfflineTrack['quality'];
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'error';
+
+export interface DownloadProgress {
+  trackId: string;
+  status: DownloadStatus;
+  bytesStored: number;
+  size: number | null; // Unknown until the download starts
+  error?: string;
+}
+
+interface QueuedDownload {
+  track: Track;
+  quality: DownloadQuality;
+  fromPlaylistSync: boolean;
+}
+
+/**
+ * Downloads tracks one at a time through the signed streaming route. Audio
+ * is encrypted and stored a chunk at a time as it arrives, so a download
+ * that's paused, interrupted or cut off by a reload picks up after its
+ * last stored chunk with a Range request.
+ */
+export class DownloadQueue {
+  public onProgress?: (progress: DownloadProgress) => void;
+  public onComplete?: (download: OfflineDownload) => void;
+
+  private queue: QueuedDownload[] = [];
+  private active: { item: QueuedDownload; controller: AbortController; cancelled: boolean } | null = null;
+
+  /**
+   * Queues a track; `fromPlaylistSync` marks downloads made for offline
+   * playlists rather than asked for on their own
+   */
+  enqueue(track: Track, quality: DownloadQuality = 'high', fromPlaylistSync = false): void {
+    const pending = this.findPending(track.id);
+    if (pending) {
+      // Asked for on its own as well, so it outlives the playlist
+      if (!fromPlaylistSync) pending.fromPlaylistSync = false;
+      return;
+    }
+
+    this.queue.push({ track, quality, fromPlaylistSync });
+    this.onProgress?.({ trackId: track.id, status: 'queued', bytesStored: 0, size: null });
+    void this.next();
+  }
+
+  /**
+   * Stops a download, keeping what's been stored so it can resume. Returns
+   * whether it was queued or downloading.
+   */
+  pause(trackId: string): boolean {
+    const queued = this.queue.length;
+    this.queue = this.queue.filter(item => item.track.id !== trackId);
+
+    if (this.active?.item.track.id === trackId) {
+      this.active.controller.abort();
+      return true;
+    }
+    return this.queue.length !== queued;
+  }
+
+  /**
+   * Stops everything, e.g. when the connection drops; returns the tracks
+   * that were queued or downloading
+   */
+  pauseAll(): string[] {
+    const trackIds = this.queue.map(item => item.track.id);
+    this.queue = [];
+
+    if (this.active) {
+      trackIds.unshift(this.active.item.track.id);
+      this.active.controller.abort();
+    }
+    return trackIds;
+  }
+
+  /**
+   * Stops the downloads offline playlists started, e.g. when the connection
+   * stops being Wi-Fi; the next sync starts them again
+   */
+  pausePlaylistDownloads(): void {
+    this.queue = this.queue.filter(item => !item.fromPlaylistSync);
+    if (this.active?.item.fromPlaylistSync) this.active.controller.abort();
+  }
+
+  /**
+   * Stops a download that's about to be deleted; unlike pause() it isn't
+   * reported
+   */
+  cancel(trackId: string): void {
+    if (this.active?.item.track.id === trackId) this.active.cancelled = true;
+    this.pause(trackId);
+  }
+
+  cancelAll(): void {
+    if (this.active) this.active.cancelled = true;
+    this.pauseAll();
+  }
+
+  isPending(trackId: string): boolean {
+    return !!this.findPending(trackId);
+  }
+
+  isPendingFromPlaylistSync(trackId: string): boolean {
+    return !!this.findPending(trackId)?.fromPlaylistSync;
+  }
+
+  private findPending(trackId: string): QueuedDownload | undefined {
+    if (this.active?.item.track.id === trackId) return this.active.item;
+    return this.queue.find(item => item.track.id === trackId);
+  }
+
+  private async next(): Promise<void> {
+    if (this.active) return;
+
+    const item = this.queue.shift();
+    if (!item) return;
+
+    const controller = new AbortController();
+    const active = { item, controller, cancelled: false };
+    this.active = active;
+
+    try {
+      const download = await this.download(item, controller.signal);
+      this.onComplete?.(download);
+    } catch (error) {
+      if (active.cancelled) return;
+
+      const stored = await getDownload(item.track.id).catch(() => null);
+      const aborted = controller.signal.aborted;
+      if (!aborted) console.error(`Failed to download track ${item.track.id}:`, error);
+
+      this.onProgress?.({
+        trackId: item.track.id,
+        status: aborted ? 'paused' : 'error',
+        bytesStored: stored?.bytesStored ?? 0,
+        size: stored?.size ?? null,
+        error: aborted ? undefined : error instanceof Error ? error.message : 'Download failed',
+      });
+    } finally {
+      this.active = null;
+      void this.next();
+    }
+  }
+
+  private async download(item: QueuedDownload, signal: AbortSignal): Promise<OfflineDownload> {
+    const { track, quality } = item;
+
+    // Checked again on every resume, so a lapsed plan can't finish a download
+    const check = await fetchLicenses([track.id]);
+    const license = check?.licenses[0];
+    if (!license) {
+      throw new Error(check ? 'Track is no longer available' : 'Offline downloads require a Premium plan');
+    }
+
+    const stream = await fetchStreamUrl(track.id, quality);
+    let stored = await getDownload(track.id);
+
+    // A partial download of another file (a different quality, or the
+    // file changed since) can't be continued
+    if (stored && (stored.quality !== stream.quality || stored.size !== stream.size)) {
+      await deleteDownload(track.id);
+      stored = null;
+    }
+
+    let download: OfflineDownload = stored ?? {
+      trackId: track.id,
+      track,
+      // Only up to 'high' is asked for, so that's the most that's served
+      quality: stream.quality as DownloadQuality,
+      size: stream.size,
+      contentType: 'application/octet-stream',
+      chunkSize: CHUNK_SIZE,
+      chunkCount: 0,
+      bytesStored: 0,
+      complete: false,
+      downloadedAt: new Date(),
+      fromPlaylistSync: item.fromPlaylistSync,
+    };
+    download = { ...download, expiresAt: license.expiresAt };
+
+    if (download.complete) {
+      signal.throwIfAborted();
+      await putDownload(download);
+      return download;
+    }
+
+    const estimate = await getStorageEstimate();
+    if (estimate && estimate.quota - estimate.usage < download.size - download.bytesStored) {
+      throw new Error('Not enough storage space for this download');
+    }
+    await requestPersistentStorage();
+
+    const response = await fetch(stream.url, {
+      headers: download.bytesStored > 0 ? { Range: `bytes=${download.bytesStored}-` } : undefined,
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+
+    // The server sent the whole file instead of the rest of it
+    if (download.bytesStored > 0 && response.status !== 206) {
+      await deleteDownload(track.id);
+      download = { ...download, chunkCount: 0, bytesStored: 0 };
+    }
+    download.contentType = response.headers.get('Content-Type') ?? download.contentType;
+    signal.throwIfAborted();
+    await putDownload(download);
+
+    this.onProgress?.({ trackId: track.id, status: 'downloading', bytesStored: download.bytesStored, size: download.size });
+
+    const key = await getAudioKey();
+    const reader = response.body.getReader();
+    let buffer = new Uint8Array(CHUNK_SIZE);
+    let buffered = 0;
+
+    const storeChunk = async (data: Uint8Array) => {
+      const index = download.chunkCount;
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const encrypted = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: getChunkAdditionalData(track.id, index) },
+        key,
+        data
+      );
+
+      // Nothing is written once stopped; the download may be being deleted
+      signal.throwIfAborted();
+      download = { ...download, chunkCount: index + 1, bytesStored: download.bytesStored + data.byteLength };
+      await putChunk(download, { trackId: track.id, index, iv, data: encrypted });
+      this.onProgress?.({ trackId: track.id, status: 'downloading', bytesStored: download.bytesStored, size: download.size });
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let offset = 0;
+      while (offset < value.byteLength) {
+        const length = Math.min(CHUNK_SIZE - buffered, value.byteLength - offset);
+        buffer.set(value.subarray(offset, offset + length), buffered);
+        buffered += length;
+        offset += length;
+
+        if (buffered === CHUNK_SIZE) {
+          await storeChunk(buffer);
+          buffer = new Uint8Array(CHUNK_SIZE);
+          buffered = 0;
+        }
+      }
+    }
+
+    // Only the last chunk may be short, or resuming would lose its place
+    if (download.bytesStored + buffered !== download.size) {
+      throw new Error('Download ended early');
+    }
+    if (buffered > 0) {
+      await storeChunk(buffer.subarray(0, buffered));
+    }
+
+    // The track may have been asked for on its own since it was queued
+    download = {
+      ...download,
+      complete: true,
+      downloadedAt: new Date(),
+      fromPlaylistSync: !!download.fromPlaylistSync && item.fromPlaylistSync,
+    };
+    signal.throwIfAborted();
+    await putDownload(download);
+    return download;
+  }
+}
@@ -0,0 +1,226 @@
+import type { OfflinePlaylist, OfflineTrack, Track } from '@/types';
+
+/**
+ * Where downloads are kept: an IndexedDB database holding each download's
+ * metadata, its audio as AES-GCM encrypted chunks, and the playlists kept
+ * available offline. The service worker (public/sw.js) reads the same
+ * database to play downloads, so the names and record shapes here are
+ * shared with it.
+ *
+ * The encryption key is generated on the device and can't be exported, so
+ * the audio never sits in browser storage as plain files. It keeps
+ * downloads inside the app; it isn't DRM.
+ */
+
+export const OFFLINE_DB_NAME = 'offline-audio';
+const OFFLINE_DB_VERSION = 2;
+
+const DOWNLOADS_STORE = 'downloads';
+const CHUNKS_STORE = 'chunks';
+const KEYS_STORE = 'keys';
+const PLAYLISTS_STORE = 'playlists';
+
+const AUDIO_KEY_ID = 'audio';
+
+// Audio is encrypted and stored in chunks of this many bytes, so a partial
+// download keeps everything up to its last whole chunk
+export const CHUNK_SIZE = 512 * 1024;
+
+export interface OfflineDownload extends OfflineTrack {
+  track: Track; // What's shown and played while offline
+  contentType: string;
+  chunkSize: number;
+  chunkCount: number; // Chunks stored so far
+  bytesStored: number;
+  complete: boolean;
+  // Downloaded because it's in an offline playlist rather than on its own,
+  // so it goes when no offline playlist has it any more
+  fromPlaylistSync?: boolean;
+}
+
+/**
+ * A playlist kept available offline. `trackIds` is its track list as of
+ * the last sync, which the next sync diffs against.
+ */
+export interface OfflinePlaylistRecord extends OfflinePlaylist {
+  name: string;
+  trackIds: string[];
+}
+
+export interface OfflineChunk {
+  trackId: string;
+  index: number;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function openOfflineDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(DOWNLOADS_STORE, { keyPath: 'trackId' });
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['trackId', 'index'] });
+        db.createObjectStore(KEYS_STORE);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(PLAYLISTS_STORE, { keyPath: 'playlistId' });
+      }
+    };
+
+    dbPromise = requestResult(request).then(db => {
+      // Let another tab upgrade the database; the next call reopens it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      return db;
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+const chunkRange = (trackId: string) => IDBKeyRange.bound([trackId, 0], [trackId, Infinity]);
+
+export async function getDownloads(): Promise<OfflineDownload[]> {
+  const db = await openOfflineDB();
+  return requestResult(db.transaction(DOWNLOADS_STORE).objectStore(DOWNLOADS_STORE).getAll());
+}
+
+export async function getDownload(trackId: string): Promise<OfflineDownload | null> {
+  const db = await openOfflineDB();
+  const download = await requestResult(db.transaction(DOWNLOADS_STORE).objectStore(DOWNLOADS_STORE).get(trackId));
+  return download ?? null;
+}
+
+export async function putDownload(download: OfflineDownload): Promise<void> {
+  const db = await openOfflineDB();
+  const transaction = db.transaction(DOWNLOADS_STORE, 'readwrite');
+  transaction.objectStore(DOWNLOADS_STORE).put(download);
+  return transactionDone(transaction);
+}
+
+/**
+ * Stores a chunk together with the download's progress, so the two can't
+ * disagree about how much has been downloaded
+ */
+export async function putChunk(download: OfflineDownload, chunk: OfflineChunk): Promise<void> {
+  const db = await openOfflineDB();
+  const transaction = db.transaction([DOWNLOADS_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(CHUNKS_STORE).put(chunk);
+  transaction.objectStore(DOWNLOADS_STORE).put(download);
+  return transactionDone(transaction);
+}
+
+export async function deleteDownload(trackId: string): Promise<void> {
+  const db = await openOfflineDB();
+  const transaction = db.transaction([DOWNLOADS_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(CHUNKS_STORE).delete(chunkRange(trackId));
+  transaction.objectStore(DOWNLOADS_STORE).delete(trackId);
+  return transactionDone(transaction);
+}
+
+/**
+ * Deletes every download, and the offline playlists that would otherwise
+ * download them again
+ */
+export async function clearDownloads(): Promise<void> {
+  const db = await openOfflineDB();
+  const transaction = db.transaction([DOWNLOADS_STORE, CHUNKS_STORE, PLAYLISTS_STORE], 'readwrite');
+  transaction.objectStore(CHUNKS_STORE).clear();
+  transaction.objectStore(DOWNLOADS_STORE).clear();
+  transaction.objectStore(PLAYLISTS_STORE).clear();
+  return transactionDone(transaction);
+}
+
+export async function getOfflinePlaylists(): Promise<OfflinePlaylistRecord[]> {
+  const db = await openOfflineDB();
+  return requestResult(db.transaction(PLAYLISTS_STORE).objectStore(PLAYLISTS_STORE).getAll());
+}
+
+export async function putOfflinePlaylist(playlist: OfflinePlaylistRecord): Promise<void> {
+  const db = await openOfflineDB();
+  const transaction = db.transaction(PLAYLISTS_STORE, 'readwrite');
+  transaction.objectStore(PLAYLISTS_STORE).put(playlist);
+  return transactionDone(transaction);
+}
+
+export async function deleteOfflinePlaylist(playlistId: string): Promise<void> {
+  const db = await openOfflineDB();
+  const transaction = db.transaction(PLAYLISTS_STORE, 'readwrite');
+  transaction.objectStore(PLAYLISTS_STORE).delete(playlistId);
+  return transactionDone(transaction);
+}
+
+/**
+ * The device's key for downloaded audio, generated the first time it's needed
+ */
+export function getAudioKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const db = await openOfflineDB();
+      const stored = await requestResult<CryptoKey | undefined>(
+        db.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(AUDIO_KEY_ID)
+      );
+      if (stored) return stored;
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      const transaction = db.transaction(KEYS_STORE, 'readwrite');
+      transaction.objectStore(KEYS_STORE).put(key, AUDIO_KEY_ID);
+      await transactionDone(transaction);
+      return key;
+    })();
+    keyPromise.catch(() => { keyPromise = null; });
+  }
+  return keyPromise;
+}
+
+/**
+ * Binds a chunk's ciphertext to its place in the track, so chunks can't be
+ * swapped around
+ */
+export function getChunkAdditionalData(trackId: string, index: number): Uint8Array {
+  return new TextEncoder().encode(`${trackId}:${index}`);
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * Asks the browser not to evict downloads when the device runs low on
+ * space. Browsers may say no; downloads still work, they just aren't kept
+ * as reliably.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+}
@@ -0,0 +1,64 @@
+import type { OfflineTrack } from '@/types';
+
+/**
+ * Offline licenses. A download can be played for 30 days from when it was
+ * last checked with the server; while online the player renews licenses
+ * that are close to running out and drops downloads the listener is no
+ * longer entitled to.
+ */
+
+export const OFFLINE_LICENSE_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Renew licenses with less than this left, so a listener who goes offline
+// for a while still has most of a month
+const RENEW_WITHIN = 7 * DAY;
+
+export interface OfflineLicense {
+  trackId: string;
+  expiresAt: Date;
+}
+
+export interface LicenseCheck {
+  licenses: OfflineLicense[];
+  // Tracks that can't be kept offline any more, e.g. removed from the catalog
+  revoked: string[];
+}
+
+export function getLicenseExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + OFFLINE_LICENSE_DAYS * DAY);
+}
+
+export function isLicenseValid(download: Pick<OfflineTrack, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !!download.expiresAt && download.expiresAt.getTime() > now.getTime();
+}
+
+export function needsRenewal(download: Pick<OfflineTrack, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !download.expiresAt || download.expiresAt.getTime() - now.getTime() < RENEW_WITHIN;
+}
+
+/**
+ * Asks the server for licenses to keep `trackIds` offline; null when the
+ * listener's plan doesn't include downloads
+ */
+export async function fetchLicenses(trackIds: string[]): Promise<LicenseCheck | null> {
+  const response = await fetch('/api/offline/licenses', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trackIds }),
+  });
+  if (response.status === 403) return null;
+  if (!response.ok) {
+    throw new Error(`License request failed with status ${response.status}`);
+  }
+
+  const { data } = await response.json();
+  return {
+    licenses: data.licenses.map((license: { trackId: string; expiresAt: string }) => ({
+      trackId: license.trackId,
+      expiresAt: new Date(license.expiresAt),
+    })),
+    revoked: data.revoked,
+  };
+}
@@ -0,0 +1,30 @@
+import type { StreamSource } from '@/lib/audio/advanced-audio-engine';
+import { getDownload } from './offline-db';
+import { isLicenseValid } from './offline-license';
+
+// Served by the service worker from the downloads in IndexedDB
+const OFFLINE_AUDIO_PATH = '/offline-audio';
+
+export async function registerOfflineServiceWorker(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.warn('Service worker registration failed; downloads won\'t play offline:', error);
+  }
+}
+
+/**
+ * Where to play a track's download from, or null when there's no complete,
+ * licensed download or no service worker to serve it
+ */
+export async function getOfflineStreamSource(trackId: string): Promise<StreamSource | null> {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker?.controller) return null;
+
+  const download = await getDownload(trackId).catch(() => null);
+  if (!download?.complete || !isLicenseValid(download)) return null;
+
+  // No size: a local copy says nothing about the connection's throughput
+  return { url: `${OFFLINE_AUDIO_PATH}/${encodeURIComponent(trackId)}` };
+}
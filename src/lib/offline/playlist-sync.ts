@@ -0,0 +1,107 @@
+import type { Playlist, Track } from '@/types';
+import { QUALITY_SETTINGS } from '@/lib/subscription/audio-quality-manager';
+import type { OfflineDownload } from './offline-db';
+import type { DownloadQuality } from './download-queue';
+
+/**
+ * Offline playlists. Every sync diffs a playlist's tracks against its
+ * track list from the last sync: additions are downloaded, up to the
+ * listener's storage cap, and removals are deleted unless another offline
+ * playlist has them or they were downloaded on their own.
+ */
+
+export interface SyncSettings {
+  storageCap: number | null; // bytes; null for no cap
+  wifiOnly: boolean;
+}
+
+export interface PlaylistSyncPlan {
+  toDownload: Track[];
+  toEvict: string[];
+  // Additions left out because they'd take downloads past the storage cap
+  overCap: Track[];
+}
+
+interface PlaylistSyncInput {
+  previousTrackIds: string[];
+  tracks: Track[];
+  downloads: Record<string, OfflineDownload>;
+  // Tracks other offline playlists have, which stay whatever this one does
+  keptTrackIds: Set<string>;
+  storageCap: number | null;
+}
+
+interface NetworkInformation {
+  type?: string;
+}
+
+/**
+ * Roughly how big a track's download will be, from its duration and the
+ * quality's bitrate
+ */
+export function estimateDownloadSize(track: Track, quality: DownloadQuality = 'high'): number {
+  return Math.ceil((track.duration * QUALITY_SETTINGS[quality].bitrate * 1000) / 8);
+}
+
+export function planPlaylistSync({
+  previousTrackIds,
+  tracks,
+  downloads,
+  keptTrackIds,
+  storageCap,
+}: PlaylistSyncInput): PlaylistSyncPlan {
+  const current = new Set(tracks.map(track => track.id));
+  // Without a download there may still be one queued to cancel
+  const isFromSync = (trackId: string) => !downloads[trackId] || !!downloads[trackId].fromPlaylistSync;
+  const toEvict = previousTrackIds.filter(trackId =>
+    !current.has(trackId) && !keptTrackIds.has(trackId) && isFromSync(trackId)
+  );
+
+  // Partial downloads count at their full size, as they'll get there
+  const evicted = new Set(toEvict);
+  let used = Object.values(downloads)
+    .filter(download => !evicted.has(download.trackId))
+    .reduce((total, download) => total + download.size, 0);
+
+  const toDownload: Track[] = [];
+  const overCap: Track[] = [];
+  for (const track of tracks) {
+    const download = downloads[track.id];
+    if (download?.complete) continue;
+
+    if (!download) {
+      const size = estimateDownloadSize(track);
+      if (storageCap !== null && used + size > storageCap) {
+        overCap.push(track);
+        continue;
+      }
+      used += size;
+    }
+    toDownload.push(track);
+  }
+
+  return { toDownload, toEvict, overCap };
+}
+
+/**
+ * Whether the connection allows syncing. Most browsers don't say what kind
+ * of connection they're on; those are let through.
+ */
+export function canSyncOnConnection(wifiOnly: boolean): boolean {
+  if (!wifiOnly || typeof navigator === 'undefined') return true;
+
+  const type = (navigator as Navigator & { connection?: NetworkInformation }).connection?.type;
+  return !type || type === 'wifi' || type === 'ethernet' || type === 'unknown';
+}
+
+/**
+ * A playlist's current tracks; null once it's been deleted or made private
+ */
+export async function fetchPlaylist(playlistId: string): Promise<Playlist | null> {
+  const response = await fetch(`/api/playlist/${encodeURIComponent(playlistId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Playlist request failed with status ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,52 @@
+import type { TrackFeatures } from '@/types';
+import { ContentAnalyzer } from '../content-analyzer';
+
+describe('ContentAnalyzer', () => {
+  const features = (trackId: string, overrides: Partial<TrackFeatures>): TrackFeatures => ({
+    trackId,
+    danceability: 0.5,
+    energy: 0.5,
+    valence: 0.5,
+    acousticness: 0.5,
+    instrumentalness: 0.5,
+    liveness: 0.1,
+    speechiness: 0.05,
+    tempo: 120,
+    loudness: -10,
+    mode: 1,
+    key: 0,
+    timeSignature: 4,
+    duration: 200,
+    genres: ['Pop'],
+    moodTags: [],
+    contextTags: [],
+    ...overrides,
+  });
+
+  const analyzer = new ContentAnalyzer({
+    analyzerVersion: 1,
+    generatedAt: '2024-01-01T00:00:00.000Z',
+    tracks: {
+      'track-a': features('track-a', { energy: 0.9, danceability: 0.8, acousticness: 0.1, tempo: 128 }),
+      'track-b': features('track-b', { energy: 0.85, danceability: 0.75, acousticness: 0.15, tempo: 126 }),
+      'track-c': features('track-c', {
+        energy: 0.1,
+        danceability: 0.2,
+        acousticness: 0.95,
+        tempo: 70,
+        genres: ['Folk'],
+      }),
+    },
+  });
+
+  it('serves the analyzed features and nothing else', () => {
+    expect(analyzer.getTrackFeatures('track-a')?.tempo).toBe(128);
+    expect(analyzer.getTrackFeatures('track-99')).toBeNull();
+  });
+
+  it('ranks similar tracks by their measured features', () => {
+    expect(analyzer.getSimilarTracks('track-a')).toEqual(['track-b', 'track-c']);
+    expect(analyzer.calculateTrackSimilarity('track-a', 'track-b'))
+      .toBeGreaterThan(analyzer.calculateTrackSimilarity('track-a', 'track-c'));
+  });
+});
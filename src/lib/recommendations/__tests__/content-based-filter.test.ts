@@ -0,0 +1,36 @@
+import { ContentBasedFilter } from '../content-based-filter';
+
+describe('ContentBasedFilter.recommendFromSeeds', () => {
+  const filter = new ContentBasedFilter();
+  const context = { timeOfDay: 'evening', dayOfWeek: 'friday', season: 'fall' } as const;
+
+  const recommend = (overrides: { seedTracks?: string[]; seedArtists?: string[]; excludeTrackIds?: string[] }) =>
+    filter.recommendFromSeeds(
+      { userId: 'user-1', sectionType: 'similar_artists', limit: 10, ...overrides },
+      context
+    );
+
+  it('never recommends the seeds or excluded tracks', async () => {
+    const recommendations = await recommend({ seedTracks: ['track-1'], excludeTrackIds: ['track-2'] });
+    const ids = recommendations.map(recommendation => recommendation.trackId);
+
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids).not.toContain('track-1');
+    expect(ids).not.toContain('track-2');
+  });
+
+  it('ranks tracks by the seed artist first and explains why', async () => {
+    const [first] = await recommend({ seedArtists: ['artist-2'] });
+
+    expect(first?.reasons.map(reason => reason.type)).toContain('similar_artist');
+    expect(['track-3', 'track-4']).toContain(first?.trackId);
+  });
+
+  it('returns scores in descending order within the limit', async () => {
+    const recommendations = await recommend({ seedTracks: ['track-3', 'track-5'] });
+    const scores = recommendations.map(recommendation => recommendation.score);
+
+    expect(recommendations.length).toBeLessThanOrEqual(10);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+});
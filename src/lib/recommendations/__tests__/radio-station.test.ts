@@ -0,0 +1,65 @@
+import type { HistoryRepository } from '@/lib/data/history-repository';
+import type { RadioStationState } from '@/lib/data/radio-repository';
+import { RadioStationGenerator } from '../radio-station';
+
+describe('RadioStationGenerator', () => {
+  const history = {
+    countCoListeners: async () => new Map<string, number>(),
+  } as unknown as HistoryRepository;
+  const generator = new RadioStationGenerator(undefined, history);
+  const newStation = (): RadioStationState => ({ servedTrackIds: [], ratings: {} });
+
+  it('opens a track station with the track itself', async () => {
+    const tracks = await generator.nextTracks({ type: 'track', id: 'track-3' }, newStation(), 5);
+
+    expect(tracks[0]?.id).toBe('track-3');
+    expect(new Set(tracks.map(track => track.id)).size).toBe(5);
+  });
+
+  it('keeps going without repeats until everything has been served', async () => {
+    const station = newStation();
+    const served: string[] = [];
+
+    for (let batch = 0; batch < 4; batch++) {
+      const tracks = await generator.nextTracks({ type: 'artist', id: 'artist-2' }, station, 5);
+      expect(tracks).toHaveLength(5);
+      served.push(...tracks.map(track => track.id));
+      station.servedTrackIds.push(...tracks.map(track => track.id));
+    }
+
+    // The catalog has 25 tracks, so the first 20 are all different
+    expect(new Set(served).size).toBe(20);
+
+    // Once the catalog runs out the station recycles the oldest tracks
+    const more = await generator.nextTracks({ type: 'artist', id: 'artist-2' }, station, 10);
+    expect(more).toHaveLength(10);
+    expect(more.some(track => served.slice(-5).includes(track.id))).toBe(false);
+  });
+
+  it('spreads artists through a batch', async () => {
+    const tracks = await generator.nextTracks({ type: 'artist', id: 'artist-1' }, newStation(), 6);
+    const artists = tracks.map(track => track.artist.id);
+
+    expect(artists[0]).toBe('artist-1');
+    expect(artists.filter(artist => artist === 'artist-1').length).toBeLessThan(6);
+  });
+
+  it('drops thumbs-down tracks and holds back their artist', async () => {
+    const seed = { type: 'genre' as const, id: 'pop' };
+    const before = await generator.nextTracks(seed, newStation(), 10);
+    const disliked = before[0];
+    if (!disliked) throw new Error('expected a track');
+
+    const after = await generator.nextTracks(seed, { servedTrackIds: [], ratings: { [disliked.id]: 'down' } }, 10);
+    const artistCount = (tracks: typeof before) =>
+      tracks.filter(track => track.artist.id === disliked.artist.id).length;
+
+    expect(after.map(track => track.id)).not.toContain(disliked.id);
+    expect(artistCount(after)).toBeLessThan(artistCount(before));
+  });
+
+  it('resolves genre seeds case-insensitively and rejects unknown seeds', async () => {
+    expect(await generator.describe({ type: 'genre', id: 'pop' })).toEqual({ seedId: 'Pop', name: 'Pop Radio' });
+    expect(await generator.describe({ type: 'artist', id: 'artist-404' })).toBeNull();
+  });
+});
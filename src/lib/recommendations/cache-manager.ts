@@ -177,7 +177,7 @@ export class CacheManager {
     return keyComponents.join('|');
   }
 
-  private getTTLForSectionType(sectionType: HomeFeedSectionType): number {
+  getTTLForSectionType(sectionType: HomeFeedSectionType): number {
     // Different section types have different cache durations
     const ttlMap: Record<HomeFeedSectionType, number> = {
       // Personal sections - shorter TTL for personalization
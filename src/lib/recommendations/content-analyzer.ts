@@ -2,6 +2,17 @@ import type {
   TrackFeatures,
   ItemSimilarity,
 } from '@/types';
+import trackFeaturesData from '@/data/track-features.json';
+
+/**
+ * Output of `npm run audio:analyze` (scripts/analyze-audio.js): features
+ * measured from the decoded audio files, keyed by track id
+ */
+export interface TrackFeaturesData {
+  analyzerVersion: number;
+  generatedAt: string;
+  tracks: Record<string, TrackFeatures>;
+}
 
 export class ContentAnalyzer {
   private trackFeatures: Map<string, TrackFeatures> = new Map();
@@ -9,8 +20,9 @@ export class ContentAnalyzer {
   private artistSimilarities: Map<string, ItemSimilarity> = new Map();
   private genreSimilarities: Map<string, ItemSimilarity> = new Map();
 
-  constructor() {
-    this.initializeMockData();
+  constructor(featuresData: TrackFeaturesData = trackFeaturesData as TrackFeaturesData) {
+    this.loadTrackFeatures(featuresData);
+    this.initializeMockSimilarities();
   }
 
   getTrackFeatures(trackId: string): TrackFeatures | null {
@@ -291,103 +303,32 @@ export class ContentAnalyzer {
     return mockRecommendations;
   }
 
-  private initializeMockData(): void {
-    // Initialize mock track features for demonstration
-    for (let i = 1; i <= 100; i++) {
-      const trackId = `track-${i}`;
-      const features: TrackFeatures = {
-        trackId,
-        danceability: Math.random(),
-        energy: Math.random(),
-        valence: Math.random(),
-        acousticness: Math.random(),
-        instrumentalness: Math.random(),
-        liveness: Math.random(),
-        speechiness: Math.random(),
-        tempo: 60 + Math.random() * 140,
-        loudness: -30 + Math.random() * 30,
-        mode: Math.random() > 0.5 ? 1 : 0,
-        key: Math.floor(Math.random() * 12),
-        timeSignature: 4,
-        duration: 180 + Math.random() * 120,
-        genres: this.generateMockGenres(),
-        moodTags: this.generateMockMoodTags(),
-        contextTags: this.generateMockContextTags(),
-      };
-
-      this.trackFeatures.set(trackId, features);
-    }
-
-    // Initialize mock similarity data
-    this.initializeMockSimilarities();
-  }
-
-  private generateMockGenres(): string[] {
-    const allGenres = ['Pop', 'Rock', 'Hip Hop', 'Electronic', 'Jazz', 'Classical', 'Country', 'R&B', 'Indie', 'Folk'];
-    const count = 1 + Math.floor(Math.random() * 3);
-    const genres: string[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const genre = allGenres[Math.floor(Math.random() * allGenres.length)];
-      if (genre && !genres.includes(genre)) {
-        genres.push(genre);
-      }
-    }
-    
-    return genres;
-  }
-
-  private generateMockMoodTags(): string[] {
-    const allMoods = ['happy', 'sad', 'energetic', 'calm', 'romantic', 'aggressive', 'melancholic', 'uplifting'];
-    const count = 1 + Math.floor(Math.random() * 3);
-    const moods: string[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const mood = allMoods[Math.floor(Math.random() * allMoods.length)];
-      if (mood && !moods.includes(mood)) {
-        moods.push(mood);
-      }
-    }
-    
-    return moods;
-  }
-
-  private generateMockContextTags(): string[] {
-    const allContexts = ['workout', 'study', 'party', 'chill', 'commute', 'sleep', 'focus', 'background'];
-    const count = Math.floor(Math.random() * 3);
-    const contexts: string[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const context = allContexts[Math.floor(Math.random() * allContexts.length)];
-      if (context && !contexts.includes(context)) {
-        contexts.push(context);
-      }
-    }
-    
-    return contexts;
-  }
+  private loadTrackFeatures(featuresData: TrackFeaturesData): void {
+    Object.values(featuresData.tracks).forEach(features => {
+      this.trackFeatures.set(features.trackId, features);
+    });
 
-  private initializeMockSimilarities(): void {
-    // Generate track similarities
-    for (let i = 1; i <= 100; i++) {
-      const trackId = `track-${i}`;
+    // Track similarities are precomputed from the analyzed features
+    const trackIds = Array.from(this.trackFeatures.keys());
+    trackIds.forEach(trackId => {
       const similarities: Record<string, number> = {};
-      
-      for (let j = 1; j <= 100; j++) {
-        if (i !== j) {
-          const otherTrackId = `track-${j}`;
-          similarities[otherTrackId] = Math.random();
+
+      trackIds.forEach(otherTrackId => {
+        if (trackId !== otherTrackId) {
+          similarities[otherTrackId] = this.calculateTrackSimilarity(trackId, otherTrackId);
         }
-      }
-      
+      });
+
       this.trackSimilarities.set(trackId, {
         itemId: trackId,
         itemType: 'track',
         similarities,
-        lastUpdated: new Date(),
+        lastUpdated: new Date(featuresData.generatedAt),
       });
-    }
+    });
+  }
 
+  private initializeMockSimilarities(): void {
     // Generate artist similarities
     for (let i = 1; i <= 50; i++) {
       const artistId = `artist-${i}`;
@@ -7,8 +7,12 @@ import type {
   GenrePreference,
   ArtistPreference,
 } from '@/types';
+import { musicDatabase } from '../data/music-database';
 import { ContentAnalyzer } from './content-analyzer';
 
+// Each further pick from an artist already in the results counts for less
+const SEED_ARTIST_REPEAT_PENALTY = 0.85;
+
 export class ContentBasedFilter {
   private contentAnalyzer: ContentAnalyzer;
 
@@ -72,6 +76,96 @@ export class ContentBasedFilter {
       .slice(0, request.limit);
   }
 
+  /**
+   * Catalog tracks similar to the request's seed tracks, artists and genres,
+   * independent of the user's long-term profile. Used for continuations
+   * such as autoplay, where the seeds are what was just played.
+   */
+  async recommendFromSeeds(
+    request: RecommendationRequest,
+    context: RecommendationContext
+  ): Promise<RecommendationScore[]> {
+    const allTracks = await musicDatabase.getAllTracks();
+    const seedTrackIds = new Set(request.seedTracks ?? []);
+    const seedTracks = allTracks.filter(track => seedTrackIds.has(track.id));
+    const seedArtistIds = new Set([
+      ...(request.seedArtists ?? []),
+      ...seedTracks.map(track => track.artist.id),
+    ]);
+    const seedGenres = new Set([
+      ...(request.seedGenres ?? []),
+      ...seedTracks.flatMap(track => track.genres),
+    ]);
+    const excluded = new Set([...seedTrackIds, ...(request.excludeTrackIds ?? [])]);
+
+    const candidates = allTracks
+      .filter(track => !excluded.has(track.id))
+      .map(track => {
+        const matchingGenres = track.genres.filter(genre => seedGenres.has(genre));
+        const genreScore = matchingGenres.length / Math.max(track.genres.length, 1);
+        const artistScore = seedArtistIds.has(track.artist.id) ? 1 : 0;
+        const audioScore = seedTracks.reduce(
+          (best, seed) => Math.max(best, this.contentAnalyzer.calculateTrackSimilarity(seed.id, track.id)),
+          0
+        );
+
+        const reasons: RecommendationScore['reasons'] = [];
+        if (artistScore > 0) {
+          reasons.push({
+            type: 'similar_artist',
+            weight: 0.3,
+            explanation: `More from ${track.artist.name}`,
+            metadata: { artistId: track.artist.id },
+          });
+        }
+        if (matchingGenres.length > 0) {
+          reasons.push({
+            type: 'similar_genre',
+            weight: genreScore * 0.4,
+            explanation: `${matchingGenres[0]} like what you just played`,
+            metadata: { genres: matchingGenres },
+          });
+        }
+        if (audioScore > 0) {
+          reasons.push({
+            type: 'audio_features',
+            weight: audioScore * 0.3,
+            explanation: 'Sounds like what you just played',
+          });
+        }
+
+        return {
+          trackId: track.id,
+          artistId: track.artist.id,
+          score: genreScore * 0.4 + artistScore * 0.3 + audioScore * 0.3,
+          reasons,
+        };
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    // Keep one artist from taking over the whole batch
+    const artistCounts = new Map<string, number>();
+    const recommendations = candidates.map(({ trackId, artistId, score, reasons }) => {
+      const count = artistCounts.get(artistId) ?? 0;
+      artistCounts.set(artistId, count + 1);
+
+      return {
+        trackId,
+        score: score * Math.pow(SEED_ARTIST_REPEAT_PENALTY, count),
+        reasons,
+        algorithm: 'content_based' as const,
+        context,
+        freshness: this.calculateFreshness(trackId),
+        diversity: seedArtistIds.has(artistId) ? 0.2 : 0.8,
+      };
+    });
+
+    return recommendations
+      .sort((a, b) => b.score - a.score)
+      .slice(0, request.limit);
+  }
+
   private async getGenreBasedRecommendations(
     request: RecommendationRequest,
     userProfile: UserProfile,
@@ -0,0 +1,218 @@
+import type { RadioRating, RadioSeedType, Track } from '@/types';
+import { getCatalog } from '../data/catalog-provider';
+import { historyRepository, type HistoryRepository } from '../data/history-repository';
+import type { RadioStationState } from '../data/radio-repository';
+import { ContentAnalyzer } from './content-analyzer';
+
+export const DEFAULT_RADIO_BATCH_SIZE = 20;
+export const MAX_RADIO_BATCH_SIZE = 50;
+
+// Blend of the three signals a station is ranked by
+const CONTENT_WEIGHT = 0.6;
+const COLLABORATIVE_WEIGHT = 0.25;
+const POPULARITY_WEIGHT = 0.15;
+
+// Each thumbs-down on an artist halves the chance of hearing them again
+const DISLIKED_ARTIST_PENALTY = 0.5;
+// Each further track by an artist within one batch counts for less
+const BATCH_ARTIST_PENALTY = 0.7;
+// Keeps a batch from opening with the artist that ended the last one
+const REPEATED_ARTIST_PENALTY = 0.5;
+
+export interface RadioSeed {
+  type: RadioSeedType;
+  id: string;
+}
+
+export interface RadioSeedInfo {
+  seedId: string; // canonical id, e.g. the catalog's spelling of a genre
+  name: string;
+  imageUrl?: string;
+}
+
+interface SeedProfile {
+  tracks: Track[];
+  artistIds: Set<string>;
+  genres: Set<string>;
+}
+
+/**
+ * Builds endless radio stations from a track, an artist or a genre. Tracks
+ * are ranked by content similarity to the seed (and to tracks given a
+ * thumbs-up), by how often other listeners played them alongside the seed,
+ * and by popularity. A station doesn't repeat a track until it has served
+ * everything else it can play.
+ */
+export class RadioStationGenerator {
+  constructor(
+    private readonly contentAnalyzer: ContentAnalyzer = new ContentAnalyzer(),
+    private readonly history: HistoryRepository = historyRepository
+  ) {}
+
+  /**
+   * Name and artwork for a station, or null when the seed doesn't exist
+   */
+  async describe(seed: RadioSeed): Promise<RadioSeedInfo | null> {
+    const catalog = getCatalog();
+
+    switch (seed.type) {
+      case 'track': {
+        const track = await catalog.getTrack(seed.id);
+        return track
+          ? { seedId: track.id, name: `${track.title} Radio`, imageUrl: track.imageUrl ?? track.album.imageUrl }
+          : null;
+      }
+      case 'artist': {
+        const artist = await catalog.getArtist(seed.id);
+        return artist
+          ? { seedId: artist.id, name: `${artist.name} Radio`, imageUrl: artist.imageUrl }
+          : null;
+      }
+      case 'genre': {
+        const genre = await this.findGenre(seed.id);
+        return genre ? { seedId: genre, name: `${genre} Radio` } : null;
+      }
+    }
+  }
+
+  /**
+   * The station's next batch, skipping what it has already served
+   */
+  async nextTracks(
+    seed: RadioSeed,
+    station: RadioStationState,
+    limit: number = DEFAULT_RADIO_BATCH_SIZE,
+    userId?: string
+  ): Promise<Track[]> {
+    const allTracks = await getCatalog().getAllTracks();
+    const trackById = new Map(allTracks.map(track => [track.id, track]));
+
+    const ratedTracks = (rating: RadioRating) => Object.entries(station.ratings)
+      .filter(([, value]) => value === rating)
+      .map(([trackId]) => trackById.get(trackId))
+      .filter((track): track is Track => Boolean(track));
+    const liked = ratedTracks('up');
+    const disliked = ratedTracks('down');
+
+    // Thumbs-up tracks steer the station as extra seeds
+    const profile = this.getSeedProfile(seed, allTracks);
+    liked.forEach(track => {
+      if (!profile.tracks.includes(track)) profile.tracks.push(track);
+      profile.artistIds.add(track.artist.id);
+      track.genres.forEach(genre => profile.genres.add(genre));
+    });
+
+    const dislikedIds = new Set(disliked.map(track => track.id));
+    const dislikedArtists = new Map<string, number>();
+    disliked.forEach(track => {
+      dislikedArtists.set(track.artist.id, (dislikedArtists.get(track.artist.id) ?? 0) + 1);
+    });
+
+    const pool = allTracks.filter(track => !dislikedIds.has(track.id));
+
+    // Once a station has served everything, the older half becomes playable again
+    let recentlyServed = new Set(station.servedTrackIds);
+    if (pool.filter(track => !recentlyServed.has(track.id)).length < limit) {
+      recentlyServed = new Set(station.servedTrackIds.slice(-Math.floor(pool.length / 2)));
+    }
+    const candidates = pool.filter(track => !recentlyServed.has(track.id));
+
+    const coListeners = await this.history.countCoListeners(profile.tracks.map(track => track.id), userId);
+    const maxCoListeners = Math.max(1, ...coListeners.values());
+
+    const scores = new Map(candidates.map(track => {
+      const collaborative = (coListeners.get(track.id) ?? 0) / maxCoListeners;
+      const score =
+        this.getContentScore(track, profile) * CONTENT_WEIGHT +
+        collaborative * COLLABORATIVE_WEIGHT +
+        (track.popularity / 100) * POPULARITY_WEIGHT;
+
+      return [track.id, score * Math.pow(DISLIKED_ARTIST_PENALTY, dislikedArtists.get(track.artist.id) ?? 0)];
+    }));
+
+    const batch: Track[] = [];
+
+    // A track station opens with the track itself
+    const seedTrack = seed.type === 'track' ? trackById.get(seed.id) : undefined;
+    if (seedTrack && station.servedTrackIds.length === 0 && !dislikedIds.has(seedTrack.id)) {
+      batch.push(seedTrack);
+    }
+
+    const lastServed = trackById.get(station.servedTrackIds[station.servedTrackIds.length - 1] ?? '');
+    const remaining = candidates.filter(track => !batch.includes(track));
+    const artistCounts = new Map<string, number>();
+    batch.forEach(track => artistCounts.set(track.artist.id, 1));
+
+    // Greedy pick so one artist doesn't take over the batch
+    while (batch.length < limit && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestScore = -Infinity;
+
+      remaining.forEach((track, index) => {
+        const previousArtistId = batch[batch.length - 1]?.artist.id ?? lastServed?.artist.id;
+        const adjusted = (scores.get(track.id) ?? 0) *
+          Math.pow(BATCH_ARTIST_PENALTY, artistCounts.get(track.artist.id) ?? 0) *
+          (track.artist.id === previousArtistId ? REPEATED_ARTIST_PENALTY : 1);
+
+        if (adjusted > bestScore) {
+          bestScore = adjusted;
+          bestIndex = index;
+        }
+      });
+
+      const [picked] = remaining.splice(bestIndex, 1);
+      if (!picked) break;
+      batch.push(picked);
+      artistCounts.set(picked.artist.id, (artistCounts.get(picked.artist.id) ?? 0) + 1);
+    }
+
+    return batch;
+  }
+
+  private getSeedProfile(seed: RadioSeed, allTracks: Track[]): SeedProfile {
+    switch (seed.type) {
+      case 'track': {
+        const tracks = allTracks.filter(track => track.id === seed.id);
+        return {
+          tracks,
+          artistIds: new Set(tracks.map(track => track.artist.id)),
+          genres: new Set(tracks.flatMap(track => track.genres)),
+        };
+      }
+      case 'artist': {
+        const tracks = allTracks.filter(track => track.artist.id === seed.id);
+        return {
+          tracks,
+          artistIds: new Set([seed.id]),
+          genres: new Set(tracks.flatMap(track => [...track.genres, ...track.artist.genres])),
+        };
+      }
+      case 'genre':
+        return { tracks: [], artistIds: new Set(), genres: new Set([seed.id]) };
+    }
+  }
+
+  private getContentScore(track: Track, profile: SeedProfile): number {
+    const seedGenres = [...profile.genres];
+    const genreScore = track.genres.length > 0 && seedGenres.length > 0
+      ? track.genres.reduce((sum, genre) => sum + Math.max(
+        ...seedGenres.map(seedGenre => this.contentAnalyzer.calculateGenreSimilarity(genre, seedGenre))
+      ), 0) / track.genres.length
+      : 0;
+    const artistScore = profile.artistIds.has(track.artist.id) ? 1 : 0;
+    const audioScore = profile.tracks.reduce(
+      (best, seedTrack) => Math.max(best, this.contentAnalyzer.calculateTrackSimilarity(seedTrack.id, track.id)),
+      0
+    );
+
+    return genreScore * 0.5 + artistScore * 0.3 + audioScore * 0.2;
+  }
+
+  private async findGenre(name: string): Promise<string | null> {
+    const needle = name.trim().toLowerCase();
+    const [tracks, artists] = await Promise.all([getCatalog().getAllTracks(), getCatalog().getAllArtists()]);
+    const genres = [...tracks.flatMap(track => track.genres), ...artists.flatMap(artist => artist.genres)];
+
+    return genres.find(genre => genre.toLowerCase() === needle) ?? null;
+  }
+}
@@ -34,8 +34,8 @@ export class SpotifyRecommendationEngine implements RecommendationEngine {
   private cacheManager: CacheManager;
   private coldStartHandler: ColdStartHandler;
 
-  constructor() {
-    this.userProfileManager = new UserProfileManager();
+  constructor(userProfileManager: UserProfileManager = new UserProfileManager()) {
+    this.userProfileManager = userProfileManager;
     this.contentAnalyzer = new ContentAnalyzer();
     this.collaborativeFilter = new CollaborativeFilter();
     this.contentBasedFilter = new ContentBasedFilter();
@@ -66,6 +66,11 @@ export class SpotifyRecommendationEngine implements RecommendationEngine {
     // Determine context if not provided
     const context = request.context || this.getCurrentContext();
 
+    // Seeded requests (e.g. autoplay) continue from the seeds, not the profile
+    if (request.seedTracks?.length || request.seedArtists?.length || request.seedGenres?.length) {
+      return this.generateSeededRecommendations(request, userProfile, context, startTime);
+    }
+
     // Check if user is in cold start phase
     if (this.coldStartHandler.isUserInColdStart(userProfile)) {
       return this.coldStartHandler.handleColdStart(request, userProfile, context);
@@ -152,6 +157,32 @@ export class SpotifyRecommendationEngine implements RecommendationEngine {
     }
   }
 
+  private async generateSeededRecommendations(
+    request: RecommendationRequest,
+    userProfile: UserProfile | null,
+    context: RecommendationContext,
+    startTime: number
+  ): Promise<RecommendationResponse> {
+    const recommendations = await this.contentBasedFilter.recommendFromSeeds(request, context);
+
+    const response: RecommendationResponse = {
+      tracks: recommendations,
+      totalAvailable: recommendations.length,
+      algorithm: 'content_based',
+      generatedAt: new Date(),
+      validUntil: new Date(Date.now() + 60 * 60 * 1000), // 1 hour TTL
+      metadata: {
+        processingTime: Date.now() - startTime,
+        cacheHit: false,
+        userProfileVersion: userProfile?.version || 1,
+      },
+    };
+
+    await this.cacheManager.set(request, response);
+
+    return response;
+  }
+
   private selectAlgorithm(
     request: RecommendationRequest,
     userProfile: UserProfile | null,
@@ -535,8 +566,13 @@ export class SpotifyRecommendationEngine implements RecommendationEngine {
     return this.userProfileManager.refreshUserProfile(userId);
   }
 
-  async getHomeFeed(userId: string, _refresh = false): Promise<HomeFeed> {
+  async getHomeFeed(userId: string, refresh = false): Promise<HomeFeed> {
     const startTime = Date.now();
+
+    // A forced refresh regenerates every section instead of reusing cached ones
+    if (refresh) {
+      await this.cacheManager.invalidateUser(userId);
+    }
     
     // Get user profile to determine personalization level
     const userProfile = await this.userProfileManager.getUserProfile(userId);
@@ -0,0 +1,144 @@
+import type {
+  HomeFeed,
+  HomeFeedSectionType,
+  RecentlyPlayedItem,
+  RecommendationContext,
+  RecommendationResponse,
+  RecommendationScore,
+} from '@/types';
+import { behaviorRepository } from '../data/behavior-repository';
+import { historyRepository } from '../data/history-repository';
+import { SpotifyRecommendationEngine } from './recommendation-engine';
+import { UserProfileManager } from './user-profile-manager';
+import { CacheManager } from './cache-manager';
+import { RadioStationGenerator } from './radio-station';
+
+/**
+ * Server-side entry point to the recommendation stack. API routes share one
+ * engine so its recommendation cache persists between requests, and profiles
+ * come from the behavior store rather than browser memory.
+ */
+
+let engine: SpotifyRecommendationEngine | null = null;
+let radioGenerator: RadioStationGenerator | null = null;
+
+// Only used for its TTL table; the engine keeps its own cache instance
+const cacheTTLs = new CacheManager();
+
+export function getServerRecommendationEngine(): SpotifyRecommendationEngine {
+  if (!engine) {
+    engine = new SpotifyRecommendationEngine(
+      new UserProfileManager(userId => behaviorRepository.getProfile(userId))
+    );
+  }
+  return engine;
+}
+
+export function getRadioStationGenerator(): RadioStationGenerator {
+  if (!radioGenerator) {
+    radioGenerator = new RadioStationGenerator();
+  }
+  return radioGenerator;
+}
+
+/**
+ * Cache-Control max-age (seconds) for a response covering these sections:
+ * the shortest section TTL, so no section is served past its cache lifetime
+ */
+export function getCacheMaxAge(sectionTypes: HomeFeedSectionType[]): number {
+  if (sectionTypes.length === 0) return 0;
+
+  const ttl = Math.min(...sectionTypes.map(type => cacheTTLs.getTTLForSectionType(type)));
+  return Math.floor(ttl / 1000);
+}
+
+function toHistoryScore(item: RecentlyPlayedItem): RecommendationScore {
+  const hour = item.playedAt.getHours();
+  const month = item.playedAt.getMonth();
+
+  const timeOfDay: RecommendationContext['timeOfDay'] =
+    hour >= 6 && hour < 12 ? 'morning' :
+    hour >= 12 && hour < 17 ? 'afternoon' :
+    hour >= 17 && hour < 22 ? 'evening' : 'night';
+
+  const season: RecommendationContext['season'] =
+    month >= 2 && month <= 4 ? 'spring' :
+    month >= 5 && month <= 7 ? 'summer' :
+    month >= 8 && month <= 10 ? 'fall' : 'winter';
+
+  return {
+    trackId: item.trackId,
+    score: 1,
+    reasons: [{
+      type: 'time_based',
+      weight: 1,
+      explanation: 'You played this recently',
+      metadata: { playedAt: item.playedAt, playCount: item.playCount },
+    }],
+    algorithm: 'time_contextual',
+    context: {
+      timeOfDay,
+      dayOfWeek: item.playedAt.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase(),
+      season,
+    },
+    freshness: 1,
+    diversity: 0,
+  };
+}
+
+/**
+ * Recently played "recommendations" come straight from the listening history
+ */
+export async function getRecentlyPlayedRecommendations(
+  userId: string,
+  limit: number
+): Promise<RecommendationResponse> {
+  const startTime = Date.now();
+  const [{ items }, profile] = await Promise.all([
+    historyRepository.listRecentlyPlayed(userId, { limit }),
+    behaviorRepository.getProfile(userId),
+  ]);
+
+  return {
+    tracks: items.map(toHistoryScore),
+    totalAvailable: items.length,
+    algorithm: 'time_contextual',
+    generatedAt: new Date(),
+    validUntil: new Date(Date.now() + cacheTTLs.getTTLForSectionType('recently_played')),
+    metadata: {
+      processingTime: Date.now() - startTime,
+      cacheHit: false,
+      userProfileVersion: profile?.version ?? 1,
+    },
+  };
+}
+
+/**
+ * Fills the recently played section from the listening history instead of
+ * engine output
+ */
+export async function withRecentlyPlayed(feed: HomeFeed): Promise<HomeFeed> {
+  const section = feed.sections.find(s => s.type === 'recently_played');
+  if (!section) return feed;
+
+  const { tracks } = await getRecentlyPlayedRecommendations(
+    feed.userId,
+    section.displaySettings.maxItems
+  );
+
+  return {
+    ...feed,
+    sections: feed.sections.map(s => {
+      if (s.type !== 'recently_played') return s;
+
+      return {
+        ...s,
+        tracks,
+        metadata: {
+          ...s.metadata,
+          lastRefreshed: new Date(),
+        },
+      };
+    }),
+  };
+}
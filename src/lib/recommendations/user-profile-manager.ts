@@ -14,7 +14,21 @@ export class UserProfileManager {
   private profiles: Map<string, UserProfile> = new Map();
   private behaviors: Map<string, UserBehavior[]> = new Map();
 
+  /**
+   * @param profileSource Loads persisted profiles (server-side); consulted on
+   * every lookup because profiles are rebuilt whenever behavior is ingested
+   */
+  constructor(private readonly profileSource?: (userId: string) => Promise<UserProfile | null>) {}
+
   async getUserProfile(userId: string): Promise<UserProfile | null> {
+    if (this.profileSource) {
+      const stored = await this.profileSource(userId);
+      if (stored) {
+        this.profiles.set(userId, stored);
+        return stored;
+      }
+    }
+
     // Try to get from cache first
     let profile: UserProfile | null = this.profiles.get(userId) || null;
     
@@ -66,7 +80,11 @@ export class UserProfileManager {
     return this.buildUserProfileFromBehaviors(userId, behaviors);
   }
 
-  private async buildUserProfileFromBehaviors(
+  /**
+   * Builds a profile from a full behavior history without touching the
+   * in-memory cache; the server uses this to rebuild persisted profiles.
+   */
+  async buildUserProfileFromBehaviors(
     userId: string,
     behaviors: UserBehavior[]
   ): Promise<UserProfile> {
@@ -0,0 +1,61 @@
+import { JsonCatalogProvider } from '@/lib/data/json-catalog-provider';
+import { SearchIndex, editDistance, normalizeText } from '../search-index';
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeAll(async () => {
+    const catalog = new JsonCatalogProvider();
+    const [tracks, artists, albums] = await Promise.all([
+      catalog.getAllTracks(),
+      catalog.getAllArtists(),
+      catalog.getAllAlbums(),
+    ]);
+    index = new SearchIndex({ tracks, artists, albums });
+  });
+
+  const ids = (query: string, type: 'track' | 'artist' | 'album') =>
+    index.search(query, { type }).hits.map(hit => hit.document.item.id);
+
+  it('folds case, diacritics and punctuation', () => {
+    expect(normalizeText('  Beyoncé — CRAZY in Love! ')).toBe('beyonce crazy in love');
+  });
+
+  it('counts transpositions as a single edit', () => {
+    expect(editDistance('taylor', 'tayler', 2)).toBe(1);
+    expect(editDistance('swfit', 'swift', 2)).toBe(1);
+    expect(editDistance('weeknd', 'drake', 1)).toBe(2);
+  });
+
+  it('tolerates typos in multi-word queries', () => {
+    expect(ids('tayler swift', 'artist')[0]).toBe('artist-1');
+    expect(ids('blindng lights', 'track')[0]).toBe('track-3');
+  });
+
+  it('completes the last term as a prefix', () => {
+    expect(ids('lavender ha', 'track')).toEqual(['track-2']);
+  });
+
+  it('ranks title matches above matches in other fields', () => {
+    const hits = index.search('anti hero').hits;
+    expect(hits[0]?.document).toMatchObject({ type: 'track', item: { id: 'track-1' } });
+  });
+
+  it('requires every term to match', () => {
+    expect(index.search('swift weeknd').hits).toEqual([]);
+  });
+
+  it('counts facets without applying their own filter', () => {
+    const { hits, facets } = index.search('pop', { genre: 'R&B' });
+
+    expect(hits.every(hit => hit.document.item.genres.includes('R&B'))).toBe(true);
+
+    // The genre facet still lists other genres so the selection can change
+    const genres = facets.genres.map(facet => facet.value);
+    expect(genres).toEqual(expect.arrayContaining(['Pop', 'R&B', 'Synth Pop']));
+
+    // Other facets do apply the genre filter; artists carry no release year
+    const datedHits = hits.filter(hit => hit.document.type !== 'artist').length;
+    expect(facets.years.reduce((sum, facet) => sum + facet.count, 0)).toBe(datedHits);
+  });
+});
@@ -0,0 +1,374 @@
+import type {
+  Album,
+  Artist,
+  SearchFacetCount,
+  SearchFacets,
+  SearchFilters,
+  Track,
+} from '@/types';
+import { getCatalog, type CatalogProvider } from '../data/catalog-provider';
+
+type SearchField = 'title' | 'artist' | 'album' | 'genre' | 'bio';
+
+// A hit in a title counts for more than the same hit in a bio
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  artist: 2,
+  album: 1.5,
+  genre: 1,
+  bio: 0.3,
+};
+
+// Standard BM25 saturation and length-normalization parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Partial and misspelled terms score below exact ones
+const PREFIX_MATCH_WEIGHT = 0.7;
+const TYPO_MATCH_WEIGHTS = [1, 0.6, 0.4];
+const MIN_PREFIX_LENGTH = 2;
+const MIN_FUZZY_LENGTH = 4;
+
+export type SearchDocument =
+  | { type: 'track'; item: Track }
+  | { type: 'artist'; item: Artist }
+  | { type: 'album'; item: Album };
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+}
+
+export type SearchIndexFilters = Pick<SearchFilters, 'type' | 'genre' | 'year' | 'explicit'>;
+
+export interface SearchIndexResult {
+  hits: SearchHit[];
+  facets: SearchFacets;
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+  termFrequency: number;
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  fieldLengths: Partial<Record<SearchField, number>>;
+  name: string;
+  popularity: number;
+  genres: string[];
+  year?: number;
+  explicit?: boolean;
+}
+
+interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+/**
+ * Lowercases, folds diacritics ("Beyoncé" -> "beyonce") and turns
+ * punctuation into spaces
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions). Returns maxDistance + 1 as soon as it is exceeded.
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        (previousRow[j] ?? 0) + 1,
+        (row[j - 1] ?? 0) + 1,
+        (previousRow[j - 1] ?? 0) + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, (beforePrevious[j - 2] ?? 0) + 1);
+      }
+
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+
+  return row[b.length] ?? maxDistance + 1;
+}
+
+function typoBudget(term: string): number {
+  if (term.length < MIN_FUZZY_LENGTH) return 0;
+  return term.length >= 8 ? 2 : 1;
+}
+
+function countFacet<T>(values: T[]): SearchFacetCount<T>[] {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }));
+}
+
+/**
+ * In-memory inverted index over the catalog. Documents are scored with
+ * BM25 per field, weighted by FIELD_BOOSTS; every query term must match
+ * (exactly, as a prefix of the last term, or within a small edit distance).
+ */
+export class SearchIndex {
+  private readonly documents: IndexedDocument[] = [];
+  private readonly postings = new Map<string, Posting[]>();
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageFieldLengths: Partial<Record<SearchField, number>> = {};
+  private readonly vocabulary: string[];
+
+  constructor(catalog: { tracks: Track[]; artists: Artist[]; albums: Album[] }) {
+    catalog.tracks.forEach(track => this.addDocument(
+      { type: 'track', item: track },
+      { title: track.title, artist: track.artist.name, album: track.album.title, genre: track.genres.join(' ') },
+      {
+        popularity: track.popularity,
+        genres: track.genres,
+        year: track.releaseDate.getFullYear(),
+        explicit: track.isExplicit,
+      }
+    ));
+
+    catalog.artists.forEach(artist => this.addDocument(
+      { type: 'artist', item: artist },
+      { title: artist.name, genre: artist.genres.join(' '), bio: artist.bio ?? '' },
+      { popularity: artist.popularity, genres: artist.genres }
+    ));
+
+    catalog.albums.forEach(album => this.addDocument(
+      { type: 'album', item: album },
+      { title: album.title, artist: album.artist.name, genre: album.genres.join(' ') },
+      {
+        popularity: album.artist.popularity,
+        genres: album.genres,
+        year: album.releaseDate.getFullYear(),
+      }
+    ));
+
+    const totals: Partial<Record<SearchField, { length: number; count: number }>> = {};
+    this.documents.forEach(doc => {
+      Object.entries(doc.fieldLengths).forEach(([field, length]) => {
+        const total = totals[field as SearchField] ?? { length: 0, count: 0 };
+        total.length += length;
+        total.count += 1;
+        totals[field as SearchField] = total;
+      });
+    });
+    Object.entries(totals).forEach(([field, total]) => {
+      this.averageFieldLengths[field as SearchField] = total.length / total.count;
+    });
+
+    this.vocabulary = Array.from(this.postings.keys());
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string, filters: SearchIndexFilters = {}): SearchIndexResult {
+    const terms = tokenize(query);
+    if (terms.length === 0) {
+      return { hits: [], facets: { genres: [], years: [], explicit: [] } };
+    }
+
+    // Each term contributes its best-matching expansion; a document missing any term is dropped
+    let scores = this.scoreTerm(terms[0] as string, terms.length === 1);
+    for (let position = 1; position < terms.length; position++) {
+      const termScores = this.scoreTerm(terms[position] as string, position === terms.length - 1);
+      const combined = new Map<number, number>();
+
+      termScores.forEach((score, doc) => {
+        const previous = scores.get(doc);
+        if (previous !== undefined) combined.set(doc, previous + score);
+      });
+
+      scores = combined;
+    }
+
+    const normalizedQuery = terms.join(' ');
+    const matches: Array<{ doc: IndexedDocument; score: number }> = [];
+
+    scores.forEach((score, docIndex) => {
+      const doc = this.documents[docIndex];
+      if (!doc) return;
+
+      let boosted = score * (1 + doc.popularity / 500);
+      if (doc.name === normalizedQuery) boosted *= 1.5;
+      else if (doc.name.startsWith(normalizedQuery)) boosted *= 1.2;
+
+      matches.push({ doc, score: boosted });
+    });
+
+    const passes = (doc: IndexedDocument, skip?: keyof SearchIndexFilters) =>
+      (skip === 'type' || !filters.type || filters.type === 'all' || doc.document.type === filters.type) &&
+      (skip === 'genre' || !filters.genre || doc.genres.includes(filters.genre)) &&
+      (skip === 'year' || filters.year === undefined || doc.year === undefined || doc.year === filters.year) &&
+      (skip === 'explicit' || filters.explicit === undefined || doc.explicit === undefined ||
+        doc.explicit === filters.explicit);
+
+    const hits: SearchHit[] = matches
+      .filter(({ doc }) => passes(doc))
+      .map(({ doc, score }) => ({ document: doc.document, score }))
+      .sort((a, b) => b.score - a.score);
+
+    const matchedDocs = matches.map(({ doc }) => doc);
+
+    const facets: SearchFacets = {
+      genres: countFacet(matchedDocs.filter(doc => passes(doc, 'genre')).flatMap(doc => doc.genres))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+      years: countFacet(matchedDocs.filter(doc => passes(doc, 'year')).flatMap(doc =>
+        doc.year === undefined ? [] : [doc.year]
+      )).sort((a, b) => b.value - a.value),
+      explicit: countFacet(matchedDocs.filter(doc => passes(doc, 'explicit')).flatMap(doc =>
+        doc.explicit === undefined ? [] : [doc.explicit]
+      )).sort((a, b) => b.count - a.count),
+    };
+
+    return { hits, facets };
+  }
+
+  private addDocument(
+    document: SearchDocument,
+    fields: Partial<Record<SearchField, string>>,
+    attributes: Pick<IndexedDocument, 'popularity' | 'genres' | 'year' | 'explicit'>
+  ): void {
+    const doc = this.documents.length;
+    const fieldLengths: Partial<Record<SearchField, number>> = {};
+    const seenTerms = new Set<string>();
+
+    Object.entries(fields).forEach(([field, text]) => {
+      const tokens = tokenize(text ?? '');
+      if (tokens.length === 0) return;
+      fieldLengths[field as SearchField] = tokens.length;
+
+      countFacet(tokens).forEach(({ value: term, count }) => {
+        const postings = this.postings.get(term) ?? [];
+        postings.push({ doc, field: field as SearchField, termFrequency: count });
+        this.postings.set(term, postings);
+
+        if (!seenTerms.has(term)) {
+          seenTerms.add(term);
+          this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+        }
+      });
+    });
+
+    this.documents.push({
+      document,
+      fieldLengths,
+      name: normalizeText(fields.title ?? ''),
+      ...attributes,
+    });
+  }
+
+  private expandTerm(term: string, isLastTerm: boolean): TermExpansion[] {
+    const budget = typoBudget(term);
+    const expansions: TermExpansion[] = [];
+
+    this.vocabulary.forEach(candidate => {
+      if (candidate === term) {
+        expansions.push({ term: candidate, weight: 1 });
+        return;
+      }
+
+      // The last term may still be being typed
+      if (isLastTerm && term.length >= MIN_PREFIX_LENGTH && candidate.startsWith(term)) {
+        expansions.push({ term: candidate, weight: PREFIX_MATCH_WEIGHT });
+        return;
+      }
+
+      if (budget > 0) {
+        const distance = editDistance(term, candidate, budget);
+        if (distance <= budget) {
+          expansions.push({ term: candidate, weight: TYPO_MATCH_WEIGHTS[distance] ?? 0 });
+        }
+      }
+    });
+
+    return expansions;
+  }
+
+  private scoreTerm(term: string, isLastTerm: boolean): Map<number, number> {
+    const scores = new Map<number, number>();
+    const totalDocuments = this.documents.length;
+
+    this.expandTerm(term, isLastTerm).forEach(({ term: matched, weight }) => {
+      const frequency = this.documentFrequency.get(matched) ?? 0;
+      const idf = Math.log(1 + (totalDocuments - frequency + 0.5) / (frequency + 0.5));
+      const expansionScores = new Map<number, number>();
+
+      (this.postings.get(matched) ?? []).forEach(({ doc, field, termFrequency }) => {
+        const length = this.documents[doc]?.fieldLengths[field] ?? 0;
+        const averageLength = this.averageFieldLengths[field] ?? 1;
+        const saturation = (termFrequency * (BM25_K1 + 1)) /
+          (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength)));
+
+        const fieldScore = weight * idf * saturation * FIELD_BOOSTS[field];
+        expansionScores.set(doc, (expansionScores.get(doc) ?? 0) + fieldScore);
+      });
+
+      // Several expansions of one term (e.g. two prefix completions) don't add up
+      expansionScores.forEach((score, doc) => {
+        scores.set(doc, Math.max(scores.get(doc) ?? 0, score));
+      });
+    });
+
+    return scores;
+  }
+}
+
+let cached: { catalog: CatalogProvider; index: Promise<SearchIndex> } | null = null;
+
+/**
+ * The search index for the active catalog, built on first use and rebuilt
+ * when a different catalog provider is installed
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  const catalog = getCatalog();
+
+  if (!cached || cached.catalog !== catalog) {
+    const index = Promise.all([
+      catalog.getAllTracks(),
+      catalog.getAllArtists(),
+      catalog.getAllAlbums(),
+    ]).then(([tracks, artists, albums]) => new SearchIndex({ tracks, artists, albums }));
+
+    // Don't keep a failed build around
+    index.catch(() => {
+      if (cached?.index === index) cached = null;
+    });
+
+    cached = { catalog, index };
+  }
+
+  return cached.index;
+}
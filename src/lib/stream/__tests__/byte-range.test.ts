@@ -0,0 +1,30 @@
+import { formatContentRange, parseRangeHeader } from '../byte-range';
+
+describe('parseRangeHeader', () => {
+  it('sends the whole file without a usable range', () => {
+    expect(parseRangeHeader(null, 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=0-10,20-30', 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=50-10', 1000)).toBeNull();
+  });
+
+  it('reads open, closed and suffix ranges', () => {
+    expect(parseRangeHeader('bytes=0-', 1000)).toEqual({ start: 0, end: 999 });
+    expect(parseRangeHeader('bytes=100-199', 1000)).toEqual({ start: 100, end: 199 });
+    expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=-200', 1000)).toEqual({ start: 800, end: 999 });
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('rejects ranges past the end of the file', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+});
+
+describe('formatContentRange', () => {
+  it('describes the served range', () => {
+    expect(formatContentRange({ start: 100, end: 199 }, 1000)).toBe('bytes 100-199/1000');
+  });
+});
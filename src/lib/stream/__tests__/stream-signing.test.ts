@@ -0,0 +1,62 @@
+import {
+  STREAM_URL_TTL,
+  createStreamUrl,
+  resolveStreamQuality,
+  signStreamGrant,
+  verifyStreamSignature,
+  type StreamGrant,
+} from '../stream-signing';
+
+describe('stream signing', () => {
+  const secret = 'test-secret';
+  const now = Date.UTC(2025, 0, 1);
+  const grant: StreamGrant = {
+    trackId: 'track-1',
+    quality: 'low',
+    userId: 'user-1',
+    tier: 'free',
+    expires: now / 1000 + 60,
+  };
+
+  it('accepts its own signature until it expires', () => {
+    const signature = signStreamGrant(grant, secret);
+
+    expect(verifyStreamSignature(grant, signature, now, secret)).toBe(true);
+    expect(verifyStreamSignature(grant, signature, now + 61_000, secret)).toBe(false);
+  });
+
+  it('rejects a signature used for another listener, quality or tier', () => {
+    const signature = signStreamGrant(grant, secret);
+
+    expect(verifyStreamSignature({ ...grant, userId: 'user-2' }, signature, now, secret)).toBe(false);
+    expect(verifyStreamSignature({ ...grant, quality: 'lossless' }, signature, now, secret)).toBe(false);
+    expect(verifyStreamSignature({ ...grant, tier: 'premium' }, signature, now, secret)).toBe(false);
+    expect(verifyStreamSignature(grant, 'not-a-signature', now, secret)).toBe(false);
+  });
+
+  it('builds URLs that verify', () => {
+    process.env.STREAM_SIGNING_SECRET = secret;
+    try {
+      const { url, expiresAt } = createStreamUrl({ trackId: 'track-1', quality: 'high', userId: 'user-1', tier: 'premium' }, now);
+      const params = new URL(url, 'http://localhost').searchParams;
+
+      expect(url.startsWith('/api/stream/track-1?')).toBe(true);
+      expect(expiresAt.getTime()).toBe(now + STREAM_URL_TTL * 1000);
+      expect(verifyStreamSignature(
+        { trackId: 'track-1', quality: 'high', userId: 'user-1', tier: 'premium', expires: Number(params.get('expires')) },
+        params.get('signature') ?? '',
+        now
+      )).toBe(true);
+    } finally {
+      delete process.env.STREAM_SIGNING_SECRET;
+    }
+  });
+});
+
+describe('resolveStreamQuality', () => {
+  it('downgrades to the best quality the tier has', () => {
+    expect(resolveStreamQuality('free', 'lossless')).toBe('low');
+    expect(resolveStreamQuality('premium', 'high')).toBe('high');
+    expect(resolveStreamQuality('student', 'lossless')).toBe('lossless');
+  });
+});
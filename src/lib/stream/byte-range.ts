@@ -0,0 +1,45 @@
+/**
+ * HTTP Range requests for audio, so players can seek and resume without
+ * downloading the whole file again. Only a single range is served; a
+ * request for several is answered with the full file, as RFC 9110 allows.
+ */
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+const RANGE_PATTERN = /^bytes=(\d*)-(\d*)$/;
+
+/**
+ * The range a Range header asks for in a file of `size` bytes: null to
+ * send the whole file, or 'unsatisfiable' when it lies past the end
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null;
+
+  const match = RANGE_PATTERN.exec(header.trim());
+  if (!match) return null;
+
+  const [, startText = '', endText = ''] = match;
+  if (!startText && !endText) return null;
+
+  // "bytes=-500" is the last 500 bytes
+  if (!startText) {
+    const suffix = Number(endText);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(startText);
+  const end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+
+  if (start >= size) return 'unsatisfiable';
+  if (end < start) return null;
+
+  return { start, end };
+}
+
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import type { SubscriptionTier } from '@/types';
+import { TIER_QUALITY_ACCESS, type AudioQuality } from '@/lib/subscription/audio-quality-manager';
+
+/**
+ * Signed stream URLs. Audio is only served from /api/stream/[trackId] with
+ * a signature over the track, quality, listener and tier, so a URL can't be
+ * shared with another account, upgraded to a better quality or used after
+ * it expires.
+ */
+
+// How long a signed URL stays valid (seconds)
+export const STREAM_URL_TTL = 10 * 60;
+
+export interface StreamGrant {
+  trackId: string;
+  quality: AudioQuality;
+  userId: string;
+  tier: SubscriptionTier;
+  expires: number; // unix seconds
+}
+
+const QUALITY_ORDER: AudioQuality[] = ['low', 'medium', 'high', 'lossless'];
+
+export function canStreamQuality(tier: SubscriptionTier, quality: AudioQuality): boolean {
+  return (TIER_QUALITY_ACCESS[tier] ?? TIER_QUALITY_ACCESS.free).includes(quality);
+}
+
+/**
+ * The quality a tier streams when it asks for `requested`: the requested
+ * one if the tier has it, otherwise the best one below it
+ */
+export function resolveStreamQuality(tier: SubscriptionTier, requested: AudioQuality): AudioQuality {
+  const candidates = QUALITY_ORDER.slice(0, QUALITY_ORDER.indexOf(requested) + 1).reverse();
+  return candidates.find(quality => canStreamQuality(tier, quality)) ?? 'low';
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STREAM_SIGNING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('STREAM_SIGNING_SECRET or NEXTAUTH_SECRET must be set to sign stream URLs');
+  }
+  return secret;
+}
+
+export function signStreamGrant(grant: StreamGrant, secret: string = getSigningSecret()): string {
+  const message = `${grant.trackId}:${grant.quality}:${grant.userId}:${grant.tier}:${grant.expires}`;
+
+  return crypto
+    .createHmac('sha256', secret)
+    .update(message)
+    .digest('hex');
+}
+
+/**
+ * A URL to stream the track at `quality`, valid for STREAM_URL_TTL
+ */
+export function createStreamUrl(
+  grant: Omit<StreamGrant, 'expires'>,
+  now: number = Date.now()
+): { url: string; expiresAt: Date } {
+  const expires = Math.floor(now / 1000) + STREAM_URL_TTL;
+  const params = new URLSearchParams({
+    quality: grant.quality,
+    tier: grant.tier,
+    expires: String(expires),
+    signature: signStreamGrant({ ...grant, expires }),
+  });
+
+  return {
+    url: `/api/stream/${encodeURIComponent(grant.trackId)}?${params}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+/**
+ * Whether `signature` was issued for this grant and hasn't expired
+ */
+export function verifyStreamSignature(
+  grant: StreamGrant,
+  signature: string,
+  now: number = Date.now(),
+  secret: string = getSigningSecret()
+): boolean {
+  if (grant.expires * 1000 < now) return false;
+
+  const expected = Buffer.from(signStreamGrant(grant, secret));
+  const actual = Buffer.from(signature);
+
+  // Constant-time comparison
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -8,6 +8,8 @@ import { TierManager } from './tier-manager';
 
 export type AudioQuality = 'low' | 'medium' | 'high' | 'lossless';
 
+export type NetworkQuality = 'poor' | 'good' | 'excellent';
+
 export interface QualitySettings {
   bitrate: number;
   sampleRate: number;
@@ -72,7 +74,7 @@ interface QualityPreferences {
 
 class AudioQualityManagerService {
   private userPreferences: Map<string, QualityPreferences> = new Map();
-  private networkQuality: 'poor' | 'good' | 'excellent' = 'good';
+  private networkQuality: NetworkQuality = 'good';
 
   /**
    * Initialize quality preferences for user
@@ -319,7 +321,7 @@ class AudioQualityManagerService {
   /**
    * Update network quality
    */
-  public updateNetworkQuality(quality: 'poor' | 'good' | 'excellent'): void {
+  public updateNetworkQuality(quality: NetworkQuality): void {
     this.networkQuality = quality;
   }
 
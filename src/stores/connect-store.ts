@@ -0,0 +1,202 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { ConnectCommand, ConnectDevice } from "@/types";
+import {
+  DEVICE_REPORT_INTERVAL,
+  DEVICE_STATE_KEYS,
+  createDeviceId,
+  describeDevice,
+  getDeviceEventsUrl,
+  reportDeviceState,
+  sendDeviceCommand,
+  toDeviceState,
+} from "@/lib/connect/device-client";
+import { fetchPlayerSession } from "@/lib/audio/player-session";
+import { usePlayerStore } from "./player-store";
+import { usePlayerSessionStore } from "./player-session-store";
+
+interface ConnectState {
+  // This player, as the listener's other devices know it
+  deviceId: string;
+  // Every connected device of the listener, this one included
+  devices: ConnectDevice[];
+  isConnected: boolean;
+  isTransferring: boolean;
+  error: string | null;
+}
+
+interface ConnectActions {
+  connect: () => void;
+  disconnect: () => void;
+  sendCommand: (deviceId: string, command: ConnectCommand) => Promise<void>;
+  transferPlayback: (deviceId: string) => Promise<void>;
+  handleCommand: (command: ConnectCommand) => Promise<void>;
+  reportState: () => Promise<void>;
+
+  // Utility
+  reset: () => void;
+}
+
+type ConnectStore = ConnectState & ConnectActions;
+
+const initialState: Omit<ConnectState, "deviceId"> = {
+  devices: [],
+  isConnected: false,
+  isTransferring: false,
+  error: null,
+};
+
+let eventSource: EventSource | null = null;
+let lastReportedAt = 0;
+
+export const useConnectStore = create<ConnectStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+      deviceId: createDeviceId(),
+
+      connect: () => {
+        if (eventSource || typeof EventSource === "undefined") return;
+
+        const info = { id: get().deviceId, ...describeDevice(navigator.userAgent) };
+        const source = new EventSource(getDeviceEventsUrl(info));
+        eventSource = source;
+
+        source.addEventListener("open", () => {
+          set({ isConnected: true, error: null });
+          // A reconnect registers the device afresh
+          get().reportState();
+        });
+
+        source.addEventListener("devices", event => {
+          set({ devices: JSON.parse((event as MessageEvent<string>).data) });
+        });
+
+        source.addEventListener("command", event => {
+          get().handleCommand(JSON.parse((event as MessageEvent<string>).data));
+        });
+
+        // The browser retries on its own unless the relay refused the stream
+        source.addEventListener("error", () => {
+          set({ isConnected: false });
+          if (source.readyState === EventSource.CLOSED && eventSource === source) {
+            eventSource = null;
+            set({ devices: [] });
+          }
+        });
+      },
+
+      disconnect: () => {
+        eventSource?.close();
+        eventSource = null;
+        set({ devices: [], isConnected: false });
+      },
+
+      sendCommand: async (deviceId, command) => {
+        try {
+          set({ error: null });
+          await sendDeviceCommand(deviceId, command);
+        } catch (error) {
+          console.error("Failed to send device command:", error);
+          set({ error: "That device is no longer available" });
+        }
+      },
+
+      /**
+       * Moves playback from this device to another one: the session is saved
+       * first so the other device picks up at the same position
+       */
+      transferPlayback: async (deviceId) => {
+        const player = usePlayerStore.getState();
+        if (deviceId === get().deviceId || !player.currentTrack) return;
+
+        set({ isTransferring: true, error: null });
+        try {
+          await usePlayerSessionStore.getState().saveSession();
+          await sendDeviceCommand(deviceId, { type: "takeover" });
+          usePlayerStore.getState().pause();
+        } catch (error) {
+          console.error("Failed to transfer playback:", error);
+          set({ error: "Couldn't move playback to that device" });
+        } finally {
+          set({ isTransferring: false });
+        }
+      },
+
+      handleCommand: async (command) => {
+        const player = usePlayerStore.getState();
+
+        switch (command.type) {
+          case "play":
+            player.play();
+            break;
+          case "pause":
+            player.pause();
+            break;
+          case "next":
+            player.nextTrack();
+            break;
+          case "previous":
+            player.previousTrack();
+            break;
+          case "seek":
+            player.seekTo(command.position);
+            break;
+          case "volume":
+            player.setVolume(command.volume);
+            break;
+          case "transfer":
+            await get().transferPlayback(command.to);
+            break;
+          case "takeover":
+            try {
+              const session = await fetchPlayerSession();
+              if (!session?.currentTrack) return;
+
+              usePlayerSessionStore.getState().dismissResume();
+              usePlayerStore.getState().restoreSession(session);
+              usePlayerStore.getState().play();
+            } catch (error) {
+              console.error("Failed to take over playback:", error);
+            }
+            break;
+        }
+      },
+
+      reportState: async () => {
+        const { deviceId, isConnected } = get();
+        if (!isConnected) return;
+
+        lastReportedAt = Date.now();
+        try {
+          await reportDeviceState(deviceId, toDeviceState(usePlayerStore.getState()));
+        } catch (error) {
+          console.error("Failed to report device state:", error);
+        }
+      },
+
+      reset: () => {
+        get().disconnect();
+        set(initialState);
+      },
+    }),
+    {
+      name: "connect-store",
+    },
+  ),
+);
+
+if (typeof window !== "undefined") {
+  usePlayerStore.subscribe((state, previous) => {
+    const changed = DEVICE_STATE_KEYS.some(key => state[key] !== previous[key]);
+    // Seeking moves the position by more than playback does between updates
+    const jumped = Math.abs(state.progress - previous.progress) > 2;
+    const positionDue = state.isPlaying && Date.now() - lastReportedAt > DEVICE_REPORT_INTERVAL;
+
+    if (changed || jumped || positionDue) {
+      useConnectStore.getState().reportState();
+    }
+  });
+}
+
+export default useConnectStore;
@@ -0,0 +1,138 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { RecentlyPlayedItem, RecentlyPlayedPage } from "@/types";
+
+// US-013: the recently played view shows the last 50 songs
+const RECENTLY_PLAYED_LIMIT = 50;
+
+interface HistoryState {
+  recentlyPlayed: RecentlyPlayedItem[];
+  nextCursor: string | null;
+  hasLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface HistoryActions {
+  fetchRecentlyPlayed: () => Promise<void>;
+  loadMoreRecentlyPlayed: () => Promise<void>;
+  clearHistory: () => Promise<void>;
+
+  // Utility
+  clearError: () => void;
+  reset: () => void;
+}
+
+type HistoryStore = HistoryState & HistoryActions;
+
+const initialState: HistoryState = {
+  recentlyPlayed: [],
+  nextCursor: null,
+  hasLoaded: false,
+  isLoading: false,
+  error: null,
+};
+
+async function requestRecentlyPlayed(before?: string): Promise<RecentlyPlayedPage> {
+  const params = new URLSearchParams({ limit: String(RECENTLY_PLAYED_LIMIT) });
+  if (before) params.set("before", before);
+
+  const response = await fetch(`/api/me/history?${params}`);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch recently played");
+  }
+
+  const { data }: { data: RecentlyPlayedPage } = await response.json();
+  return {
+    items: data.items.map(item => ({
+      ...item,
+      playedAt: new Date(item.playedAt),
+    })),
+    nextCursor: data.nextCursor,
+  };
+}
+
+export const useHistoryStore = create<HistoryStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchRecentlyPlayed: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const { items, nextCursor } = await requestRecentlyPlayed();
+          set({
+            recentlyPlayed: items,
+            nextCursor,
+            hasLoaded: true,
+            isLoading: false,
+          });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Failed to fetch recently played",
+            isLoading: false,
+          });
+        }
+      },
+
+      loadMoreRecentlyPlayed: async () => {
+        const { nextCursor, isLoading } = get();
+        if (!nextCursor || isLoading) return;
+
+        set({ isLoading: true, error: null });
+
+        try {
+          const { items, nextCursor: cursor } = await requestRecentlyPlayed(nextCursor);
+          set(state => ({
+            recentlyPlayed: [...state.recentlyPlayed, ...items],
+            nextCursor: cursor,
+            isLoading: false,
+          }));
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Failed to fetch recently played",
+            isLoading: false,
+          });
+        }
+      },
+
+      clearHistory: async () => {
+        const { recentlyPlayed, nextCursor } = get();
+
+        // Optimistic update
+        set({ recentlyPlayed: [], nextCursor: null });
+
+        try {
+          const response = await fetch("/api/me/history", { method: "DELETE" });
+
+          if (!response.ok) {
+            throw new Error("Failed to clear listening history");
+          }
+        } catch (error) {
+          // Revert on failure
+          set({
+            recentlyPlayed,
+            nextCursor,
+            error: error instanceof Error ? error.message : "Failed to clear listening history",
+          });
+          throw error;
+        }
+      },
+
+      clearError: () => {
+        set({ error: null });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: "history-store",
+    },
+  ),
+);
+
+export default useHistoryStore;
@@ -4,9 +4,9 @@ import type {
   HomeFeed,
   HomeFeedSection,
   HomeFeedSectionType,
+  RecommendationResponse,
   UserBehavior,
 } from "@/types";
-import { SpotifyRecommendationEngine } from "@/lib/recommendations/recommendation-engine";
 import { useAuthStore } from "./auth-store";
 
 interface HomeFeedState {
@@ -26,6 +26,7 @@ interface HomeFeedActions {
   
   // User interaction tracking
   trackUserBehavior: (behavior: UserBehavior) => Promise<void>;
+  flushBehaviorQueue: (options?: { keepalive?: boolean }) => Promise<void>;
   trackSectionView: (sectionId: string) => void;
   trackTrackClick: (sectionId: string, trackId: string) => void;
   trackTrackPlay: (sectionId: string, trackId: string) => void;
@@ -53,15 +54,59 @@ const initialState: HomeFeedState = {
   userBehaviorQueue: [],
 };
 
-// Global recommendation engine instance
-let recommendationEngine: SpotifyRecommendationEngine | null = null;
+// Must match MAX_BATCH_SIZE in the behavior events API
+const BEHAVIOR_BATCH_SIZE = 100;
+const BEHAVIOR_FLUSH_DELAY = 5000;
+
+// One listening session per page load, shared by every event it produces
+const listeningSessionId = `session-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+let behaviorFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const createBehaviorId = (action: string) =>
+  `${action}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+// JSON responses carry dates as strings
+function reviveHomeFeed(feed: HomeFeed): HomeFeed {
+  return {
+    ...feed,
+    generatedAt: new Date(feed.generatedAt),
+    lastRefreshed: new Date(feed.lastRefreshed),
+    sections: feed.sections.map((section: HomeFeedSection) => ({
+      ...section,
+      metadata: {
+        ...section.metadata,
+        generatedAt: new Date(section.metadata.generatedAt),
+        lastRefreshed: new Date(section.metadata.lastRefreshed),
+      },
+    })),
+  };
+}
+
+// Recommendations are generated server-side; see /api/home-feed and /api/recommendations
+async function requestHomeFeed(refresh: boolean): Promise<HomeFeed> {
+  const response = await fetch(refresh ? "/api/home-feed?refresh=true" : "/api/home-feed", {
+    cache: refresh ? "no-store" : "default",
+  });
 
-const getRecommendationEngine = () => {
-  if (!recommendationEngine) {
-    recommendationEngine = new SpotifyRecommendationEngine();
+  if (!response.ok) {
+    throw new Error("Failed to load home feed");
   }
-  return recommendationEngine;
-};
+
+  const { data } = await response.json();
+  return reviveHomeFeed(data);
+}
+
+async function requestRecommendations(sectionType: HomeFeedSectionType, limit: number): Promise<RecommendationResponse> {
+  const params = new URLSearchParams({ section: sectionType, limit: String(limit) });
+  const response = await fetch(`/api/recommendations?${params}`, { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to refresh section");
+  }
+
+  const { data } = await response.json();
+  return data;
+}
 
 export const useHomeFeedStore = create<HomeFeedStore>()(
   devtools(
@@ -76,15 +121,19 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         
         // Check if we need to refresh (cache TTL: 30 minutes)
         const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-        if (!force && state.homeFeed && state.lastFetchTime && state.lastFetchTime > thirtyMinutesAgo) {
+        if (
+          !force &&
+          state.homeFeed?.userId === userId &&
+          state.lastFetchTime &&
+          state.lastFetchTime > thirtyMinutesAgo
+        ) {
           return;
         }
 
         set({ isLoading: true, error: null });
 
         try {
-          const engine = getRecommendationEngine();
-          const homeFeed = await engine.getHomeFeed(userId, force);
+          const homeFeed = await requestHomeFeed(force);
           
           set({
             homeFeed,
@@ -106,10 +155,13 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         await get().loadHomeFeed(userId, true);
       },
 
-      refreshSection: async (userId: string, sectionType: HomeFeedSectionType) => {
+      refreshSection: async (_userId: string, sectionType: HomeFeedSectionType) => {
         const state = get();
         if (!state.homeFeed) return;
 
+        const current = state.homeFeed.sections.find(section => section.type === sectionType);
+        if (!current) return;
+
         // Mark section as refreshing
         set({
           refreshing: {
@@ -119,17 +171,7 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         });
 
         try {
-          const engine = getRecommendationEngine();
-          
-          // Generate new recommendations for this section
-          const request = {
-            userId,
-            sectionType,
-            limit: 20,
-            excludeTrackIds: [], // Could exclude recently played
-          };
-
-          const response = await engine.generateRecommendations(request);
+          const response = await requestRecommendations(sectionType, current.displaySettings.maxItems);
           
           // Update the specific section in the home feed
           const updatedSections = state.homeFeed.sections.map(section => {
@@ -178,57 +220,95 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
           userBehaviorQueue: [...state.userBehaviorQueue, behavior],
         });
 
-        // Process behavior immediately for real-time updates
-        try {
-          const engine = getRecommendationEngine();
-          await engine.updateUserBehavior(behavior);
-          
-          // Update engagement metrics for the relevant section
-          if (state.homeFeed) {
-            const updatedSections = state.homeFeed.sections.map(section => {
-              // Find if this behavior relates to tracks in this section
-              const hasTrack = section.tracks.some(track => track.trackId === behavior.trackId);
+        // Sent to the server in batches so the profile survives reloads
+        if (state.userBehaviorQueue.length + 1 >= BEHAVIOR_BATCH_SIZE) {
+          get().flushBehaviorQueue();
+        } else if (!behaviorFlushTimer) {
+          behaviorFlushTimer = setTimeout(() => get().flushBehaviorQueue(), BEHAVIOR_FLUSH_DELAY);
+        }
+
+        // Update engagement metrics for the relevant section
+        if (state.homeFeed) {
+          const updatedSections = state.homeFeed.sections.map(section => {
+            // Find if this behavior relates to tracks in this section
+            const hasTrack = section.tracks.some(track => track.trackId === behavior.trackId);
+            
+            if (hasTrack) {
+              const updatedEngagement = { ...section.metadata.userEngagement };
               
-              if (hasTrack) {
-                const updatedEngagement = { ...section.metadata.userEngagement };
-                
-                switch (behavior.action) {
-                  case 'play':
-                    updatedEngagement.playCount++;
-                    break;
-                  case 'skip':
-                    updatedEngagement.skipCount++;
-                    break;
-                  case 'like':
-                    updatedEngagement.likeCount++;
-                    break;
-                  case 'share':
-                    updatedEngagement.shareCount++;
-                    break;
-                }
-
-                return {
-                  ...section,
-                  metadata: {
-                    ...section.metadata,
-                    userEngagement: updatedEngagement,
-                  },
-                };
+              switch (behavior.action) {
+                case 'play':
+                  updatedEngagement.playCount++;
+                  break;
+                case 'skip':
+                  updatedEngagement.skipCount++;
+                  break;
+                case 'like':
+                  updatedEngagement.likeCount++;
+                  break;
+                case 'share':
+                  updatedEngagement.shareCount++;
+                  break;
               }
-              
-              return section;
-            });
 
-            set({
-              homeFeed: {
-                ...state.homeFeed,
-                sections: updatedSections,
-              },
-            });
-          }
+              return {
+                ...section,
+                metadata: {
+                  ...section.metadata,
+                  userEngagement: updatedEngagement,
+                },
+              };
+            }
+            
+            return section;
+          });
+
+          set({
+            homeFeed: {
+              ...state.homeFeed,
+              sections: updatedSections,
+            },
+          });
+        }
+      },
 
+      flushBehaviorQueue: async ({ keepalive = false } = {}) => {
+        if (behaviorFlushTimer) {
+          clearTimeout(behaviorFlushTimer);
+          behaviorFlushTimer = null;
+        }
+
+        const batch = get().userBehaviorQueue.slice(0, BEHAVIOR_BATCH_SIZE);
+        if (batch.length === 0) return;
+
+        // Take the batch off the queue now so overlapping flushes don't resend it
+        set(state => ({
+          userBehaviorQueue: state.userBehaviorQueue.slice(batch.length),
+        }));
+
+        try {
+          const response = await fetch('/api/events/behavior', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ events: batch }),
+            keepalive,
+          });
+
+          // Client errors (signed out, rejected batch) won't succeed on retry
+          if (response.status >= 500) {
+            throw new Error(`Behavior request failed with status ${response.status}`);
+          }
         } catch (error) {
-          console.error('Failed to track user behavior:', error);
+          console.error('Failed to send user behavior:', error);
+          // Requeue for the next flush; the server ignores events it already has
+          set(state => ({
+            userBehaviorQueue: [...batch, ...state.userBehaviorQueue],
+          }));
+          return;
+        }
+
+        if (get().userBehaviorQueue.length > 0) {
+          await get().flushBehaviorQueue({ keepalive });
         }
       },
 
@@ -292,12 +372,12 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         const user = useAuthStore.getState().user;
         if (user) {
           get().trackUserBehavior({
-            id: `click-${Date.now()}`,
+            id: createBehaviorId('click'),
             userId: user.id,
             trackId,
             action: 'play', // Click usually leads to play
             timestamp: new Date(),
-            sessionId: `session-${Date.now()}`,
+            sessionId: listeningSessionId,
             deviceType: window.innerWidth < 768 ? 'mobile' : 'desktop',
             timeOfDay: getTimeOfDay(),
           });
@@ -310,12 +390,12 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         const user = useAuthStore.getState().user;
         if (user) {
           get().trackUserBehavior({
-            id: `play-${Date.now()}`,
+            id: createBehaviorId('play'),
             userId: user.id,
             trackId,
             action: 'play',
             timestamp: new Date(),
-            sessionId: `session-${Date.now()}`,
+            sessionId: listeningSessionId,
             deviceType: window.innerWidth < 768 ? 'mobile' : 'desktop',
             timeOfDay: getTimeOfDay(),
           });
@@ -326,13 +406,13 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         const user = useAuthStore.getState().user;
         if (user) {
           get().trackUserBehavior({
-            id: `skip-${Date.now()}`,
+            id: createBehaviorId('skip'),
             userId: user.id,
             trackId,
             action: 'skip',
             timestamp: new Date(),
             listenDuration: 15, // Mock skip after 15 seconds
-            sessionId: `session-${Date.now()}`,
+            sessionId: listeningSessionId,
             deviceType: window.innerWidth < 768 ? 'mobile' : 'desktop',
             timeOfDay: getTimeOfDay(),
           });
@@ -343,12 +423,12 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         const user = useAuthStore.getState().user;
         if (user) {
           get().trackUserBehavior({
-            id: `like-${Date.now()}`,
+            id: createBehaviorId('like'),
             userId: user.id,
             trackId,
             action: 'like',
             timestamp: new Date(),
-            sessionId: `session-${Date.now()}`,
+            sessionId: listeningSessionId,
             deviceType: window.innerWidth < 768 ? 'mobile' : 'desktop',
             timeOfDay: getTimeOfDay(),
           });
@@ -359,12 +439,12 @@ export const useHomeFeedStore = create<HomeFeedStore>()(
         const user = useAuthStore.getState().user;
         if (user) {
           get().trackUserBehavior({
-            id: `share-${Date.now()}`,
+            id: createBehaviorId('share'),
             userId: user.id,
             trackId,
             action: 'share',
             timestamp: new Date(),
-            sessionId: `session-${Date.now()}`,
+            sessionId: listeningSessionId,
             deviceType: window.innerWidth < 768 ? 'mobile' : 'desktop',
             timeOfDay: getTimeOfDay(),
           });
@@ -436,6 +516,11 @@ function getTimeOfDay(): 'morning' | 'afternoon' | 'evening' | 'night' {
 
 // Auto-initialize when user is available
 if (typeof window !== 'undefined') {
+  // Send whatever is still queued before the page goes away
+  window.addEventListener('pagehide', () => {
+    useHomeFeedStore.getState().flushBehaviorQueue({ keepalive: true });
+  });
+
   useAuthStore.subscribe((state) => {
     if (state.user && state.isAuthenticated) {
       const homeFeedState = useHomeFeedStore.getState();
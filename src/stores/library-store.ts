@@ -0,0 +1,495 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type {
+  Album,
+  FollowedPlaylist,
+  LikedTrack,
+  LikedTracksQuery,
+  LibraryPagination,
+  Playlist,
+  SavedAlbum,
+  Track,
+} from "@/types";
+
+// Must match MAX_PAGE_LIMIT in the library API
+const CONTAINS_BATCH_SIZE = 50;
+
+interface LibraryState {
+  // Known like status by track id; ids that were never checked are absent
+  likedTrackIds: Record<string, boolean>;
+  likedTracks: LikedTrack[];
+  likedTracksQuery: LikedTracksQuery;
+  likedTracksPagination: LibraryPagination | null;
+
+  // Saved albums and followed playlists, with the same known-status maps
+  savedAlbumIds: Record<string, boolean>;
+  savedAlbums: SavedAlbum[];
+  savedAlbumsPagination: LibraryPagination | null;
+  followedPlaylistIds: Record<string, boolean>;
+  followedPlaylists: FollowedPlaylist[];
+
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface LibraryActions {
+  // Liked songs
+  fetchLikedTracks: (query?: LikedTracksQuery) => Promise<void>;
+  loadMoreLikedTracks: () => Promise<void>;
+  checkLikedTracks: (trackIds: string[]) => void;
+  likeTracks: (trackIds: string[]) => Promise<void>;
+  unlikeTracks: (trackIds: string[]) => Promise<void>;
+  toggleLikedTrack: (track: Track) => Promise<void>;
+  isTrackLiked: (trackId: string) => boolean;
+
+  // Saved albums
+  fetchSavedAlbums: () => Promise<void>;
+  checkSavedAlbums: (albumIds: string[]) => void;
+  saveAlbum: (albumId: string) => Promise<void>;
+  removeAlbum: (albumId: string) => Promise<void>;
+  toggleSavedAlbum: (album: Album) => Promise<void>;
+  isAlbumSaved: (albumId: string) => boolean;
+
+  // Followed playlists
+  fetchFollowedPlaylists: () => Promise<void>;
+  checkFollowedPlaylists: (playlistIds: string[]) => void;
+  followPlaylist: (playlistId: string) => Promise<number>;
+  unfollowPlaylist: (playlistId: string) => Promise<number>;
+  toggleFollowedPlaylist: (playlist: Playlist) => Promise<number>;
+  isPlaylistFollowed: (playlistId: string) => boolean;
+
+  // Utility
+  clearError: () => void;
+  reset: () => void;
+}
+
+type LibraryStore = LibraryState & LibraryActions;
+
+const initialState: LibraryState = {
+  likedTrackIds: {},
+  likedTracks: [],
+  likedTracksQuery: {},
+  likedTracksPagination: null,
+  savedAlbumIds: {},
+  savedAlbums: [],
+  savedAlbumsPagination: null,
+  followedPlaylistIds: {},
+  followedPlaylists: [],
+  isLoading: false,
+  error: null,
+};
+
+function buildLikedTracksUrl(query: LikedTracksQuery): string {
+  const params = new URLSearchParams();
+  if (query.limit !== undefined) params.set("limit", String(query.limit));
+  if (query.offset !== undefined) params.set("offset", String(query.offset));
+  if (query.sortBy) params.set("sortBy", query.sortBy);
+  if (query.sortOrder) params.set("sortOrder", query.sortOrder);
+  if (query.query) params.set("q", query.query);
+  if (query.likedAfter) params.set("likedAfter", query.likedAfter.toISOString());
+  if (query.likedBefore) params.set("likedBefore", query.likedBefore.toISOString());
+
+  const search = params.toString();
+  return search ? `/api/library/tracks?${search}` : "/api/library/tracks";
+}
+
+async function requestLikedTracks(query: LikedTracksQuery) {
+  const response = await fetch(buildLikedTracksUrl(query));
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch liked songs");
+  }
+
+  const { data } = await response.json();
+  return {
+    tracks: (data.tracks as LikedTrack[]).map(track => ({
+      ...track,
+      likedAt: new Date(track.likedAt),
+    })),
+    pagination: data.pagination as LibraryPagination,
+  };
+}
+
+function withLikeStatus(statusById: Record<string, boolean>, ids: string[], status: boolean) {
+  const next = { ...statusById };
+  for (const id of ids) {
+    next[id] = status;
+  }
+  return next;
+}
+
+type LibraryCollection = "tracks" | "albums" | "playlists";
+
+const STATUS_KEYS = {
+  tracks: "likedTrackIds",
+  albums: "savedAlbumIds",
+  playlists: "followedPlaylistIds",
+} as const satisfies Record<LibraryCollection, keyof LibraryState>;
+
+// Contains-checks from many cards are collected and sent as one request per collection
+const pendingChecks: Record<LibraryCollection, Set<string>> = {
+  tracks: new Set(),
+  albums: new Set(),
+  playlists: new Set(),
+};
+let checkTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const useLibraryStore = create<LibraryStore>()(
+  devtools(
+    (set, get) => {
+      const flushChecks = async () => {
+        checkTimer = null;
+
+        for (const collection of Object.keys(pendingChecks) as LibraryCollection[]) {
+          const ids = [...pendingChecks[collection]];
+          pendingChecks[collection].clear();
+          const key = STATUS_KEYS[collection];
+
+          for (let i = 0; i < ids.length; i += CONTAINS_BATCH_SIZE) {
+            const batch = ids.slice(i, i + CONTAINS_BATCH_SIZE);
+            try {
+              const response = await fetch(`/api/library/${collection}/contains?ids=${batch.map(encodeURIComponent).join(",")}`);
+              if (!response.ok) continue; // Signed out or unavailable; leave status unknown
+
+              const { data }: { data: boolean[] } = await response.json();
+              set(state => {
+                const statusById = { ...state[key] };
+                batch.forEach((id, index) => {
+                  statusById[id] = !!data[index];
+                });
+                return { [key]: statusById };
+              });
+            } catch (error) {
+              console.error(`Failed to check library ${collection}:`, error);
+            }
+          }
+        }
+      };
+
+      const queueChecks = (collection: LibraryCollection, ids: string[]) => {
+        const known = get()[STATUS_KEYS[collection]];
+        for (const id of ids) {
+          if (!(id in known)) {
+            pendingChecks[collection].add(id);
+          }
+        }
+
+        if (pendingChecks[collection].size > 0 && !checkTimer) {
+          checkTimer = setTimeout(flushChecks, 0);
+        }
+      };
+
+      return {
+        ...initialState,
+
+        fetchLikedTracks: async (query = {}) => {
+          const nextQuery = { ...query, offset: 0 };
+          set({ isLoading: true, error: null, likedTracksQuery: nextQuery });
+
+          try {
+            const { tracks, pagination } = await requestLikedTracks(nextQuery);
+
+            set(state => ({
+              likedTracks: tracks,
+              likedTracksPagination: pagination,
+              likedTrackIds: withLikeStatus(state.likedTrackIds, tracks.map(track => track.id), true),
+              isLoading: false,
+            }));
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : "Failed to fetch liked songs",
+              isLoading: false,
+            });
+          }
+        },
+
+        loadMoreLikedTracks: async () => {
+          const { likedTracks, likedTracksPagination, likedTracksQuery, isLoading } = get();
+          if (isLoading || !likedTracksPagination?.hasMore) return;
+
+          const nextQuery = { ...likedTracksQuery, offset: likedTracks.length };
+          set({ isLoading: true, error: null });
+
+          try {
+            const { tracks, pagination } = await requestLikedTracks(nextQuery);
+
+            set(state => ({
+              likedTracks: [...state.likedTracks, ...tracks],
+              likedTracksPagination: pagination,
+              likedTrackIds: withLikeStatus(state.likedTrackIds, tracks.map(track => track.id), true),
+              isLoading: false,
+            }));
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : "Failed to fetch liked songs",
+              isLoading: false,
+            });
+          }
+        },
+
+        checkLikedTracks: (trackIds) => queueChecks("tracks", trackIds),
+
+        likeTracks: async (trackIds) => {
+          const previous = get().likedTrackIds;
+          set({ likedTrackIds: withLikeStatus(previous, trackIds, true), error: null });
+
+          try {
+            const response = await fetch("/api/library/tracks", {
+              method: "PUT",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ trackIds }),
+            });
+
+            if (!response.ok) {
+              throw new Error("Failed to save to liked songs");
+            }
+
+            // Refresh the loaded list so new likes land in the server's sort order
+            if (get().likedTracksPagination) {
+              await get().fetchLikedTracks(get().likedTracksQuery);
+            }
+          } catch (error) {
+            set(state => ({
+              likedTrackIds: withLikeStatus(
+                state.likedTrackIds,
+                trackIds.filter(id => !previous[id]),
+                false
+              ),
+              error: error instanceof Error ? error.message : "Failed to save to liked songs",
+            }));
+            throw error;
+          }
+        },
+
+        unlikeTracks: async (trackIds) => {
+          const { likedTrackIds: previousIds, likedTracks: previousTracks, likedTracksPagination: previousPagination } = get();
+          const removedCount = previousTracks.filter(track => trackIds.includes(track.id)).length;
+
+          set({
+            likedTrackIds: withLikeStatus(previousIds, trackIds, false),
+            likedTracks: previousTracks.filter(track => !trackIds.includes(track.id)),
+            likedTracksPagination: previousPagination && {
+              ...previousPagination,
+              total: previousPagination.total - removedCount,
+            },
+            error: null,
+          });
+
+          try {
+            const response = await fetch("/api/library/tracks", {
+              method: "DELETE",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ trackIds }),
+            });
+
+            if (!response.ok) {
+              throw new Error("Failed to remove from liked songs");
+            }
+          } catch (error) {
+            set({
+              likedTrackIds: previousIds,
+              likedTracks: previousTracks,
+              likedTracksPagination: previousPagination,
+              error: error instanceof Error ? error.message : "Failed to remove from liked songs",
+            });
+            throw error;
+          }
+        },
+
+        toggleLikedTrack: async (track) => {
+          if (get().isTrackLiked(track.id)) {
+            await get().unlikeTracks([track.id]);
+          } else {
+            await get().likeTracks([track.id]);
+          }
+        },
+
+        isTrackLiked: (trackId) => !!get().likedTrackIds[trackId],
+
+        fetchSavedAlbums: async () => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const response = await fetch("/api/library/albums?limit=50");
+
+            if (!response.ok) {
+              throw new Error("Failed to fetch saved albums");
+            }
+
+            const { data } = await response.json();
+            const albums = (data.albums as SavedAlbum[]).map(album => ({
+              ...album,
+              savedAt: new Date(album.savedAt),
+            }));
+
+            set(state => ({
+              savedAlbums: albums,
+              savedAlbumsPagination: data.pagination,
+              savedAlbumIds: withLikeStatus(state.savedAlbumIds, albums.map(album => album.id), true),
+              isLoading: false,
+            }));
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : "Failed to fetch saved albums",
+              isLoading: false,
+            });
+          }
+        },
+
+        checkSavedAlbums: (albumIds) => queueChecks("albums", albumIds),
+
+        saveAlbum: async (albumId) => {
+          const wasSaved = !!get().savedAlbumIds[albumId];
+          set(state => ({ savedAlbumIds: { ...state.savedAlbumIds, [albumId]: true }, error: null }));
+
+          try {
+            const response = await fetch(`/api/library/albums/${albumId}`, { method: "PUT" });
+
+            if (!response.ok) {
+              throw new Error("Failed to save album");
+            }
+
+            await get().fetchSavedAlbums();
+          } catch (error) {
+            set(state => ({
+              savedAlbumIds: { ...state.savedAlbumIds, [albumId]: wasSaved },
+              error: error instanceof Error ? error.message : "Failed to save album",
+            }));
+            throw error;
+          }
+        },
+
+        removeAlbum: async (albumId) => {
+          const { savedAlbumIds: previousIds, savedAlbums: previousAlbums } = get();
+          set({
+            savedAlbumIds: { ...previousIds, [albumId]: false },
+            savedAlbums: previousAlbums.filter(album => album.id !== albumId),
+            error: null,
+          });
+
+          try {
+            const response = await fetch(`/api/library/albums/${albumId}`, { method: "DELETE" });
+
+            if (!response.ok) {
+              throw new Error("Failed to remove album");
+            }
+          } catch (error) {
+            set({
+              savedAlbumIds: previousIds,
+              savedAlbums: previousAlbums,
+              error: error instanceof Error ? error.message : "Failed to remove album",
+            });
+            throw error;
+          }
+        },
+
+        toggleSavedAlbum: async (album) => {
+          if (get().isAlbumSaved(album.id)) {
+            await get().removeAlbum(album.id);
+          } else {
+            await get().saveAlbum(album.id);
+          }
+        },
+
+        isAlbumSaved: (albumId) => !!get().savedAlbumIds[albumId],
+
+        fetchFollowedPlaylists: async () => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const response = await fetch("/api/library/playlists");
+
+            if (!response.ok) {
+              throw new Error("Failed to fetch followed playlists");
+            }
+
+            const { data } = await response.json();
+            const playlists = (data.playlists as FollowedPlaylist[]).map(playlist => ({
+              ...playlist,
+              followedAt: new Date(playlist.followedAt),
+            }));
+
+            set(state => ({
+              followedPlaylists: playlists,
+              followedPlaylistIds: withLikeStatus(state.followedPlaylistIds, playlists.map(playlist => playlist.id), true),
+              isLoading: false,
+            }));
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : "Failed to fetch followed playlists",
+              isLoading: false,
+            });
+          }
+        },
+
+        checkFollowedPlaylists: (playlistIds) => queueChecks("playlists", playlistIds),
+
+        followPlaylist: async (playlistId) => {
+          const wasFollowed = !!get().followedPlaylistIds[playlistId];
+          set(state => ({ followedPlaylistIds: { ...state.followedPlaylistIds, [playlistId]: true }, error: null }));
+
+          try {
+            const response = await fetch(`/api/library/playlists/${playlistId}`, { method: "PUT" });
+
+            if (!response.ok) {
+              throw new Error("Failed to follow playlist");
+            }
+
+            const { data } = await response.json();
+            await get().fetchFollowedPlaylists();
+            return data.followers as number;
+          } catch (error) {
+            set(state => ({
+              followedPlaylistIds: { ...state.followedPlaylistIds, [playlistId]: wasFollowed },
+              error: error instanceof Error ? error.message : "Failed to follow playlist",
+            }));
+            throw error;
+          }
+        },
+
+        unfollowPlaylist: async (playlistId) => {
+          const { followedPlaylistIds: previousIds, followedPlaylists: previousPlaylists } = get();
+          set({
+            followedPlaylistIds: { ...previousIds, [playlistId]: false },
+            followedPlaylists: previousPlaylists.filter(playlist => playlist.id !== playlistId),
+            error: null,
+          });
+
+          try {
+            const response = await fetch(`/api/library/playlists/${playlistId}`, { method: "DELETE" });
+
+            if (!response.ok) {
+              throw new Error("Failed to unfollow playlist");
+            }
+
+            const { data } = await response.json();
+            return data.followers as number;
+          } catch (error) {
+            set({
+              followedPlaylistIds: previousIds,
+              followedPlaylists: previousPlaylists,
+              error: error instanceof Error ? error.message : "Failed to unfollow playlist",
+            });
+            throw error;
+          }
+        },
+
+        toggleFollowedPlaylist: async (playlist) => {
+          if (get().isPlaylistFollowed(playlist.id)) {
+            return get().unfollowPlaylist(playlist.id);
+          }
+          return get().followPlaylist(playlist.id);
+        },
+
+        isPlaylistFollowed: (playlistId) => !!get().followedPlaylistIds[playlistId],
+
+        clearError: () => set({ error: null }),
+
+        reset: () => set(initialState),
+      };
+    },
+    { name: "library-store" }
+  )
+);
+
+export default useLibraryStore;
@@ -0,0 +1,72 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { Lyrics } from "@/types";
+import { fetchLyrics } from "@/lib/lyrics/lyrics-client";
+
+interface LyricsState {
+  // Keyed by track id; null once a track is known to have no lyrics
+  lyricsByTrackId: Record<string, Lyrics | null>;
+  loadingTrackIds: Record<string, boolean>;
+  errors: Record<string, string>;
+}
+
+interface LyricsActions {
+  loadLyrics: (trackId: string) => Promise<void>;
+
+  // Utility
+  reset: () => void;
+}
+
+type LyricsStore = LyricsState & LyricsActions;
+
+const initialState: LyricsState = {
+  lyricsByTrackId: {},
+  loadingTrackIds: {},
+  errors: {},
+};
+
+export const useLyricsStore = create<LyricsStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      loadLyrics: async (trackId) => {
+        const { lyricsByTrackId, loadingTrackIds } = get();
+        if (trackId in lyricsByTrackId || loadingTrackIds[trackId]) return;
+
+        set(state => ({
+          loadingTrackIds: { ...state.loadingTrackIds, [trackId]: true },
+          errors: withoutKey(state.errors, trackId),
+        }));
+
+        try {
+          const lyrics = await fetchLyrics(trackId);
+          set(state => ({
+            lyricsByTrackId: { ...state.lyricsByTrackId, [trackId]: lyrics },
+            loadingTrackIds: withoutKey(state.loadingTrackIds, trackId),
+          }));
+        } catch (error) {
+          console.error("Failed to load lyrics:", error);
+          set(state => ({
+            loadingTrackIds: withoutKey(state.loadingTrackIds, trackId),
+            errors: { ...state.errors, [trackId]: "Couldn't load lyrics" },
+          }));
+        }
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: "lyrics-store",
+    },
+  ),
+);
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+}
+
+export default useLyricsStore;
@@ -0,0 +1,464 @@
+import { create } from "zustand";
+import { devtools, persist } from "zustand/middleware";
+import type { OfflineTrack, Playlist, Track } from "@/types";
+import { DownloadQueue, type DownloadProgress, type DownloadQuality } from "@/lib/offline/download-queue";
+import {
+  clearDownloads,
+  deleteDownload,
+  deleteOfflinePlaylist,
+  getDownload,
+  getDownloads,
+  getOfflinePlaylists,
+  getStorageEstimate,
+  putDownload,
+  putOfflinePlaylist,
+  type OfflineDownload,
+  type OfflinePlaylistRecord,
+  type StorageEstimate,
+} from "@/lib/offline/offline-db";
+import { fetchLicenses, needsRenewal } from "@/lib/offline/offline-license";
+import { registerOfflineServiceWorker } from "@/lib/offline/offline-playback";
+import {
+  canSyncOnConnection,
+  fetchPlaylist,
+  planPlaylistSync,
+  type SyncSettings,
+} from "@/lib/offline/playlist-sync";
+
+// Why an offline playlist's last sync left tracks out
+export type PlaylistSyncIssue = "waiting-for-wifi" | "storage-cap";
+
+export type PlaylistSyncState = "downloaded" | "downloading" | "offline" | "incomplete" | PlaylistSyncIssue;
+
+export interface PlaylistSyncStatus {
+  state: PlaylistSyncState;
+  downloaded: number;
+  total: number;
+  lastSyncAt: Date;
+}
+
+interface OfflineState {
+  // Keyed by track id; complete downloads and partial ones that can resume
+  downloads: Record<string, OfflineDownload>;
+  // Downloads that are queued, running, paused or failed
+  progress: Record<string, DownloadProgress>;
+  // Keyed by playlist id
+  offlinePlaylists: Record<string, OfflinePlaylistRecord>;
+  playlistSyncIssues: Record<string, PlaylistSyncIssue>;
+  settings: SyncSettings;
+  storage: StorageEstimate | null;
+  isOnline: boolean;
+  isInitialized: boolean;
+}
+
+interface OfflineActions {
+  initialize: () => Promise<void>;
+
+  // Downloads
+  downloadTrack: (track: Track, quality?: DownloadQuality) => void;
+  pauseDownload: (trackId: string) => void;
+  resumeDownload: (trackId: string) => void;
+  removeDownload: (trackId: string) => Promise<void>;
+  clearAllDownloads: () => Promise<void>;
+
+  // Offline playlists
+  addOfflinePlaylist: (playlist: Playlist) => Promise<void>;
+  removeOfflinePlaylist: (playlistId: string) => Promise<void>;
+  syncPlaylist: (playlist: Playlist) => Promise<void>;
+  syncAllPlaylists: () => Promise<void>;
+  updateSettings: (settings: Partial<SyncSettings>) => void;
+
+  // Licenses and storage
+  renewLicenses: () => Promise<void>;
+  refreshStorage: () => Promise<void>;
+}
+
+type OfflineStore = OfflineState & OfflineActions;
+
+const initialState: OfflineState = {
+  downloads: {},
+  progress: {},
+  offlinePlaylists: {},
+  playlistSyncIssues: {},
+  settings: {
+    storageCap: null,
+    wifiOnly: false,
+  },
+  storage: null,
+  isOnline: true,
+  isInitialized: false,
+};
+
+// The most tracks the license route takes at once
+const LICENSE_BATCH_SIZE = 100;
+
+const downloadQueue = new DownloadQueue();
+
+// Downloads stopped by the connection dropping, resumed when it's back
+let interruptedDownloads: string[] = [];
+
+// Syncs run one after another, so two can't diff against the same state
+let syncChain: Promise<void> = Promise.resolve();
+
+interface NetworkConnection {
+  addEventListener?: (type: string, listener: EventListener) => void;
+}
+
+export const useOfflineStore = create<OfflineStore>()(
+  devtools(
+    persist(
+      (set, get) => {
+        downloadQueue.onProgress = (progress) => {
+          set(state => ({ progress: { ...state.progress, [progress.trackId]: progress } }));
+
+          // What's been stored so far is kept, so the download shows up and
+          // can resume after a reload
+          if (progress.status === "paused" || progress.status === "error") {
+            getDownload(progress.trackId)
+              .then(download => {
+                if (download) set(state => ({ downloads: { ...state.downloads, [download.trackId]: download } }));
+              })
+              .catch(console.warn);
+            void get().refreshStorage();
+          }
+        };
+
+        downloadQueue.onComplete = (download) => {
+          set(state => ({
+            downloads: { ...state.downloads, [download.trackId]: download },
+            progress: withoutKey(state.progress, download.trackId),
+          }));
+          void get().refreshStorage();
+        };
+
+        /**
+         * Deletes the playlist's old tracks that nothing else keeps, and
+         * queues its new ones as far as the settings and connection allow
+         */
+        const runSync = async (record: OfflinePlaylistRecord, tracks: Track[]) => {
+          const { downloads, offlinePlaylists, settings, isOnline } = get();
+
+          const keptTrackIds = new Set<string>();
+          Object.values(offlinePlaylists)
+            .filter(other => other.playlistId !== record.playlistId)
+            .forEach(other => other.trackIds.forEach(trackId => keptTrackIds.add(trackId)));
+
+          const plan = planPlaylistSync({
+            previousTrackIds: record.trackIds,
+            tracks,
+            downloads,
+            keptTrackIds,
+            storageCap: settings.storageCap,
+          });
+
+          for (const trackId of plan.toEvict) {
+            // Queued on its own before it had a download to say so
+            if (!downloads[trackId] && downloadQueue.isPending(trackId) && !downloadQueue.isPendingFromPlaylistSync(trackId)) continue;
+            await get().removeDownload(trackId);
+          }
+
+          const canDownload = canSyncOnConnection(settings.wifiOnly);
+          if (record.autoDownload && isOnline && canDownload) {
+            plan.toDownload.forEach(track => {
+              const download = get().downloads[track.id];
+              downloadQueue.enqueue(track, download?.quality ?? "high", download ? !!download.fromPlaylistSync : true);
+            });
+          }
+
+          let issue: PlaylistSyncIssue | null = null;
+          if (plan.toDownload.length > 0 && !canDownload) issue = "waiting-for-wifi";
+          else if (plan.overCap.length > 0) issue = "storage-cap";
+
+          const trackIds = tracks.map(track => track.id);
+          const synced: OfflinePlaylistRecord = {
+            ...record,
+            trackIds,
+            tracks: trackIds
+              .map(trackId => get().downloads[trackId])
+              .filter((download): download is OfflineDownload => !!download?.complete)
+              .map(toOfflineTrack),
+            lastSyncAt: new Date(),
+          };
+
+          // Made unavailable offline while this ran
+          if (!get().offlinePlaylists[record.playlistId]) return;
+
+          await putOfflinePlaylist(synced);
+          set(state => ({
+            offlinePlaylists: { ...state.offlinePlaylists, [synced.playlistId]: synced },
+            playlistSyncIssues: issue
+              ? { ...state.playlistSyncIssues, [synced.playlistId]: issue }
+              : withoutKey(state.playlistSyncIssues, synced.playlistId),
+          }));
+        };
+
+        const enqueueSync = (task: () => Promise<void>): Promise<void> => {
+          syncChain = syncChain.then(task).catch(error => {
+            console.error("Failed to sync offline playlist:", error);
+          });
+          return syncChain;
+        };
+
+        return {
+          ...initialState,
+
+          initialize: async () => {
+            if (get().isInitialized || typeof window === "undefined") return;
+            set({ isInitialized: true, isOnline: navigator.onLine });
+
+            window.addEventListener("offline", () => {
+              set({ isOnline: false });
+              interruptedDownloads = downloadQueue.pauseAll();
+            });
+            window.addEventListener("online", () => {
+              set({ isOnline: true });
+              const interrupted = interruptedDownloads;
+              interruptedDownloads = [];
+              interrupted.forEach(trackId => get().resumeDownload(trackId));
+              void get().renewLicenses().then(() => get().syncAllPlaylists());
+            });
+
+            // Joining or leaving Wi-Fi starts or stops playlist downloads
+            const connection = (navigator as Navigator & { connection?: NetworkConnection }).connection;
+            connection?.addEventListener?.("change", () => {
+              if (!canSyncOnConnection(get().settings.wifiOnly)) {
+                downloadQueue.pausePlaylistDownloads();
+              }
+              void get().syncAllPlaylists();
+            });
+
+            void registerOfflineServiceWorker();
+
+            try {
+              const [downloads, offlinePlaylists] = await Promise.all([getDownloads(), getOfflinePlaylists()]);
+              set({
+                downloads: Object.fromEntries(downloads.map(download => [download.trackId, download])),
+                progress: Object.fromEntries(
+                  downloads
+                    .filter(download => !download.complete)
+                    .map(download => [download.trackId, toPausedProgress(download)])
+                ),
+                offlinePlaylists: Object.fromEntries(offlinePlaylists.map(playlist => [playlist.playlistId, playlist])),
+              });
+            } catch (error) {
+              console.error("Failed to load downloads:", error);
+            }
+
+            await get().refreshStorage();
+            if (navigator.onLine) {
+              await get().renewLicenses();
+              await get().syncAllPlaylists();
+            }
+          },
+
+          downloadTrack: (track, quality = "high") => {
+            downloadQueue.enqueue(track, quality);
+          },
+
+          pauseDownload: (trackId) => {
+            // Not started yet, so there's nothing to resume
+            if (downloadQueue.pause(trackId) && !get().downloads[trackId]) {
+              set(state => ({ progress: withoutKey(state.progress, trackId) }));
+            }
+          },
+
+          resumeDownload: (trackId) => {
+            const download = get().downloads[trackId];
+            if (download && !download.complete) {
+              downloadQueue.enqueue(download.track, download.quality, !!download.fromPlaylistSync);
+            }
+          },
+
+          removeDownload: async (trackId) => {
+            downloadQueue.cancel(trackId);
+            try {
+              await deleteDownload(trackId);
+            } catch (error) {
+              console.error("Failed to remove download:", error);
+            }
+
+            set(state => ({
+              downloads: withoutKey(state.downloads, trackId),
+              progress: withoutKey(state.progress, trackId),
+            }));
+            await get().refreshStorage();
+          },
+
+          clearAllDownloads: async () => {
+            downloadQueue.cancelAll();
+            interruptedDownloads = [];
+            try {
+              await clearDownloads();
+            } catch (error) {
+              console.error("Failed to clear downloads:", error);
+            }
+
+            set({ downloads: {}, progress: {}, offlinePlaylists: {}, playlistSyncIssues: {} });
+            await get().refreshStorage();
+          },
+
+          addOfflinePlaylist: async (playlist) => {
+            if (get().offlinePlaylists[playlist.id]) return;
+
+            const record: OfflinePlaylistRecord = {
+              playlistId: playlist.id,
+              name: playlist.name,
+              trackIds: [],
+              tracks: [],
+              lastSyncAt: new Date(),
+              autoDownload: true,
+            };
+            await putOfflinePlaylist(record);
+            set(state => ({ offlinePlaylists: { ...state.offlinePlaylists, [record.playlistId]: record } }));
+            await get().syncPlaylist(playlist);
+          },
+
+          removeOfflinePlaylist: (playlistId) => enqueueSync(async () => {
+            const record = get().offlinePlaylists[playlistId];
+            if (!record) return;
+
+            // Syncing to no tracks deletes the ones nothing else keeps
+            await runSync(record, []);
+            await deleteOfflinePlaylist(playlistId);
+            set(state => ({
+              offlinePlaylists: withoutKey(state.offlinePlaylists, playlistId),
+              playlistSyncIssues: withoutKey(state.playlistSyncIssues, playlistId),
+            }));
+          }),
+
+          syncPlaylist: (playlist) => enqueueSync(async () => {
+            const record = get().offlinePlaylists[playlist.id];
+            if (!record) return;
+
+            await runSync({ ...record, name: playlist.name }, playlist.tracks.map(playlistTrack => playlistTrack.track));
+          }),
+
+          /**
+           * Fetches every offline playlist's tracks and syncs it; playlists
+           * that have been deleted stop being available offline
+           */
+          syncAllPlaylists: async () => {
+            if (!get().isOnline) return;
+
+            for (const record of Object.values(get().offlinePlaylists)) {
+              try {
+                const playlist = await fetchPlaylist(record.playlistId);
+                if (playlist) {
+                  await get().syncPlaylist(playlist);
+                } else {
+                  await get().removeOfflinePlaylist(record.playlistId);
+                }
+              } catch (error) {
+                console.error(`Failed to sync offline playlist ${record.playlistId}:`, error);
+              }
+            }
+          },
+
+          updateSettings: (settings) => {
+            set(state => ({ settings: { ...state.settings, ...settings } }));
+
+            if (!canSyncOnConnection(get().settings.wifiOnly)) {
+              downloadQueue.pausePlaylistDownloads();
+            }
+            void get().syncAllPlaylists();
+          },
+
+          /**
+           * Renews licenses that are running out, and drops downloads the
+           * listener can no longer keep: tracks gone from the catalog, or
+           * everything once their plan doesn't include downloads
+           */
+          renewLicenses: async () => {
+            const due = Object.values(get().downloads).filter(download => needsRenewal(download));
+
+            for (let i = 0; i < due.length; i += LICENSE_BATCH_SIZE) {
+              const batch = due.slice(i, i + LICENSE_BATCH_SIZE);
+              try {
+                const check = await fetchLicenses(batch.map(download => download.trackId));
+                const revoked = check ? check.revoked : batch.map(download => download.trackId);
+
+                for (const license of check?.licenses ?? []) {
+                  const download = get().downloads[license.trackId];
+                  if (!download) continue;
+
+                  const renewed = { ...download, expiresAt: license.expiresAt };
+                  await putDownload(renewed);
+                  set(state => ({ downloads: { ...state.downloads, [renewed.trackId]: renewed } }));
+                }
+
+                for (const trackId of revoked) {
+                  await get().removeDownload(trackId);
+                }
+              } catch (error) {
+                // Offline or the server's unavailable; try again next time
+                console.error("Failed to renew offline licenses:", error);
+                return;
+              }
+            }
+          },
+
+          refreshStorage: async () => {
+            try {
+              set({ storage: await getStorageEstimate() });
+            } catch (error) {
+              console.warn("Failed to estimate storage:", error);
+            }
+          },
+        };
+      },
+      {
+        name: "offline-store",
+        // Downloads live in IndexedDB; only the settings are kept here
+        partialize: (state) => ({
+          settings: state.settings,
+        }),
+      },
+    ),
+    {
+      name: "offline-store",
+    },
+  ),
+);
+
+function toPausedProgress(download: OfflineDownload): DownloadProgress {
+  return {
+    trackId: download.trackId,
+    status: "paused",
+    bytesStored: download.bytesStored,
+    size: download.size,
+  };
+}
+
+function toOfflineTrack({ trackId, downloadedAt, quality, size, expiresAt }: OfflineDownload): OfflineTrack {
+  return { trackId, downloadedAt, quality, size, expiresAt };
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+}
+
+/**
+ * How far an offline playlist has got, or null when it isn't available
+ * offline. Tracks count as downloaded once they're complete.
+ */
+export function getPlaylistSyncStatus(state: OfflineState, playlistId: string): PlaylistSyncStatus | null {
+  const playlist = state.offlinePlaylists[playlistId];
+  if (!playlist) return null;
+
+  const total = playlist.trackIds.length;
+  const downloaded = playlist.trackIds.filter(trackId => state.downloads[trackId]?.complete).length;
+  const isDownloading = playlist.trackIds.some(trackId =>
+    state.progress[trackId]?.status === "queued" || state.progress[trackId]?.status === "downloading"
+  );
+
+  let syncState: PlaylistSyncState;
+  if (downloaded === total) syncState = "downloaded";
+  else if (isDownloading) syncState = "downloading";
+  else if (!state.isOnline) syncState = "offline";
+  else syncState = state.playlistSyncIssues[playlistId] ?? "incomplete";
+
+  return { state: syncState, downloaded, total, lastSyncAt: playlist.lastSyncAt };
+}
+
+export default useOfflineStore;
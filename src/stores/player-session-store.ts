@@ -0,0 +1,123 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { PlayerSession } from "@/types";
+import {
+  SESSION_SAVE_INTERVAL,
+  SESSION_STATE_KEYS,
+  fetchPlayerSession,
+  savePlayerSession,
+  toPlayerSessionUpdate,
+} from "@/lib/audio/player-session";
+import { usePlayerStore } from "./player-store";
+
+interface PlayerSessionState {
+  // The restored session the "resume where you left off" prompt offers
+  resumeSession: PlayerSession | null;
+  // Saving waits until the saved session has been checked, so an empty
+  // player on a new device can't overwrite it
+  isLoaded: boolean;
+}
+
+interface PlayerSessionActions {
+  loadSession: () => Promise<void>;
+  resume: () => void;
+  dismissResume: () => void;
+  saveSession: (options?: { keepalive?: boolean }) => Promise<void>;
+
+  // Utility
+  reset: () => void;
+}
+
+type PlayerSessionStore = PlayerSessionState & PlayerSessionActions;
+
+const initialState: PlayerSessionState = {
+  resumeSession: null,
+  isLoaded: false,
+};
+
+// Bursts of player changes (e.g. skipping through tracks) become one save
+const SAVE_DEBOUNCE_MS = 1000;
+
+let saveTimeout: NodeJS.Timeout | null = null;
+let lastSavedAt = 0;
+
+export const usePlayerSessionStore = create<PlayerSessionStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      loadSession: async () => {
+        set({ isLoaded: false, resumeSession: null });
+
+        try {
+          const session = await fetchPlayerSession();
+
+          // Something started playing here in the meantime; it takes over
+          const player = usePlayerStore.getState();
+          if (session?.currentTrack && !player.currentTrack) {
+            player.restoreSession(session);
+            set({ resumeSession: session });
+          }
+        } catch (error) {
+          console.error("Failed to load player session:", error);
+        } finally {
+          set({ isLoaded: true });
+        }
+      },
+
+      resume: () => {
+        set({ resumeSession: null });
+        usePlayerStore.getState().play();
+      },
+
+      dismissResume: () => {
+        set({ resumeSession: null });
+      },
+
+      saveSession: async ({ keepalive = false } = {}) => {
+        const player = usePlayerStore.getState();
+        if (!get().isLoaded || !player.currentTrack) return;
+
+        lastSavedAt = Date.now();
+        try {
+          await savePlayerSession(toPlayerSessionUpdate(player), { keepalive });
+        } catch (error) {
+          console.error("Failed to save player session:", error);
+        }
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: "player-session-store",
+    },
+  ),
+);
+
+function scheduleSave(): void {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    usePlayerSessionStore.getState().saveSession();
+  }, SAVE_DEBOUNCE_MS);
+}
+
+if (typeof window !== "undefined") {
+  // Save the exact position before the page goes away
+  window.addEventListener("pagehide", () => {
+    usePlayerSessionStore.getState().saveSession({ keepalive: true });
+  });
+
+  usePlayerStore.subscribe((state, previous) => {
+    const changed = SESSION_STATE_KEYS.some(key => state[key] !== previous[key]);
+    const positionDue = state.isPlaying && Date.now() - lastSavedAt > SESSION_SAVE_INTERVAL;
+
+    if (changed || (positionDue && !saveTimeout)) {
+      scheduleSave();
+    }
+  });
+}
+
+export default usePlayerSessionStore;
@@ -1,11 +1,32 @@
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
-import type { PlayerState, Track, RepeatMode, User, MockAd } from "@/types";
+import type { PlayerState, PlaybackContext, PlayerSession, Track, RepeatMode, User, MockAd, UserPreferences, VolumeNormalization, SleepTimerOption } from "@/types";
 import { AdvancedAudioEngine, type AudioEngineConfig, type AudioAnalyzerData } from "@/lib/audio/advanced-audio-engine";
 import { skipTracker } from "@/lib/subscription/skip-tracker";
 import { adManager } from "@/lib/subscription/ad-manager";
-import { audioQualityManager } from "@/lib/subscription/audio-quality-manager";
+import { audioQualityManager, type AudioQuality } from "@/lib/subscription/audio-quality-manager";
 import { TierManager } from "@/lib/subscription/tier-manager";
+import { listenTracker } from "@/lib/audio/listen-tracker";
+import { clearStreamUrls, fetchStreamUrl } from "@/lib/audio/stream-url";
+import { getOfflineStreamSource } from "@/lib/offline/offline-playback";
+import { ThroughputEstimator, getSustainableQuality, toNetworkQuality } from "@/lib/audio/adaptive-quality";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  MAX_PLAY_HISTORY,
+  createShuffleOrder,
+  createShuffleSeed,
+  getPlayOrder,
+  moveQueueIndex,
+  removeQueueIndex,
+} from "@/lib/audio/shuffle";
+import { fetchAutoplayTracks, getAutoplaySeeds } from "@/lib/audio/autoplay";
+import { fetchRadioStation, parseRadioContext } from "@/lib/audio/radio";
+import {
+  SLEEP_FADE_DURATION,
+  createSleepTimer,
+  endsAfterCurrentTrack,
+  getSleepTimerRemaining,
+} from "@/lib/audio/sleep-timer";
 
 interface PlayerActions {
   // Playback Controls
@@ -22,22 +43,39 @@ interface PlayerActions {
   unmute: () => void;
   
   // Queue Management
-  setQueue: (tracks: Track[], startIndex?: number) => void;
+  // The context queue; `context` records where the tracks came from
+  setQueue: (tracks: Track[], startIndex?: number, context?: PlaybackContext | null) => void;
+  // "Up next" tracks play before the rest of the context
   addToQueue: (track: Track) => void;
+  playNext: (track: Track) => void;
+  removeFromUpNext: (index: number) => void;
+  clearUpNext: () => void;
   removeFromQueue: (index: number) => void;
   clearQueue: () => void;
   reorderQueue: (fromIndex: number, toIndex: number) => void;
+  // Loads a saved session paused at its position; play() resumes it
+  restoreSession: (session: PlayerSession) => void;
   
   // Playback Modes
   setRepeatMode: (mode: RepeatMode) => void;
   toggleShuffle: () => void;
   
+  // Autoplay and radio
+  setAutoplay: (enabled: boolean) => Promise<void>;
+  loadPlaybackPreferences: () => Promise<void>;
+  // Appends the radio station's next batch, or autoplay tracks; resolves to how many were added
+  extendQueue: () => Promise<number>;
+  
+  // Sleep Timer
+  setSleepTimer: (option: SleepTimerOption) => void;
+  cancelSleepTimer: () => void;
+  
   // Progress Updates
   updateProgress: (progress: number) => void;
   setDuration: (duration: number) => void;
   
   // Context
-  setPlaybackContext: (context: any) => void;
+  setPlaybackContext: (context: PlaybackContext | null) => void;
   
   // Loading States
   setLoading: (loading: boolean) => void;
@@ -45,6 +83,7 @@ interface PlayerActions {
   // Advanced Audio Features
   setPlaybackRate: (rate: number) => void;
   setCrossfadeDuration: (duration: number) => void;
+  setVolumeNormalization: (mode: VolumeNormalization) => Promise<void>;
   toggleEqualizer: () => void;
   setEqualizerPreset: (preset: string) => void;
   setEqualizerBand: (bandIndex: number, gain: number) => void;
@@ -85,19 +124,29 @@ const initialState: PlayerState = {
   progress: 0,
   duration: 0,
   queue: [],
+  upNext: [],
+  playbackContext: null,
+  isPlayingUpNext: false,
   currentIndex: -1,
   repeatMode: "off",
   shuffleMode: false,
+  shuffleOrder: [],
+  shuffleSeed: 0,
+  playHistory: [],
+  autoplay: true,
+  autoplayStartIndex: null,
   isLoading: false,
   // New advanced features
   playbackRate: 1,
   crossfadeDuration: 3,
+  volumeNormalization: "track",
   isEqualizerEnabled: true,
   equalizerPreset: 'flat',
   isVisualizerEnabled: true,
   audioQuality: 'high' as 'low' | 'medium' | 'high' | 'lossless',
   skipCount: 0,
   maxSkips: 6, // Free users limited to 6 skips per hour
+  sleepTimer: null,
 };
 
 // Ad-related state (separate from PlayerState to avoid type conflicts)
@@ -124,6 +173,204 @@ const initialAdState: AdState = {
 
 let adState: AdState = { ...initialAdState };
 
+// Shared by the prefetch and the end-of-queue fallback so one fetch serves both
+let queueExtension: Promise<number> | null = null;
+
+// Radio stations never end; other contexts continue with autoplay if it's on,
+// unless the sleep timer is waiting for the context to end
+function canExtendQueue(state: PlayerState): boolean {
+  return state.repeatMode === "off" &&
+    state.sleepTimer?.type !== "context" &&
+    (state.autoplay || parseRadioContext(state.playbackContext) !== null);
+}
+
+// The queue's last track is playing, so more tracks will be needed soon
+function isLastQueueTrack(state: PlayerState): boolean {
+  const order = getPlayOrder(state.queue.length, state.shuffleOrder);
+  return state.queue.length > 0 && order[order.length - 1] === state.currentIndex;
+}
+
+interface PlayerAdvance {
+  track: Track;
+  updates: Partial<PlayerState>;
+}
+
+/**
+ * What "next" plays from this state and the state changes that come with
+ * it, or null at the end of the queue
+ */
+function resolveNextTrack(state: PlayerState): PlayerAdvance | null {
+  const { queue, upNext, currentTrack, currentIndex, isPlayingUpNext, repeatMode, shuffleMode, shuffleOrder, playHistory } = state;
+  
+  let nextTrack: Track | undefined;
+  let updates: Partial<PlayerState> = {};
+  
+  if (repeatMode === "track" && currentTrack) {
+    // Repeat current track
+    nextTrack = currentTrack;
+  } else if (upNext.length > 0) {
+    // Tracks the user queued always play before the rest of the context
+    const [queuedTrack, ...remaining] = upNext;
+    nextTrack = queuedTrack;
+    updates = { upNext: remaining, isPlayingUpNext: true };
+  } else {
+    // Step through the play order (queue order unless shuffled)
+    const order = getPlayOrder(queue.length, shuffleOrder);
+    const upcoming = order[order.indexOf(currentIndex) + 1];
+    let nextIndex: number;
+    
+    if (upcoming !== undefined) {
+      nextIndex = upcoming;
+    } else if (repeatMode === "context") {
+      if (shuffleMode) {
+        // Each pass through a shuffled queue gets a fresh order
+        const shuffleSeed = createShuffleSeed();
+        const newOrder = createShuffleOrder(queue, shuffleSeed);
+        // Don't replay the track that just finished
+        if (newOrder.length > 1 && newOrder[0] === currentIndex) {
+          newOrder.push(newOrder.shift() as number);
+        }
+        updates = { shuffleOrder: newOrder, shuffleSeed };
+        nextIndex = newOrder[0] ?? 0;
+      } else {
+        nextIndex = order[0] ?? 0; // Loop to beginning
+      }
+    } else {
+      return null;
+    }
+    
+    nextTrack = queue[nextIndex];
+    updates = { ...updates, currentIndex: nextIndex, isPlayingUpNext: false };
+  }
+  
+  if (!nextTrack) return null;
+  
+  // Remember context tracks we move on from so "previous" can walk back
+  // through them; queued tracks aren't part of the context
+  if (nextTrack !== currentTrack && !isPlayingUpNext && currentIndex >= 0) {
+    updates.playHistory = [...playHistory, currentIndex].slice(-MAX_PLAY_HISTORY);
+  }
+  
+  return { track: nextTrack, updates };
+}
+
+// Everything resolveNextTrack and the sleep timer look at
+const UPCOMING_TRACK_KEYS = [
+  "queue",
+  "upNext",
+  "currentTrack",
+  "currentIndex",
+  "isPlayingUpNext",
+  "repeatMode",
+  "shuffleOrder",
+  "playHistory",
+  "sleepTimer",
+] as const satisfies readonly (keyof PlayerState)[];
+
+// The advance the engine was told to preload, applied when it gets there
+let pendingAdvance: PlayerAdvance | null = null;
+
+function syncUpcomingTrack(state: PlayerState): void {
+  // A sleep timer that ends with this track leaves nothing to run into
+  pendingAdvance = endsAfterCurrentTrack(state.sleepTimer, state) ? null : resolveNextTrack(state);
+  audioEngine?.setNextTrack(pendingAdvance?.track ?? null);
+}
+
+const throughputEstimator = new ThroughputEstimator();
+
+/**
+ * The rendition to stream a track at: what getOptimalQuality picks for a
+ * signed-in listener's plan and network (or the selected quality), capped
+ * at what the measured throughput keeps up with
+ */
+function selectStreamQuality(state: PlayerState, track: Track): AudioQuality {
+  const user = useAuthStore.getState().user;
+  const quality = user ? audioQualityManager.getOptimalQuality(user, track).quality : state.audioQuality;
+  return getSustainableQuality(quality, throughputEstimator.estimate);
+}
+
+const SLEEP_TIMER_CHECK_INTERVAL = 250;
+
+let sleepTimerInterval: NodeJS.Timeout | null = null;
+let isSleepFading = false;
+
+function clearSleepTimer(): void {
+  if (sleepTimerInterval) {
+    clearInterval(sleepTimerInterval);
+    sleepTimerInterval = null;
+  }
+  if (isSleepFading) {
+    audioEngine?.cancelFadeOut();
+    isSleepFading = false;
+  }
+}
+
+/**
+ * Fades out over the timer's last seconds. Minute timers stop playback
+ * here; track and context timers stop when the engine reaches the end of
+ * the track.
+ */
+function checkSleepTimer(): void {
+  const state = usePlayerStore.getState();
+  const { sleepTimer } = state;
+  if (!sleepTimer) return;
+
+  const remaining = getSleepTimerRemaining(sleepTimer, state);
+  if (sleepTimer.type === "minutes" && remaining <= 0) {
+    if (state.isPlaying) state.pause();
+    state.cancelSleepTimer();
+    return;
+  }
+
+  // Pausing or seeking back out of the fade brings the level back
+  const shouldFade = state.isPlaying && remaining <= SLEEP_FADE_DURATION;
+  if (shouldFade !== isSleepFading) {
+    if (shouldFade) {
+      audioEngine?.fadeOut(remaining);
+    } else {
+      audioEngine?.cancelFadeOut();
+    }
+    isSleepFading = shouldFade;
+  }
+}
+
+// The track a track or context timer was waiting for has ended: line up
+// whatever would have played next, paused
+function finishSleepTimer(): void {
+  const state = usePlayerStore.getState();
+  const advance = resolveNextTrack(state);
+  state.cancelSleepTimer();
+
+  if (!advance) {
+    audioEngine?.stop();
+    usePlayerStore.setState({ isPlaying: false });
+    return;
+  }
+
+  usePlayerStore.setState({
+    ...advance.updates,
+    currentTrack: advance.track,
+    isPlaying: false,
+    progress: 0,
+    duration: advance.track.duration,
+  });
+  audioEngine?.cue(advance.track);
+  listenTracker.begin(advance.track, state.playbackContext ?? undefined);
+}
+
+async function requestPreferences(init?: RequestInit): Promise<UserPreferences | null> {
+  const response = await fetch("/api/me/preferences", init);
+
+  // Signed-out listeners keep the defaults
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Preferences request failed with status ${response.status}`);
+  }
+
+  const { data } = await response.json();
+  return data;
+}
+
 const usePlayerStore = create<PlayerStore>()(
   devtools(
     (set, get) => ({
@@ -137,13 +384,56 @@ const usePlayerStore = create<PlayerStore>()(
             enableEqualizer: get().isEqualizerEnabled,
             enableVisualizer: get().isVisualizerEnabled,
             audioQuality: get().audioQuality,
+            normalization: get().volumeNormalization,
           };
           
           audioEngine = new AdvancedAudioEngine(config);
           
+          // Audio is served through signed URLs; each track picks its
+          // rendition when it loads, so quality changes at track boundaries.
+          // Offline, downloaded tracks play from the device instead.
+          audioEngine.resolveStream = async (track) => {
+            if (!navigator.onLine) {
+              const offlineSource = await getOfflineStreamSource(track.id);
+              if (offlineSource) return offlineSource;
+            }
+
+            const { url, size } = await fetchStreamUrl(track.id, selectStreamQuality(get(), track));
+            return { url, size };
+          };
+          
+          audioEngine.onThroughput = (kbps) => {
+            const estimate = throughputEstimator.addSample(kbps);
+            audioQualityManager.updateNetworkQuality(toNetworkQuality(estimate));
+          };
+          
           // Set up audio engine callbacks
           audioEngine.onTrackEnd = () => {
-            get().nextTrack();
+            if (endsAfterCurrentTrack(get().sleepTimer, get())) {
+              finishSleepTimer();
+            } else {
+              get().nextTrack();
+            }
+          };
+          
+          // Gapless and crossfade transitions happen in the engine; catch
+          // the queue up with the track it moved on to
+          audioEngine.onTrackChange = (track) => {
+            const advance = pendingAdvance;
+            if (advance?.track !== track) return;
+            
+            audioEngine?.setupMediaSession(track);
+            listenTracker.begin(track, get().playbackContext ?? undefined);
+            set({
+              ...advance.updates,
+              currentTrack: track,
+              progress: 0,
+              isPlaying: true,
+            });
+            
+            if (canExtendQueue(get()) && isLastQueueTrack(get())) {
+              get().extendQueue();
+            }
           };
           
           audioEngine.onError = (error) => {
@@ -161,11 +451,19 @@ const usePlayerStore = create<PlayerStore>()(
                 progress: currentTime,
                 duration: duration,
               });
+
+              // Count listened time towards the recently played threshold
+              const { currentTrack } = get();
+              if (currentTrack) {
+                listenTracker.tick(currentTrack, currentTime, duration);
+              }
               
               // Update Media Session position
               audioEngine.updatePositionState();
             }
           }, 100);
+          
+          syncUpcomingTrack(get());
         }
       },
       
@@ -181,6 +479,7 @@ const usePlayerStore = create<PlayerStore>()(
             set({ isLoading: true });
             await audioEngine!.play(track);
             audioEngine!.setupMediaSession(track);
+            listenTracker.begin(track, get().playbackContext ?? undefined);
             
             set({
               currentTrack: track,
@@ -218,41 +517,25 @@ const usePlayerStore = create<PlayerStore>()(
       },
       
       nextTrack: async () => {
-        const { queue, currentIndex, repeatMode, shuffleMode, crossfadeDuration } = get();
+        const state = get();
         
-        if (queue.length === 0) return;
+        if (state.queue.length === 0 && state.upNext.length === 0) return;
         
-        let nextIndex: number;
-        
-        if (repeatMode === "track") {
-          // Repeat current track
-          nextIndex = currentIndex;
-        } else if (shuffleMode) {
-          // Random next track (avoiding current)
-          const availableIndices = queue
-            .map((_, index) => index)
-            .filter(index => index !== currentIndex);
-          nextIndex = availableIndices[Math.floor(Math.random() * availableIndices.length)] ?? 0;
-        } else {
-          // Normal progression
-          nextIndex = currentIndex + 1;
-          
-          if (nextIndex >= queue.length) {
-            if (repeatMode === "context") {
-              nextIndex = 0; // Loop to beginning
-            } else {
-              // End of queue
-              if (audioEngine) {
-                audioEngine.stop();
-              }
-              set({ isPlaying: false });
-              return;
-            }
+        const advance = resolveNextTrack(state);
+        if (!advance) {
+          // End of queue: keep going with the station or similar tracks
+          if (canExtendQueue(state) && (await get().extendQueue()) > 0) {
+            return get().nextTrack();
+          }
+          if (audioEngine) {
+            audioEngine.stop();
           }
+          set({ isPlaying: false });
+          return;
         }
         
-        const nextTrack = queue[nextIndex];
-        if (!nextTrack) return;
+        const { track: nextTrack, updates } = advance;
+        const { crossfadeDuration } = state;
 
         // Check if an ad should be played before the next track
         // TODO: Get user from auth store
@@ -285,13 +568,18 @@ const usePlayerStore = create<PlayerStore>()(
             }
             
             audioEngine.setupMediaSession(nextTrack);
+            listenTracker.begin(nextTrack, get().playbackContext ?? undefined);
             
             set({
+              ...updates,
               currentTrack: nextTrack,
-              currentIndex: nextIndex,
               progress: 0,
               isPlaying: true,
             });
+            
+            if (canExtendQueue(get()) && isLastQueueTrack(get())) {
+              get().extendQueue();
+            }
           } catch (error) {
             console.error('Failed to play next track:', error);
             set({ isLoading: false, isPlaying: false });
@@ -299,41 +587,55 @@ const usePlayerStore = create<PlayerStore>()(
         }
       },
       
-      previousTrack: () => {
-        const { queue, currentIndex, progress } = get();
+      previousTrack: async () => {
+        const { queue, currentIndex, progress, repeatMode, shuffleOrder, playHistory } = get();
         
         if (queue.length === 0) return;
         
         // If more than 3 seconds into track, restart current track
         if (progress > 3) {
-          set({ progress: 0 });
+          get().seekTo(0);
           return;
         }
         
-        // Go to previous track
-        const previousIndex = currentIndex - 1;
+        let previousIndex: number;
+        let remainingHistory = playHistory;
         
-        if (previousIndex < 0) {
-          // Go to last track if repeat is on, otherwise stay at first
-          const { repeatMode } = get();
-          const targetIndex = repeatMode === "context" ? queue.length - 1 : 0;
-          const targetTrack = queue[targetIndex];
-          
-          if (targetTrack) {
-            set({
-              currentTrack: targetTrack,
-              currentIndex: targetIndex,
-              progress: 0,
-            });
-          }
+        if (playHistory.length > 0) {
+          // Walk back through what actually played
+          previousIndex = playHistory[playHistory.length - 1] ?? 0;
+          remainingHistory = playHistory.slice(0, -1);
         } else {
-          const previousTrack = queue[previousIndex];
-          if (previousTrack) {
-            set({
-              currentTrack: previousTrack,
-              currentIndex: previousIndex,
-              progress: 0,
-            });
+          // Nothing played yet: step back through the play order, wrapping
+          // to the end if repeat is on, otherwise staying at the first track
+          const order = getPlayOrder(queue.length, shuffleOrder);
+          const position = order.indexOf(currentIndex);
+          const targetPosition = position > 0
+            ? position - 1
+            : repeatMode === "context" ? order.length - 1 : 0;
+          previousIndex = order[targetPosition] ?? 0;
+        }
+        
+        const previousTrack = queue[previousIndex];
+        if (!previousTrack) return;
+        
+        set({
+          currentTrack: previousTrack,
+          currentIndex: previousIndex,
+          isPlayingUpNext: false,
+          playHistory: remainingHistory,
+          progress: 0,
+        });
+        
+        if (audioEngine) {
+          try {
+            await audioEngine.play(previousTrack);
+            audioEngine.setupMediaSession(previousTrack);
+            listenTracker.begin(previousTrack, get().playbackContext ?? undefined);
+            set({ isPlaying: true });
+          } catch (error) {
+            console.error('Failed to play previous track:', error);
+            set({ isLoading: false, isPlaying: false });
           }
         }
       },
@@ -364,35 +666,70 @@ const usePlayerStore = create<PlayerStore>()(
         }
       },
       
-      setQueue: (tracks, startIndex = 0) => {
+      setQueue: (tracks, startIndex = 0, context = null) => {
         const currentTrack = tracks[startIndex];
+        const shuffleSeed = createShuffleSeed();
+        // Starting a new context keeps whatever the user queued up next
         set({
           queue: tracks,
+          playbackContext: context,
           currentIndex: startIndex,
           currentTrack: currentTrack || null,
+          isPlayingUpNext: false,
+          shuffleOrder: get().shuffleMode ? createShuffleOrder(tracks, shuffleSeed, startIndex) : [],
+          shuffleSeed,
+          playHistory: [],
+          autoplayStartIndex: null,
           progress: 0,
         });
+        
+        // A new context shouldn't pick up tracks requested for the old one
+        queueExtension = null;
+        if (canExtendQueue(get()) && isLastQueueTrack(get())) {
+          get().extendQueue();
+        }
       },
       
       addToQueue: (track) => {
-        const { queue } = get();
-        set({ queue: [...queue, track] });
+        set({ upNext: [...get().upNext, track] });
+      },
+      
+      playNext: (track) => {
+        set({ upNext: [track, ...get().upNext] });
+      },
+      
+      removeFromUpNext: (index) => {
+        set({ upNext: get().upNext.filter((_, i) => i !== index) });
+      },
+      
+      clearUpNext: () => {
+        set({ upNext: [] });
       },
       
       removeFromQueue: (index) => {
         const { queue, currentIndex } = get();
         const newQueue = queue.filter((_, i) => i !== index);
+        const shuffleOrder = removeQueueIndex(get().shuffleOrder, index);
+        const playHistory = removeQueueIndex(get().playHistory, index);
+        const { autoplayStartIndex } = get();
+        const newAutoplayStartIndex = autoplayStartIndex === null || autoplayStartIndex >= newQueue.length
+          ? null
+          : index < autoplayStartIndex ? autoplayStartIndex - 1 : autoplayStartIndex;
         
         let newCurrentIndex = currentIndex;
         if (index < currentIndex) {
           newCurrentIndex = currentIndex - 1;
         } else if (index === currentIndex) {
           // Current track was removed
-          const newCurrentTrack = newQueue[newCurrentIndex] || newQueue[0] || null;
+          const fallbackIndex = newQueue[newCurrentIndex] ? newCurrentIndex : 0;
+          const newCurrentTrack = newQueue[fallbackIndex] || null;
           set({
             queue: newQueue,
-            currentIndex: newCurrentTrack ? newCurrentIndex : -1,
+            currentIndex: newCurrentTrack ? fallbackIndex : -1,
             currentTrack: newCurrentTrack,
+            shuffleOrder,
+            playHistory,
+            autoplayStartIndex: newAutoplayStartIndex,
             isPlaying: false,
             progress: 0,
           });
@@ -402,25 +739,158 @@ const usePlayerStore = create<PlayerStore>()(
         set({
           queue: newQueue,
           currentIndex: newCurrentIndex >= newQueue.length ? -1 : newCurrentIndex,
+          shuffleOrder,
+          playHistory,
+          autoplayStartIndex: newAutoplayStartIndex,
         });
       },
       
       clearQueue: () => {
         set({
           queue: [],
+          upNext: [],
+          playbackContext: null,
           currentIndex: -1,
           currentTrack: null,
+          isPlayingUpNext: false,
+          shuffleOrder: [],
+          playHistory: [],
+          autoplayStartIndex: null,
           isPlaying: false,
           progress: 0,
         });
+        queueExtension = null;
+      },
+      
+      restoreSession: (session) => {
+        if (!audioEngine) {
+          get().initializeAudioEngine();
+        }
+        
+        const { currentTrack, position, updatedAt: _updatedAt, ...queueState } = session;
+        set({
+          ...queueState,
+          currentTrack,
+          isPlaying: false,
+          progress: position,
+          duration: currentTrack?.duration ?? 0,
+        });
+        queueExtension = null;
+        
+        if (currentTrack) {
+          audioEngine?.cue(currentTrack, position);
+          listenTracker.begin(currentTrack, session.playbackContext ?? undefined);
+        }
       },
       
       setRepeatMode: (mode) => {
         set({ repeatMode: mode });
       },
       
+      setAutoplay: async (enabled) => {
+        const previous = get().autoplay;
+        set({ autoplay: enabled });
+        
+        try {
+          await requestPreferences({
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ autoplay: enabled }),
+          });
+        } catch (error) {
+          console.error('Failed to save autoplay setting:', error);
+          set({ autoplay: previous });
+        }
+      },
+      
+      loadPlaybackPreferences: async () => {
+        try {
+          const preferences = await requestPreferences();
+          if (preferences) {
+            audioEngine?.updateConfig({ normalization: preferences.volumeNormalization });
+            set({ autoplay: preferences.autoplay, volumeNormalization: preferences.volumeNormalization });
+          }
+        } catch (error) {
+          console.error('Failed to load playback preferences:', error);
+        }
+      },
+      
+      extendQueue: () => {
+        if (queueExtension) return queueExtension;
+        
+        const { queue, upNext, currentIndex, playHistory, playbackContext } = get();
+        const radio = parseRadioContext(playbackContext);
+        const loadTracks = async () => {
+          try {
+            const tracks = radio
+              ? (await fetchRadioStation(radio)).tracks
+              : await fetchAutoplayTracks(
+                getAutoplaySeeds(queue, currentIndex, playHistory),
+                [...queue, ...upNext].map(track => track.id)
+              );
+            
+            // Drop the results if the queue changed while they were loading
+            const state = get();
+            if (tracks.length === 0 || state.queue !== queue || !canExtendQueue(state)) return 0;
+            
+            const addedIndices = tracks.map((_, i) => queue.length + i);
+            set({
+              queue: [...queue, ...tracks],
+              // A station's tracks are the context itself, not an autoplay section
+              autoplayStartIndex: radio ? state.autoplayStartIndex : state.autoplayStartIndex ?? queue.length,
+              // New tracks follow the shuffled queue in the order they were recommended
+              shuffleOrder: state.shuffleMode ? [...state.shuffleOrder, ...addedIndices] : state.shuffleOrder,
+            });
+            return tracks.length;
+          } catch (error) {
+            console.error('Failed to extend queue:', error);
+            return 0;
+          }
+        };
+        
+        const request = loadTracks().finally(() => {
+          if (queueExtension === request) {
+            queueExtension = null;
+          }
+        });
+        queueExtension = request;
+        return request;
+      },
+      
       toggleShuffle: () => {
-        set({ shuffleMode: !get().shuffleMode });
+        const { shuffleMode, queue, currentIndex } = get();
+        
+        if (shuffleMode) {
+          // Queue order was never touched, so playback carries on from the
+          // current track's original position
+          set({ shuffleMode: false, shuffleOrder: [] });
+          return;
+        }
+        
+        const shuffleSeed = createShuffleSeed();
+        set({
+          shuffleMode: true,
+          shuffleSeed,
+          shuffleOrder: createShuffleOrder(queue, shuffleSeed, currentIndex),
+        });
+      },
+      
+      setSleepTimer: (option) => {
+        // A new timer starts from full volume
+        if (isSleepFading) {
+          audioEngine?.cancelFadeOut();
+          isSleepFading = false;
+        }
+        set({ sleepTimer: createSleepTimer(option) });
+        
+        if (!sleepTimerInterval) {
+          sleepTimerInterval = setInterval(checkSleepTimer, SLEEP_TIMER_CHECK_INTERVAL);
+        }
+      },
+      
+      cancelSleepTimer: () => {
+        clearSleepTimer();
+        set({ sleepTimer: null });
       },
       
       updateProgress: (progress) => {
@@ -431,9 +901,8 @@ const usePlayerStore = create<PlayerStore>()(
         set({ duration });
       },
       
-      setPlaybackContext: () => {
-        // This could be expanded to store playback context
-        // For now, just acknowledge the context change
+      setPlaybackContext: (context) => {
+        set({ playbackContext: context });
       },
       
       setLoading: (loading) => {
@@ -442,7 +911,21 @@ const usePlayerStore = create<PlayerStore>()(
       
       // Queue reordering
       reorderQueue: (fromIndex, toIndex) => {
-        const { queue } = get();
+        const { queue, shuffleMode, shuffleOrder } = get();
+        
+        // While shuffled the queue is shown in play order, so reorder that instead
+        if (shuffleMode) {
+          const fromPosition = shuffleOrder.indexOf(fromIndex);
+          const toPosition = shuffleOrder.indexOf(toIndex);
+          if (fromPosition < 0 || toPosition < 0) return;
+          
+          const newOrder = [...shuffleOrder];
+          newOrder.splice(fromPosition, 1);
+          newOrder.splice(toPosition, 0, fromIndex);
+          set({ shuffleOrder: newOrder });
+          return;
+        }
+        
         const newQueue = [...queue];
         const [movedTrack] = newQueue.splice(fromIndex, 1);
         if (movedTrack) {
@@ -459,7 +942,23 @@ const usePlayerStore = create<PlayerStore>()(
           newCurrentIndex++;
         }
         
-        set({ queue: newQueue, currentIndex: newCurrentIndex });
+        // Tracks dragged across the boundary change sections
+        let { autoplayStartIndex } = get();
+        if (autoplayStartIndex !== null) {
+          if (fromIndex < autoplayStartIndex && toIndex >= autoplayStartIndex) {
+            autoplayStartIndex--;
+          } else if (fromIndex >= autoplayStartIndex && toIndex < autoplayStartIndex) {
+            autoplayStartIndex++;
+          }
+          if (autoplayStartIndex >= newQueue.length) autoplayStartIndex = null;
+        }
+        
+        set({
+          queue: newQueue,
+          currentIndex: newCurrentIndex,
+          playHistory: moveQueueIndex(get().playHistory, fromIndex, toIndex),
+          autoplayStartIndex,
+        });
       },
       
       // Advanced Audio Features
@@ -479,6 +978,24 @@ const usePlayerStore = create<PlayerStore>()(
         set({ crossfadeDuration: clampedDuration });
       },
       
+      setVolumeNormalization: async (mode) => {
+        const previous = get().volumeNormalization;
+        audioEngine?.updateConfig({ normalization: mode });
+        set({ volumeNormalization: mode });
+        
+        try {
+          await requestPreferences({
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ volumeNormalization: mode }),
+          });
+        } catch (error) {
+          console.error('Failed to save volume normalization setting:', error);
+          audioEngine?.updateConfig({ normalization: previous });
+          set({ volumeNormalization: previous });
+        }
+      },
+      
       toggleEqualizer: () => {
         const newEnabled = !get().isEqualizerEnabled;
         if (audioEngine) {
@@ -649,6 +1166,7 @@ const usePlayerStore = create<PlayerStore>()(
       },
       
       reset: () => {
+        clearSleepTimer();
         if (audioEngine) {
           audioEngine.dispose();
           audioEngine = null;
@@ -657,6 +1175,9 @@ const usePlayerStore = create<PlayerStore>()(
           clearInterval(progressInterval);
           progressInterval = null;
         }
+        listenTracker.reset();
+        clearStreamUrls();
+        throughputEstimator.reset();
         set(initialState);
       },
     }),
@@ -666,6 +1187,14 @@ const usePlayerStore = create<PlayerStore>()(
   ),
 );
 
+// Keep the engine preloading whatever "next" would play, so it can run
+// into it when the current track ends
+usePlayerStore.subscribe((state, previous) => {
+  if (UPCOMING_TRACK_KEYS.some(key => state[key] !== previous[key])) {
+    syncUpcomingTrack(state);
+  }
+});
+
 // Export both named and default exports for compatibility
 export { usePlayerStore };
 export default usePlayerStore;
\ No newline at end of file
@@ -10,6 +10,7 @@ import {
   PlaylistTemplate,
   PlaylistShareSettings 
 } from '@/types';
+import { useLibraryStore } from './library-store';
 
 interface PlaylistState {
   // State
@@ -30,6 +31,7 @@ interface PlaylistState {
   
   // Actions
   setPlaylists: (playlists: Playlist[]) => void;
+  fetchPlaylists: () => Promise<void>;
   setCurrentPlaylist: (playlist: Playlist | null) => void;
   createPlaylist: (request: PlaylistCreateRequest) => Promise<Playlist>;
   updatePlaylist: (id: string, request: PlaylistUpdateRequest) => Promise<Playlist>;
@@ -44,6 +46,7 @@ interface PlaylistState {
   removeTracksFromPlaylist: (playlistId: string, trackIds: string[]) => Promise<void>;
   
   // Folder Management
+  fetchFolders: () => Promise<void>;
   createFolder: (name: string, color?: string) => Promise<PlaylistFolder>;
   updateFolder: (id: string, name: string, color?: string) => Promise<PlaylistFolder>;
   deleteFolder: (id: string) => Promise<void>;
@@ -98,6 +101,30 @@ const usePlaylistStore = create<PlaylistState>()(
         // Actions
         setPlaylists: (playlists) => set({ playlists }),
         
+        fetchPlaylists: async () => {
+          set({ isLoading: true, error: null });
+          try {
+            const response = await fetch('/api/playlist');
+            
+            if (!response.ok) {
+              throw new Error('Failed to fetch playlists');
+            }
+            
+            const playlists: Playlist[] = await response.json();
+            
+            set(state => ({
+              playlists,
+              currentPlaylist: state.currentPlaylist
+                ? playlists.find(p => p.id === state.currentPlaylist?.id) ?? state.currentPlaylist
+                : null,
+              isLoading: false
+            }));
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            set({ error: errorMessage, isLoading: false });
+          }
+        },
+        
         setCurrentPlaylist: (playlist) => set({ currentPlaylist: playlist }),
         
         createPlaylist: async (request) => {
@@ -344,6 +371,22 @@ const usePlaylistStore = create<PlaylistState>()(
         },
         
         // Folder Management
+        fetchFolders: async () => {
+          try {
+            const response = await fetch('/api/playlist/folder');
+            
+            if (!response.ok) {
+              throw new Error('Failed to fetch folders');
+            }
+            
+            const folders: PlaylistFolder[] = await response.json();
+            set({ folders });
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            set({ error: errorMessage });
+          }
+        },
+        
         createFolder: async (name, color) => {
           set({ isLoading: true, error: null });
           try {
@@ -556,11 +599,7 @@ const usePlaylistStore = create<PlaylistState>()(
           return playlist?.totalDuration || 0;
         },
         
-        isPlaylistLiked: (id) => {
-          // This would typically check a liked playlists state
-          // For now, return false as placeholder
-          return false;
-        },
+        isPlaylistLiked: (id) => useLibraryStore.getState().isPlaylistFollowed(id),
         
         // Loading and Error
         setLoading: (loading) => set({ isLoading: loading }),
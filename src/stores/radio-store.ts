@@ -0,0 +1,106 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { RadioRating, RadioSeedType, Track } from "@/types";
+import { fetchRadioStation, getRadioContext, parseRadioContext, sendRadioFeedback } from "@/lib/audio/radio";
+import { usePlayerStore } from "./player-store";
+
+interface RadioState {
+  // Thumbs up/down on the station that is playing, keyed by track id
+  ratings: Record<string, RadioRating>;
+  isStarting: boolean;
+  error: string | null;
+}
+
+interface RadioActions {
+  startRadio: (seedType: RadioSeedType, seedId: string) => Promise<void>;
+  rateTrack: (track: Track, rating: RadioRating | null) => Promise<void>;
+
+  // Utility
+  clearError: () => void;
+  reset: () => void;
+}
+
+type RadioStore = RadioState & RadioActions;
+
+const initialState: RadioState = {
+  ratings: {},
+  isStarting: false,
+  error: null,
+};
+
+export const useRadioStore = create<RadioStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      startRadio: async (seedType, seedId) => {
+        set({ isStarting: true, error: null });
+
+        try {
+          // Going to radio always starts the station over
+          const station = await fetchRadioStation({ seedType, seedId }, { reset: true });
+          const [firstTrack] = station.tracks;
+          if (!firstTrack) {
+            throw new Error("This station has nothing to play yet");
+          }
+
+          const { setQueue, play } = usePlayerStore.getState();
+          setQueue(station.tracks, 0, getRadioContext(station));
+          await play(firstTrack);
+
+          set({ ratings: station.ratings, isStarting: false });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Failed to start radio",
+            isStarting: false,
+          });
+        }
+      },
+
+      rateTrack: async (track, rating) => {
+        const seed = parseRadioContext(usePlayerStore.getState().playbackContext);
+        if (!seed) return;
+
+        const previousRatings = get().ratings;
+        const ratings = { ...previousRatings };
+        if (rating) {
+          ratings[track.id] = rating;
+        } else {
+          delete ratings[track.id];
+        }
+
+        // Optimistic update
+        set({ ratings, error: null });
+
+        // A thumbs-down skips the track straight away
+        const player = usePlayerStore.getState();
+        if (rating === "down" && player.currentTrack?.id === track.id) {
+          player.nextTrack();
+        }
+
+        try {
+          set({ ratings: await sendRadioFeedback(seed, track.id, rating) });
+        } catch (error) {
+          // Revert on failure
+          set({
+            ratings: previousRatings,
+            error: error instanceof Error ? error.message : "Failed to save radio feedback",
+          });
+        }
+      },
+
+      clearError: () => {
+        set({ error: null });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: "radio-store",
+    },
+  ),
+);
+
+export default useRadioStore;
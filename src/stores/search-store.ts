@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 import type { 
+  Album,
   SearchState, 
   SearchResults, 
   SearchFilters, 
@@ -60,178 +61,54 @@ const initialState: SearchState = {
   selectedResultType: "all",
 };
 
-// Search function - this will be replaced with actual API call later
+// The API returns up to 50 results per request
+const SEARCH_RESULT_LIMIT = 50;
+
+const emptyResults: SearchResults = {
+  tracks: [],
+  artists: [],
+  albums: [],
+  playlists: [],
+  totalResults: 0,
+};
+
+// JSON responses carry dates as strings
+const reviveAlbum = (album: Album): Album => ({
+  ...album,
+  releaseDate: new Date(album.releaseDate),
+});
+
+const reviveSearchResults = (results: SearchResults): SearchResults => ({
+  ...results,
+  tracks: results.tracks.map(track => ({
+    ...track,
+    album: reviveAlbum(track.album),
+    releaseDate: new Date(track.releaseDate),
+  })),
+  albums: results.albums.map(reviveAlbum),
+});
+
 const searchMusic = async (query: string, filters: SearchFilters): Promise<SearchResults> => {
-  // Import mock data
-  const mockData = await import("@/data/mock-music-database.json");
-  
   if (!query.trim()) {
-    return {
-      tracks: [],
-      artists: [],
-      albums: [],
-      playlists: [],
-      totalResults: 0,
-    };
-  }
-  
-  const searchTerm = query.toLowerCase().trim();
-  
-  // Search tracks
-  let tracks = mockData.tracks.filter(track => {
-    const trackData = mockData.tracks.find(t => t.id === track.id);
-    const artistData = mockData.artists.find(a => a.id === track.artist);
-    const albumData = mockData.albums.find(a => a.id === track.album);
-    
-    return trackData && artistData && albumData && (
-      trackData.title.toLowerCase().includes(searchTerm) ||
-      artistData.name.toLowerCase().includes(searchTerm) ||
-      albumData.title.toLowerCase().includes(searchTerm) ||
-      trackData.genres.some(genre => genre.toLowerCase().includes(searchTerm))
-    );
-  });
-  
-  // Search artists
-  let artists = mockData.artists.filter(artist =>
-    artist.name.toLowerCase().includes(searchTerm) ||
-    artist.bio?.toLowerCase().includes(searchTerm) ||
-    artist.genres.some(genre => genre.toLowerCase().includes(searchTerm))
-  );
-  
-  // Search albums
-  let albums = mockData.albums.filter(album => {
-    const artistData = mockData.artists.find(a => a.id === album.artist);
-    return artistData && (
-      album.title.toLowerCase().includes(searchTerm) ||
-      artistData.name.toLowerCase().includes(searchTerm) ||
-      album.genres.some(genre => genre.toLowerCase().includes(searchTerm))
-    );
-  });
-  
-  // Apply filters
-  if (filters.type && filters.type !== "all") {
-    switch (filters.type) {
-      case "track":
-        artists = [];
-        albums = [];
-        break;
-      case "artist":
-        tracks = [];
-        albums = [];
-        break;
-      case "album":
-        tracks = [];
-        artists = [];
-        break;
-      default:
-        break;
-    }
-  }
-  
-  if (filters.genre) {
-    tracks = tracks.filter(track => track.genres.includes(filters.genre!));
-    artists = artists.filter(artist => artist.genres.includes(filters.genre!));
-    albums = albums.filter(album => album.genres.includes(filters.genre!));
+    return emptyResults;
   }
-  
-  if (filters.explicit !== undefined) {
-    tracks = tracks.filter(track => track.isExplicit === filters.explicit);
+
+  const params = new URLSearchParams({ q: query.trim(), limit: String(SEARCH_RESULT_LIMIT) });
+  if (filters.type) params.set("type", filters.type);
+  if (filters.genre) params.set("genre", filters.genre);
+  if (filters.year) params.set("year", String(filters.year));
+  if (filters.explicit !== undefined) params.set("explicit", String(filters.explicit));
+  if (filters.sortBy) params.set("sortBy", filters.sortBy);
+  if (filters.sortOrder) params.set("sortOrder", filters.sortOrder);
+
+  const response = await fetch(`/api/search?${params}`);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || "Search failed");
   }
-  
-  // Apply sorting
-  const sortTracks = (tracks: typeof mockData.tracks) => {
-    return tracks.sort((a, b) => {
-      switch (filters.sortBy) {
-        case "popularity":
-          return filters.sortOrder === "asc" ? a.popularity - b.popularity : b.popularity - a.popularity;
-        case "release_date":
-          const dateA = new Date(a.releaseDate).getTime();
-          const dateB = new Date(b.releaseDate).getTime();
-          return filters.sortOrder === "asc" ? dateA - dateB : dateB - dateA;
-        case "alphabetical":
-          return filters.sortOrder === "asc" ? a.title.localeCompare(b.title) : b.title.localeCompare(a.title);
-        case "relevance":
-        default:
-          // For relevance, prioritize exact matches and higher popularity
-          const scoreA = (a.title.toLowerCase() === searchTerm ? 100 : 0) + a.popularity;
-          const scoreB = (b.title.toLowerCase() === searchTerm ? 100 : 0) + b.popularity;
-          return scoreB - scoreA;
-      }
-    });
-  };
-  
-  const sortArtists = (artists: typeof mockData.artists) => {
-    return artists.sort((a, b) => {
-      switch (filters.sortBy) {
-        case "popularity":
-          return filters.sortOrder === "asc" ? a.popularity - b.popularity : b.popularity - a.popularity;
-        case "alphabetical":
-          return filters.sortOrder === "asc" ? a.name.localeCompare(b.name) : b.name.localeCompare(a.name);
-        case "relevance":
-        default:
-          const scoreA = (a.name.toLowerCase() === searchTerm ? 100 : 0) + a.popularity;
-          const scoreB = (b.name.toLowerCase() === searchTerm ? 100 : 0) + b.popularity;
-          return scoreB - scoreA;
-      }
-    });
-  };
-  
-  const sortAlbums = (albums: typeof mockData.albums) => {
-    return albums.sort((a, b) => {
-      switch (filters.sortBy) {
-        case "release_date":
-          const dateA = new Date(a.releaseDate).getTime();
-          const dateB = new Date(b.releaseDate).getTime();
-          return filters.sortOrder === "asc" ? dateA - dateB : dateB - dateA;
-        case "alphabetical":
-          return filters.sortOrder === "asc" ? a.title.localeCompare(b.title) : b.title.localeCompare(a.title);
-        case "relevance":
-        default:
-          const scoreA = a.title.toLowerCase() === searchTerm ? 100 : 0;
-          const scoreB = b.title.toLowerCase() === searchTerm ? 100 : 0;
-          return scoreB - scoreA;
-      }
-    });
-  };
-  
-  // Transform data to match expected interface
-  const transformedTracks = sortTracks(tracks).map(track => {
-    const artist = mockData.artists.find(a => a.id === track.artist)!;
-    const album = mockData.albums.find(a => a.id === track.album)!;
-    
-    return {
-      ...track,
-      artist,
-      album: {
-        ...album,
-        artist,
-        releaseDate: new Date(album.releaseDate),
-        type: album.type as "album" | "single" | "compilation",
-      },
-      releaseDate: new Date(track.releaseDate),
-    };
-  });
-  
-  const transformedAlbums = sortAlbums(albums).map(album => {
-    const artist = mockData.artists.find(a => a.id === album.artist)!;
-    
-    return {
-      ...album,
-      artist,
-      releaseDate: new Date(album.releaseDate),
-      type: album.type as "album" | "single" | "compilation",
-    };
-  });
-  
-  const sortedArtists = sortArtists(artists);
-  
-  return {
-    tracks: transformedTracks,
-    artists: sortedArtists,
-    albums: transformedAlbums,
-    playlists: [], // No playlists in mock data yet
-    totalResults: transformedTracks.length + sortedArtists.length + transformedAlbums.length,
-  };
+
+  return reviveSearchResults(body.data);
 };
 
 export const useSearchStore = create<SearchStore>()(
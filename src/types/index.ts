@@ -39,6 +39,16 @@ export interface Track {
   genres: string[];
   releaseDate: Date;
   imageUrl?: string;
+  replayGain?: ReplayGain;
+}
+
+// Loudness normalization values, measured offline by scripts/analyze-audio.js.
+// Gains are in dB towards the reference level; peaks are linear (1 = full scale).
+export interface ReplayGain {
+  trackGain: number;
+  trackPeak: number;
+  albumGain?: number; // only when the whole album was measured
+  albumPeak?: number;
 }
 
 export interface Artist {
@@ -165,6 +175,38 @@ export interface PlaylistShareSettings {
   password?: string;
 }
 
+// Library Types
+export interface LikedTrack extends Track {
+  likedAt: Date;
+}
+
+export interface SavedAlbum extends Album {
+  savedAt: Date;
+}
+
+export interface FollowedPlaylist extends Playlist {
+  followedAt: Date;
+}
+
+export type LikedTrackSortField = 'likedAt' | 'title' | 'artist' | 'album' | 'duration';
+
+export interface LikedTracksQuery {
+  limit?: number;
+  offset?: number;
+  sortBy?: LikedTrackSortField;
+  sortOrder?: 'asc' | 'desc';
+  query?: string;
+  likedAfter?: Date;
+  likedBefore?: Date;
+}
+
+export interface LibraryPagination {
+  limit: number;
+  offset: number;
+  total: number;
+  hasMore: boolean;
+}
+
 // Music Player Types
 export interface PlayerState {
   currentTrack: Track | null;
@@ -172,30 +214,136 @@ export interface PlayerState {
   volume: number;
   progress: number; // current time in seconds
   duration: number; // total duration in seconds
-  queue: Track[];
+  queue: Track[]; // tracks of the playback context
+  upNext: Track[]; // tracks the user queued; these play before the rest of the context
+  playbackContext: PlaybackContext | null;
+  isPlayingUpNext: boolean; // current track came from upNext rather than queue[currentIndex]
   currentIndex: number;
   repeatMode: RepeatMode;
   shuffleMode: boolean;
+  shuffleOrder: number[]; // queue indices in play order while shuffled, empty otherwise
+  shuffleSeed: number;
+  playHistory: number[]; // queue indices played before the current track, oldest first
+  autoplay: boolean; // continue with similar tracks when the context runs out
+  autoplayStartIndex: number | null; // queue index where autoplay tracks begin, null when none were added
   isLoading: boolean;
   // New advanced features
   playbackRate: number;
   crossfadeDuration: number;
+  volumeNormalization: VolumeNormalization;
   isEqualizerEnabled: boolean;
   equalizerPreset: string;
   isVisualizerEnabled: boolean;
   audioQuality: 'low' | 'medium' | 'high' | 'lossless';
   skipCount: number;
   maxSkips: number;
+  sleepTimer: SleepTimer | null;
+}
+
+// Where a listener left off, saved per user so any of their devices can resume
+export interface PlayerSession {
+  queue: Track[];
+  upNext: Track[];
+  currentTrack: Track | null;
+  currentIndex: number;
+  isPlayingUpNext: boolean;
+  position: number; // seconds into the current track
+  playbackContext: PlaybackContext | null;
+  shuffleMode: boolean;
+  shuffleOrder: number[];
+  shuffleSeed: number;
+  repeatMode: RepeatMode;
+  playHistory: number[];
+  autoplayStartIndex: number | null;
+  updatedAt: Date;
 }
 
 export type RepeatMode = "off" | "track" | "context";
 
+// "album" keeps the level differences an album was mastered with
+export type VolumeNormalization = "track" | "album" | "off";
+
+// Sleep timer: stop after a number of minutes, or when the current track or
+// its context (album, playlist, ...) ends
+export type SleepTimerOption =
+  | { type: "minutes"; minutes: number }
+  | { type: "track" }
+  | { type: "context" };
+
+// Minute timers run down to `endsAt` (epoch ms) whether or not anything is playing
+export type SleepTimer =
+  | { type: "minutes"; minutes: number; endsAt: number }
+  | { type: "track" }
+  | { type: "context" };
+
 export interface PlaybackContext {
-  type: "playlist" | "album" | "artist" | "liked" | "queue";
+  type: "playlist" | "album" | "artist" | "liked" | "queue" | "radio";
   id?: string;
   name?: string;
 }
 
+// Lyrics Types
+export interface LyricsWord {
+  time: number; // seconds from the start of the track
+  text: string; // includes trailing whitespace, so words join back into the line
+}
+
+export interface LyricsLine {
+  time: number; // seconds from the start of the track
+  text: string; // empty for instrumental breaks
+  words?: LyricsWord[]; // word timings from enhanced LRC
+}
+
+export interface Lyrics {
+  trackId: string;
+  lines: LyricsLine[]; // time-coded lines, empty when the lyrics aren't synced
+  text: string; // the lyrics as plain text
+}
+
+// Radio Types
+export type RadioSeedType = "track" | "artist" | "genre";
+export type RadioRating = "up" | "down";
+
+export interface RadioStation {
+  seedType: RadioSeedType;
+  seedId: string; // track or artist id, or the genre name
+  name: string; // e.g. "Anti-Hero Radio"
+  imageUrl?: string;
+  tracks: Track[]; // the next batch; each call continues where the last one stopped
+  ratings: Record<string, RadioRating>; // trackId -> the listener's feedback on this station
+}
+
+// Connect Types
+export type ConnectDeviceType = "computer" | "smartphone" | "tablet";
+
+// One open player (a browser tab or app) of the signed-in listener
+export interface ConnectDevice {
+  id: string;
+  name: string; // e.g. "Chrome on macOS"
+  type: ConnectDeviceType;
+  isPlaying: boolean;
+  nowPlaying: {
+    trackId: string;
+    title: string;
+    artist: string;
+  } | null;
+  progress: number; // seconds
+  duration: number; // seconds
+  volume: number; // 0-1
+  updatedAt: string;
+}
+
+// What one device can ask another to do
+export type ConnectCommand =
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "next" }
+  | { type: "previous" }
+  | { type: "seek"; position: number }
+  | { type: "volume"; volume: number }
+  | { type: "transfer"; to: string } // hand playback over to device `to`
+  | { type: "takeover" }; // continue the saved session here
+
 // UI State Types
 export interface UIState {
   sidebarOpen: boolean;
@@ -242,6 +390,20 @@ export interface SearchResults {
   albums: Album[];
   playlists: Playlist[];
   totalResults: number;
+  facets?: SearchFacets;
+}
+
+export interface SearchFacetCount<T> {
+  value: T;
+  count: number;
+}
+
+// Counts of matching results per filter value. Each facet applies every
+// active filter except its own, so sibling values stay selectable.
+export interface SearchFacets {
+  genres: SearchFacetCount<string>[];
+  years: SearchFacetCount<number>[];
+  explicit: SearchFacetCount<boolean>[];
 }
 
 export interface SearchFilters {
@@ -370,12 +532,22 @@ export interface ListeningHistory {
   context?: PlaybackContext;
 }
 
+export interface RecentlyPlayedItem extends ListeningHistory {
+  track: Track;
+  playCount: number; // consecutive replays collapsed into this entry
+}
+
+export interface RecentlyPlayedPage {
+  items: RecentlyPlayedItem[];
+  nextCursor: string | null; // pass as `before` to fetch older plays
+}
+
 export interface UserPreferences {
   favoriteGenres: string[];
   preferredAudioQuality: "low" | "medium" | "high" | "lossless";
   autoplay: boolean;
   crossfade: boolean;
-  normalizeVolume: boolean;
+  volumeNormalization: VolumeNormalization;
   showExplicitContent: boolean;
   privateSession: boolean;
 }
@@ -401,7 +573,7 @@ export interface FeatureGate {
   };
 }
 
-// Offline Download Types (Mock Implementation)
+// Offline Download Types
 export interface OfflineTrack {
   trackId: string;
   downloadedAt: Date;